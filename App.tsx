@@ -18,26 +18,14 @@ import PageTestScreen from './src/screens/PageTestScreen'; // Import PageTestScr
 import CourseBuilderScreen from './src/screens/CourseBuilderScreen'; // Import new CourseBuilderScreen
 import ModernCourseBuilderScreen from './src/screens/ModernCourseBuilderScreen'; // Modern CourseBuilder
 import ImprovedGrainEditorScreen from './src/screens/ImprovedGrainEditorScreen'; // Import improved grain editor
+import PageTemplatesScreen from './src/screens/PageTemplatesScreen'; // Admin page templates
+import CourseReleasesScreen from './src/screens/CourseReleasesScreen'; // Published course versions
+import CourseImportScreen from './src/screens/CourseImportScreen'; // Course package import
 import Auth from './src/components/Auth';
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
 import { SidebarProvider } from './src/contexts/SidebarContext';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
-
-
-// Define the stack navigator types
-type RootStackParamList = {
-  CourseList: undefined;
-  ModernCourseList: undefined; // New modern design
-  CourseEdit: { courseId: string | null; refresh?: boolean };
-  CourseBuilder: { courseId: string; refresh?: boolean }; // New improved course builder
-  ModuleEdit: { courseId: string; moduleId: string | null; refresh?: boolean };
-  LessonEdit: { moduleId: string; lessonId: string | null; refresh?: boolean };
-  PageEdit: { lessonId: string; pageId?: string | null; refresh?: boolean }; // Add PageEditScreen
-  GrainEdit: { pageId: string; grainId?: string | null; position?: number; refresh?: boolean }; // Add GrainEditScreen
-  ImprovedGrainEdit: { pageId: string; grainId?: string | null; position?: number; expectedGrainType?: string; pageType?: string; refresh?: boolean }; // New improved grain editor
-  PageTest: { pageId: string; pageTitle?: string }; // Add PageTestScreen for "Provar Página" feature
-  ProfileEdit: undefined; // Add ProfileEditScreen to the list
-};
+import { RootStackParamList } from './src/types';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -233,6 +221,24 @@ function MainContent() {
             component={ProfileEditScreen}
             options={{ title: "Editar Perfil" }}
           />
+          <Stack.Screen
+            name="PageTemplates"
+            component={PageTemplatesScreen}
+            options={{
+              title: "Modelos de Página",
+              headerShown: false, // Hide header for modern design
+            }}
+          />
+          <Stack.Screen
+            name="CourseReleases"
+            component={CourseReleasesScreen}
+            options={{ title: "Versões Publicadas" }}
+          />
+          <Stack.Screen
+            name="CourseImport"
+            component={CourseImportScreen}
+            options={{ title: "Importar Curso" }}
+          />
         </Stack.Navigator>
         <StatusBar style="auto" />
       </View>
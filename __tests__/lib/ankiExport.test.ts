@@ -0,0 +1,146 @@
+import { buildAnkiDeck, collectAnkiNotes, getAnkiFileName, getAnkiMediaUrls } from '../../src/lib/ankiExport';
+import { buildCoursePackage } from '../../src/lib/courseExport';
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+const media = (path: string) => `https://x.supabase.co/storage/v1/object/public/course-content/${path}`;
+
+const grain = (id: string, position: number, type: string, content: object) => ({
+  id,
+  page_id: 'p1',
+  position,
+  type,
+  content,
+  ...timestamps,
+});
+
+const tree = {
+  id: 'c1',
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: null,
+  creator_id: 'u1',
+  published: true,
+  ...timestamps,
+  modules: [
+    {
+      id: 'm1',
+      course_id: 'c1',
+      title: 'Os animais',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        {
+          id: 'l1',
+          module_id: 'm1',
+          title: 'Na granxa',
+          content: null,
+          position: 1,
+          ...timestamps,
+          pages: [
+            {
+              id: 'p1',
+              lesson_id: 'l1',
+              title: '',
+              content: null,
+              media_url: null,
+              position: 1,
+              type: 'Custom',
+              grain_pattern: null,
+              grains_count: 5,
+              completion_status: 'complete',
+              ...timestamps,
+              grains: [
+                grain('g1', 1, 'pairsOfText', {
+                  pairs: [
+                    { left: 'can', right: 'perro' },
+                    { left: 'gato', right: 'gato <3' },
+                    { left: '', right: 'rato' },
+                  ],
+                }),
+                grain('g2', 2, 'textToGuess', {
+                  imageUrl: media('img/vaca.png'),
+                  correctAnswer: 'vaca',
+                  falseAlternatives: ['a', 'b', 'c'],
+                }),
+                grain('g3', 3, 'textToGuess', {
+                  imageUrl: media('img/vaca.png'),
+                  correctAnswer: 'vaca',
+                  falseAlternatives: ['d', 'e', 'f'],
+                }),
+                grain('g4', 4, 'audioToGuess', {
+                  correctWord: 'porco',
+                  correctAudioUrl: media('audio/porco.mp3'),
+                  falseAudioUrls: ['', '', ''],
+                }),
+                grain('g5', 5, 'testQuestion', {
+                  question: 'Q',
+                  correctAnswer: 'a',
+                  falseAlternatives: ['b', 'c', 'd'],
+                }),
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const coursePackage = buildCoursePackage(tree as never, '2026-01-01T00:00:00.000Z');
+
+describe('collectAnkiNotes', () => {
+  it('extracts word/answer notes per family, tagged with module and lesson', () => {
+    const notes = collectAnkiNotes(coursePackage);
+
+    expect(notes.map(({ guid, family, answer }) => ({ guid, family, answer }))).toEqual([
+      { guid: 'galeguia-g1-1', family: 'vocabulary', answer: 'perro' },
+      { guid: 'galeguia-g1-2', family: 'vocabulary', answer: 'gato <3' },
+      { guid: 'galeguia-g2', family: 'image', answer: 'vaca' },
+      { guid: 'galeguia-g4', family: 'audio', answer: 'porco' },
+    ]);
+    expect(notes[0].tag).toBe('Os_animais::Na_granxa');
+    expect(getAnkiMediaUrls(notes)).toEqual([media('img/vaca.png'), media('audio/porco.mp3')]);
+  });
+});
+
+describe('buildAnkiDeck', () => {
+  it('writes one import file per family with the bundled media', () => {
+    const { files, counts, missingAudio } = buildAnkiDeck(coursePackage, {
+      media: { [media('img/vaca.png')]: new Uint8Array([1]), [media('audio/porco.mp3')]: new Uint8Array([2]) },
+    });
+    const vocabulary = files.find(file => file.path === 'galeguia-vocabulario.txt')?.data as string;
+
+    expect(files.map(file => file.path)).toEqual([
+      'galeguia-vocabulario.txt',
+      'galeguia-imagens.txt',
+      'galeguia-audio.txt',
+      'media/img_vaca.png',
+      'media/audio_porco.mp3',
+    ]);
+    expect(counts).toEqual({ vocabulary: 2, image: 1, audio: 1 });
+    expect(missingAudio).toEqual([]);
+    expect(vocabulary.split('\n').slice(0, 6)).toEqual([
+      '#separator:tab',
+      '#html:true',
+      '#deck:Galego básico',
+      '#columns:GUID\tFrente\tVerso\tTags',
+      '#guid column:1',
+      '#tags column:4',
+    ]);
+    expect(vocabulary).toContain('galeguia-g1-2\tgato\tgato &lt;3\tOs_animais::Na_granxa\n');
+    expect(files[1].data).toContain('galeguia-g2\t<img src="img_vaca.png">\tvaca');
+    expect(files[2].data).toContain('galeguia-g4\t[sound:audio_porco.mp3]\tporco');
+  });
+
+  it('keeps image URLs and leaves out audio that was not downloaded', () => {
+    const { files, missingAudio } = buildAnkiDeck(coursePackage);
+
+    expect(files.map(file => file.path)).toEqual(['galeguia-vocabulario.txt', 'galeguia-imagens.txt']);
+    expect(files[1].data).toContain(`<img src="${media('img/vaca.png')}">`);
+    expect(missingAudio.map(note => note.guid)).toEqual(['galeguia-g4']);
+  });
+
+  it('names the archive after the course', () => {
+    expect(getAnkiFileName(coursePackage)).toBe('galego-basico.anki.zip');
+  });
+});
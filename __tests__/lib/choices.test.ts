@@ -0,0 +1,198 @@
+import {
+  getChoiceIssues,
+  getChoiceOptions,
+  isChoiceSelectionCorrect,
+  isMultipleAnswer,
+} from "../../src/lib/choices";
+import { evaluateGrainCompleteness } from "../../src/lib/grainCompleteness";
+import { GRAIN_CSV_LAYOUTS, parseGrainsCsv } from "../../src/lib/grainCsv";
+import {
+  normalizeGrainContent,
+  validateGrainContent,
+} from "../../src/lib/grainValidation";
+import { buildWorksheet } from "../../src/lib/worksheet";
+import { TestQuestionContent } from "../../src/types";
+
+const content: TestQuestionContent = {
+  question: "Que cores ten a bandeira galega?",
+  correctAnswer: "branco",
+  extraCorrectAnswers: ["azul"],
+  falseAlternatives: ["vermello"],
+};
+
+describe("choice options", () => {
+  it("lists the right and wrong options of choice grains only", () => {
+    expect(
+      getChoiceOptions("testQuestion", {
+        ...content,
+        falseAlternatives: ["vermello", " "],
+      }),
+    ).toEqual({
+      correct: ["branco", "azul"],
+      distractors: ["vermello"],
+    });
+    expect(
+      getChoiceOptions("imagesToGuess", {
+        correctImageUrl: "a.png",
+        falseImageUrls: ["b.png"],
+        correctWord: "a",
+      }),
+    ).toEqual({
+      correct: ["a.png"],
+      distractors: ["b.png"],
+    });
+    expect(getChoiceOptions("orderWords", {})).toBeNull();
+  });
+
+  it("needs exactly the right options picked", () => {
+    const options = getChoiceOptions("testQuestion", content)!;
+
+    expect(isMultipleAnswer(options)).toBe(true);
+    expect(isChoiceSelectionCorrect(options, ["azul", "branco"])).toBe(true);
+    expect(isChoiceSelectionCorrect(options, ["branco"])).toBe(false);
+    expect(
+      isChoiceSelectionCorrect(options, ["branco", "azul", "vermello"]),
+    ).toBe(false);
+    expect(
+      isMultipleAnswer(
+        getChoiceOptions("testQuestion", {
+          ...content,
+          extraCorrectAnswers: [],
+        })!,
+      ),
+    ).toBe(false);
+  });
+
+  it("allows at most eight options", () => {
+    const many = {
+      ...content,
+      extraCorrectAnswers: ["azul", "a", "b"],
+      falseAlternatives: ["c", "d", "e", "f", "g"],
+    };
+
+    expect(getChoiceIssues("testQuestion", content)).toEqual([]);
+    expect(getChoiceIssues("testQuestion", many)).toEqual([
+      "Pode haver até 8 opções (há 9).",
+    ]);
+  });
+});
+
+describe("choice content", () => {
+  it("accepts 1 to 7 distractors and keeps legacy rows as they were", () => {
+    expect(validateGrainContent("testQuestion", content).valid).toBe(true);
+    expect(
+      validateGrainContent("testQuestion", {
+        ...content,
+        falseAlternatives: [],
+      }).errors.map((error) => error.code),
+    ).toEqual(["invalid_length"]);
+    expect(
+      normalizeGrainContent("testQuestion", {
+        question: "Q",
+        correctAnswer: "a",
+        falseAlternatives: ["b"],
+      }).repaired,
+    ).toBe(false);
+    expect(
+      normalizeGrainContent("testQuestion", {
+        question: "Q",
+        correctAnswer: "a",
+        extraCorrectAnswers: [],
+      }).content,
+    ).toEqual({
+      question: "Q",
+      correctAnswer: "a",
+      falseAlternatives: ["", "", ""],
+    });
+  });
+
+  it("requires distinct, filled options", () => {
+    expect(
+      evaluateGrainCompleteness({ type: "testQuestion", content }).status,
+    ).toBe("complete");
+    expect(
+      evaluateGrainCompleteness({
+        type: "testQuestion",
+        content: { ...content, falseAlternatives: ["azul", ""] },
+      }).missing,
+    ).toEqual([
+      { field: "falseAlternatives[0]", reason: "duplicate" },
+      { field: "falseAlternatives[1]", reason: "empty" },
+    ]);
+  });
+
+  it("reads any number of false columns and the extra answers from spreadsheets", () => {
+    const layout = GRAIN_CSV_LAYOUTS.testQuestion;
+    const { rows } = parseGrainsCsv(
+      "position,type,question,correctAnswer,false1,false2,extraCorrectAnswers\n1,testQuestion,Q,a,b,,c | d",
+    );
+
+    expect(layout.read(rows[0].cells)).toEqual({
+      question: "Q",
+      correctAnswer: "a",
+      falseAlternatives: ["b"],
+      extraCorrectAnswers: ["c", "d"],
+    });
+    expect(
+      layout.read(layout.write(content as unknown as Record<string, unknown>)),
+    ).toEqual(content);
+  });
+
+  it("lets image and audio grains have several right options", () => {
+    const images = {
+      correctWord: "gato",
+      correctImageUrl: "gato.png",
+      extraCorrectImageUrls: ["gato2.png"],
+      falseImageUrls: ["can.png"],
+    };
+
+    expect(getChoiceOptions("imagesToGuess", images)).toEqual({
+      correct: ["gato.png", "gato2.png"],
+      distractors: ["can.png"],
+    });
+    expect(
+      normalizeGrainContent("audioToGuess", {
+        correctWord: "gato",
+        correctAudioUrl: "gato.mp3",
+        falseAudioUrls: ["can.mp3"],
+        extraCorrectAudioUrls: ["gato2.mp3", ""],
+      }).content,
+    ).toEqual({
+      correctWord: "gato",
+      correctAudioUrl: "gato.mp3",
+      falseAudioUrls: ["can.mp3"],
+      extraCorrectAudioUrls: ["gato2.mp3", ""],
+    });
+    expect(
+      evaluateGrainCompleteness({
+        type: "imagesToGuess",
+        content: { ...images, falseImageUrls: ["gato2.png"] },
+      }).missing,
+    ).toEqual([{ field: "falseImageUrls[0]", reason: "duplicate" }]);
+
+    const layout = GRAIN_CSV_LAYOUTS.imagesToGuess;
+    expect(
+      layout.read(layout.write(images as unknown as Record<string, unknown>)),
+    ).toEqual(images);
+  });
+
+  it("keys every right option on worksheets", () => {
+    const [section] = buildWorksheet({
+      title: "Bandeira",
+      pages: [
+        {
+          title: "Cores",
+          position: 1,
+          grains: [{ id: "g", position: 1, type: "testQuestion", content }],
+        },
+      ],
+    });
+
+    expect(section.exercises[0].instruction).toBe(
+      "Pergunta (escolha todas as certas):",
+    );
+    expect(section.exercises[0].answer).toMatch(
+      /^[ABC]\) (branco|azul), [ABC]\) (branco|azul)$/,
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { getClozeChoices, getClozeIssues, isClozeBlankCorrect, scoreCloze, splitClozePassage } from '../../src/lib/cloze';
+import { evaluateGrainCompleteness } from '../../src/lib/grainCompleteness';
+import { createEmptyGrainContent } from '../../src/lib/grainContent';
+import { GRAIN_CSV_LAYOUTS } from '../../src/lib/grainCsv';
+import { normalizeGrainContent, validateGrainContent } from '../../src/lib/grainValidation';
+import { parseLessonMarkdown, serializeLessonMarkdown } from '../../src/lib/lessonMarkdown';
+import { ClozeContent } from '../../src/types';
+
+const content: ClozeContent = {
+  passage: 'Eu [BLANK:1] en Santiago e [BLANK:2] galego.',
+  mode: 'typing',
+  blanks: [
+    { answers: ['vivo', 'moro'], options: ['vives'] },
+    { answers: ['falo'], options: ['fala', 'falan'] },
+  ],
+};
+
+describe('cloze passages', () => {
+  it('splits the passage into text and numbered blanks', () => {
+    expect(splitClozePassage(content.passage)).toEqual([
+      { kind: 'text', text: 'Eu ' },
+      { kind: 'blank', number: 1 },
+      { kind: 'text', text: ' en Santiago e ' },
+      { kind: 'blank', number: 2 },
+      { kind: 'text', text: ' galego.' },
+    ]);
+    expect(getClozeChoices(content.blanks[1])).toEqual(['fala', 'falan', 'falo']);
+  });
+
+  it('scores every blank on its own', () => {
+    expect(isClozeBlankCorrect(content, 1, ' Moro ')).toBe(true);
+    expect(isClozeBlankCorrect({ ...content, mode: 'dropdown' }, 1, 'Moro')).toBe(false);
+    expect(isClozeBlankCorrect(content, 3, 'vivo')).toBe(false);
+    expect(scoreCloze(content, { 1: 'vivo', 2: 'fala' })).toEqual({ correct: 1, total: 2 });
+    expect(scoreCloze(content, {})).toEqual({ correct: 0, total: 2 });
+  });
+
+  it('flags markers and blanks that do not match', () => {
+    expect(getClozeIssues(content)).toEqual([]);
+    expect(
+      getClozeIssues({
+        passage: 'Eu [BLANK:1] e [BLANK:1] [BLANK:3]',
+        mode: 'dropdown',
+        blanks: [
+          { answers: ['vivo'], options: [] },
+          { answers: [' '], options: ['x'] },
+        ],
+      })
+    ).toEqual([
+      'A lacuna 1 aparece mais de uma vez no texto.',
+      'A lacuna 3 não tem respostas definidas.',
+      'A lacuna 1 precisa de opções erradas no modo lista.',
+      'A lacuna 2 não está marcada no texto.',
+      'A lacuna 2 precisa de pelo menos uma resposta.',
+    ]);
+  });
+});
+
+describe('cloze content', () => {
+  it('validates the mode and the blanks and repairs them', () => {
+    expect(validateGrainContent('cloze', createEmptyGrainContent('cloze')).valid).toBe(true);
+    expect(
+      validateGrainContent('cloze', { ...content, mode: 'list', blanks: [{ answers: [], options: 'x' }] }).errors.map(
+        error => [error.field, error.code]
+      )
+    ).toEqual([
+      ['mode', 'invalid_type'],
+      ['blanks[0].answers', 'invalid_length'],
+      ['blanks[0].options', 'invalid_type'],
+    ]);
+    expect(normalizeGrainContent('cloze', { passage: 'a [BLANK:1]', mode: 'list', blanks: [{ answers: 'x' }] }).content).toEqual({
+      passage: 'a [BLANK:1]',
+      mode: 'typing',
+      blanks: [{ answers: [''], options: [] }],
+    });
+  });
+
+  it('needs an answer for every blank, and options in dropdown mode', () => {
+    expect(evaluateGrainCompleteness({ type: 'cloze', content }).status).toBe('complete');
+    expect(
+      evaluateGrainCompleteness({
+        type: 'cloze',
+        content: { ...content, mode: 'dropdown', blanks: [{ answers: ['vivo'], options: [] }] },
+      }).missing
+    ).toEqual([{ field: 'blanks[0].options[0]', reason: 'empty' }]);
+  });
+
+  it('round-trips through Markdown and spreadsheets', () => {
+    const lesson = {
+      module: null,
+      title: 'Lacunas',
+      content: null,
+      pages: [
+        {
+          title: 'Completar',
+          position: 1,
+          type: 'Custom' as const,
+          grain_pattern: null,
+          content: null,
+          media_url: null,
+          grains: [{ position: 1, type: 'cloze' as const, content }],
+        },
+      ],
+    };
+    const markdown = serializeLessonMarkdown(lesson);
+
+    expect(markdown).toContain('mode: typing\nblanks:\n- vivo | moro => vives\n- falo => fala | falan\n:::');
+    expect(parseLessonMarkdown(markdown)).toEqual({ lesson, errors: [] });
+    expect(parseLessonMarkdown(markdown.replace('mode: typing', 'mode: list')).errors).toEqual([
+      { line: 7, message: 'O valor de "mode" deve ser um de: typing, dropdown.' },
+    ]);
+
+    const layout = GRAIN_CSV_LAYOUTS.cloze;
+    expect(layout.write(content as unknown as Record<string, unknown>)).toMatchObject({
+      mode: 'typing',
+      blank1: 'vivo | moro => vives',
+      blank3: '',
+    });
+    expect(layout.read(layout.write(content as unknown as Record<string, unknown>))).toEqual(content);
+  });
+});
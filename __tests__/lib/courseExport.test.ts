@@ -0,0 +1,107 @@
+import {
+  buildCoursePackage,
+  COURSE_PACKAGE_FORMAT,
+  COURSE_PACKAGE_VERSION,
+  getCoursePackageFileName,
+  serializeCoursePackage,
+} from '../../src/lib/courseExport';
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+const media = (path: string) => `https://x.supabase.co/storage/v1/object/public/course-content/${path}`;
+
+const tree = {
+  id: 'c1',
+  title: 'Galego Básico!',
+  description: 'Primeiros pasos',
+  cover_image_url: media('covers/capa.png'),
+  creator_id: 'u1',
+  published: false,
+  ...timestamps,
+  modules: [
+    {
+      id: 'm1',
+      course_id: 'c1',
+      title: 'Animais',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        {
+          id: 'l1',
+          module_id: 'm1',
+          title: 'Na granxa',
+          content: null,
+          position: 1,
+          ...timestamps,
+          pages: [
+            {
+              id: 'p1',
+              lesson_id: 'l1',
+              title: '',
+              content: null,
+              media_url: 'https://example.com/externo.png',
+              position: 1,
+              type: 'Custom',
+              grain_pattern: ['textToGuess', 'textToGuess'],
+              grains_count: 2,
+              completion_status: 'complete',
+              ...timestamps,
+              grains: [
+                {
+                  id: 'g1',
+                  page_id: 'p1',
+                  position: 1,
+                  type: 'textToGuess',
+                  content: { imageUrl: media('img/vaca.png'), correctAnswer: 'vaca', falseAlternatives: ['can', 'gato', 'porco'] },
+                  ...timestamps,
+                },
+                {
+                  id: 'g2',
+                  page_id: 'p1',
+                  position: 2,
+                  type: 'textToGuess',
+                  content: { imageUrl: media('img/vaca.png'), correctAnswer: 'vaca', falseAlternatives: ['año', 'pato', 'galo'] },
+                  ...timestamps,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('buildCoursePackage', () => {
+  const coursePackage = buildCoursePackage(tree as never, '2026-01-01T00:00:00.000Z');
+
+  it('serializes the course with its pages and typed grains', () => {
+    const page = coursePackage.modules[0].lessons[0].pages[0];
+
+    expect(coursePackage).toMatchObject({
+      format: COURSE_PACKAGE_FORMAT,
+      version: COURSE_PACKAGE_VERSION,
+      exported_at: '2026-01-01T00:00:00.000Z',
+      course: { id: 'c1', title: 'Galego Básico!', description: 'Primeiros pasos' },
+    });
+    expect(page).toMatchObject({ type: 'Custom', grain_pattern: ['textToGuess', 'textToGuess'] });
+    expect(page.grains.map(grain => grain.id)).toEqual(['g1', 'g2']);
+    expect(page.grains[0]).not.toHaveProperty('page_id');
+  });
+
+  it('lists each course media file once and skips external URLs', () => {
+    expect(coursePackage.media).toEqual([
+      { path: 'covers/capa.png', url: media('covers/capa.png') },
+      { path: 'img/vaca.png', url: media('img/vaca.png') },
+    ]);
+  });
+
+  it('round-trips through JSON', () => {
+    expect(JSON.parse(serializeCoursePackage(coursePackage))).toEqual(coursePackage);
+  });
+});
+
+describe('getCoursePackageFileName', () => {
+  it('slugs the course title', () => {
+    expect(getCoursePackageFileName(buildCoursePackage(tree as never))).toBe('galego-basico.galeguia.json');
+  });
+});
@@ -0,0 +1,125 @@
+import { CourseHealth } from '../../src/lib/courseHealth';
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+
+const grain = (id: string, position: number, type: string, content: unknown) => ({
+  id,
+  page_id: 'p1',
+  position,
+  type,
+  content,
+  ...timestamps,
+});
+
+const tree = (grains: ReturnType<typeof grain>[], page: Record<string, unknown> = {}) => ({
+  id: 'c1',
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: null,
+  creator_id: 'u1',
+  published: false,
+  ...timestamps,
+  modules: [
+    {
+      id: 'm1',
+      course_id: 'c1',
+      title: 'Primeiro',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        {
+          id: 'l1',
+          module_id: 'm1',
+          title: 'Lição',
+          content: null,
+          position: 1,
+          ...timestamps,
+          pages: [
+            {
+              id: 'p1',
+              lesson_id: 'l1',
+              title: 'Página',
+              content: null,
+              media_url: null,
+              position: 1,
+              type: 'Custom',
+              grain_pattern: ['textToComplete', 'imagesToGuess'],
+              template_id: null,
+              template_version: null,
+              grains_count: grains.length,
+              completion_status: 'partial',
+              grains,
+              ...timestamps,
+              ...page,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+const phrase = grain('g1', 1, 'textToComplete', {
+  phrase: 'O gato subiu ao telhado.',
+  correctAnswer: 'telhado',
+  falseAlternatives: ['Telhado', 'chan', 'chan'],
+});
+
+const images = grain('g2', 2, 'imagesToGuess', {
+  correctImageUrl: 'https://cdn.test/casa.png',
+  falseImageUrls: ['https://cdn.test/can.png', 'https://cdn.test/gato.png', 'file:///tmp/rua.png'],
+  correctWord: 'casa',
+});
+
+describe('CourseHealth.analyze', () => {
+  it('reports grain issues with a deep link to the grain', () => {
+    const { issues } = CourseHealth.analyze(tree([phrase, images]) as never);
+    const codes = issues.map(issue => [issue.code, issue.location.grainId, issue.field]);
+
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        ['false_equals_answer', 'g1', 'falseAlternatives[0]'],
+        ['duplicate_false_alternative', 'g1', 'falseAlternatives[2]'],
+        ['missing_blank', 'g1', 'phrase'],
+        ['invalid_media_url', 'g2', 'falseImageUrls[2]'],
+      ])
+    );
+    expect(issues[0].location).toEqual({ courseId: 'c1', moduleId: 'm1', lessonId: 'l1', pageId: 'p1', grainId: 'g1' });
+  });
+
+  it('flags grains that no longer match the page pattern and missing slots', () => {
+    const { issues } = CourseHealth.analyze(tree([{ ...images, position: 1 }]) as never);
+
+    expect(issues.find(issue => issue.code === 'pattern_mismatch')?.location.grainId).toBe('g2');
+    expect(issues.find(issue => issue.code === 'missing_grains')?.location).toEqual({
+      courseId: 'c1',
+      moduleId: 'm1',
+      lessonId: 'l1',
+      pageId: 'p1',
+    });
+  });
+
+  it('lists errors before warnings and counts them', () => {
+    const report = CourseHealth.analyze(tree([phrase], { title: '' }) as never);
+    const severities = report.issues.map(issue => issue.severity);
+
+    expect(severities.indexOf('warning')).toBeGreaterThan(severities.lastIndexOf('error'));
+    expect(report.counts.warning).toBeGreaterThan(0);
+    expect(report.issues.some(issue => issue.code === 'empty_title' && issue.location.pageId === 'p1')).toBe(true);
+  });
+});
+
+describe('CourseHealth.findBrokenMedia', () => {
+  it('checks each http media URL once and reports the unreachable ones', async () => {
+    const check = jest.fn(async (url: string) => !url.includes('gato'));
+    const course = tree([images, { ...images, id: 'g3', position: 3 }]);
+
+    const broken = await CourseHealth.findBrokenMedia(course as never, check);
+
+    expect(check).toHaveBeenCalledTimes(3);
+    expect(broken).toEqual(['https://cdn.test/gato.png']);
+    expect(
+      CourseHealth.analyze(course as never, { brokenMediaUrls: broken }).issues.filter(issue => issue.code === 'broken_media')
+    ).toHaveLength(2);
+  });
+});
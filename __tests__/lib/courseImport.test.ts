@@ -0,0 +1,203 @@
+import { buildCoursePackage, serializeCoursePackage } from '../../src/lib/courseExport';
+import { importCoursePackage, matchMediaFiles, parseCoursePackage, planCourseImport } from '../../src/lib/courseImport';
+import { CoursePackage } from '../../src/types';
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+const media = (path: string) => `https://x.supabase.co/storage/v1/object/public/course-content/${path}`;
+
+const grain = (id: string, position: number, content: Record<string, unknown> = {}) => ({
+  id,
+  page_id: 'p1',
+  position,
+  type: 'textToGuess',
+  content: { imageUrl: media('img/vaca.png'), correctAnswer: 'vaca', falseAlternatives: ['can', 'gato', 'porco'], ...content },
+  ...timestamps,
+});
+
+const lesson = (id: string, title: string, grains = [grain('g1', 1)]) => ({
+  id,
+  module_id: 'm1',
+  title,
+  content: null,
+  position: 1,
+  ...timestamps,
+  pages: [
+    {
+      id: `${id}-p1`,
+      lesson_id: id,
+      title: '',
+      content: null,
+      media_url: null,
+      position: 1,
+      type: 'Custom',
+      grain_pattern: grains.map(() => 'textToGuess'),
+      grains_count: grains.length,
+      completion_status: 'complete',
+      grains,
+      ...timestamps,
+    },
+  ],
+});
+
+const courseTree = (id: string, modules: { id: string; title: string; lessons: ReturnType<typeof lesson>[] }[]) => ({
+  id,
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: null,
+  creator_id: 'u1',
+  published: false,
+  ...timestamps,
+  modules: modules.map((module, index) => ({ ...module, course_id: id, position: index + 1, ...timestamps })),
+});
+
+const source = courseTree('c1', [
+  { id: 'm1', title: 'Animais', lessons: [lesson('l1', 'Na granxa'), lesson('l2', 'No bosque')] },
+  { id: 'm2', title: 'Cores', lessons: [lesson('l3', 'Vermello')] },
+]);
+
+const exported = (): CoursePackage => {
+  const coursePackage = buildCoursePackage(source as never, '2026-01-01T00:00:00.000Z');
+  coursePackage.media[0].file = 'media/img/vaca.png';
+  return coursePackage;
+};
+
+describe('parseCoursePackage', () => {
+  it('accepts exported packages', () => {
+    const { coursePackage, errors } = parseCoursePackage(serializeCoursePackage(exported()));
+
+    expect(errors).toEqual([]);
+    expect(coursePackage?.modules).toHaveLength(2);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(parseCoursePackage('not json').errors[0].message).toContain('JSON');
+    expect(parseCoursePackage('{"format":"other"}').errors).toHaveLength(1);
+    expect(parseCoursePackage(JSON.stringify({ ...exported(), version: 99 })).errors[0].message).toContain('99');
+  });
+
+  it('reports every grain that does not match its schema, with its location', () => {
+    const coursePackage = exported();
+    const page = coursePackage.modules[0].lessons[1].pages[0];
+    page.grains[0].content = { imageUrl: 'x', correctAnswer: 'vaca', falseAlternatives: [] } as never;
+    page.type = 'Unknown' as never;
+
+    const { coursePackage: parsed, errors } = parseCoursePackage(JSON.stringify(coursePackage));
+
+    expect(parsed).toBeNull();
+    expect(errors.map(error => error.path)).toEqual([
+      'Módulo 1 › Lição 2 › Página 1',
+      'Módulo 1 › Lição 2 › Página 1 › Grão 1 (Texto para Adivinhar)',
+    ]);
+    expect(errors[1].message).toContain('falseAlternatives');
+  });
+});
+
+describe('planCourseImport', () => {
+  it('creates the whole tree as a new course', () => {
+    const plan = planCourseImport(exported(), { mediaFiles: ['media/img/vaca.png'] });
+
+    expect(plan.targetCourseId).toBeNull();
+    expect(plan.counts).toEqual({ modules: 2, lessons: 3, pages: 3, grains: 3 });
+    expect(plan.actions[0]).toEqual({ kind: 'create', level: 'course', label: 'Galego básico' });
+    expect(plan.media.upload.map(item => item.path)).toEqual(['img/vaca.png']);
+    expect(plan.payload.modules[0]).toMatchObject({ target_module_id: null, title: 'Animais' });
+    expect(plan.payload.modules[0].lessons[0].pages[0].grains[0]).not.toHaveProperty('id');
+  });
+
+  it('appends new modules and replaces lessons with the same title when merging', () => {
+    const target = courseTree('c9', [
+      { id: 't1', title: ' animais ', lessons: [lesson('t1-l1', 'Na Granxa'), lesson('t1-l2', 'No mar')] },
+    ]);
+
+    const plan = planCourseImport(exported(), { target: target as never });
+
+    expect(plan.targetCourseId).toBe('c9');
+    expect(plan.actions).toEqual([
+      { kind: 'merge', level: 'module', label: ' animais ' },
+      { kind: 'replace', level: 'lesson', label: 'Animais › Na granxa' },
+      { kind: 'create', level: 'lesson', label: 'Animais › No bosque' },
+      { kind: 'create', level: 'module', label: 'Cores' },
+      { kind: 'create', level: 'lesson', label: 'Cores › Vermello' },
+    ]);
+    expect(plan.counts.modules).toBe(1);
+    expect(plan.payload.modules.map(module => module.target_module_id)).toEqual(['t1', null]);
+    expect(plan.payload.modules[0].lessons.map(item => item.replace_lesson_id)).toEqual(['t1-l1', null]);
+  });
+
+  it('keeps the original URL of media that were not provided', () => {
+    const plan = planCourseImport(exported());
+
+    expect(plan.media.upload).toEqual([]);
+    expect(plan.media.kept.map(item => item.path)).toEqual(['img/vaca.png']);
+  });
+});
+
+describe('matchMediaFiles', () => {
+  it('matches picked files by name and reports names shared by several folders', () => {
+    const entry = (path: string) => ({ path, url: media(path), file: `media/${path}` });
+
+    expect(
+      matchMediaFiles([entry('a/img/x.png'), entry('b/img/x.png'), entry('img/vaca.png'), entry('img/can.png')], ['x.png', 'vaca.png'])
+    ).toEqual({
+      matched: { 'media/img/vaca.png': 'vaca.png' },
+      ambiguous: [entry('a/img/x.png'), entry('b/img/x.png')],
+    });
+  });
+});
+
+describe('importCoursePackage', () => {
+  const upload = jest.fn(async () => ({ data: {}, error: null }));
+  const remove = jest.fn(async () => ({ data: [], error: null }));
+  const rpc = jest.fn(async (): Promise<{ data: unknown; error: { message: string } | null }> => ({
+    data: { course_id: 'c2', modules: 2, lessons: 3, pages: 3, grains: 3 },
+    error: null,
+  }));
+  const client = {
+    rpc,
+    storage: {
+      from: () => ({
+        upload,
+        remove,
+        getPublicUrl: (path: string) => ({ data: { publicUrl: media(path) } }),
+      }),
+    },
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('uploads bundled media and remaps their URLs', async () => {
+    const plan = planCourseImport(exported(), { mediaFiles: ['media/img/vaca.png'] });
+
+    const result = await importCoursePackage(client as never, plan, 'u2', { 'media/img/vaca.png': new Uint8Array([1]) });
+
+    expect(result).toEqual({ courseId: 'c2', counts: { modules: 2, lessons: 3, pages: 3, grains: 3 }, mediaUploaded: 1 });
+    const [[path]] = upload.mock.calls as unknown as [string][];
+    expect(path).toMatch(/^u2\/imports\/\d+\/img\/vaca\.png$/);
+    expect(rpc).toHaveBeenCalledWith('import_course_package', {
+      p_package: plan.payload,
+      p_target_course_id: null,
+      p_creator_id: 'u2',
+      p_media_map: { [media('img/vaca.png')]: media(path) },
+    });
+  });
+
+  it('removes the uploaded media when the import fails', async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } });
+    const plan = planCourseImport(exported(), { mediaFiles: ['media/img/vaca.png'] });
+
+    await expect(
+      importCoursePackage(client as never, plan, 'u2', { 'media/img/vaca.png': new Uint8Array([1]) })
+    ).rejects.toThrow('permission denied');
+
+    const [[path]] = upload.mock.calls as unknown as [string][];
+    expect(remove).toHaveBeenCalledWith([path]);
+  });
+
+  it('refuses plans with validation errors', async () => {
+    const coursePackage = exported();
+    coursePackage.modules[0].title = '';
+
+    await expect(importCoursePackage(client as never, planCourseImport(coursePackage), 'u2')).rejects.toThrow();
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
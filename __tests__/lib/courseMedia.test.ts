@@ -0,0 +1,35 @@
+import { collectMediaUrls, storagePathFromUrl } from '../../src/lib/courseMedia';
+import { CourseTree } from '../../src/types';
+
+const publicUrl = (path: string) => `https://project.supabase.co/storage/v1/object/public/course-content/${path}`;
+
+describe('courseMedia', () => {
+  it('extracts the storage path from public URLs', () => {
+    expect(storagePathFromUrl(publicUrl('grains/image%201.png?t=1'))).toBe('grains/image 1.png');
+    expect(storagePathFromUrl('https://example.com/image.png')).toBeNull();
+  });
+
+  it('collects distinct media URLs from covers, pages and grain content', () => {
+    const tree = {
+      cover_image_url: publicUrl('covers/cover.png'),
+      modules: [{
+        lessons: [{
+          pages: [{
+            media_url: publicUrl('pages/intro.mp3'),
+            grains: [
+              { content: { correctImageUrl: publicUrl('grains/a.png'), falseImageUrls: [publicUrl('grains/a.png'), 'https://example.com/b.png'] } },
+              { content: { pairs: [{ imageUrl: publicUrl('grains/c.png'), text: 'c' }] } },
+            ],
+          }],
+        }],
+      }],
+    } as unknown as CourseTree;
+
+    expect(collectMediaUrls(tree)).toEqual([
+      publicUrl('covers/cover.png'),
+      publicUrl('pages/intro.mp3'),
+      publicUrl('grains/a.png'),
+      publicUrl('grains/c.png'),
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { COURSE_SNAPSHOT_FORMAT, createCourseSnapshot, diffCourseSnapshots } from '../../src/lib/courseReleases';
+import { CourseSnapshot } from '../../src/types';
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+
+const tree = {
+  id: 'c1',
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: null,
+  creator_id: 'u1',
+  published: true,
+  ...timestamps,
+  modules: [
+    {
+      id: 'm1',
+      course_id: 'c1',
+      title: 'Cores',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        {
+          id: 'l1',
+          module_id: 'm1',
+          title: 'Vermello',
+          content: null,
+          position: 1,
+          ...timestamps,
+          pages: [
+            {
+              id: 'p1',
+              lesson_id: 'l1',
+              title: '',
+              content: null,
+              media_url: null,
+              position: 1,
+              type: 'Custom',
+              grain_pattern: ['testQuestion'],
+              grains_count: 1,
+              completion_status: 'complete',
+              ...timestamps,
+              grains: [
+                {
+                  id: 'g1',
+                  page_id: 'p1',
+                  position: 1,
+                  type: 'testQuestion',
+                  content: { question: 'Cor?', correctAnswer: 'vermello', falseAlternatives: ['azul', 'verde', 'negro'] },
+                  ...timestamps,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const clone = (snapshot: CourseSnapshot): CourseSnapshot => JSON.parse(JSON.stringify(snapshot));
+
+describe('createCourseSnapshot', () => {
+  it('keeps the learner content and drops editor fields', () => {
+    const snapshot = createCourseSnapshot(tree as never);
+    const page = snapshot.modules[0].lessons[0].pages[0];
+
+    expect(snapshot.format).toBe(COURSE_SNAPSHOT_FORMAT);
+    expect(snapshot.course).toEqual({ id: 'c1', title: 'Galego básico', description: null, cover_image_url: null });
+    expect(page).not.toHaveProperty('completion_status');
+    expect(page.grains[0]).toEqual({
+      id: 'g1',
+      position: 1,
+      type: 'testQuestion',
+      content: tree.modules[0].lessons[0].pages[0].grains[0].content,
+    });
+  });
+
+  it('refuses trees loaded without grains', () => {
+    const { grains: _grains, ...page } = tree.modules[0].lessons[0].pages[0];
+    const withoutGrains = {
+      ...tree,
+      modules: [{ ...tree.modules[0], lessons: [{ ...tree.modules[0].lessons[0], pages: [page] }] }],
+    };
+
+    expect(() => createCourseSnapshot(withoutGrains as never)).toThrow();
+  });
+});
+
+describe('diffCourseSnapshots', () => {
+  const previous = createCourseSnapshot(tree as never);
+
+  it('reports everything as added for the first release', () => {
+    expect(diffCourseSnapshots(null, previous).changes).toEqual([
+      { kind: 'added', level: 'module', id: 'm1', label: 'Cores', fields: [] },
+    ]);
+  });
+
+  it('lists changed fields, added and removed nodes with their path', () => {
+    const next = clone(previous);
+    next.course.title = 'Galego';
+    next.modules[0].lessons[0].pages[0].grains[0].content = {
+      question: 'Cor?',
+      correctAnswer: 'vermello',
+      falseAlternatives: ['azul', 'verde', 'branco'],
+    };
+    next.modules[0].lessons.push({ id: 'l2', title: 'Azul', content: null, position: 2, pages: [] });
+    next.modules[0].lessons[0].pages = [];
+
+    const diff = diffCourseSnapshots(previous, next);
+
+    expect(diff.changes).toEqual([
+      { kind: 'changed', level: 'course', id: 'c1', label: 'Curso', fields: ['title'] },
+      { kind: 'removed', level: 'page', id: 'p1', label: 'Cores › Vermello › Página 1', fields: [] },
+      { kind: 'added', level: 'lesson', id: 'l2', label: 'Cores › Azul', fields: [] },
+    ]);
+    expect(diff.counts).toEqual({ added: 1, removed: 1, changed: 1 });
+  });
+
+  it('compares grain content regardless of key order', () => {
+    const next = clone(previous);
+    const grain = next.modules[0].lessons[0].pages[0].grains[0];
+    grain.content = { falseAlternatives: ['azul', 'verde', 'negro'], correctAnswer: 'vermello', question: 'Cor?' };
+
+    expect(diffCourseSnapshots(previous, next).changes).toEqual([]);
+
+    grain.position = 2;
+    expect(diffCourseSnapshots(previous, next).changes).toEqual([
+      {
+        kind: 'changed',
+        level: 'grain',
+        id: 'g1',
+        label: 'Cores › Vermello › Página 1 › Grão 2 (Pergunta de Teste)',
+        fields: ['position'],
+      },
+    ]);
+  });
+});
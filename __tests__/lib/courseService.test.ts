@@ -0,0 +1,347 @@
+import { buildCourseTree, CourseService } from '../../src/lib/courseService';
+
+const mockSingle = jest.fn();
+const mockRpc = jest.fn();
+const mockCopy = jest.fn();
+const mockRemove = jest.fn();
+
+jest.mock('../../src/lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: mockSingle }),
+      }),
+    }),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    storage: {
+      from: () => ({
+        copy: (...args: unknown[]) => mockCopy(...args),
+        remove: (...args: unknown[]) => mockRemove(...args),
+        getPublicUrl: (path: string) => ({
+          data: { publicUrl: `https://cdn.test/storage/v1/object/public/course-content/${path}` },
+        }),
+      }),
+    },
+  },
+}));
+
+const mockRepository = () => ({
+  create: jest.fn(),
+  createMany: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  deleteMany: jest.fn(),
+  deleteByParents: jest.fn(),
+});
+
+const mockRepositories = {
+  courses: mockRepository(),
+  modules: mockRepository(),
+  lessons: mockRepository(),
+  pages: mockRepository(),
+  grains: mockRepository(),
+};
+
+jest.mock('../../src/lib/repositories', () => ({
+  get repositories() {
+    return mockRepositories;
+  },
+}));
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+
+const rawCourse = (grains: unknown) => ({
+  id: 'course-1',
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: null,
+  creator_id: 'user-1',
+  published: false,
+  ...timestamps,
+  modules: [
+    { id: 'm2', course_id: 'course-1', title: 'Segundo', position: 2, ...timestamps, lessons: [] },
+    {
+      id: 'm1',
+      course_id: 'course-1',
+      title: 'Primeiro',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        {
+          id: 'l1',
+          module_id: 'm1',
+          title: 'Lição',
+          content: null,
+          position: 1,
+          ...timestamps,
+          pages: [
+            {
+              id: 'p1',
+              lesson_id: 'l1',
+              title: 'Página',
+              content: null,
+              media_url: null,
+              position: 1,
+              type: 'Introduction',
+              grain_pattern: null,
+              ...timestamps,
+              grains,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+const filledGrain = {
+  id: 'g1',
+  page_id: 'p1',
+  position: 2,
+  type: 'testQuestion',
+  content: { question: 'Que é?', correctAnswer: 'Unha casa', falseAlternatives: ['Un can', 'Un gato', 'Unha mesa'] },
+  ...timestamps,
+};
+
+const emptyGrain = {
+  id: 'g2',
+  page_id: 'p1',
+  position: 1,
+  type: 'textToComplete',
+  content: { phrase: '', correctAnswer: '', falseAlternatives: ['', '', ''] },
+  ...timestamps,
+};
+
+describe('buildCourseTree', () => {
+  it('sorts every level by position', () => {
+    const tree = buildCourseTree(rawCourse([filledGrain, emptyGrain]) as never, true);
+
+    expect(tree.modules.map(module => module.id)).toEqual(['m1', 'm2']);
+    expect(tree.modules[0].lessons[0].pages[0].grains?.map(grain => grain.id)).toEqual(['g2', 'g1']);
+  });
+
+  it('derives page completion from grain content', () => {
+    const partial = buildCourseTree(rawCourse([filledGrain, emptyGrain]) as never, true);
+    const complete = buildCourseTree(rawCourse([filledGrain]) as never, true);
+
+    expect(partial.modules[0].lessons[0].pages[0]).toMatchObject({ grains_count: 2, completion_status: 'partial' });
+    expect(complete.modules[0].lessons[0].pages[0].completion_status).toBe('complete');
+  });
+
+  it('uses the embedded count when grains are not loaded', () => {
+    const tree = buildCourseTree(rawCourse([{ count: 15 }]) as never, false);
+    const page = tree.modules[0].lessons[0].pages[0];
+
+    expect(page.grains).toBeUndefined();
+    expect(page.grains_count).toBe(15);
+  });
+});
+
+describe('CourseService.loadCourseTree', () => {
+  beforeEach(() => {
+    mockSingle.mockReset();
+    CourseService.invalidateCourseTree();
+  });
+
+  it('loads the tree once and serves later calls from the cache', async () => {
+    mockSingle.mockResolvedValue({ data: rawCourse([filledGrain]), error: null });
+
+    const first = await CourseService.loadCourseTree('course-1', { includeGrains: true });
+    const second = await CourseService.loadCourseTree('course-1');
+
+    expect(second).toBe(first);
+    expect(mockSingle).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares a single request between concurrent callers', async () => {
+    mockSingle.mockResolvedValue({ data: rawCourse([{ count: 1 }]), error: null });
+
+    await Promise.all([
+      CourseService.loadCourseTree('course-1'),
+      CourseService.loadCourseTree('course-1'),
+    ]);
+
+    expect(mockSingle).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches after invalidation and notifies subscribers', async () => {
+    mockSingle.mockResolvedValue({ data: rawCourse([{ count: 1 }]), error: null });
+    const listener = jest.fn();
+    const unsubscribe = CourseService.subscribeToCourseTree('course-1', listener);
+
+    await CourseService.loadCourseTree('course-1');
+    CourseService.invalidateCourseTree('course-1');
+    await CourseService.loadCourseTree('course-1');
+    unsubscribe();
+
+    expect(mockSingle).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+
+  it('throws when the course cannot be loaded', async () => {
+    mockSingle.mockResolvedValue({ data: null, error: { message: 'not found' } });
+
+    await expect(CourseService.loadCourseTree('missing')).rejects.toThrow('not found');
+  });
+});
+
+describe('CourseService.duplicateCourse', () => {
+  const coverUrl = 'https://cdn.test/storage/v1/object/public/course-content/user-1/covers/cover.png';
+  const summary = { course_id: 'course-2', modules: 2, lessons: 1, pages: 1, grains: 1 };
+
+  beforeEach(() => {
+    mockSingle.mockReset();
+    mockRpc.mockReset();
+    mockCopy.mockReset();
+    mockRemove.mockReset();
+    CourseService.invalidateCourseTree();
+  });
+
+  it('copies the tree through the duplicate_course function and reports progress', async () => {
+    mockRpc.mockResolvedValue({ data: summary, error: null });
+    mockSingle.mockResolvedValue({ data: { id: 'course-2', title: 'Cópia' }, error: null });
+    const onProgress = jest.fn();
+
+    const result = await CourseService.duplicateCourse('course-1', 'Cópia', 'user-2', { onProgress });
+
+    expect(mockRpc).toHaveBeenCalledWith('duplicate_course', {
+      p_course_id: 'course-1',
+      p_new_title: 'Cópia',
+      p_creator_id: 'user-2',
+      p_media_map: {},
+    });
+    expect(result.counts).toEqual({ modules: 2, lessons: 1, pages: 1, grains: 1 });
+    expect(onProgress).toHaveBeenLastCalledWith({ stage: 'done', completed: 1, total: 1 });
+  });
+
+  it('copies media files and passes the URL remapping to the database', async () => {
+    mockSingle
+      .mockResolvedValueOnce({ data: { ...rawCourse([filledGrain]), cover_image_url: coverUrl }, error: null })
+      .mockResolvedValueOnce({ data: { id: 'course-2' }, error: null });
+    mockCopy.mockResolvedValue({ error: null });
+    mockRpc.mockResolvedValue({ data: summary, error: null });
+
+    const result = await CourseService.duplicateCourse('course-1', 'Cópia', 'user-2', { copyMedia: true });
+
+    expect(mockCopy).toHaveBeenCalledWith('user-1/covers/cover.png', expect.stringMatching(/^user-2\/copies\/\d+\/user-1\/covers\/cover.png$/));
+    const mediaMap = mockRpc.mock.calls[0][1].p_media_map;
+    expect(mediaMap[coverUrl]).toMatch(/user-2\/copies\//);
+    expect(result.mediaCopied).toBe(1);
+  });
+
+  it('reports failures without leaving a partial copy behind', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+    const onProgress = jest.fn();
+
+    await expect(
+      CourseService.duplicateCourse('course-1', 'Cópia', 'user-2', { onProgress })
+    ).rejects.toThrow('permission denied');
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ stage: 'failed' }));
+    expect(mockSingle).not.toHaveBeenCalled();
+  });
+
+  it('removes the copied media when the database copy fails', async () => {
+    mockSingle.mockResolvedValueOnce({ data: { ...rawCourse([filledGrain]), cover_image_url: coverUrl }, error: null });
+    mockCopy.mockResolvedValue({ error: null });
+    mockRemove.mockResolvedValue({ data: [], error: null });
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+
+    await expect(
+      CourseService.duplicateCourse('course-1', 'Cópia', 'user-2', { copyMedia: true })
+    ).rejects.toThrow('permission denied');
+    expect(mockRemove).toHaveBeenCalledWith([mockCopy.mock.calls[0][1]]);
+  });
+
+  it('counts only the media it copied', async () => {
+    mockRpc.mockResolvedValue({ data: summary, error: null });
+    mockSingle.mockResolvedValue({ data: { id: 'course-2' }, error: null });
+
+    const result = await CourseService.duplicateCourse('course-1', 'Cópia', 'user-2', {
+      mediaUrlMap: { [coverUrl]: 'https://cdn.test/elsewhere.png' },
+    });
+
+    expect(result.mediaCopied).toBe(0);
+  });
+});
+
+describe('CourseService.getCoursesCompletion', () => {
+  beforeEach(() => mockRpc.mockReset());
+
+  it('summarizes the counts returned by get_courses_completion', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        { course_id: 'course-1', complete: 1, partial: 1, empty: 0, total: 2, filled: 6, required: 8 },
+        { course_id: 'course-2', complete: 0, partial: 0, empty: 0, total: 0, filled: 0, required: 0 },
+      ],
+      error: null,
+    });
+
+    const completion = await CourseService.getCoursesCompletion(['course-1', 'course-2']);
+
+    expect(mockRpc).toHaveBeenCalledWith('get_courses_completion', { p_course_ids: ['course-1', 'course-2'] });
+    expect(completion).toEqual({
+      'course-1': { status: 'partial', complete: 1, partial: 1, empty: 0, total: 2, percentage: 75 },
+      'course-2': { status: 'empty', complete: 0, partial: 0, empty: 0, total: 0, percentage: 0 },
+    });
+  });
+});
+
+describe('CourseService.createWithStructure', () => {
+  let nextId = 0;
+  const withIds = (rows: object[]) => ({
+    data: rows.map(row => ({ ...row, id: `id-${++nextId}` })),
+    error: null,
+  });
+
+  const structure = { modulesCount: 2, lessonsPerModule: 2, pagesPerLesson: 3 };
+  const courseData = { title: 'Novo curso', creatorId: 'user-1', structure };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    nextId = 0;
+    Object.values(mockRepositories).forEach(repository => {
+      repository.createMany.mockImplementation(async (rows: object[]) => withIds(rows));
+      repository.delete.mockResolvedValue({ data: null, error: null });
+      repository.deleteMany.mockResolvedValue({ data: null, error: null });
+      repository.deleteByParents.mockResolvedValue({ data: null, error: null });
+    });
+    mockRepositories.courses.create.mockResolvedValue({ data: { id: 'course-1' }, error: null });
+    mockRepositories.courses.update.mockResolvedValue({ data: { id: 'course-1', structure_created: true }, error: null });
+  });
+
+  it('creates every level with one bulk insert and 15 grains per page', async () => {
+    const result = await CourseService.createWithStructure(courseData);
+
+    expect(mockRepositories.modules.createMany).toHaveBeenCalledTimes(1);
+    expect(mockRepositories.lessons.createMany).toHaveBeenCalledTimes(1);
+    expect(mockRepositories.pages.createMany).toHaveBeenCalledTimes(1);
+    expect(result.totalElements).toEqual({ modules: 2, lessons: 4, pages: 12, grains: 180 });
+
+    const grains = mockRepositories.grains.createMany.mock.calls[0][0];
+    expect(grains.slice(0, 2).map((grain: { type: string }) => grain.type)).toEqual(['imagesToGuess', 'textToComplete']);
+    expect(grains[1].content).toEqual({ phrase: '', correctAnswer: '', falseAlternatives: ['', '', ''] });
+    expect(mockRepositories.courses.update).toHaveBeenCalledWith('course-1', { structure_created: true });
+  });
+
+  it('uses the pattern of the requested page type', async () => {
+    await CourseService.createWithStructure({ ...courseData, structure: { ...structure, pageType: 'Booster' } });
+
+    const pages = mockRepositories.pages.createMany.mock.calls[0][0];
+    const grains = mockRepositories.grains.createMany.mock.calls[0][0];
+    expect(pages[0]).toMatchObject({ type: 'Booster' });
+    expect(grains[1].type).toBe('testQuestion');
+  });
+
+  it('deletes everything created so far when a level fails', async () => {
+    mockRepositories.grains.createMany.mockResolvedValue({ data: null, error: { message: 'check violation' } });
+
+    await expect(CourseService.createWithStructure(courseData)).rejects.toThrow('check violation');
+
+    const pageIds = mockRepositories.pages.deleteMany.mock.calls[0][0];
+    expect(pageIds).toHaveLength(12);
+    expect(mockRepositories.grains.deleteByParents).toHaveBeenCalledWith(pageIds);
+    expect(mockRepositories.lessons.deleteMany.mock.calls[0][0]).toHaveLength(4);
+    expect(mockRepositories.modules.deleteMany.mock.calls[0][0]).toHaveLength(2);
+    expect(mockRepositories.courses.delete).toHaveBeenCalledWith('course-1');
+  });
+});
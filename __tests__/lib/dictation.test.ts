@@ -0,0 +1,104 @@
+import { checkDictation, levenshtein, normalizeDictation } from '../../src/lib/dictation';
+import { createEmptyGrainContent } from '../../src/lib/grainContent';
+import { parseGrainsCsv, GRAIN_CSV_LAYOUTS } from '../../src/lib/grainCsv';
+import { normalizeGrainContent, validateGrainContent } from '../../src/lib/grainValidation';
+import { parseLessonMarkdown, serializeLessonMarkdown } from '../../src/lib/lessonMarkdown';
+import { AudioToTypeContent } from '../../src/types';
+
+const content: AudioToTypeContent = {
+  audioUrl: 'https://x/bos-dias.mp3',
+  correctAnswer: 'Bos días, Uxía!',
+  acceptedSpellings: ['Boos días Uxía'],
+  ignoreCase: true,
+  ignorePunctuation: true,
+  ignoreAccents: false,
+  maxDistance: 0,
+};
+
+describe('normalizeDictation', () => {
+  it('applies only the tolerance that is switched on', () => {
+    const all = { ignoreCase: true, ignorePunctuation: true, ignoreAccents: true };
+
+    expect(normalizeDictation('  Bos  días, Uxía! ', all)).toBe('bos dias uxia');
+    expect(normalizeDictation('Bos días, Uxía!', { ...all, ignoreAccents: false })).toBe('bos días uxía');
+    expect(normalizeDictation('Bos días, Uxía!', { ignoreCase: false, ignorePunctuation: false, ignoreAccents: false })).toBe(
+      'Bos días, Uxía!'
+    );
+    expect(normalizeDictation("d'aquí", all)).toBe("d'aqui");
+  });
+});
+
+describe('levenshtein', () => {
+  it('counts single-character edits', () => {
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(levenshtein('casa', 'casa')).toBe(0);
+    expect(levenshtein('casa', 'cas')).toBe(1);
+    expect(levenshtein('casa', 'caza')).toBe(1);
+    expect(levenshtein('galiña', 'galinha')).toBe(2);
+  });
+});
+
+describe('checkDictation', () => {
+  it('accepts the answer and the accepted spellings under the tolerance', () => {
+    expect(checkDictation(content, 'bos días uxía')).toMatchObject({ correct: true, exact: true, expected: 'Bos días, Uxía!' });
+    expect(checkDictation(content, 'Boos días, Uxía')).toMatchObject({ correct: true, expected: 'Boos días Uxía' });
+    expect(checkDictation(content, 'bos dias uxia')).toMatchObject({ correct: false, distance: 2 });
+    expect(checkDictation({ ...content, ignoreAccents: true }, 'bos dias uxia').correct).toBe(true);
+    expect(checkDictation({ ...content, ignoreCase: false }, 'bos días uxía').correct).toBe(false);
+  });
+
+  it('allows up to maxDistance typos, never an empty answer', () => {
+    const tolerant = { ...content, maxDistance: 2 };
+
+    expect(checkDictation(tolerant, 'bos dias uxia')).toMatchObject({ correct: true, exact: false, distance: 2 });
+    expect(checkDictation(tolerant, 'bo di uxi').correct).toBe(false);
+    expect(checkDictation({ ...content, correctAnswer: 'ai', maxDistance: 3 }, '  ').correct).toBe(false);
+  });
+});
+
+describe('audioToType content', () => {
+  it('validates the tolerance fields and repairs them', () => {
+    expect(validateGrainContent('audioToType', createEmptyGrainContent('audioToType')).valid).toBe(true);
+    expect(
+      validateGrainContent('audioToType', { ...content, ignoreCase: 'sim', maxDistance: 5 }).errors.map(error => error.field)
+    ).toEqual(['ignoreCase', 'maxDistance']);
+    expect(normalizeGrainContent('audioToType', { audioUrl: 'a.mp3', correctAnswer: 'ola', maxDistance: '9' }).content).toEqual({
+      audioUrl: 'a.mp3',
+      correctAnswer: 'ola',
+      acceptedSpellings: [],
+      ignoreCase: true,
+      ignorePunctuation: true,
+      ignoreAccents: false,
+      maxDistance: 3,
+    });
+  });
+
+  it('round-trips through Markdown and spreadsheets', () => {
+    const lesson = {
+      module: null,
+      title: 'Ditados',
+      content: null,
+      pages: [
+        {
+          title: 'Escoitar',
+          position: 1,
+          type: 'Custom' as const,
+          grain_pattern: null,
+          content: null,
+          media_url: null,
+          grains: [{ position: 1, type: 'audioToType' as const, content }],
+        },
+      ],
+    };
+    const markdown = serializeLessonMarkdown(lesson);
+
+    expect(markdown).toContain('ignoreAccents: false\nmaxDistance: 0\n:::');
+    expect(parseLessonMarkdown(markdown)).toEqual({ lesson, errors: [] });
+
+    const layout = GRAIN_CSV_LAYOUTS.audioToType;
+    expect(layout.read(layout.write(content as unknown as Record<string, unknown>))).toEqual(content);
+
+    const { rows } = parseGrainsCsv('position,type,audio,correctAnswer,ignoreAccents\n1,audioToType,a.mp3,Ola,sim');
+    expect(layout.read(rows[0].cells)).toMatchObject({ ignoreCase: true, ignoreAccents: true, maxDistance: 0 });
+  });
+});
@@ -0,0 +1,67 @@
+import { evaluateGrainCompleteness, summarizeCompleteness } from '../../src/lib/grainCompleteness';
+import { createEmptyGrainContent } from '../../src/lib/grainContent';
+import { ALL_GRAIN_TYPES } from '../../src/lib/grainTypes';
+
+const pair = (left: string, right: string) => ({ left, right });
+
+describe('evaluateGrainCompleteness', () => {
+  it('treats the blank content of every grain type as empty', () => {
+    ALL_GRAIN_TYPES.forEach(type => {
+      expect(evaluateGrainCompleteness({ type, content: createEmptyGrainContent(type) }).status).toBe('empty');
+    });
+  });
+
+  it('requires three distinct false images', () => {
+    const result = evaluateGrainCompleteness({
+      type: 'imagesToGuess',
+      content: {
+        correctImageUrl: 'https://cdn.test/casa.png',
+        falseImageUrls: ['https://cdn.test/can.png', 'https://cdn.test/can.png', 'https://cdn.test/casa.png'],
+        correctWord: 'casa',
+      },
+    });
+
+    expect(result.status).toBe('partial');
+    expect(result.missing).toEqual([
+      { field: 'falseImageUrls[1]', reason: 'duplicate' },
+      { field: 'falseImageUrls[2]', reason: 'duplicate' },
+    ]);
+  });
+
+  it('requires four pairs and counts extra pairs once started', () => {
+    const four = [pair('casa', 'house'), pair('can', 'dog'), pair('gato', 'cat'), pair('rúa', 'street')];
+
+    expect(evaluateGrainCompleteness({ type: 'pairsOfText', content: { pairs: four.slice(0, 3) } }).missing).toEqual([
+      { field: 'pairs[3].left', reason: 'empty' },
+      { field: 'pairs[3].right', reason: 'empty' },
+    ]);
+    expect(evaluateGrainCompleteness({ type: 'pairsOfText', content: { pairs: [...four, pair('', '')] } }).status).toBe(
+      'complete'
+    );
+    expect(evaluateGrainCompleteness({ type: 'pairsOfText', content: { pairs: [...four, pair('mar', '')] } })).toMatchObject({
+      status: 'partial',
+      missing: [{ field: 'pairs[4].right', reason: 'empty' }],
+    });
+  });
+
+  it('scores legacy content on its normalized shape', () => {
+    const result = evaluateGrainCompleteness({
+      type: 'textToComplete',
+      content: { text: 'Eu vivo nunha ___', missingWord: 'casa', options: ['casa', 'rúa', 'vila', 'aldea'] },
+    });
+
+    expect(result).toMatchObject({ status: 'complete', filled: 5, required: 5 });
+  });
+});
+
+describe('summarizeCompleteness', () => {
+  it('aggregates statuses and the share of filled fields', () => {
+    const summary = summarizeCompleteness([
+      { type: 'testQuestion', content: { question: 'Que é?', correctAnswer: 'casa', falseAlternatives: ['can', 'gato', 'rúa'] } },
+      { type: 'testQuestion', content: { question: 'Que é?', correctAnswer: '', falseAlternatives: ['', '', ''] } },
+    ]);
+
+    expect(summary).toEqual({ status: 'partial', complete: 1, partial: 1, empty: 0, total: 2, percentage: 60 });
+    expect(summarizeCompleteness([]).status).toBe('empty');
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  applyGrainCsvImport,
+  detectDelimiter,
+  getGrainsCsvFileName,
+  parseDelimited,
+  parseGrainsCsv,
+  planGrainCsvImport,
+  serializeGrainsCsv,
+} from '../../src/lib/grainCsv';
+
+const question = { question: 'Cor do ceo?', correctAnswer: 'azul', falseAlternatives: ['verde', 'vermello', 'negro'] };
+const pairs = {
+  pairs: [
+    { left: 'can', right: 'perro' },
+    { left: 'gato', right: 'gato' },
+    { left: 'rato', right: 'ratón' },
+    { left: 'porco', right: 'cerdo' },
+  ],
+};
+
+const customPage = {
+  id: 'p1',
+  position: 1,
+  type: 'Custom',
+  grain_pattern: ['testQuestion', 'pairsOfText', 'textToComplete'],
+  grains: [
+    { id: 'g1', position: 1, type: 'testQuestion', content: question },
+    { id: 'g2', position: 2, type: 'pairsOfText', content: pairs },
+  ],
+};
+
+const header = 'page,position,type,phrase,question,correctAnswer,false1,false2,false3,left1,right1,left2,right2,left3,right3,left4,right4';
+
+describe('parseDelimited', () => {
+  it('handles quotes, escaped quotes, multi-line cells and blank lines', () => {
+    const records = parseDelimited('a,"b, c","d ""e"""\r\n\r\n"f\ng",h\n', ',');
+
+    expect(records).toEqual([
+      { line: 1, cells: ['a', 'b, c', 'd "e"'] },
+      { line: 3, cells: ['f\ng', 'h'] },
+    ]);
+  });
+
+  it('detects the delimiter from the extension or the header', () => {
+    expect(detectDelimiter('a,b', 'grains.tsv')).toBe('\t');
+    expect(detectDelimiter('a\tb')).toBe('\t');
+    expect(detectDelimiter('page;position;phrase')).toBe(';');
+    expect(detectDelimiter('page,position')).toBe(',');
+  });
+});
+
+describe('serializeGrainsCsv', () => {
+  it('writes one row per grain with the columns of its type', () => {
+    const csv = serializeGrainsCsv([customPage]);
+    const [columns, first, second] = parseDelimited(csv, ',').map(record => record.cells);
+    const cell = (row: string[], column: string) => row[columns.indexOf(column)];
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(cell(first, 'question')).toBe('Cor do ceo?');
+    expect(cell(first, 'false3')).toBe('negro');
+    expect(cell(second, 'type')).toBe('pairsOfText');
+    expect(cell(second, 'right3')).toBe('ratón');
+    expect(cell(second, 'left5')).toBe('');
+  });
+
+  it('round-trips through the importer', () => {
+    const { rows, errors } = parseGrainsCsv(serializeGrainsCsv([customPage], '\t'));
+    const plan = planGrainCsvImport(rows, [customPage]);
+
+    expect(errors).toEqual([]);
+    expect(plan.errors).toEqual([]);
+    expect(plan.changes.map(({ grainId, type, content }) => ({ grainId, type, content }))).toEqual([
+      { grainId: 'g1', type: 'testQuestion', content: question },
+      { grainId: 'g2', type: 'pairsOfText', content: pairs },
+    ]);
+  });
+
+  it('names the file after the page', () => {
+    expect(getGrainsCsvFileName('Cores básicas')).toBe('cores-basicas-graos.csv');
+    expect(getGrainsCsvFileName('', '\t')).toBe('pagina-graos.tsv');
+  });
+});
+
+describe('parseGrainsCsv', () => {
+  it('reports header and row errors with their line numbers', () => {
+    expect(parseGrainsCsv('page,colour\n1,red').errors).toEqual([
+      { line: 1, message: 'Coluna desconhecida: "colour".' },
+      { line: 1, message: 'Falta a coluna "position".' },
+    ]);
+
+    const { rows, errors } = parseGrainsCsv(`${header}\n1,0,,\n1,2,Cartas\n"1",3,Texto para Completar,O ceo é [BLANK].`);
+    expect(errors).toEqual([
+      { line: 2, message: 'Posição inválida: "0".' },
+      { line: 3, message: 'Tipo de grão desconhecido: "Cartas".' },
+    ]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ line: 4, page: 1, position: 3, type: 'textToComplete' });
+  });
+});
+
+describe('planGrainCsvImport', () => {
+  it('fills empty slots with the type the pattern expects', () => {
+    const { rows } = parseGrainsCsv(`${header}\n,3,,O ceo é [BLANK].,,azul,verde,vermello,negro`);
+    const plan = planGrainCsvImport(rows, [customPage]);
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.changes).toEqual([
+      {
+        line: 2,
+        pageId: 'p1',
+        grainId: null,
+        position: 3,
+        type: 'textToComplete',
+        content: { phrase: 'O ceo é [BLANK].', correctAnswer: 'azul', falseAlternatives: ['verde', 'vermello', 'negro'] },
+      },
+    ]);
+  });
+
+  it('checks every row against the page structure and the grain schema', () => {
+    const { rows } = parseGrainsCsv(
+      [
+        header,
+        '1,1,textToComplete,Frase [BLANK],,a,b,c,d',
+        '1,2,,,,,,,,a,b,c,d',
+        '1,3,,Frase [BLANK],,a,b,,d',
+        '1,3,,Frase [BLANK],,a,b,c,d',
+        '2,1,,,Pergunta,a,b,c,d',
+        '1,4,testQuestion,,Pergunta,a,b,c,d',
+      ].join('\n')
+    );
+    const { errors, changes } = planGrainCsvImport(rows, [customPage]);
+
+    expect(errors).toEqual([
+      { line: 2, message: 'Posição 1: esperado Pergunta de Teste, encontrado Texto para Completar.' },
+      { line: 3, message: 'A linha deve ter entre 4 e 6 pares (tem 2).' },
+      { line: 4, message: 'A coluna "false2" está vazia.' },
+      { line: 5, message: 'A posição 3 já foi preenchida na linha 4.' },
+      { line: 6, message: 'Não existe a página 2.' },
+      { line: 7, message: 'A página só tem 3 posições.' },
+    ]);
+    expect(changes).toHaveLength(2);
+  });
+
+  it('requires the media files named in the sheet', () => {
+    const page = { id: 'p2', position: 2, type: 'Custom', grain_pattern: ['textToGuess', 'textToGuess'], grains: [] };
+    const { rows } = parseGrainsCsv(
+      'page,position,image,correctAnswer,false1,false2,false3\n2,1,gato.png,gato,can,rato,porco\n2,2,https://x.org/can.png,can,gato,rato,porco\n2,1,,,,,'
+    );
+
+    expect(planGrainCsvImport(rows.slice(0, 2), [page], { mediaFiles: ['gato.png'] })).toMatchObject({
+      errors: [],
+      media: ['gato.png'],
+    });
+    expect(planGrainCsvImport(rows.slice(0, 1), [page]).errors).toEqual([
+      { line: 2, message: 'Ficheiros de media em falta: gato.png.' },
+    ]);
+  });
+
+  it('reads each item of the extra correct images as media', () => {
+    const page = { id: 'p2', position: 2, type: 'Custom', grain_pattern: ['imagesToGuess'], grains: [] };
+    const { rows } = parseGrainsCsv(
+      'page,position,correctWord,image,false1,extraCorrectAnswers\n2,1,gato,gato.png,can.png,gato2.png | https://x.org/gato3.png'
+    );
+
+    expect(planGrainCsvImport(rows, [page], { mediaFiles: ['gato.png', 'can.png'] }).errors).toEqual([
+      { line: 2, message: 'Ficheiros de media em falta: gato2.png.' },
+    ]);
+    expect(planGrainCsvImport(rows, [page], { mediaFiles: ['gato.png', 'can.png', 'gato2.png'] }).media).toEqual([
+      'gato.png',
+      'can.png',
+      'gato2.png',
+    ]);
+  });
+});
+
+describe('applyGrainCsvImport', () => {
+  const upload = jest.fn(async () => ({ data: {}, error: null }));
+  const remove = jest.fn(async () => ({ data: [], error: null }));
+  const rpc = jest.fn();
+  const client = {
+    rpc,
+    storage: {
+      from: () => ({
+        upload,
+        remove,
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://x.org/${path}` } }),
+      }),
+    },
+  };
+  const page = { id: 'p2', position: 2, type: 'Custom', grain_pattern: ['textToGuess'], grains: [] };
+  const plan = () =>
+    planGrainCsvImport(parseGrainsCsv('page,position,image,correctAnswer,false1\n2,1,gato.png,gato,can').rows, [page], {
+      mediaFiles: ['gato.png'],
+    });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('uploads the media, then writes the rows', async () => {
+    rpc.mockResolvedValue({ data: { created: 1, updated: 0 }, error: null });
+
+    await expect(applyGrainCsvImport(client as never, plan(), 'u1', { 'gato.png': new Uint8Array([1]) })).resolves.toEqual({
+      created: 1,
+      updated: 0,
+    });
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it('replaces the file names of media list cells with their uploaded URLs', async () => {
+    rpc.mockResolvedValue({ data: { created: 1, updated: 0 }, error: null });
+    const imagesPage = { ...page, grain_pattern: ['imagesToGuess'] };
+    const imagesPlan = planGrainCsvImport(
+      parseGrainsCsv('page,position,correctWord,image,false1,extraCorrectAnswers\n2,1,gato,https://x.org/gato.png,https://x.org/can.png,gato2.png').rows,
+      [imagesPage],
+      { mediaFiles: ['gato2.png'] }
+    );
+
+    await applyGrainCsvImport(client as never, imagesPlan, 'u1', { 'gato2.png': new Uint8Array([1]) });
+    const [[, { p_rows }]] = rpc.mock.calls as unknown as [string, { p_rows: { content: Record<string, unknown> }[] }][];
+    expect(p_rows[0].content.extraCorrectImageUrls).toEqual([expect.stringMatching(/^https:\/\/x\.org\/u1\/grains\/\d+\/gato2\.png$/)]);
+  });
+
+  it('removes the uploaded media when the rows are rejected', async () => {
+    rpc.mockResolvedValue({ data: { created: 0, updated: 0 }, error: { message: 'grain type not allowed' } });
+
+    await expect(applyGrainCsvImport(client as never, plan(), 'u1', { 'gato.png': new Uint8Array([1]) })).rejects.toThrow(
+      'grain type not allowed'
+    );
+    const [[path]] = upload.mock.calls as unknown as [string][];
+    expect(remove).toHaveBeenCalledWith([path]);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  normalizeGrain,
+  normalizeGrainContent,
+  validateGrainContent,
+} from '../../src/lib/grainValidation';
+import { createEmptyGrainContent } from '../../src/lib/grainContent';
+import { ALL_GRAIN_TYPES } from '../../src/lib/grainTypes';
+
+describe('validateGrainContent', () => {
+  it('accepts the blank content of every grain type', () => {
+    ALL_GRAIN_TYPES.forEach(type => {
+      expect(validateGrainContent(type, createEmptyGrainContent(type))).toEqual({ valid: true, errors: [] });
+    });
+  });
+
+  it('reports field level errors', () => {
+    const { valid, errors } = validateGrainContent('testQuestion', {
+      question: 42,
+      falseAlternatives: ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'],
+    });
+
+    expect(valid).toBe(false);
+    expect(errors.map(error => [error.field, error.code])).toEqual([
+      ['question', 'invalid_type'],
+      ['correctAnswer', 'missing'],
+      ['falseAlternatives', 'invalid_length'],
+    ]);
+  });
+
+  it('points at the broken pair', () => {
+    const pairs = [
+      { left: 'casa', right: 'house' },
+      { left: 'can' },
+      { left: 'gato', right: 'cat' },
+      { left: 'rúa', right: 'street' },
+    ];
+
+    expect(validateGrainContent('pairsOfText', { pairs }).errors).toEqual([
+      expect.objectContaining({ field: 'pairs[1].right', code: 'missing' }),
+    ]);
+  });
+
+  it('only reports empty values when asked to', () => {
+    const content = createEmptyGrainContent('textToComplete');
+
+    expect(validateGrainContent('textToComplete', content).valid).toBe(true);
+    expect(validateGrainContent('textToComplete', content, { requireValues: true }).errors).toHaveLength(5);
+  });
+
+  it('rejects unknown types and non-object content', () => {
+    expect(validateGrainContent('dragAndDrop', {}).errors[0].field).toBe('type');
+    expect(validateGrainContent('testQuestion', 'texto').errors[0].field).toBe('content');
+  });
+});
+
+describe('normalizeGrainContent', () => {
+  it('returns valid content untouched', () => {
+    const content = createEmptyGrainContent('audioToGuess');
+
+    expect(normalizeGrainContent('audioToGuess', content)).toEqual({ content, repaired: false });
+  });
+
+  it('repairs legacy field names', () => {
+    expect(normalizeGrainContent('textToComplete', { phrase: 'Eu [BLANK]', missingWord: 'falo', options: ['falo', 'como'] }).content)
+      .toEqual({ phrase: 'Eu [BLANK]', correctAnswer: 'falo', falseAlternatives: ['como', '', ''] });
+    expect(normalizeGrainContent('imagesToGuess', { imageUrl: 'a.png', correctWord: 'casa' }).content)
+      .toEqual({ correctImageUrl: 'a.png', falseImageUrls: ['', '', ''], correctWord: 'casa' });
+  });
+
+  it('parses content stored as a JSON string', () => {
+    const { content, repaired } = normalizeGrainContent('pairsOfText', JSON.stringify({ pairs: [{ left: 'a', right: 'b' }] }));
+
+    expect(repaired).toBe(true);
+    expect(validateGrainContent('pairsOfText', content).valid).toBe(true);
+    expect((content as { pairs: unknown[] }).pairs[0]).toEqual({ left: 'a', right: 'b' });
+  });
+
+  it('unnests image pairs saved by the improved editor', () => {
+    const { content } = normalizeGrainContent('pairsOfImage', { pairs: [{ left: 'x', right: { imageUrl: 'gato.png', text: 'gato' } }] });
+
+    expect((content as { pairs: unknown[] }).pairs[0]).toEqual({ imageUrl: 'gato.png', text: 'gato' });
+  });
+
+  it('falls back to blank content when nothing can be read', () => {
+    expect(normalizeGrainContent('testQuestion', null)).toEqual({
+      content: createEmptyGrainContent('testQuestion'),
+      repaired: true,
+    });
+  });
+});
+
+describe('normalizeGrain', () => {
+  it('keeps the other columns', () => {
+    const grain = normalizeGrain({ id: 'g1', type: 'testQuestion' as const, content: {} });
+
+    expect(grain.id).toBe('g1');
+    expect(validateGrainContent(grain.type, grain.content).valid).toBe(true);
+  });
+});
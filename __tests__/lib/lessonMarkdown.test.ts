@@ -0,0 +1,165 @@
+import {
+  buildMarkdownCoursePackage,
+  getLessonMarkdownFileName,
+  MarkdownLesson,
+  parseLessonMarkdown,
+  serializeLessonMarkdown,
+} from '../../src/lib/lessonMarkdown';
+import { validateCoursePackage } from '../../src/lib/courseImport';
+
+const lesson: MarkdownLesson = {
+  module: 'Os animais',
+  title: 'Na granxa',
+  content: 'Vocabulario da granxa.\n\n## Objetivos\n\nCon dúas liñas.',
+  pages: [
+    {
+      title: 'Preguntas',
+      position: 1,
+      type: 'Custom',
+      grain_pattern: ['testQuestion', 'textToComplete'],
+      content: null,
+      media_url: 'img/granxa.png',
+      grains: [
+        {
+          position: 1,
+          type: 'testQuestion',
+          content: { question: 'Que animal di "mu"?', correctAnswer: 'vaca', falseAlternatives: ['can', ' gato', ''] },
+        },
+        {
+          position: 2,
+          type: 'textToComplete',
+          content: { phrase: 'A [BLANK] dá leite.', correctAnswer: 'vaca', falseAlternatives: ['galiña', 'porco', 'ovella'] },
+        },
+      ],
+    },
+    {
+      title: '',
+      position: 3,
+      type: 'Custom',
+      grain_pattern: null,
+      content: 'Relacione as palabras.',
+      media_url: null,
+      grains: [
+        {
+          position: 2,
+          type: 'pairsOfText',
+          content: {
+            pairs: [
+              { left: 'can', right: 'perro' },
+              { left: 'a => b', right: '' },
+              { left: 'gato', right: 'gato' },
+              { left: 'rato', right: 'ratón' },
+            ],
+          },
+        },
+      ],
+    },
+  ],
+};
+
+describe('serializeLessonMarkdown', () => {
+  it('writes headings with page types and a fenced block per grain', () => {
+    const markdown = serializeLessonMarkdown(lesson);
+
+    expect(markdown.startsWith('---\nmodule: Os animais\n---\n\n# Na granxa\n\nVocabulario da granxa.')).toBe(true);
+    expect(markdown).toContain('\n\\## Objetivos\n');
+    expect(markdown).toContain('## Preguntas {type=Custom pattern=testQuestion,textToComplete media=img/granxa.png}');
+    expect(markdown).toContain(
+      ':::testQuestion\nquestion: "Que animal di \\"mu\\"?"\ncorrectAnswer: vaca\nfalseAlternatives:\n- can\n- " gato"\n-\n:::'
+    );
+    expect(markdown).toContain('## {type=Custom position=3}\n\nRelacione as palabras.\n\n:::pairsOfText {position=2}');
+    expect(markdown).toContain('- "a => b" => ""');
+  });
+});
+
+describe('parseLessonMarkdown', () => {
+  it('round-trips with the serializer', () => {
+    const markdown = serializeLessonMarkdown(lesson);
+    const parsed = parseLessonMarkdown(markdown);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.lesson).toEqual(lesson);
+    expect(serializeLessonMarkdown(parsed.lesson as MarkdownLesson)).toBe(markdown);
+  });
+
+  it('reads hand-written files', () => {
+    const { lesson: parsed, errors } = parseLessonMarkdown(
+      [
+        '# As cores',
+        '',
+        '## Introdución {type=Introduction}',
+        '',
+        ':::textToComplete',
+        '  phrase: O ceo é [BLANK].',
+        'correctAnswer: azul',
+        'falseAlternatives:',
+        '  - verde',
+        '  - vermello',
+        '  - negro',
+        ':::',
+      ].join('\r\n')
+    );
+
+    expect(errors).toEqual([]);
+    expect(parsed?.module).toBeNull();
+    expect(parsed?.pages[0]).toMatchObject({ title: 'Introdución', type: 'Introduction', position: 1, content: null });
+    expect(parsed?.pages[0].grains).toEqual([
+      {
+        position: 1,
+        type: 'textToComplete',
+        content: { phrase: 'O ceo é [BLANK].', correctAnswer: 'azul', falseAlternatives: ['verde', 'vermello', 'negro'] },
+      },
+    ]);
+  });
+
+  it('reports problems with their line', () => {
+    const { lesson: parsed, errors } = parseLessonMarkdown(
+      [
+        '# Erros',
+        '## Sen tipo',
+        '## Páxina {type=Nope}',
+        ':::testQuestion',
+        'question: Q',
+        'answer: a',
+        'falseAlternatives:',
+        '- b',
+        ':::',
+        ':::pairsOfText',
+        'pairs:',
+        '- sen separador',
+        ':::',
+        ':::unknownGrain',
+        ':::',
+      ].join('\n')
+    );
+
+    expect(parsed).toBeNull();
+    expect(errors.map(error => error.line)).toEqual([2, 3, 4, 6, 10, 12, 14]);
+    expect(errors[3].message).toBe('Campo desconhecido para testQuestion: "answer".');
+    expect(errors[5].message).toContain('Par inválido');
+  });
+
+  it('requires the lesson title and closed blocks', () => {
+    expect(parseLessonMarkdown('## P {type=Introduction}\n:::testQuestion\nquestion: Q').errors).toEqual([
+      { line: 1, message: 'Falta o título da lição (# Título).' },
+      { line: 2, message: 'O bloco :::testQuestion não está fechado.' },
+    ]);
+  });
+});
+
+describe('buildMarkdownCoursePackage', () => {
+  it('builds a valid package with the lessons in their modules and local media to upload', () => {
+    const coursePackage = buildMarkdownCoursePackage([lesson, { ...lesson, module: null, title: 'Outra' }], '2026-01-01');
+
+    expect(validateCoursePackage(coursePackage)).toEqual([]);
+    expect(coursePackage.modules.map(module => [module.title, module.lessons.map(item => item.title)])).toEqual([
+      ['Os animais', ['Na granxa']],
+      ['Lições em Markdown', ['Outra']],
+    ]);
+    expect(coursePackage.media).toEqual([{ path: 'img/granxa.png', url: 'img/granxa.png', file: 'img/granxa.png' }]);
+  });
+
+  it('names the file after the lesson', () => {
+    expect(getLessonMarkdownFileName('Na granxa!')).toBe('na-granxa.md');
+  });
+});
@@ -0,0 +1,50 @@
+import { getOrderWordsIssues, getOrderWordsTiles, isOrderWordsCorrect, splitOrderWords } from '../../src/lib/orderWords';
+import { validateGrainContent } from '../../src/lib/grainValidation';
+import { OrderWordsContent } from '../../src/types';
+
+const content: OrderWordsContent = {
+  sentence: 'Eu vivo en Santiago.',
+  distractors: ['vives', ' '],
+  acceptedOrders: ['En Santiago vivo eu.'],
+};
+
+describe('orderWords', () => {
+  it('builds tiles from the sentence words and the distractors', () => {
+    expect(splitOrderWords('  Eu   vivo en Santiago. ')).toEqual(['Eu', 'vivo', 'en', 'Santiago.']);
+    expect(getOrderWordsTiles(content).map(tile => [tile.id, tile.word, tile.distractor])).toEqual([
+      ['w0', 'Eu', false],
+      ['w1', 'vivo', false],
+      ['w2', 'en', false],
+      ['w3', 'Santiago.', false],
+      ['d0', 'vives', true],
+    ]);
+  });
+
+  it('accepts the sentence and the accepted orders, ignoring case and punctuation', () => {
+    expect(isOrderWordsCorrect(content, ['Eu', 'vivo', 'en', 'Santiago.'])).toBe(true);
+    expect(isOrderWordsCorrect(content, ['eu', 'vivo', 'en', 'santiago'])).toBe(true);
+    expect(isOrderWordsCorrect(content, ['En', 'Santiago.', 'vivo', 'Eu'])).toBe(true);
+    expect(isOrderWordsCorrect(content, ['Eu', 'vives', 'en', 'Santiago.'])).toBe(false);
+    expect(isOrderWordsCorrect(content, ['Eu', 'vivo', 'en'])).toBe(false);
+    expect(isOrderWordsCorrect(content, [])).toBe(false);
+  });
+
+  it('flags accepted orders that use other words', () => {
+    expect(getOrderWordsIssues(content)).toEqual([]);
+    expect(getOrderWordsIssues({ sentence: 'Ola', distractors: [], acceptedOrders: ['Santiago en vivo', 'Vivo eu'] })).toEqual([
+      'A frase deve ter pelo menos 2 palavras.',
+      'A ordem aceite 1 não usa as mesmas palavras da frase.',
+      'A ordem aceite 2 não usa as mesmas palavras da frase.',
+    ]);
+  });
+
+  it('limits the distractors and accepted orders', () => {
+    const { errors } = validateGrainContent('orderWords', {
+      sentence: 'Eu vivo en Santiago',
+      distractors: ['a', 'b', 'c', 'd', 'e', 'f', 'g'],
+      acceptedOrders: [],
+    });
+
+    expect(errors.map(error => [error.field, error.code])).toEqual([['distractors', 'invalid_length']]);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  draftFromPageTemplate,
+  MAX_TEMPLATE_SLOTS,
+  pageFieldsFromTemplate,
+  toPageTemplate,
+  validatePageTemplateDraft,
+} from '../../src/lib/pageTemplates';
+
+jest.mock('../../src/lib/supabase', () => ({ supabase: {} }));
+
+const version = (number: number, grain_pattern: string[], slot_hints: (string | null)[] | null = null) => ({
+  id: `v${number}`,
+  template_id: 't1',
+  version: number,
+  grain_pattern,
+  slot_hints,
+  created_by: null,
+  created_at: '2024-01-01',
+});
+
+const row = {
+  id: 't1',
+  name: 'Vocabulário com áudio',
+  description: null,
+  current_version: 2,
+  archived: false,
+  created_by: null,
+  created_at: '2024-01-01',
+  updated_at: '2024-01-01',
+  versions: [
+    version(1, ['textToComplete']),
+    version(2, ['audioToGuess', 'pairsOfText'], ['Palavra nova']),
+  ],
+};
+
+describe('toPageTemplate', () => {
+  it('uses the current version by default', () => {
+    const template = toPageTemplate(row as never);
+
+    expect(template).toMatchObject({ version: 2, grainPattern: ['audioToGuess', 'pairsOfText'] });
+    expect(template?.slotHints).toEqual(['Palavra nova', null]);
+  });
+
+  it('resolves older versions for existing pages', () => {
+    expect(toPageTemplate(row as never, 1)?.grainPattern).toEqual(['textToComplete']);
+    expect(toPageTemplate(row as never, 5)).toBeNull();
+  });
+
+  it('drops unknown grain types together with their hint', () => {
+    const template = toPageTemplate({
+      ...row,
+      versions: [version(2, ['audioToGuess', 'retiredType', 'pairsOfText'], ['Palavra nova', 'Antigo', 'Pares'])],
+    } as never);
+
+    expect(template?.grainPattern).toEqual(['audioToGuess', 'pairsOfText']);
+    expect(template?.slotHints).toEqual(['Palavra nova', 'Pares']);
+  });
+});
+
+describe('validatePageTemplateDraft', () => {
+  it('accepts a named template with known grain types', () => {
+    const template = toPageTemplate(row as never);
+
+    expect(validatePageTemplateDraft(draftFromPageTemplate(template!))).toEqual([]);
+  });
+
+  it('rejects drafts without a name, slots or with too many slots', () => {
+    expect(validatePageTemplateDraft({ name: ' ', description: '', grainPattern: [], slotHints: [] })).toHaveLength(2);
+    expect(
+      validatePageTemplateDraft({
+        name: 'Longo',
+        description: '',
+        grainPattern: new Array(MAX_TEMPLATE_SLOTS + 1).fill('testQuestion'),
+        slotHints: [],
+      })
+    ).toHaveLength(1);
+  });
+});
+
+describe('pageFieldsFromTemplate', () => {
+  it('stores template pages as Custom pages pinned to the template version', () => {
+    expect(pageFieldsFromTemplate(toPageTemplate(row as never)!)).toEqual({
+      type: 'Custom',
+      grain_pattern: ['audioToGuess', 'pairsOfText'],
+      template_id: 't1',
+      template_version: 2,
+    });
+  });
+});
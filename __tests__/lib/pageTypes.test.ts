@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  buildPageTypeConstraintsSql,
+  getAllowedGrainTypes,
+  getExpectedGrainType,
+  getGrainPattern,
+  getPageTypeDefinition,
+  isGrainTypeAllowed,
+  PAGE_TYPES,
+  SELECTABLE_PAGE_TYPES,
+  validatePageGrains,
+} from '../../src/lib/pageTypes';
+
+describe('page type registry', () => {
+  it('gives every patterned page type a full sequence', () => {
+    (['Introduction', 'Booster', 'Comparation', 'Review'] as const).forEach(type => {
+      expect(getGrainPattern(type)).toHaveLength(PAGE_TYPES[type].grainCount);
+    });
+  });
+
+  it('does not offer legacy text pages for new content', () => {
+    expect(SELECTABLE_PAGE_TYPES).not.toContain('text');
+  });
+
+  it('falls back to the legacy definition for unknown types', () => {
+    expect(getPageTypeDefinition('unknown').type).toBe('text');
+  });
+
+  it('resolves the grain type expected at each position', () => {
+    expect(getExpectedGrainType('Introduction', 1)).toBe('imagesToGuess');
+    expect(getExpectedGrainType('Introduction', 8)).toBe('pairsOfText');
+    expect(getExpectedGrainType('Introduction', 16)).toBeNull();
+    expect(getExpectedGrainType('text', 1)).toBeNull();
+  });
+
+  it('lets a slot accept more than one grain type', () => {
+    expect(getGrainPattern('Review')[13]).toBe('textToComplete');
+    expect(getAllowedGrainTypes('Review', 14)).toEqual(['textToComplete', 'trueFalse']);
+    expect(getExpectedGrainType('Review', 14)).toBeNull();
+    expect(isGrainTypeAllowed('Review', 13, 'trueFalse')).toBe(false);
+  });
+
+  it('reads Custom pages from their own grain pattern', () => {
+    const pattern = ['audioToGuess', 'testQuestion'];
+
+    expect(getExpectedGrainType('Custom', 2, pattern)).toBe('testQuestion');
+    expect(isGrainTypeAllowed('Custom', 1, 'testQuestion', pattern)).toBe(false);
+    expect(getAllowedGrainTypes('Custom', 1, null).length).toBeGreaterThan(1);
+  });
+});
+
+describe('validatePageGrains', () => {
+  it('accepts a page that follows its pattern', () => {
+    const grains = getGrainPattern('Review').map((type, index) => ({ position: index + 1, type }));
+
+    expect(validatePageGrains('Review', grains)).toEqual([]);
+  });
+
+  it('reports grains of the wrong type and extra grains', () => {
+    const grains: { position: number; type: string }[] = getGrainPattern('Introduction').map((type, index) => ({ position: index + 1, type }));
+    grains[0] = { position: 1, type: 'testQuestion' };
+    grains.push({ position: 16, type: 'testQuestion' });
+
+    const issues = validatePageGrains('Introduction', grains);
+
+    expect(issues.map(issue => issue.position)).toEqual([null, 1, 16]);
+  });
+
+  it('ignores legacy text pages', () => {
+    expect(validatePageGrains('text', [{ position: 40, type: 'testQuestion' }])).toEqual([]);
+  });
+});
+
+describe('buildPageTypeConstraintsSql', () => {
+  it('matches the committed migration', () => {
+    const migration = readFileSync(join(__dirname, '../../migrations/page_type_registry.sql'), 'utf8');
+
+    expect(migration).toBe(buildPageTypeConstraintsSql());
+  });
+});
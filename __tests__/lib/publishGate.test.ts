@@ -0,0 +1,158 @@
+import { CourseService } from '../../src/lib/courseService';
+import { PublishGate } from '../../src/lib/publishGate';
+import { PAGE_TYPES } from '../../src/lib/pageTypes';
+
+jest.mock('../../src/lib/supabase', () => ({ supabase: {} }));
+
+const mockRepositories = {
+  courses: { publishWithOverride: jest.fn() },
+  courseReleases: { publish: jest.fn() },
+};
+
+jest.mock('../../src/lib/repositories', () => ({
+  get repositories() {
+    return mockRepositories;
+  },
+}));
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+
+const question = (position: number, content: Record<string, unknown> = {}) => ({
+  id: `g${position}`,
+  page_id: 'p1',
+  position,
+  type: 'testQuestion',
+  content: {
+    question: `Pregunta ${position}?`,
+    correctAnswer: 'casa',
+    falseAlternatives: ['can', 'gato', 'rúa'],
+    ...content,
+  },
+  ...timestamps,
+});
+
+const tree = (grains: ReturnType<typeof question>[], page: Record<string, unknown> = {}) => ({
+  id: 'c1',
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: 'https://cdn.test/capa.png',
+  creator_id: 'u1',
+  published: false,
+  ...timestamps,
+  modules: [
+    {
+      id: 'm1',
+      course_id: 'c1',
+      title: 'Módulo',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        {
+          id: 'l1',
+          module_id: 'm1',
+          title: 'Lição',
+          content: null,
+          position: 1,
+          ...timestamps,
+          pages: [
+            {
+              id: 'p1',
+              lesson_id: 'l1',
+              title: 'Página',
+              content: null,
+              media_url: null,
+              position: 1,
+              type: 'Custom',
+              grain_pattern: grains.map(() => 'testQuestion'),
+              template_id: null,
+              template_version: null,
+              grains_count: grains.length,
+              completion_status: 'complete',
+              grains,
+              ...timestamps,
+              ...page,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
+
+const fullPage = Array.from({ length: 3 }, (_, index) => question(index + 1));
+
+describe('PublishGate.evaluate', () => {
+  it('passes a complete course', () => {
+    const report = PublishGate.evaluate(tree(fullPage) as never);
+
+    expect(report.canPublish).toBe(true);
+    expect(report.steps.every(step => step.passed)).toBe(true);
+  });
+
+  it('groups blocking issues by step', () => {
+    const grains = [question(1, { falseAlternatives: ['casa', 'gato', ''] })];
+    const report = PublishGate.evaluate(tree(grains, { type: 'Review', grain_pattern: null }) as never, [
+      'https://cdn.test/capa.png',
+    ]);
+    const failed = Object.fromEntries(report.steps.map(step => [step.id, step.issues.map(issue => issue.code)]));
+
+    expect(report.canPublish).toBe(false);
+    expect(failed.content).toEqual(['false_equals_answer', 'incomplete_grain']);
+    expect(failed.media).toEqual(['broken_media']);
+    expect(failed.structure).toEqual(['pattern_mismatch', 'missing_grains']);
+    expect(report.steps.find(step => step.id === 'structure')?.issues[1].message).toContain(
+      `de ${PAGE_TYPES.Review.grainCount} grãos`
+    );
+  });
+});
+
+describe('PublishGate.publish', () => {
+  const reachable = jest.fn(async () => true);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRepositories.courseReleases.publish.mockResolvedValue({ data: { release_id: 'r2', version: 2 }, error: null });
+    mockRepositories.courses.publishWithOverride.mockResolvedValue({
+      data: { release_id: 'r3', version: 3, override_id: 'override-1' },
+      error: null,
+    });
+  });
+
+  it('publishes a release of courses that pass the pipeline', async () => {
+    jest.spyOn(CourseService, 'loadCourseTree').mockResolvedValue(tree(fullPage) as never);
+
+    const outcome = await PublishGate.publish('c1', { mediaCheck: reachable });
+
+    expect(outcome).toMatchObject({ status: 'published', release: { release_id: 'r2', version: 2 } });
+    expect(mockRepositories.courseReleases.publish).toHaveBeenCalledWith(
+      'c1',
+      expect.objectContaining({ course: expect.objectContaining({ id: 'c1' }) })
+    );
+  });
+
+  it('returns the report without publishing when blocked', async () => {
+    jest.spyOn(CourseService, 'loadCourseTree').mockResolvedValue(tree([question(1, { question: '' })]) as never);
+
+    const outcome = await PublishGate.publish('c1', { mediaCheck: reachable });
+
+    expect(outcome.status).toBe('blocked');
+    expect(outcome.report.blocking).toHaveLength(1);
+    expect(mockRepositories.courseReleases.publish).not.toHaveBeenCalled();
+  });
+
+  it('records admin overrides with the reason and the blocking issues', async () => {
+    jest.spyOn(CourseService, 'loadCourseTree').mockResolvedValue(tree([question(1, { question: '' })]) as never);
+
+    await expect(PublishGate.publish('c1', { override: { reason: ' ' }, mediaCheck: reachable })).rejects.toThrow();
+
+    const outcome = await PublishGate.publish('c1', { override: { reason: ' Prazo do cliente ' }, mediaCheck: reachable });
+
+    expect(outcome).toMatchObject({ status: 'overridden', overrideId: 'override-1', release: { release_id: 'r3', version: 3 } });
+    expect(mockRepositories.courses.publishWithOverride).toHaveBeenCalledWith(
+      'c1',
+      'Prazo do cliente',
+      [expect.objectContaining({ code: 'incomplete_grain', location: expect.objectContaining({ grainId: 'g1' }) })],
+      expect.objectContaining({ format: 1 })
+    );
+  });
+});
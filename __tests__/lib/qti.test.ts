@@ -0,0 +1,245 @@
+import { buildCoursePackage } from '../../src/lib/courseExport';
+import { planCourseImport } from '../../src/lib/courseImport';
+import {
+  buildQtiCoursePackage,
+  buildQtiItem,
+  buildQtiPackage,
+  getQtiFileName,
+  parseQtiFiles,
+  parseQtiItem,
+} from '../../src/lib/qti';
+import { parseXml, textContent } from '../../src/lib/xml';
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+const image = 'https://x.supabase.co/storage/v1/object/public/course-content/img/vermello.png';
+
+const grain = (id: string, position: number, type: string, content: object) => ({
+  id,
+  page_id: 'p1',
+  position,
+  type,
+  content,
+  ...timestamps,
+});
+
+const tree = {
+  id: 'c1',
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: null,
+  creator_id: 'u1',
+  published: true,
+  ...timestamps,
+  modules: [
+    {
+      id: 'm1',
+      course_id: 'c1',
+      title: 'Cores',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        {
+          id: 'l1',
+          module_id: 'm1',
+          title: 'Vermello',
+          content: null,
+          position: 1,
+          ...timestamps,
+          pages: [
+            {
+              id: 'p1',
+              lesson_id: 'l1',
+              title: '',
+              content: null,
+              media_url: null,
+              position: 1,
+              type: 'Custom',
+              grain_pattern: ['testQuestion', 'textToComplete', 'textToGuess', 'pairsOfText', 'textToComplete'],
+              grains_count: 5,
+              completion_status: 'complete',
+              ...timestamps,
+              grains: [
+                grain('g1', 1, 'testQuestion', {
+                  question: 'De que cor é o sangue?',
+                  correctAnswer: 'Vermello',
+                  falseAlternatives: ['Azul', 'Verde', 'Negro & branco'],
+                }),
+                grain('g2', 2, 'textToComplete', {
+                  phrase: 'O tomate é [BLANK] cando madura.',
+                  correctAnswer: 'vermello',
+                  falseAlternatives: ['azul', 'verde', 'negro'],
+                }),
+                grain('g3', 3, 'textToGuess', {
+                  imageUrl: image,
+                  correctAnswer: 'vermello',
+                  falseAlternatives: ['azul', 'verde', 'negro'],
+                }),
+                grain('g4', 4, 'pairsOfText', {
+                  pairs: [
+                    { left: 'a', right: 'b' },
+                    { left: 'c', right: 'd' },
+                    { left: 'e', right: 'f' },
+                    { left: 'g', right: 'h' },
+                  ],
+                }),
+                grain('g5', 5, 'textToComplete', {
+                  phrase: 'Sen oco.',
+                  correctAnswer: 'x',
+                  falseAlternatives: ['y', 'z', 'w'],
+                }),
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const coursePackage = buildCoursePackage(tree as never, '2026-01-01T00:00:00.000Z');
+
+const itemFiles = (files: { path: string; data: string | Uint8Array }[]) =>
+  files.filter(file => file.path.startsWith('items/')).map(file => ({ name: file.path, text: file.data as string }));
+
+describe('parseXml', () => {
+  it('reads elements, attributes, entities and CDATA', () => {
+    const root = parseXml(
+      '<?xml version="1.0"?><!-- c --><a x="1 &amp; 2" y=\'3\'><b>um &lt;dous&gt;</b><![CDATA[<tres>]]><c/></a>'
+    );
+
+    expect(root.name).toBe('a');
+    expect(root.attributes).toEqual({ x: '1 & 2', y: '3' });
+    expect(textContent(root)).toBe('um <dous><tres>');
+  });
+
+  it('rejects malformed documents', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow();
+    expect(() => parseXml('<a>')).toThrow();
+  });
+});
+
+describe('buildQtiPackage', () => {
+  it('writes one item per question-like grain and reports the others', () => {
+    const { files, items, skipped } = buildQtiPackage(coursePackage, { media: { [image]: new Uint8Array([1]) } });
+
+    expect(items).toBe(3);
+    expect(files.map(file => file.path)).toEqual([
+      'imsmanifest.xml',
+      'items/grain-g1.xml',
+      'items/grain-g2.xml',
+      'items/grain-g3.xml',
+      'media/img/vermello.png',
+    ]);
+    expect(skipped).toEqual([
+      { path: 'Cores › Vermello › Página 1 › Grão 4', message: 'Pares de Texto não tem equivalente em QTI.' },
+      { path: 'Cores › Vermello › Página 1 › Grão 5', message: 'A frase deve conter [BLANK] uma única vez.' },
+    ]);
+    expect(files[0].data).toContain('type="imsqti_item_xmlv2p1" href="items/grain-g3.xml"');
+    expect(files[0].data).toContain('<file href="media/img/vermello.png"/>');
+    expect(files[3].data).toContain('<img src="../media/img/vermello.png" alt=""/>');
+  });
+
+  it('uses choice and inline choice interactions', () => {
+    const [, question, complete] = buildQtiPackage(coursePackage).files;
+
+    expect(question.data).toContain('<choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="1">');
+    expect(question.data).toContain('<simpleChoice identifier="D">Negro &amp; branco</simpleChoice>');
+    expect(complete.data).toContain('<p>O tomate é <inlineChoiceInteraction');
+    expect(complete.data).toContain('</inlineChoiceInteraction> cando madura.</p>');
+  });
+
+  it('names the archive after the course', () => {
+    expect(getQtiFileName(coursePackage)).toBe('galego-basico.qti21.zip');
+  });
+});
+
+describe('parseQtiItem', () => {
+  it('round-trips exported grains', () => {
+    const { items, skipped } = parseQtiFiles(itemFiles(buildQtiPackage(coursePackage).files));
+    const grains = coursePackage.modules[0].lessons[0].pages[0].grains;
+
+    expect(skipped).toEqual([]);
+    expect(items.map(item => ({ type: item.type, content: item.content }))).toEqual(
+      grains.slice(0, 3).map(({ type, content }) => ({ type, content }))
+    );
+  });
+
+  it('reads items from other tools with the correct answer anywhere', () => {
+    const { item } = parseQtiItem(
+      `<qti:assessmentItem xmlns:qti="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q1" title="Capital">
+        <qti:responseDeclaration identifier="R1" cardinality="single" baseType="identifier">
+          <qti:correctResponse><qti:value>C</qti:value></qti:correctResponse>
+        </qti:responseDeclaration>
+        <qti:itemBody>
+          <qti:p>Cal é a capital de Galicia?</qti:p>
+          <qti:choiceInteraction responseIdentifier="R1" maxChoices="1">
+            <qti:simpleChoice identifier="A">Lugo</qti:simpleChoice>
+            <qti:simpleChoice identifier="B"><qti:b>Vigo</qti:b></qti:simpleChoice>
+            <qti:simpleChoice identifier="C">Santiago</qti:simpleChoice>
+            <qti:simpleChoice identifier="D">Ourense</qti:simpleChoice>
+          </qti:choiceInteraction>
+        </qti:itemBody>
+      </qti:assessmentItem>`,
+      'capital.xml'
+    );
+
+    expect(item).toEqual({
+      source: 'capital.xml',
+      title: 'Capital',
+      type: 'testQuestion',
+      content: { question: 'Cal é a capital de Galicia?', correctAnswer: 'Santiago', falseAlternatives: ['Lugo', 'Vigo', 'Ourense'] },
+    });
+  });
+
+  it('reads any number of alternatives and several correct answers', () => {
+    const content = { question: 'Cores?', correctAnswer: 'azul', falseAlternatives: ['sol'], extraCorrectAnswers: ['verde'] };
+    const xml = buildQtiItem('q', 'Q', 'testQuestion', content);
+
+    expect(xml).toContain('cardinality="multiple"');
+    expect(xml).toContain('maxChoices="0"');
+    expect(parseQtiItem(xml, 'q.xml').item?.content).toEqual(content);
+    expect(
+      parseQtiItem(buildQtiItem('q', 'Q', 'testQuestion', { question: 'Si?', correctAnswer: 'si', falseAlternatives: ['non'] }), 'q.xml')
+        .item?.content
+    ).toEqual({ question: 'Si?', correctAnswer: 'si', falseAlternatives: ['non'] });
+  });
+
+  it('reports items with no grain equivalent', () => {
+    const item = (interaction: string, cardinality = 'single') =>
+      buildQtiItem('q', 'Q', 'testQuestion', { question: 'Q', correctAnswer: 'a', falseAlternatives: ['b', 'c', 'd'] })
+        .replace(/<choiceInteraction[\s\S]*<\/choiceInteraction>/, interaction)
+        .replace('cardinality="single"', `cardinality="${cardinality}"`);
+
+    const { items, skipped } = parseQtiFiles([
+      { name: 'texto.xml', text: item('<extendedTextInteraction responseIdentifier="RESPONSE"/>') },
+      { name: 'multipla.xml', text: item('<inlineChoiceInteraction responseIdentifier="RESPONSE"/>', 'multiple') },
+      {
+        name: 'unica.xml',
+        text: item('<choiceInteraction responseIdentifier="RESPONSE" maxChoices="1"><simpleChoice identifier="A">a</simpleChoice></choiceInteraction>'),
+      },
+      { name: 'roto.xml', text: '<assessmentItem>' },
+      { name: 'imsmanifest.xml', text: '<manifest/>' },
+    ]);
+
+    expect(items).toEqual([]);
+    expect(skipped).toEqual([
+      { path: 'texto.xml (Q)', message: 'A interação extendedTextInteraction não tem equivalente nos grãos.' },
+      { path: 'multipla.xml (Q)', message: 'Só são suportados itens de uma resposta, ou de várias com choiceInteraction.' },
+      { path: 'unica.xml (Q)', message: 'O item tem 1 opções; os grãos têm de 2 a 8 (as certas e 1 a 7 erradas).' },
+      { path: 'roto.xml', message: 'O ficheiro não é XML válido.' },
+    ]);
+  });
+});
+
+describe('buildQtiCoursePackage', () => {
+  it('makes an importable package of Custom pages', () => {
+    const { items } = parseQtiFiles(itemFiles(buildQtiPackage(coursePackage, { media: { [image]: new Uint8Array([1]) } }).files));
+    const imported = buildQtiCoursePackage([...items, ...items, ...items, ...items, ...items, ...items]);
+    const plan = planCourseImport(imported, { mediaFiles: ['../media/img/vermello.png'] });
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.counts).toEqual({ modules: 1, lessons: 1, pages: 2, grains: 18 });
+    expect(imported.modules[0].lessons[0].pages[1].grain_pattern).toEqual(['testQuestion', 'textToComplete', 'textToGuess']);
+    expect(plan.media.upload).toEqual([{ path: 'media/img/vermello.png', url: '../media/img/vermello.png', file: '../media/img/vermello.png' }]);
+  });
+});
@@ -0,0 +1,116 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createRepositories, toApiError } from '../../src/lib/repositories';
+
+jest.mock('../../src/lib/supabase', () => ({ supabase: {} }));
+
+type Call = { table: string; method: string; args: unknown[] };
+
+/**
+ * Minimal chainable stand-in for the supabase query builder.
+ * Every awaited query resolves with the next queued response.
+ */
+const createFakeClient = (responses: { data?: unknown; error?: unknown }[]) => {
+  const calls: Call[] = [];
+
+  const from = (table: string) => {
+    const builder: Record<string, unknown> = {};
+    ['select', 'insert', 'update', 'delete', 'eq', 'order', 'limit', 'single'].forEach(method => {
+      builder[method] = (...args: unknown[]) => {
+        calls.push({ table, method, args });
+        return builder;
+      };
+    });
+    builder.then = (resolve: (value: unknown) => unknown) => {
+      const response = responses.shift() ?? {};
+      return Promise.resolve({ data: response.data ?? null, error: response.error ?? null }).then(resolve);
+    };
+    return builder;
+  };
+
+  return { client: { from } as unknown as SupabaseClient, calls };
+};
+
+describe('repositories', () => {
+  it('lists children ordered by position', async () => {
+    const { client, calls } = createFakeClient([{ data: [{ id: 'l1' }, { id: 'l2' }] }]);
+    const { lessons } = createRepositories(client);
+
+    const result = await lessons.list('module-1');
+
+    expect(result.error).toBeNull();
+    expect(result.data).toHaveLength(2);
+    expect(calls).toContainEqual({ table: 'lessons', method: 'eq', args: ['module_id', 'module-1'] });
+    expect(calls).toContainEqual({ table: 'lessons', method: 'order', args: ['position', { ascending: true }] });
+  });
+
+  it('computes the next position from the last sibling', async () => {
+    const { client } = createFakeClient([{ data: [{ position: 4 }] }, { data: [] }]);
+    const { pages } = createRepositories(client);
+
+    expect((await pages.nextPosition('lesson-1')).data).toBe(5);
+    expect((await pages.nextPosition('lesson-2')).data).toBe(1);
+  });
+
+  it('stamps updated_at on update', async () => {
+    const { client, calls } = createFakeClient([{ data: { id: 'c1' } }]);
+    const { courses } = createRepositories(client);
+
+    await courses.update('c1', { title: 'Novo' });
+
+    const update = calls.find(call => call.method === 'update');
+    expect(update?.args[0]).toMatchObject({ title: 'Novo', updated_at: expect.any(String) });
+  });
+
+  it('reorders through temporary negative positions', async () => {
+    const { client, calls } = createFakeClient([]);
+    const { grains } = createRepositories(client);
+
+    const result = await grains.reorder('page-1', ['g2', 'g1']);
+
+    expect(result.error).toBeNull();
+    const positions = calls
+      .filter(call => call.method === 'update')
+      .map(call => (call.args[0] as { position: number }).position);
+    expect(positions).toEqual([-1, -2, 1, 2]);
+  });
+
+  it('returns a uniform ApiError on failure', async () => {
+    const { client } = createFakeClient([{ error: { message: 'row not found', code: 'PGRST116', status: 406 } }]);
+    const { modules } = createRepositories(client);
+
+    const result = await modules.get('missing');
+
+    expect(result.data).toBeNull();
+    expect(result.error).toMatchObject({ message: 'row not found', code: 'PGRST116', statusCode: 406 });
+  });
+
+  it('normalizes legacy grain content when loading', async () => {
+    const { client } = createFakeClient([
+      { data: [{ id: 'g1', type: 'textToComplete', content: { phrase: 'Eu [BLANK] galego', missingWord: 'falo' } }] },
+    ]);
+    const { grains } = createRepositories(client);
+
+    const result = await grains.list('page-1');
+
+    expect(result.data?.[0].content).toEqual({ phrase: 'Eu [BLANK] galego', correctAnswer: 'falo', falseAlternatives: ['', '', ''] });
+  });
+
+  it('rejects malformed grain content before writing', async () => {
+    const { client, calls } = createFakeClient([]);
+    const { grains } = createRepositories(client);
+
+    const result = await grains.create({
+      page_id: 'page-1',
+      position: 1,
+      type: 'testQuestion',
+      content: { question: 'Que é?' } as never,
+    });
+
+    expect(result.error).toMatchObject({ code: 'invalid_grain_content' });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('falls back to a generic message for unknown errors', () => {
+    expect(toApiError(undefined).message).toBe('Ocorreu um erro inesperado');
+  });
+});
@@ -0,0 +1,138 @@
+import { buildCoursePackage } from '../../src/lib/courseExport';
+import { buildScormManifest, buildScormPackage, createScormZip, getScormFileName } from '../../src/lib/scormExport';
+import { SCORM_PLAYER_JS } from '../../src/lib/scormPlayer';
+import { crc32 } from '../../src/lib/zip';
+
+const timestamps = { created_at: '2024-01-01', updated_at: '2024-01-01' };
+const media = (path: string) => `https://x.supabase.co/storage/v1/object/public/course-content/${path}`;
+
+const page = (id: string, position: number) => ({
+  id,
+  lesson_id: 'l1',
+  title: position === 1 ? 'Cores & formas' : '',
+  content: null,
+  media_url: null,
+  position,
+  type: 'Custom',
+  grain_pattern: ['textToGuess'],
+  grains_count: 1,
+  completion_status: 'complete',
+  ...timestamps,
+  grains: [
+    {
+      id: `${id}-g1`,
+      page_id: id,
+      position: 1,
+      type: 'textToGuess',
+      content: { imageUrl: media('img/vermello.png'), correctAnswer: 'vermello', falseAlternatives: ['azul', 'verde', 'negro'] },
+      ...timestamps,
+    },
+  ],
+});
+
+const tree = {
+  id: 'c1',
+  title: 'Galego básico',
+  description: null,
+  cover_image_url: null,
+  creator_id: 'u1',
+  published: true,
+  ...timestamps,
+  modules: [
+    {
+      id: 'm1',
+      course_id: 'c1',
+      title: 'Cores',
+      position: 1,
+      ...timestamps,
+      lessons: [
+        { id: 'l1', module_id: 'm1', title: 'Vermello', content: null, position: 1, ...timestamps, pages: [page('p1', 1), page('p2', 2)] },
+        { id: 'l2', module_id: 'm1', title: 'Baleira', content: null, position: 2, ...timestamps, pages: [] },
+      ],
+    },
+    { id: 'm2', course_id: 'c1', title: 'Sen lições', position: 2, ...timestamps, lessons: [] },
+  ],
+};
+
+const coursePackage = buildCoursePackage(tree as never, '2026-01-01T00:00:00.000Z');
+
+describe('buildScormManifest', () => {
+  it('organizes pages as SCO items under their module and lesson', () => {
+    const manifest = buildScormManifest(coursePackage, '1.2');
+
+    expect(manifest).toContain('<schemaversion>1.2</schemaversion>');
+    expect(manifest).toContain('<item identifier="item-p1" identifierref="res-p1">');
+    expect(manifest).toContain('<title>Cores &amp; formas</title>');
+    expect(manifest).toContain('<title>Página 2</title>');
+    expect(manifest).toContain('adlcp:scormtype="sco" href="sco/p1.html"');
+    expect(manifest).toContain('<adlcp:masteryscore>80</adlcp:masteryscore>');
+    expect(manifest).not.toContain('item-l2');
+    expect(manifest).not.toContain('item-m2');
+  });
+
+  it('uses the SCORM 2004 namespaces and sequencing', () => {
+    const manifest = buildScormManifest(coursePackage, '2004', 70);
+
+    expect(manifest).toContain('<schemaversion>2004 4th Edition</schemaversion>');
+    expect(manifest).toContain('xmlns:imsss="http://www.imsglobal.org/xsd/imsss"');
+    expect(manifest).toContain('adlcp:scormType="sco"');
+    expect(manifest).toContain('<imsss:minNormalizedMeasure>0.7</imsss:minNormalizedMeasure>');
+  });
+});
+
+describe('buildScormPackage', () => {
+  it('bundles the player, one page per SCO and the downloaded media', () => {
+    const files = buildScormPackage(coursePackage, {
+      version: '2004',
+      media: { [media('img/vermello.png')]: new Uint8Array([1, 2, 3]) },
+    });
+    const paths = files.map(file => file.path);
+    const courseData = files.find(file => file.path === 'shared/course.js')?.data as string;
+
+    expect(paths).toEqual([
+      'imsmanifest.xml',
+      'shared/course.js',
+      'shared/player.js',
+      'shared/player.css',
+      'sco/p1.html',
+      'sco/p2.html',
+      'media/img/vermello.png',
+    ]);
+    expect(courseData).toContain('"imageUrl":"../media/img/vermello.png"');
+    expect(courseData).not.toContain(media('img/vermello.png'));
+    expect(files[0].data).toContain('<file href="media/img/vermello.png"/>');
+  });
+
+  it('keeps remote URLs for media that were not downloaded', () => {
+    const files = buildScormPackage(coursePackage, { version: '1.2' });
+
+    expect(files.find(file => file.path === 'shared/course.js')?.data).toContain(media('img/vermello.png'));
+  });
+
+  it('ships a player that parses', () => {
+    expect(() => new Function(SCORM_PLAYER_JS)).not.toThrow();
+  });
+});
+
+describe('createScormZip', () => {
+  it('writes a zip archive with every file', () => {
+    const zip = createScormZip(coursePackage, { version: '1.2' });
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const end = zip.length - 22;
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(6);
+  });
+
+  it('names the archive after the course and version', () => {
+    expect(getScormFileName(coursePackage, '1.2')).toBe('galego-basico.scorm12.zip');
+    expect(getScormFileName(coursePackage, '2004')).toBe('galego-basico.scorm2004.zip');
+  });
+});
+
+describe('crc32', () => {
+  it('matches the reference checksum', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,141 @@
+import { evaluateGrainCompleteness } from '../../src/lib/grainCompleteness';
+import { createEmptyGrainContent } from '../../src/lib/grainContent';
+import { GRAIN_CSV_LAYOUTS } from '../../src/lib/grainCsv';
+import { normalizeGrainContent, validateGrainContent } from '../../src/lib/grainValidation';
+import { parseLessonMarkdown, serializeLessonMarkdown } from '../../src/lib/lessonMarkdown';
+import {
+  formatTrueFalseStatement,
+  getTrueFalseIssues,
+  isTrueFalseAnswerCorrect,
+  parseTrueFalseStatement,
+  scoreTrueFalse,
+} from '../../src/lib/trueFalse';
+import { buildWorksheet } from '../../src/lib/worksheet';
+import { TrueFalseContent } from '../../src/types';
+
+const content: TrueFalseContent = {
+  statements: [
+    { text: 'Santiago é a capital de Galiza.', isTrue: true, explanation: '' },
+    { text: 'Lugo está na costa.', isTrue: false, explanation: 'Lugo é uma província interior.' },
+    { text: 'O Miño nace en Lugo.', isTrue: true, explanation: '' },
+  ],
+};
+
+describe('true/false statements', () => {
+  it('scores every statement on its own', () => {
+    expect(isTrueFalseAnswerCorrect(content, 1, false)).toBe(true);
+    expect(isTrueFalseAnswerCorrect(content, 0, undefined)).toBe(false);
+    expect(isTrueFalseAnswerCorrect(content, 3, true)).toBe(false);
+    expect(scoreTrueFalse(content, [true, true, true])).toEqual({ correct: 2, total: 3 });
+    expect(scoreTrueFalse(content, [])).toEqual({ correct: 0, total: 3 });
+  });
+
+  it('flags empty and repeated statements', () => {
+    expect(getTrueFalseIssues(content)).toEqual([]);
+    expect(
+      getTrueFalseIssues({
+        statements: [
+          ...content.statements,
+          { text: ' ', isTrue: true, explanation: '' },
+          { text: 'lugo está na costa.', isTrue: true, explanation: '' },
+        ],
+      })
+    ).toEqual(['A afirmação 4 está vazia.', 'A afirmação 5 repete a afirmação 2.']);
+  });
+});
+
+describe('true/false content', () => {
+  it('validates 3 to 8 statements and repairs them', () => {
+    expect(validateGrainContent('trueFalse', createEmptyGrainContent('trueFalse')).valid).toBe(true);
+    expect(
+      validateGrainContent('trueFalse', {
+        statements: [...content.statements.slice(0, 2), { text: 'x', isTrue: 'yes', explanation: 1 }],
+      }).errors.map(error => [error.field, error.code])
+    ).toEqual([
+      ['statements[2].isTrue', 'invalid_type'],
+      ['statements[2].explanation', 'invalid_type'],
+    ]);
+    expect(validateGrainContent('trueFalse', { statements: content.statements.slice(0, 2) }).errors.map(error => error.code)).toEqual([
+      'invalid_length',
+    ]);
+    expect(normalizeGrainContent('trueFalse', { statements: [{ statement: 'a', isTrue: 'false' }] }).content).toEqual({
+      statements: [
+        { text: 'a', isTrue: false, explanation: '' },
+        { text: '', isTrue: true, explanation: '' },
+        { text: '', isTrue: true, explanation: '' },
+      ],
+    });
+  });
+
+  it('needs the text of every statement', () => {
+    expect(evaluateGrainCompleteness({ type: 'trueFalse', content }).status).toBe('complete');
+    expect(
+      evaluateGrainCompleteness({
+        type: 'trueFalse',
+        content: { statements: [...content.statements, { text: '', isTrue: false, explanation: 'x' }] },
+      }).missing
+    ).toEqual([{ field: 'statements[3].text', reason: 'empty' }]);
+  });
+
+  it('round-trips through Markdown and spreadsheets', () => {
+    const lesson = {
+      module: null,
+      title: 'Galiza',
+      content: null,
+      pages: [
+        {
+          title: 'Verdadeiro ou falso',
+          position: 1,
+          type: 'Custom' as const,
+          grain_pattern: null,
+          content: null,
+          media_url: null,
+          grains: [{ position: 1, type: 'trueFalse' as const, content }],
+        },
+      ],
+    };
+    const markdown = serializeLessonMarkdown(lesson);
+
+    expect(markdown).toContain('- false: Lugo está na costa. => Lugo é uma província interior.\n');
+    expect(parseLessonMarkdown(markdown)).toEqual({ lesson, errors: [] });
+    expect(parseLessonMarkdown(markdown.replace('- false: Lugo', '- talvez: Lugo')).errors).toEqual([
+      { line: 5, message: '• O campo "statements" deve ter entre 3 e 8 afirmações (tem 2).' },
+      { line: 8, message: 'Afirmação inválida: comece por "true:" ou "false:".' },
+    ]);
+
+    const layout = GRAIN_CSV_LAYOUTS.trueFalse;
+    expect(layout.write(content as unknown as Record<string, unknown>)).toMatchObject({
+      statement1: 'true: Santiago é a capital de Galiza.',
+      statement4: '',
+    });
+    expect(layout.read(layout.write(content as unknown as Record<string, unknown>))).toEqual(content);
+  });
+
+  it('quotes statements that hold the explanation separator', () => {
+    const arrow = { text: 'A frecha => indica dirección', isTrue: true, explanation: 'Sinal de tráfico.' };
+    const quoted = { text: '"Lugo" é interior', isTrue: false, explanation: '' };
+
+    expect(formatTrueFalseStatement(arrow)).toBe('true: "A frecha => indica dirección" => Sinal de tráfico.');
+    expect(parseTrueFalseStatement(formatTrueFalseStatement(arrow))).toEqual(arrow);
+    expect(parseTrueFalseStatement(formatTrueFalseStatement(quoted))).toEqual(quoted);
+    expect(parseTrueFalseStatement('false: "a" b => c')).toEqual({ text: '"a" b', isTrue: false, explanation: 'c' });
+
+    const withArrow: TrueFalseContent = { statements: [...content.statements.slice(0, 2), arrow] };
+    const layout = GRAIN_CSV_LAYOUTS.trueFalse;
+    expect(layout.read(layout.write(withArrow as unknown as Record<string, unknown>))).toEqual(withArrow);
+
+    const grains = [{ position: 1, type: 'trueFalse' as const, content: withArrow }];
+    const page = { title: 'Sinais', position: 1, type: 'Custom' as const, grain_pattern: null, content: null, media_url: null, grains };
+    const lesson = { module: null, title: 'Tráfico', content: null, pages: [page] };
+    expect(parseLessonMarkdown(serializeLessonMarkdown(lesson))).toEqual({ lesson, errors: [] });
+  });
+
+  it('prints the statements with their verdicts in the answer key', () => {
+    const [section] = buildWorksheet({
+      title: 'Galiza',
+      pages: [{ title: 'Verdadeiro ou falso', position: 1, grains: [{ id: 'g', position: 1, type: 'trueFalse', content }] }],
+    });
+
+    expect(section.exercises[0].answer).toBe('1 V · 2 F · 3 V');
+  });
+});
@@ -0,0 +1,111 @@
+import { buildWorksheet, buildWorksheetHtml, getWorksheetFileName, WorksheetLesson } from '../../src/lib/worksheet';
+
+const lesson: WorksheetLesson = {
+  title: 'As cores',
+  pages: [
+    {
+      title: 'Repaso',
+      position: 2,
+      grains: [
+        {
+          id: 'g3',
+          position: 1,
+          type: 'pairsOfText',
+          content: {
+            pairs: [
+              { left: 'vermello', right: 'rojo' },
+              { left: 'azul', right: 'azul' },
+              { left: 'verde', right: 'verde' },
+              { left: '', right: '' },
+            ],
+          },
+        },
+        {
+          id: 'g4',
+          position: 2,
+          type: 'audioToGuess',
+          content: { correctWord: 'amarelo', correctAudioUrl: 'https://x/a.mp3', falseAudioUrls: ['', '', ''] },
+        },
+      ],
+    },
+    {
+      title: '',
+      position: 1,
+      grains: [
+        {
+          id: 'g2',
+          position: 2,
+          type: 'testQuestion',
+          content: { question: 'Cor do ceo?', correctAnswer: 'azul', falseAlternatives: ['verde', 'negro', 'branco'] },
+        },
+        {
+          id: 'g1',
+          position: 1,
+          type: 'textToComplete',
+          content: { phrase: 'O sangue é [BLANK].', correctAnswer: 'vermello', falseAlternatives: ['azul', 'verde', 'gris'] },
+        },
+        {
+          id: 'g0',
+          position: 3,
+          type: 'testQuestion',
+          content: { question: '', correctAnswer: '', falseAlternatives: ['', '', ''] },
+        },
+      ],
+    },
+  ],
+};
+
+describe('buildWorksheet', () => {
+  it('numbers the exercises in page and grain order, leaving out incomplete grains', () => {
+    const sections = buildWorksheet(lesson);
+
+    expect(sections.map(section => section.title)).toEqual(['Página 1', 'Repaso']);
+    expect(sections.flatMap(section => section.exercises.map(exercise => [exercise.number, exercise.grainId]))).toEqual([
+      [1, 'g1'],
+      [2, 'g2'],
+      [3, 'g3'],
+      [4, 'g4'],
+    ]);
+  });
+
+  it('lays out blanks, lettered options and matching columns with their solutions', () => {
+    const [complete, question, pairs, audio] = buildWorksheet(lesson).flatMap(section => section.exercises);
+
+    expect(complete.body).toContain('O sangue é <span class="blank"></span>.');
+    expect(complete.answer).toBe('vermello');
+
+    const letters = [...question.body.matchAll(/<span class="letter">([A-D])\)<\/span> (\w+)/g)];
+    expect(letters.map(match => match[2]).sort()).toEqual(['azul', 'branco', 'negro', 'verde']);
+    expect(question.answer).toBe(`${letters.find(match => match[2] === 'azul')?.[1]}) azul`);
+
+    const right = [...pairs.body.matchAll(/match-letter">([A-C])\)<\/td><td>(\w+)/g)].map(match => match[2]);
+    const key = Object.fromEntries(
+      pairs.answer.split(', ').map(entry => entry.split(' – ') as [string, string])
+    );
+    expect(right[key['1'].charCodeAt(0) - 65]).toBe('rojo');
+    expect(right[key['2'].charCodeAt(0) - 65]).toBe('azul');
+    expect(right[key['3'].charCodeAt(0) - 65]).toBe('verde');
+
+    expect(audio.answer).toBe('amarelo');
+  });
+
+  it('gives the same sheet every time', () => {
+    expect(buildWorksheet(lesson)).toEqual(buildWorksheet(lesson));
+  });
+});
+
+describe('buildWorksheetHtml', () => {
+  it('puts the answer key on its own sheet, unless left out', () => {
+    const html = buildWorksheetHtml(lesson, { subtitle: 'Galego <básico>' });
+
+    expect(html).toContain('<p class="subtitle">Galego &lt;básico&gt;</p><h1>As cores</h1>');
+    expect(html).toContain('<section class="answer-key">');
+    expect(html).toContain('<li value="4">amarelo</li>');
+    expect(buildWorksheetHtml(lesson, { answerKey: false })).not.toContain('answer-key">');
+  });
+
+  it('names the file after the lesson', () => {
+    expect(getWorksheetFileName('Às cores!')).toBe('as-cores-ficha.html');
+    expect(getWorksheetFileName('')).toBe('licao-ficha.html');
+  });
+});
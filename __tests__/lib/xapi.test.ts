@@ -0,0 +1,162 @@
+import {
+  createMemoryStorage,
+  createPageTracker,
+  getXapiConfig,
+  HttpLrs,
+  MemoryLrs,
+  StatementQueue,
+  XAPI_QUEUE_KEY,
+  XAPI_VERBS,
+} from '../../src/lib/xapi';
+
+const actor = { objectType: 'Agent' as const, mbox: 'mailto:ana@example.org' };
+const page = { id: 'p1', title: 'Cores' };
+const base = 'https://galeguia.app/xapi';
+const now = () => new Date('2026-01-01T00:00:00.000Z');
+
+const setup = () => {
+  const lrs = new MemoryLrs();
+  const queue = new StatementQueue(lrs, createMemoryStorage());
+  return { lrs, queue, tracker: createPageTracker(queue, actor, page, base, now) };
+};
+
+/** Let the queue finish the sends started by enqueue */
+const settle = (queue: StatementQueue) => queue.flush();
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createPageTracker', () => {
+  it('emits attempted, answered and completed statements for one registration', async () => {
+    const { lrs, queue, tracker } = setup();
+
+    await tracker.attempted();
+    await tracker.answered({ id: 'g1', type: 'testQuestion' }, 'vermello', true, 'vermello');
+    await tracker.answered({ id: 'g2', type: 'pairsOfText' }, 'a[.]b', true, 'a[.]b');
+    await tracker.completed(1, 2);
+    await settle(queue);
+
+    expect(lrs.statements.map(statement => statement.verb.id)).toEqual([
+      XAPI_VERBS.attempted.id,
+      XAPI_VERBS.answered.id,
+      XAPI_VERBS.answered.id,
+      XAPI_VERBS.completed.id,
+    ]);
+    expect(new Set(lrs.statements.map(statement => statement.context.registration))).toEqual(
+      new Set([tracker.registration])
+    );
+
+    const [answer] = lrs.query({ verb: 'answered', activityId: `${base}/grains/g1` });
+    expect(answer.result).toEqual({ response: 'vermello', success: true });
+    expect(answer.object.definition.correctResponsesPattern).toEqual(['vermello']);
+    expect(answer.context.contextActivities?.parent[0].id).toBe(`${base}/pages/p1`);
+    expect(lrs.query({ activityId: `${base}/grains/g2` })[0].object.definition.interactionType).toBe('matching');
+
+    const [completed] = lrs.query({ verb: 'completed' });
+    expect(completed.object.id).toBe(`${base}/pages/p1`);
+    expect(completed.result?.score).toEqual({ raw: 1, min: 0, max: 2, scaled: 0.5 });
+    expect(completed.timestamp).toBe('2026-01-01T00:00:00.000Z');
+  });
+});
+
+describe('StatementQueue', () => {
+  it('buffers statements while the LRS is unreachable and sends them later', async () => {
+    const { lrs, queue, tracker } = setup();
+    lrs.online = false;
+
+    await tracker.attempted();
+    await tracker.completed(2, 2);
+    await settle(queue);
+
+    expect(lrs.statements).toHaveLength(0);
+    expect(await queue.pending()).toHaveLength(2);
+
+    lrs.online = true;
+    expect(await queue.flush()).toBe(2);
+    expect(lrs.statements).toHaveLength(2);
+    expect(await queue.pending()).toHaveLength(0);
+  });
+
+  it('keeps the buffer in storage across queues', async () => {
+    const lrs = new MemoryLrs();
+    const storage = createMemoryStorage();
+    lrs.online = false;
+
+    await createPageTracker(new StatementQueue(lrs, storage), actor, page, base).attempted();
+    lrs.online = true;
+
+    expect(await new StatementQueue(lrs, storage).flush()).toBe(1);
+    expect(lrs.query({ verb: 'attempted' })).toHaveLength(1);
+  });
+
+  it('treats an unreadable buffer as empty and never rejects', async () => {
+    const lrs = new MemoryLrs();
+    const storage = createMemoryStorage();
+    await storage.setItem(XAPI_QUEUE_KEY, '{not json');
+    const queue = new StatementQueue(lrs, storage);
+
+    expect(await queue.pending()).toEqual([]);
+    await createPageTracker(queue, actor, page, base).attempted();
+    await settle(queue);
+    expect(lrs.query({ verb: 'attempted' })).toHaveLength(1);
+
+    const failing = new StatementQueue(lrs, { ...storage, setItem: () => Promise.reject(new Error('disk full')) });
+    await expect(createPageTracker(failing, actor, page, base).attempted()).resolves.toBeUndefined();
+  });
+
+  it('does not reject a flush when the buffer cannot be read', async () => {
+    const lrs = new MemoryLrs();
+    const storage = { ...createMemoryStorage(), getItem: () => Promise.reject(new Error('storage unavailable')) };
+
+    await expect(new StatementQueue(lrs, storage).flush()).resolves.toBe(0);
+    expect(lrs.statements).toHaveLength(0);
+  });
+});
+
+describe('HttpLrs', () => {
+  it('posts statements with the xAPI version and credentials', async () => {
+    const fetcher = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    const lrs = new HttpLrs({ endpoint: 'https://lrs.example.org/xapi', auth: 'Basic abc', activityBase: base }, fetcher);
+    const tracker = createPageTracker({ enqueue: statements => lrs.sendStatements(statements) }, actor, page, base);
+
+    await tracker.attempted();
+
+    const [url, init] = fetcher.mock.calls[0];
+    expect(url).toBe('https://lrs.example.org/xapi/statements');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({ 'X-Experience-API-Version': '1.0.3', Authorization: 'Basic abc' });
+    expect(JSON.parse(init.body)[0].verb.id).toBe(XAPI_VERBS.attempted.id);
+  });
+
+  it('rejects when the LRS refuses the statements', async () => {
+    const fetcher = jest.fn().mockResolvedValue({ ok: false, status: 401 });
+    const lrs = new HttpLrs({ endpoint: 'https://lrs.example.org/xapi', activityBase: base }, fetcher);
+
+    await expect(lrs.sendStatements([])).rejects.toThrow('HTTP 401');
+  });
+});
+
+describe('getXapiConfig', () => {
+  it('is disabled without an endpoint', () => {
+    expect(getXapiConfig({})).toBeNull();
+    expect(getXapiConfig({ EXPO_PUBLIC_XAPI_ENDPOINT: '  ' })).toBeNull();
+  });
+
+  it('reads the endpoint, credentials and activity base', () => {
+    expect(
+      getXapiConfig({
+        EXPO_PUBLIC_XAPI_ENDPOINT: 'https://lrs.example.org/xapi/',
+        EXPO_PUBLIC_XAPI_AUTH: 'Basic abc',
+      })
+    ).toEqual({ endpoint: 'https://lrs.example.org/xapi', auth: 'Basic abc', activityBase: base });
+    expect(
+      getXapiConfig({ EXPO_PUBLIC_XAPI_ENDPOINT: 'https://lrs', EXPO_PUBLIC_XAPI_ACTIVITY_BASE: 'https://x.org/' })
+        ?.activityBase
+    ).toBe('https://x.org');
+  });
+});
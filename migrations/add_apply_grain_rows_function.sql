@@ -0,0 +1,43 @@
+-- Migration: Add apply_grain_rows function
+-- Description: Write the grains read from a spreadsheet (see src/lib/grainCsv.ts) inside a
+--              single transaction, filling the grain slot at each page and position.
+--              Called from applyGrainCsvImport via supabase.rpc('apply_grain_rows').
+-- Date: 2026-10-19
+
+-- p_rows: [{ page_id, position, type, content }]
+-- The grain at (page_id, position) is updated when there is one, otherwise a grain is
+-- created in that slot. Grain types are still checked against the page type by the
+-- page type registry trigger, so one bad row rolls the whole spreadsheet back.
+-- Runs as the caller (SECURITY INVOKER) so row level security still applies.
+CREATE OR REPLACE FUNCTION public.apply_grain_rows(p_rows jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_row jsonb;
+  v_created integer := 0;
+  v_updated integer := 0;
+BEGIN
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows) LOOP
+    UPDATE public.grains
+    SET type = v_row->>'type',
+        content = v_row->'content',
+        updated_at = NOW()
+    WHERE page_id = (v_row->>'page_id')::uuid
+      AND position = (v_row->>'position')::integer;
+
+    IF FOUND THEN
+      v_updated := v_updated + 1;
+    ELSE
+      INSERT INTO public.grains (page_id, position, type, content)
+      VALUES ((v_row->>'page_id')::uuid, (v_row->>'position')::integer, v_row->>'type', v_row->'content');
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.apply_grain_rows(jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.apply_grain_rows(jsonb) IS
+  'Atomically update or create the grains at the given page positions (spreadsheet import). Returns the number of grains created and updated.';
@@ -0,0 +1,62 @@
+-- Migration: Add the cloze grain type
+-- Description: Passages with numbered [BLANK:n] markers. Blank n is `blanks[n-1]`,
+--              with its accepted `answers` and, for `mode` dropdown, its wrong
+--              `options`. Each blank is scored on its own.
+-- Date: 2026-10-19
+
+ALTER TABLE public.grains DROP CONSTRAINT IF EXISTS grains_type_check;
+
+ALTER TABLE public.grains ADD CONSTRAINT grains_type_check
+  CHECK (type IN ('textToComplete', 'testQuestion', 'imagesToGuess', 'textToGuess', 'audioToGuess', 'pairsOfText', 'pairsOfImage', 'orderWords', 'audioToType', 'cloze'));
+
+CREATE OR REPLACE FUNCTION validate_grain_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  CASE NEW.type
+    WHEN 'textToComplete' THEN
+      IF NOT (NEW.content ? 'phrase' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'falseAlternatives') THEN
+        RAISE EXCEPTION 'textToComplete grain must have phrase, correctAnswer, and falseAlternatives fields';
+      END IF;
+    WHEN 'testQuestion' THEN
+      IF NOT (NEW.content ? 'question' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'falseAlternatives') THEN
+        RAISE EXCEPTION 'testQuestion grain must have question, correctAnswer, and falseAlternatives fields';
+      END IF;
+    WHEN 'imagesToGuess' THEN
+      IF NOT (NEW.content ? 'correctImageUrl' AND NEW.content ? 'falseImageUrls' AND NEW.content ? 'correctWord') THEN
+        RAISE EXCEPTION 'imagesToGuess grain must have correctImageUrl, falseImageUrls, and correctWord fields';
+      END IF;
+    WHEN 'textToGuess' THEN
+      IF NOT (NEW.content ? 'imageUrl' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'falseAlternatives') THEN
+        RAISE EXCEPTION 'textToGuess grain must have imageUrl, correctAnswer, and falseAlternatives fields';
+      END IF;
+    WHEN 'audioToGuess' THEN
+      IF NOT (NEW.content ? 'correctWord' AND NEW.content ? 'correctAudioUrl' AND NEW.content ? 'falseAudioUrls') THEN
+        RAISE EXCEPTION 'audioToGuess grain must have correctWord, correctAudioUrl, and falseAudioUrls fields';
+      END IF;
+    WHEN 'pairsOfText' THEN
+      IF NOT (NEW.content ? 'pairs') THEN
+        RAISE EXCEPTION 'pairsOfText grain must have pairs field';
+      END IF;
+    WHEN 'pairsOfImage' THEN
+      IF NOT (NEW.content ? 'pairs') THEN
+        RAISE EXCEPTION 'pairsOfImage grain must have pairs field';
+      END IF;
+    WHEN 'orderWords' THEN
+      IF NOT (NEW.content ? 'sentence' AND NEW.content ? 'distractors' AND NEW.content ? 'acceptedOrders') THEN
+        RAISE EXCEPTION 'orderWords grain must have sentence, distractors, and acceptedOrders fields';
+      END IF;
+    WHEN 'audioToType' THEN
+      IF NOT (NEW.content ? 'audioUrl' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'acceptedSpellings'
+              AND NEW.content ? 'ignoreCase' AND NEW.content ? 'ignorePunctuation' AND NEW.content ? 'ignoreAccents'
+              AND NEW.content ? 'maxDistance') THEN
+        RAISE EXCEPTION 'audioToType grain must have audioUrl, correctAnswer, acceptedSpellings, and tolerance fields';
+      END IF;
+    WHEN 'cloze' THEN
+      IF NOT (NEW.content ? 'passage' AND NEW.content ? 'mode' AND NEW.content ? 'blanks') THEN
+        RAISE EXCEPTION 'cloze grain must have passage, mode, and blanks fields';
+      END IF;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
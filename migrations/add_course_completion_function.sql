@@ -0,0 +1,212 @@
+-- Migration: Add course completion function
+-- Description: Grain completion per course, counted in the database so the course
+--              list does not load the content of every grain to draw its progress
+--              bars. grain_completeness follows the requirements of
+--              src/lib/grainCompleteness.ts; change both together.
+--              Called from CourseService.getCoursesCompletion via
+--              supabase.rpc('get_courses_completion').
+-- Date: 2026-10-19
+
+-- Whether a JSON value is a string with something other than whitespace
+CREATE OR REPLACE FUNCTION public.grain_field_filled(p_value jsonb)
+RETURNS boolean AS $$
+  SELECT COALESCE(jsonb_typeof(p_value) = 'string' AND p_value #>> '{}' ~ '\S', false);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Trimmed, lower-case text of a value, to compare answers and distractors
+CREATE OR REPLACE FUNCTION public.grain_field_key(p_value jsonb)
+RETURNS text AS $$
+  SELECT lower(regexp_replace(p_value #>> '{}', '^\s+|\s+$', '', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Items of a list field, or none when the field is not a list
+CREATE OR REPLACE FUNCTION public.grain_field_items(p_content jsonb, p_field text)
+RETURNS jsonb AS $$
+  SELECT CASE WHEN jsonb_typeof(p_content -> p_field) = 'array' THEN p_content -> p_field ELSE '[]'::jsonb END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Filled and required fields of one grain, as evaluateGrainCompleteness counts them.
+-- Unknown types count as one empty field. Legacy content is counted as stored,
+-- without the repairs normalizeGrainContent makes in the app.
+CREATE OR REPLACE FUNCTION public.grain_completeness(
+  p_type text,
+  p_content jsonb,
+  OUT filled integer,
+  OUT required integer
+) AS $$
+DECLARE
+  v_content jsonb := COALESCE(p_content, '{}'::jsonb);
+  -- Required text fields
+  v_texts text[] := '{}';
+  -- Distractors: the first is required, each must differ from the answers and the others
+  v_distractors text;
+  v_answers text[] := '{}';
+  -- Lists whose items only count once added
+  v_optional text[] := '{}';
+  -- Sides of a pair, for pairs grains
+  v_pair_keys text[];
+  v_seen text[];
+  v_items jsonb;
+  v_item jsonb;
+  v_field text;
+  i integer;
+BEGIN
+  filled := 0;
+  required := 0;
+
+  CASE p_type
+    WHEN 'textToComplete' THEN
+      v_texts := ARRAY['phrase', 'correctAnswer'];
+      v_distractors := 'falseAlternatives';
+      v_answers := ARRAY['correctAnswer', 'extraCorrectAnswers'];
+      v_optional := ARRAY['extraCorrectAnswers'];
+    WHEN 'testQuestion' THEN
+      v_texts := ARRAY['question', 'correctAnswer'];
+      v_distractors := 'falseAlternatives';
+      v_answers := ARRAY['correctAnswer', 'extraCorrectAnswers'];
+      v_optional := ARRAY['extraCorrectAnswers'];
+    WHEN 'imagesToGuess' THEN
+      v_texts := ARRAY['correctImageUrl', 'correctWord'];
+      v_distractors := 'falseImageUrls';
+      v_answers := ARRAY['correctImageUrl', 'extraCorrectImageUrls'];
+      v_optional := ARRAY['extraCorrectImageUrls'];
+    WHEN 'textToGuess' THEN
+      v_texts := ARRAY['imageUrl', 'correctAnswer'];
+      v_distractors := 'falseAlternatives';
+      v_answers := ARRAY['correctAnswer', 'extraCorrectAnswers'];
+      v_optional := ARRAY['extraCorrectAnswers'];
+    WHEN 'audioToGuess' THEN
+      v_texts := ARRAY['correctWord', 'correctAudioUrl'];
+      v_distractors := 'falseAudioUrls';
+      v_answers := ARRAY['correctAudioUrl', 'extraCorrectAudioUrls'];
+      v_optional := ARRAY['extraCorrectAudioUrls'];
+    WHEN 'pairsOfText' THEN
+      v_pair_keys := ARRAY['left', 'right'];
+    WHEN 'pairsOfImage' THEN
+      v_pair_keys := ARRAY['imageUrl', 'text'];
+    WHEN 'orderWords' THEN
+      v_texts := ARRAY['sentence'];
+      v_optional := ARRAY['distractors', 'acceptedOrders'];
+    WHEN 'audioToType' THEN
+      v_texts := ARRAY['audioUrl', 'correctAnswer'];
+      v_optional := ARRAY['acceptedSpellings'];
+    WHEN 'cloze' THEN
+      v_texts := ARRAY['passage'];
+    WHEN 'trueFalse' THEN
+      NULL;
+    ELSE
+      required := 1;
+      RETURN;
+  END CASE;
+
+  FOREACH v_field IN ARRAY v_texts LOOP
+    required := required + 1;
+    filled := filled + public.grain_field_filled(v_content -> v_field)::integer;
+  END LOOP;
+
+  IF v_distractors IS NOT NULL THEN
+    -- Answers are a single field or a list of extra answers
+    SELECT COALESCE(array_agg(public.grain_field_key(answer)), '{}') INTO v_seen
+    FROM unnest(v_answers) AS field,
+      LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(v_content -> field) = 'array' THEN v_content -> field
+             ELSE jsonb_build_array(v_content -> field) END
+      ) AS answer
+    WHERE public.grain_field_filled(answer);
+
+    v_items := public.grain_field_items(v_content, v_distractors);
+    FOR i IN 0 .. GREATEST(1, jsonb_array_length(v_items)) - 1 LOOP
+      v_item := v_items -> i;
+      required := required + 1;
+      IF public.grain_field_filled(v_item) AND NOT public.grain_field_key(v_item) = ANY(v_seen) THEN
+        filled := filled + 1;
+        v_seen := v_seen || public.grain_field_key(v_item);
+      END IF;
+    END LOOP;
+  END IF;
+
+  FOREACH v_field IN ARRAY v_optional LOOP
+    FOR v_item IN SELECT * FROM jsonb_array_elements(public.grain_field_items(v_content, v_field)) LOOP
+      required := required + 1;
+      filled := filled + public.grain_field_filled(v_item)::integer;
+    END LOOP;
+  END LOOP;
+
+  -- The first 4 pairs (MIN_COMPLETE_PAIRS) are required, later ones once started
+  IF v_pair_keys IS NOT NULL THEN
+    v_items := public.grain_field_items(v_content, 'pairs');
+    FOR i IN 0 .. GREATEST(4, jsonb_array_length(v_items)) - 1 LOOP
+      v_item := COALESCE(v_items -> i, '{}'::jsonb);
+      IF i < 4
+        OR public.grain_field_filled(v_item -> v_pair_keys[1])
+        OR public.grain_field_filled(v_item -> v_pair_keys[2]) THEN
+        required := required + 2;
+        filled := filled
+          + public.grain_field_filled(v_item -> v_pair_keys[1])::integer
+          + public.grain_field_filled(v_item -> v_pair_keys[2])::integer;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Every blank needs its first answer (and a wrong option in dropdown mode)
+  IF p_type = 'cloze' THEN
+    v_items := public.grain_field_items(v_content, 'blanks');
+    IF jsonb_array_length(v_items) = 0 THEN
+      v_items := '[{}]'::jsonb;
+    END IF;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_items) LOOP
+      required := required + 1;
+      filled := filled + public.grain_field_filled(v_item -> 'answers' -> 0)::integer;
+      IF v_content ->> 'mode' = 'dropdown' THEN
+        required := required + 1;
+        filled := filled + public.grain_field_filled(v_item -> 'options' -> 0)::integer;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Every statement needs its text
+  IF p_type = 'trueFalse' THEN
+    v_items := public.grain_field_items(v_content, 'statements');
+    IF jsonb_array_length(v_items) = 0 THEN
+      v_items := '[{}]'::jsonb;
+    END IF;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_items) LOOP
+      required := required + 1;
+      filled := filled + public.grain_field_filled(v_item -> 'text')::integer;
+    END LOOP;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Grains by status and filled/required fields of each course, for the course list.
+-- Courses without grains get a row of zeros. Runs as the caller (SECURITY INVOKER)
+-- so only readable courses are counted.
+CREATE OR REPLACE FUNCTION public.get_courses_completion(p_course_ids uuid[])
+RETURNS TABLE (
+  course_id uuid,
+  complete integer,
+  partial integer,
+  empty integer,
+  total integer,
+  filled integer,
+  required integer
+) AS $$
+  SELECT
+    c.id,
+    (count(gc.filled) FILTER (WHERE gc.filled > 0 AND gc.filled = gc.required))::integer,
+    (count(gc.filled) FILTER (WHERE gc.filled > 0 AND gc.filled < gc.required))::integer,
+    (count(gc.filled) FILTER (WHERE gc.filled = 0))::integer,
+    count(gc.filled)::integer,
+    COALESCE(sum(gc.filled), 0)::integer,
+    COALESCE(sum(gc.required), 0)::integer
+  FROM public.courses c
+  LEFT JOIN public.modules m ON m.course_id = c.id
+  LEFT JOIN public.lessons l ON l.module_id = m.id
+  LEFT JOIN public.pages p ON p.lesson_id = l.id
+  LEFT JOIN public.grains g ON g.page_id = p.id
+  LEFT JOIN LATERAL public.grain_completeness(g.type, g.content) gc ON g.id IS NOT NULL
+  WHERE c.id = ANY(p_course_ids)
+  GROUP BY c.id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_courses_completion(uuid[]) TO authenticated;
@@ -0,0 +1,181 @@
+-- Migration: Add course releases
+-- Description: Publishing stores an immutable, versioned snapshot of the course
+--              tree in course_releases. Learners read the latest release of a
+--              published course while editors keep changing the draft rows.
+--              Rolling back copies an earlier snapshot into a new release, so
+--              the history stays linear. override_publish_course now also
+--              creates the release and links it from the override it records.
+--              Courses only become published through these functions, so every
+--              published course has a release.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.course_releases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version > 0),
+  snapshot jsonb NOT NULL,
+  notes text,
+  rolled_back_from uuid REFERENCES public.course_releases(id) ON DELETE SET NULL,
+  published_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (course_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_releases_course ON public.course_releases(course_id, version DESC);
+
+ALTER TABLE public.course_publish_overrides
+  ADD COLUMN IF NOT EXISTS release_id uuid REFERENCES public.course_releases(id) ON DELETE SET NULL;
+
+-- Snapshots never change once written
+CREATE OR REPLACE FUNCTION public.prevent_course_release_update()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Course releases are immutable' USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS course_releases_immutable ON public.course_releases;
+CREATE TRIGGER course_releases_immutable
+  BEFORE UPDATE ON public.course_releases
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_course_release_update();
+
+-- Courses only become published through publish_course_release, which sets
+-- app.publishing_release for its own update. Unpublishing stays a plain update.
+CREATE OR REPLACE FUNCTION public.prevent_direct_course_publish()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.published
+     AND (TG_OP = 'INSERT' OR NOT OLD.published)
+     AND current_setting('app.publishing_release', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Courses are published through publish_course_release' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS courses_publish_through_release ON public.courses;
+CREATE TRIGGER courses_publish_through_release
+  BEFORE INSERT OR UPDATE OF published ON public.courses
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_direct_course_publish();
+
+-- Learners read releases of published courses; creators and admins read them all.
+-- Rows are only written by the functions below.
+ALTER TABLE public.course_releases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Course releases are readable" ON public.course_releases;
+CREATE POLICY "Course releases are readable" ON public.course_releases
+  FOR SELECT TO authenticated USING (
+    EXISTS (
+      SELECT 1 FROM public.courses c
+      WHERE c.id = course_id
+        AND (c.published OR c.creator_id = auth.uid() OR public.is_admin())
+    )
+  );
+
+-- Store `p_snapshot` as the next release of the course and mark it published.
+-- Only admins publish, as in the course editor. Returns the release id and its version.
+CREATE OR REPLACE FUNCTION public.publish_course_release(
+  p_course_id uuid,
+  p_snapshot jsonb,
+  p_notes text DEFAULT NULL,
+  p_rolled_back_from uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_release_id uuid;
+  v_version integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can publish courses' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the course so concurrent publications get consecutive versions
+  PERFORM 1 FROM public.courses WHERE id = p_course_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course % not found', p_course_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM public.course_releases
+  WHERE course_id = p_course_id;
+
+  INSERT INTO public.course_releases (course_id, version, snapshot, notes, rolled_back_from, published_by)
+  VALUES (p_course_id, v_version, p_snapshot, NULLIF(btrim(p_notes), ''), p_rolled_back_from, auth.uid())
+  RETURNING id INTO v_release_id;
+
+  PERFORM set_config('app.publishing_release', 'on', true);
+  UPDATE public.courses
+  SET published = true,
+      updated_at = now()
+  WHERE id = p_course_id;
+  PERFORM set_config('app.publishing_release', 'off', true);
+
+  RETURN jsonb_build_object('release_id', v_release_id, 'version', v_version);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Publish an earlier release again as a new version (admins only)
+CREATE OR REPLACE FUNCTION public.rollback_course_release(
+  p_course_id uuid,
+  p_release_id uuid
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_release public.course_releases%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can roll back a course release' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_release
+  FROM public.course_releases
+  WHERE id = p_release_id AND course_id = p_course_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Release % not found for course %', p_release_id, p_course_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN public.publish_course_release(
+    p_course_id,
+    v_release.snapshot,
+    format('Reposição da versão %s', v_release.version),
+    v_release.id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- override_publish_course (see add_publish_overrides.sql) now publishes a release
+DROP FUNCTION IF EXISTS public.override_publish_course(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.override_publish_course(
+  p_course_id uuid,
+  p_reason text,
+  p_report jsonb,
+  p_snapshot jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_release jsonb;
+  v_override_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can override the publish gate' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_reason IS NULL OR length(btrim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to override the publish gate' USING ERRCODE = '22023';
+  END IF;
+
+  v_release := public.publish_course_release(p_course_id, p_snapshot, 'Publicação com problemas: ' || btrim(p_reason));
+
+  INSERT INTO public.course_publish_overrides (course_id, overridden_by, reason, report, release_id)
+  VALUES (p_course_id, auth.uid(), btrim(p_reason), COALESCE(p_report, '[]'::jsonb), (v_release->>'release_id')::uuid)
+  RETURNING id INTO v_override_id;
+
+  RETURN v_release || jsonb_build_object('override_id', v_override_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.publish_course_release(uuid, jsonb, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_course_release(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.override_publish_course(uuid, text, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,127 @@
+-- Migration: Add duplicate_course function
+-- Description: Copy a whole course (modules, lessons, pages, grains) inside a single
+--              transaction, optionally rewriting media URLs. Called from
+--              CourseService.duplicateCourse via supabase.rpc('duplicate_course').
+-- Date: 2026-10-19
+
+-- Replace every occurrence of the keys of p_media_map with their values.
+-- Used to point copied rows at media files copied to a new storage path.
+CREATE OR REPLACE FUNCTION public.remap_media_urls(p_value text, p_media_map jsonb)
+RETURNS text AS $$
+DECLARE
+  v_pair record;
+  v_result text := p_value;
+BEGIN
+  IF p_value IS NULL OR p_media_map IS NULL OR p_media_map = '{}'::jsonb THEN
+    RETURN p_value;
+  END IF;
+
+  FOR v_pair IN SELECT key, value FROM jsonb_each_text(p_media_map) LOOP
+    v_result := replace(v_result, v_pair.key, v_pair.value);
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Duplicate a course. Any failure aborts the function and rolls back every
+-- insert, so a half-copied course is never left behind.
+-- Runs as the caller (SECURITY INVOKER) so row level security still applies.
+CREATE OR REPLACE FUNCTION public.duplicate_course(
+  p_course_id uuid,
+  p_new_title text,
+  p_creator_id uuid DEFAULT auth.uid(),
+  p_media_map jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_new_course_id uuid;
+  v_new_module_id uuid;
+  v_new_lesson_id uuid;
+  v_new_page_id uuid;
+  v_module record;
+  v_lesson record;
+  v_page record;
+  v_inserted integer;
+  v_modules integer := 0;
+  v_lessons integer := 0;
+  v_pages integer := 0;
+  v_grains integer := 0;
+BEGIN
+  IF p_creator_id IS NULL THEN
+    RAISE EXCEPTION 'duplicate_course requires a creator';
+  END IF;
+
+  INSERT INTO public.courses (
+    title, description, cover_image_url, creator_id, published,
+    modules_count, lessons_per_module, pages_per_lesson, structure_created
+  )
+  SELECT p_new_title, description, remap_media_urls(cover_image_url, p_media_map), p_creator_id, false,
+    modules_count, lessons_per_module, pages_per_lesson, structure_created
+  FROM public.courses
+  WHERE id = p_course_id
+  RETURNING id INTO v_new_course_id;
+
+  IF v_new_course_id IS NULL THEN
+    RAISE EXCEPTION 'Course % not found', p_course_id USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_module IN
+    SELECT * FROM public.modules WHERE course_id = p_course_id ORDER BY position
+  LOOP
+    INSERT INTO public.modules (course_id, title, position)
+    VALUES (v_new_course_id, v_module.title, v_module.position)
+    RETURNING id INTO v_new_module_id;
+    v_modules := v_modules + 1;
+
+    FOR v_lesson IN
+      SELECT * FROM public.lessons WHERE module_id = v_module.id ORDER BY position
+    LOOP
+      INSERT INTO public.lessons (module_id, title, content, position)
+      VALUES (v_new_module_id, v_lesson.title, v_lesson.content, v_lesson.position)
+      RETURNING id INTO v_new_lesson_id;
+      v_lessons := v_lessons + 1;
+
+      FOR v_page IN
+        SELECT * FROM public.pages WHERE lesson_id = v_lesson.id ORDER BY position
+      LOOP
+        INSERT INTO public.pages (lesson_id, title, content, media_url, position, type, grain_pattern)
+        VALUES (
+          v_new_lesson_id,
+          v_page.title,
+          v_page.content,
+          remap_media_urls(v_page.media_url, p_media_map),
+          v_page.position,
+          v_page.type,
+          v_page.grain_pattern
+        )
+        RETURNING id INTO v_new_page_id;
+        v_pages := v_pages + 1;
+
+        INSERT INTO public.grains (page_id, position, type, content)
+        SELECT v_new_page_id, position, type, remap_media_urls(content::text, p_media_map)::jsonb
+        FROM public.grains
+        WHERE page_id = v_page.id
+        ORDER BY position;
+
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+        v_grains := v_grains + v_inserted;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'course_id', v_new_course_id,
+    'modules', v_modules,
+    'lessons', v_lessons,
+    'pages', v_pages,
+    'grains', v_grains
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.remap_media_urls(text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.duplicate_course(uuid, text, uuid, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.duplicate_course(uuid, text, uuid, jsonb) IS
+  'Atomically copy a course tree; p_media_map rewrites media URLs (old URL -> new URL). Returns the new course id and copied row counts.';
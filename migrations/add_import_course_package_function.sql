@@ -0,0 +1,147 @@
+-- Migration: Add import_course_package function
+-- Description: Recreate a course from an import plan (see src/lib/courseImport.ts) inside a
+--              single transaction, either as a new course or merged into an existing one.
+--              Called from importCoursePackage via supabase.rpc('import_course_package').
+-- Date: 2026-10-19
+
+-- p_package holds the planned tree:
+--   { course: { title, description, cover_image_url },
+--     modules: [{ target_module_id, title,
+--                 lessons: [{ replace_lesson_id, title, content,
+--                             pages: [{ title, content, media_url, type, grain_pattern,
+--                                       grains: [{ type, content }] }] }] }] }
+-- Without p_target_course_id a new course is created for p_creator_id. Otherwise modules
+-- with a target_module_id are merged into that module and the others are appended; lessons
+-- with a replace_lesson_id replace that lesson's pages, the others are appended.
+-- Runs as the caller (SECURITY INVOKER) so row level security still applies.
+CREATE OR REPLACE FUNCTION public.import_course_package(
+  p_package jsonb,
+  p_target_course_id uuid DEFAULT NULL,
+  p_creator_id uuid DEFAULT auth.uid(),
+  p_media_map jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_course_id uuid := p_target_course_id;
+  v_module_id uuid;
+  v_lesson_id uuid;
+  v_page_id uuid;
+  v_module jsonb;
+  v_lesson jsonb;
+  v_page jsonb;
+  v_grain jsonb;
+  v_module_position integer;
+  v_lesson_position integer;
+  v_page_position integer;
+  v_grain_position integer;
+  v_modules integer := 0;
+  v_lessons integer := 0;
+  v_pages integer := 0;
+  v_grains integer := 0;
+BEGIN
+  IF p_creator_id IS NULL THEN
+    RAISE EXCEPTION 'import_course_package requires a creator';
+  END IF;
+
+  IF v_course_id IS NULL THEN
+    INSERT INTO public.courses (title, description, cover_image_url, creator_id, published)
+    VALUES (
+      p_package->'course'->>'title',
+      p_package->'course'->>'description',
+      remap_media_urls(p_package->'course'->>'cover_image_url', p_media_map),
+      p_creator_id,
+      false
+    )
+    RETURNING id INTO v_course_id;
+  ELSIF NOT EXISTS (SELECT 1 FROM public.courses WHERE id = v_course_id) THEN
+    RAISE EXCEPTION 'Course % not found', v_course_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(MAX(position), 0) INTO v_module_position FROM public.modules WHERE course_id = v_course_id;
+
+  FOR v_module IN SELECT * FROM jsonb_array_elements(p_package->'modules') LOOP
+    v_module_id := NULLIF(v_module->>'target_module_id', '')::uuid;
+
+    IF v_module_id IS NULL THEN
+      v_module_position := v_module_position + 1;
+      INSERT INTO public.modules (course_id, title, position)
+      VALUES (v_course_id, v_module->>'title', v_module_position)
+      RETURNING id INTO v_module_id;
+      v_modules := v_modules + 1;
+    ELSIF NOT EXISTS (SELECT 1 FROM public.modules WHERE id = v_module_id AND course_id = v_course_id) THEN
+      RAISE EXCEPTION 'Module % is not part of course %', v_module_id, v_course_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT COALESCE(MAX(position), 0) INTO v_lesson_position FROM public.lessons WHERE module_id = v_module_id;
+
+    FOR v_lesson IN SELECT * FROM jsonb_array_elements(v_module->'lessons') LOOP
+      v_lesson_id := NULLIF(v_lesson->>'replace_lesson_id', '')::uuid;
+
+      IF v_lesson_id IS NULL THEN
+        v_lesson_position := v_lesson_position + 1;
+        INSERT INTO public.lessons (module_id, title, content, position)
+        VALUES (v_module_id, v_lesson->>'title', v_lesson->>'content', v_lesson_position)
+        RETURNING id INTO v_lesson_id;
+      ELSE
+        UPDATE public.lessons
+        SET title = v_lesson->>'title', content = v_lesson->>'content', updated_at = now()
+        WHERE id = v_lesson_id AND module_id = v_module_id;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Lesson % is not part of module %', v_lesson_id, v_module_id USING ERRCODE = 'P0002';
+        END IF;
+
+        -- Grains go with their pages (ON DELETE CASCADE)
+        DELETE FROM public.pages WHERE lesson_id = v_lesson_id;
+      END IF;
+      v_lessons := v_lessons + 1;
+
+      v_page_position := 0;
+      FOR v_page IN SELECT * FROM jsonb_array_elements(v_lesson->'pages') LOOP
+        v_page_position := v_page_position + 1;
+        INSERT INTO public.pages (lesson_id, title, content, media_url, position, type, grain_pattern)
+        VALUES (
+          v_lesson_id,
+          COALESCE(v_page->>'title', ''),
+          v_page->>'content',
+          remap_media_urls(v_page->>'media_url', p_media_map),
+          v_page_position,
+          v_page->>'type',
+          CASE
+            WHEN jsonb_typeof(v_page->'grain_pattern') = 'array'
+              THEN ARRAY(SELECT jsonb_array_elements_text(v_page->'grain_pattern'))
+          END
+        )
+        RETURNING id INTO v_page_id;
+        v_pages := v_pages + 1;
+
+        v_grain_position := 0;
+        FOR v_grain IN SELECT * FROM jsonb_array_elements(v_page->'grains') LOOP
+          v_grain_position := v_grain_position + 1;
+          INSERT INTO public.grains (page_id, position, type, content)
+          VALUES (
+            v_page_id,
+            v_grain_position,
+            v_grain->>'type',
+            remap_media_urls((v_grain->'content')::text, p_media_map)::jsonb
+          );
+          v_grains := v_grains + 1;
+        END LOOP;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'course_id', v_course_id,
+    'modules', v_modules,
+    'lessons', v_lessons,
+    'pages', v_pages,
+    'grains', v_grains
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.import_course_package(jsonb, uuid, uuid, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.import_course_package(jsonb, uuid, uuid, jsonb) IS
+  'Atomically create or merge a course from an import plan; p_media_map rewrites media URLs (old URL -> new URL). Returns the course id and imported row counts.';
@@ -0,0 +1,217 @@
+-- Migration: Add page templates
+-- Description: Admin-editable page templates (name, description, grain sequence and
+--              per-slot hints). Every edit creates a new immutable version so pages
+--              keep pointing at the sequence they were created from. Pages built
+--              from a template are stored as 'Custom' pages with the template's
+--              grain_pattern, so the page type registry constraints still apply.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.page_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  current_version integer NOT NULL DEFAULT 1,
+  archived boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.page_template_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES public.page_templates(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  grain_pattern text[] NOT NULL,
+  slot_hints text[],
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version),
+  CONSTRAINT page_template_versions_pattern_length
+    CHECK (cardinality(grain_pattern) BETWEEN 1 AND public.page_type_grain_count('Custom')),
+  CONSTRAINT page_template_versions_hints_length
+    CHECK (slot_hints IS NULL OR cardinality(slot_hints) <= cardinality(grain_pattern))
+);
+
+-- Pages remember the template version they were created from
+ALTER TABLE public.pages ADD COLUMN IF NOT EXISTS template_id uuid;
+ALTER TABLE public.pages ADD COLUMN IF NOT EXISTS template_version integer;
+ALTER TABLE public.pages DROP CONSTRAINT IF EXISTS pages_template_version_fkey;
+ALTER TABLE public.pages ADD CONSTRAINT pages_template_version_fkey
+  FOREIGN KEY (template_id, template_version)
+  REFERENCES public.page_template_versions (template_id, version);
+
+CREATE INDEX IF NOT EXISTS idx_pages_template ON public.pages(template_id, template_version);
+
+-- Everyone signed in can read templates; only admins can change them
+ALTER TABLE public.page_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.page_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Page templates are readable" ON public.page_templates;
+CREATE POLICY "Page templates are readable" ON public.page_templates
+  FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Admins manage page templates" ON public.page_templates;
+CREATE POLICY "Admins manage page templates" ON public.page_templates
+  FOR ALL TO authenticated USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS "Page template versions are readable" ON public.page_template_versions;
+CREATE POLICY "Page template versions are readable" ON public.page_template_versions
+  FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Admins add page template versions" ON public.page_template_versions;
+CREATE POLICY "Admins add page template versions" ON public.page_template_versions
+  FOR INSERT TO authenticated WITH CHECK (public.is_admin());
+
+-- Create a template, or add a new version to an existing one, in one transaction.
+-- Returns the template id and the version that was written.
+CREATE OR REPLACE FUNCTION public.save_page_template(
+  p_template_id uuid,
+  p_name text,
+  p_description text,
+  p_grain_pattern text[],
+  p_slot_hints text[] DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_template_id uuid := p_template_id;
+  v_version integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can edit page templates' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_template_id IS NULL THEN
+    INSERT INTO public.page_templates (name, description, created_by)
+    VALUES (p_name, p_description, auth.uid())
+    RETURNING id INTO v_template_id;
+    v_version := 1;
+  ELSE
+    UPDATE public.page_templates
+    SET name = p_name,
+        description = p_description,
+        current_version = current_version + 1,
+        updated_at = now()
+    WHERE id = v_template_id
+    RETURNING current_version INTO v_version;
+
+    IF v_version IS NULL THEN
+      RAISE EXCEPTION 'Page template % not found', v_template_id USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  INSERT INTO public.page_template_versions (template_id, version, grain_pattern, slot_hints, created_by)
+  VALUES (v_template_id, v_version, p_grain_pattern, p_slot_hints, auth.uid());
+
+  RETURN jsonb_build_object('template_id', v_template_id, 'version', v_version);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- duplicate_course (see add_duplicate_course_function.sql) now also copies the
+-- template reference of each page
+CREATE OR REPLACE FUNCTION public.duplicate_course(
+  p_course_id uuid,
+  p_new_title text,
+  p_creator_id uuid DEFAULT auth.uid(),
+  p_media_map jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_new_course_id uuid;
+  v_new_module_id uuid;
+  v_new_lesson_id uuid;
+  v_new_page_id uuid;
+  v_module record;
+  v_lesson record;
+  v_page record;
+  v_inserted integer;
+  v_modules integer := 0;
+  v_lessons integer := 0;
+  v_pages integer := 0;
+  v_grains integer := 0;
+BEGIN
+  IF p_creator_id IS NULL THEN
+    RAISE EXCEPTION 'duplicate_course requires a creator';
+  END IF;
+
+  INSERT INTO public.courses (
+    title, description, cover_image_url, creator_id, published,
+    modules_count, lessons_per_module, pages_per_lesson, structure_created
+  )
+  SELECT p_new_title, description, remap_media_urls(cover_image_url, p_media_map), p_creator_id, false,
+    modules_count, lessons_per_module, pages_per_lesson, structure_created
+  FROM public.courses
+  WHERE id = p_course_id
+  RETURNING id INTO v_new_course_id;
+
+  IF v_new_course_id IS NULL THEN
+    RAISE EXCEPTION 'Course % not found', p_course_id USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_module IN
+    SELECT * FROM public.modules WHERE course_id = p_course_id ORDER BY position
+  LOOP
+    INSERT INTO public.modules (course_id, title, position)
+    VALUES (v_new_course_id, v_module.title, v_module.position)
+    RETURNING id INTO v_new_module_id;
+    v_modules := v_modules + 1;
+
+    FOR v_lesson IN
+      SELECT * FROM public.lessons WHERE module_id = v_module.id ORDER BY position
+    LOOP
+      INSERT INTO public.lessons (module_id, title, content, position)
+      VALUES (v_new_module_id, v_lesson.title, v_lesson.content, v_lesson.position)
+      RETURNING id INTO v_new_lesson_id;
+      v_lessons := v_lessons + 1;
+
+      FOR v_page IN
+        SELECT * FROM public.pages WHERE lesson_id = v_lesson.id ORDER BY position
+      LOOP
+        INSERT INTO public.pages (lesson_id, title, content, media_url, position, type, grain_pattern, template_id, template_version)
+        VALUES (
+          v_new_lesson_id,
+          v_page.title,
+          v_page.content,
+          remap_media_urls(v_page.media_url, p_media_map),
+          v_page.position,
+          v_page.type,
+          v_page.grain_pattern,
+          v_page.template_id,
+          v_page.template_version
+        )
+        RETURNING id INTO v_new_page_id;
+        v_pages := v_pages + 1;
+
+        INSERT INTO public.grains (page_id, position, type, content)
+        SELECT v_new_page_id, position, type, remap_media_urls(content::text, p_media_map)::jsonb
+        FROM public.grains
+        WHERE page_id = v_page.id
+        ORDER BY position;
+
+        GET DIAGNOSTICS v_inserted = ROW_COUNT;
+        v_grains := v_grains + v_inserted;
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'course_id', v_new_course_id,
+    'modules', v_modules,
+    'lessons', v_lessons,
+    'pages', v_pages,
+    'grains', v_grains
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_page_template(uuid, text, text, text[], text[]) TO authenticated;
+
+COMMENT ON TABLE public.page_templates IS 'Admin-defined page templates offered next to the built-in page types';
+COMMENT ON COLUMN public.pages.template_version IS 'Version of page_templates the page was created from (NULL for built-in page types)';
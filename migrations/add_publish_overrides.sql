@@ -0,0 +1,66 @@
+-- Migration: Add publish overrides
+-- Description: Publishing runs the course through the publish gate in the app
+--              (complete grains, reachable media, full pages). The gate is
+--              advisory: only admins publish, and they may publish a course the
+--              gate blocked. override_publish_course records who overrode the
+--              report, why, and the blocking issues at that moment.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.course_publish_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  overridden_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason text NOT NULL CHECK (length(btrim(reason)) > 0),
+  -- Blocking issues reported by the publish gate when the override was made
+  report jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_publish_overrides_course
+  ON public.course_publish_overrides(course_id, created_at DESC);
+
+-- Overrides are an audit trail: admins can read them, nobody edits them and
+-- rows are only written by override_publish_course
+ALTER TABLE public.course_publish_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins read publish overrides" ON public.course_publish_overrides;
+CREATE POLICY "Admins read publish overrides" ON public.course_publish_overrides
+  FOR SELECT TO authenticated USING (public.is_admin());
+
+-- Publish a course despite a blocking report, in one transaction with the audit row.
+-- Returns the id of the override that was recorded.
+CREATE OR REPLACE FUNCTION public.override_publish_course(
+  p_course_id uuid,
+  p_reason text,
+  p_report jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_override_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can override the publish gate' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_reason IS NULL OR length(btrim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to override the publish gate' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.courses
+  SET published = true,
+      updated_at = now()
+  WHERE id = p_course_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Course % not found', p_course_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.course_publish_overrides (course_id, overridden_by, reason, report)
+  VALUES (p_course_id, auth.uid(), btrim(p_reason), COALESCE(p_report, '[]'::jsonb))
+  RETURNING id INTO v_override_id;
+
+  RETURN v_override_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.override_publish_course(uuid, text, jsonb) TO authenticated;
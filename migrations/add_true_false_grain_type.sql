@@ -0,0 +1,156 @@
+-- Migration: Add the trueFalse grain type
+-- Description: Batches of 3-8 `statements`, each with its `text`, whether it
+--              `isTrue` and an optional `explanation`. Each statement is
+--              scored on its own. Review position 14 now also accepts a
+--              trueFalse grain: page_type_allowed_grains is replaced with the
+--              version generated in page_type_registry.sql.
+-- Date: 2026-10-19
+
+ALTER TABLE public.grains DROP CONSTRAINT IF EXISTS grains_type_check;
+
+ALTER TABLE public.grains ADD CONSTRAINT grains_type_check
+  CHECK (type IN ('textToComplete', 'testQuestion', 'imagesToGuess', 'textToGuess', 'audioToGuess', 'pairsOfText', 'pairsOfImage', 'orderWords', 'audioToType', 'cloze', 'trueFalse'));
+
+CREATE OR REPLACE FUNCTION validate_grain_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  CASE NEW.type
+    WHEN 'textToComplete' THEN
+      IF NOT (NEW.content ? 'phrase' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'falseAlternatives') THEN
+        RAISE EXCEPTION 'textToComplete grain must have phrase, correctAnswer, and falseAlternatives fields';
+      END IF;
+    WHEN 'testQuestion' THEN
+      IF NOT (NEW.content ? 'question' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'falseAlternatives') THEN
+        RAISE EXCEPTION 'testQuestion grain must have question, correctAnswer, and falseAlternatives fields';
+      END IF;
+    WHEN 'imagesToGuess' THEN
+      IF NOT (NEW.content ? 'correctImageUrl' AND NEW.content ? 'falseImageUrls' AND NEW.content ? 'correctWord') THEN
+        RAISE EXCEPTION 'imagesToGuess grain must have correctImageUrl, falseImageUrls, and correctWord fields';
+      END IF;
+    WHEN 'textToGuess' THEN
+      IF NOT (NEW.content ? 'imageUrl' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'falseAlternatives') THEN
+        RAISE EXCEPTION 'textToGuess grain must have imageUrl, correctAnswer, and falseAlternatives fields';
+      END IF;
+    WHEN 'audioToGuess' THEN
+      IF NOT (NEW.content ? 'correctWord' AND NEW.content ? 'correctAudioUrl' AND NEW.content ? 'falseAudioUrls') THEN
+        RAISE EXCEPTION 'audioToGuess grain must have correctWord, correctAudioUrl, and falseAudioUrls fields';
+      END IF;
+    WHEN 'pairsOfText' THEN
+      IF NOT (NEW.content ? 'pairs') THEN
+        RAISE EXCEPTION 'pairsOfText grain must have pairs field';
+      END IF;
+    WHEN 'pairsOfImage' THEN
+      IF NOT (NEW.content ? 'pairs') THEN
+        RAISE EXCEPTION 'pairsOfImage grain must have pairs field';
+      END IF;
+    WHEN 'orderWords' THEN
+      IF NOT (NEW.content ? 'sentence' AND NEW.content ? 'distractors' AND NEW.content ? 'acceptedOrders') THEN
+        RAISE EXCEPTION 'orderWords grain must have sentence, distractors, and acceptedOrders fields';
+      END IF;
+    WHEN 'audioToType' THEN
+      IF NOT (NEW.content ? 'audioUrl' AND NEW.content ? 'correctAnswer' AND NEW.content ? 'acceptedSpellings'
+              AND NEW.content ? 'ignoreCase' AND NEW.content ? 'ignorePunctuation' AND NEW.content ? 'ignoreAccents'
+              AND NEW.content ? 'maxDistance') THEN
+        RAISE EXCEPTION 'audioToType grain must have audioUrl, correctAnswer, acceptedSpellings, and tolerance fields';
+      END IF;
+    WHEN 'cloze' THEN
+      IF NOT (NEW.content ? 'passage' AND NEW.content ? 'mode' AND NEW.content ? 'blanks') THEN
+        RAISE EXCEPTION 'cloze grain must have passage, mode, and blanks fields';
+      END IF;
+    WHEN 'trueFalse' THEN
+      IF NOT (NEW.content ? 'statements') THEN
+        RAISE EXCEPTION 'trueFalse grain must have a statements field';
+      END IF;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Same as page_type_registry.sql: grain types accepted at a position of a patterned page type
+-- (NULL when not patterned)
+CREATE OR REPLACE FUNCTION public.page_type_allowed_grains(p_page_type text, p_position integer)
+RETURNS text[] AS $$
+BEGIN
+  CASE p_page_type
+    WHEN 'Introduction' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['imagesToGuess']
+        WHEN 2 THEN ARRAY['textToComplete']
+        WHEN 3 THEN ARRAY['textToComplete']
+        WHEN 4 THEN ARRAY['textToComplete']
+        WHEN 5 THEN ARRAY['textToComplete']
+        WHEN 6 THEN ARRAY['textToComplete']
+        WHEN 7 THEN ARRAY['textToComplete']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['textToComplete']
+        WHEN 10 THEN ARRAY['textToComplete']
+        WHEN 11 THEN ARRAY['textToComplete']
+        WHEN 12 THEN ARRAY['textToComplete']
+        WHEN 13 THEN ARRAY['textToComplete']
+        WHEN 14 THEN ARRAY['textToComplete']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    WHEN 'Booster' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['textToComplete']
+        WHEN 2 THEN ARRAY['testQuestion']
+        WHEN 3 THEN ARRAY['imagesToGuess']
+        WHEN 4 THEN ARRAY['textToComplete']
+        WHEN 5 THEN ARRAY['pairsOfImage']
+        WHEN 6 THEN ARRAY['testQuestion']
+        WHEN 7 THEN ARRAY['imagesToGuess']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['testQuestion']
+        WHEN 10 THEN ARRAY['textToComplete']
+        WHEN 11 THEN ARRAY['imagesToGuess']
+        WHEN 12 THEN ARRAY['pairsOfImage']
+        WHEN 13 THEN ARRAY['testQuestion']
+        WHEN 14 THEN ARRAY['textToComplete']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    WHEN 'Comparation' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['imagesToGuess']
+        WHEN 2 THEN ARRAY['textToGuess']
+        WHEN 3 THEN ARRAY['imagesToGuess']
+        WHEN 4 THEN ARRAY['textToGuess']
+        WHEN 5 THEN ARRAY['imagesToGuess']
+        WHEN 6 THEN ARRAY['textToGuess']
+        WHEN 7 THEN ARRAY['imagesToGuess']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['textToGuess']
+        WHEN 10 THEN ARRAY['imagesToGuess']
+        WHEN 11 THEN ARRAY['textToGuess']
+        WHEN 12 THEN ARRAY['imagesToGuess']
+        WHEN 13 THEN ARRAY['textToGuess']
+        WHEN 14 THEN ARRAY['imagesToGuess']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    WHEN 'Review' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['textToComplete']
+        WHEN 2 THEN ARRAY['textToComplete']
+        WHEN 3 THEN ARRAY['textToComplete']
+        WHEN 4 THEN ARRAY['textToComplete']
+        WHEN 5 THEN ARRAY['textToComplete']
+        WHEN 6 THEN ARRAY['textToComplete']
+        WHEN 7 THEN ARRAY['textToComplete']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['textToComplete']
+        WHEN 10 THEN ARRAY['textToComplete']
+        WHEN 11 THEN ARRAY['textToComplete']
+        WHEN 12 THEN ARRAY['textToComplete']
+        WHEN 13 THEN ARRAY['textToComplete']
+        WHEN 14 THEN ARRAY['textToComplete', 'trueFalse']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
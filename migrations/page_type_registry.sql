@@ -0,0 +1,164 @@
+-- Migration: Page type registry constraints
+-- Description: Generated from src/lib/pageTypes.ts. Do not edit by hand;
+--              run `npm run generate:page-types` after changing the registry.
+
+ALTER TABLE public.pages DROP CONSTRAINT IF EXISTS pages_type_check;
+ALTER TABLE public.pages ADD CONSTRAINT pages_type_check
+  CHECK (type IN ('Introduction', 'Booster', 'Comparation', 'Review', 'Custom', 'text'));
+
+-- Subqueries are not allowed in CHECK constraints; the trigger below enforces the limit instead
+ALTER TABLE public.grains DROP CONSTRAINT IF EXISTS check_max_grains_per_page;
+
+-- Maximum number of grains for a page type
+CREATE OR REPLACE FUNCTION public.page_type_grain_count(p_page_type text)
+RETURNS integer AS $$
+  SELECT CASE p_page_type
+    WHEN 'Introduction' THEN 15
+    WHEN 'Booster' THEN 15
+    WHEN 'Comparation' THEN 15
+    WHEN 'Review' THEN 15
+    WHEN 'Custom' THEN 15
+    WHEN 'text' THEN 15
+    ELSE 15
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Grain types accepted at a position of a patterned page type (NULL when not patterned)
+CREATE OR REPLACE FUNCTION public.page_type_allowed_grains(p_page_type text, p_position integer)
+RETURNS text[] AS $$
+BEGIN
+  CASE p_page_type
+    WHEN 'Introduction' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['imagesToGuess']
+        WHEN 2 THEN ARRAY['textToComplete']
+        WHEN 3 THEN ARRAY['textToComplete']
+        WHEN 4 THEN ARRAY['textToComplete']
+        WHEN 5 THEN ARRAY['textToComplete']
+        WHEN 6 THEN ARRAY['textToComplete']
+        WHEN 7 THEN ARRAY['textToComplete']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['textToComplete']
+        WHEN 10 THEN ARRAY['textToComplete']
+        WHEN 11 THEN ARRAY['textToComplete']
+        WHEN 12 THEN ARRAY['textToComplete']
+        WHEN 13 THEN ARRAY['textToComplete']
+        WHEN 14 THEN ARRAY['textToComplete']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    WHEN 'Booster' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['textToComplete']
+        WHEN 2 THEN ARRAY['testQuestion']
+        WHEN 3 THEN ARRAY['imagesToGuess']
+        WHEN 4 THEN ARRAY['textToComplete']
+        WHEN 5 THEN ARRAY['pairsOfImage']
+        WHEN 6 THEN ARRAY['testQuestion']
+        WHEN 7 THEN ARRAY['imagesToGuess']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['testQuestion']
+        WHEN 10 THEN ARRAY['textToComplete']
+        WHEN 11 THEN ARRAY['imagesToGuess']
+        WHEN 12 THEN ARRAY['pairsOfImage']
+        WHEN 13 THEN ARRAY['testQuestion']
+        WHEN 14 THEN ARRAY['textToComplete']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    WHEN 'Comparation' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['imagesToGuess']
+        WHEN 2 THEN ARRAY['textToGuess']
+        WHEN 3 THEN ARRAY['imagesToGuess']
+        WHEN 4 THEN ARRAY['textToGuess']
+        WHEN 5 THEN ARRAY['imagesToGuess']
+        WHEN 6 THEN ARRAY['textToGuess']
+        WHEN 7 THEN ARRAY['imagesToGuess']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['textToGuess']
+        WHEN 10 THEN ARRAY['imagesToGuess']
+        WHEN 11 THEN ARRAY['textToGuess']
+        WHEN 12 THEN ARRAY['imagesToGuess']
+        WHEN 13 THEN ARRAY['textToGuess']
+        WHEN 14 THEN ARRAY['imagesToGuess']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    WHEN 'Review' THEN
+      RETURN CASE p_position
+        WHEN 1 THEN ARRAY['textToComplete']
+        WHEN 2 THEN ARRAY['textToComplete']
+        WHEN 3 THEN ARRAY['textToComplete']
+        WHEN 4 THEN ARRAY['textToComplete']
+        WHEN 5 THEN ARRAY['textToComplete']
+        WHEN 6 THEN ARRAY['textToComplete']
+        WHEN 7 THEN ARRAY['textToComplete']
+        WHEN 8 THEN ARRAY['pairsOfText']
+        WHEN 9 THEN ARRAY['textToComplete']
+        WHEN 10 THEN ARRAY['textToComplete']
+        WHEN 11 THEN ARRAY['textToComplete']
+        WHEN 12 THEN ARRAY['textToComplete']
+        WHEN 13 THEN ARRAY['textToComplete']
+        WHEN 14 THEN ARRAY['textToComplete', 'trueFalse']
+        WHEN 15 THEN ARRAY['pairsOfText']
+        ELSE ARRAY[]::text[]
+      END;
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.enforce_page_type_grains()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_page_type text;
+  v_pattern text[];
+  v_allowed text[];
+  v_max integer;
+  v_count integer;
+BEGIN
+  SELECT type, grain_pattern INTO v_page_type, v_pattern
+  FROM public.pages
+  WHERE id = NEW.page_id;
+
+  IF v_page_type IS NULL OR v_page_type IN ('text') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Negative positions are temporary values used while reordering
+  IF NEW.position < 1 THEN
+    RETURN NEW;
+  END IF;
+
+  v_max := page_type_grain_count(v_page_type);
+  IF NEW.position > v_max THEN
+    RAISE EXCEPTION 'Grain position % is outside the % slots of page type %', NEW.position, v_max, v_page_type;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.grains
+  WHERE page_id = NEW.page_id AND id IS DISTINCT FROM NEW.id;
+
+  IF v_count >= v_max THEN
+    RAISE EXCEPTION 'Page type % allows at most % grains', v_page_type, v_max;
+  END IF;
+
+  v_allowed := page_type_allowed_grains(v_page_type, NEW.position);
+  IF v_allowed IS NULL AND v_pattern IS NOT NULL AND array_length(v_pattern, 1) >= NEW.position THEN
+    v_allowed := ARRAY[v_pattern[NEW.position]];
+  END IF;
+
+  IF v_allowed IS NOT NULL AND NOT (NEW.type = ANY (v_allowed)) THEN
+    RAISE EXCEPTION 'Grain type % is not allowed at position % of page type %', NEW.type, NEW.position, v_page_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_page_type_grains ON public.grains;
+CREATE TRIGGER enforce_page_type_grains
+  BEFORE INSERT OR UPDATE OF page_id, position, type ON public.grains
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_page_type_grains();
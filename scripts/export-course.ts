@@ -0,0 +1,62 @@
+/**
+ * Export a course to a portable package (see COURSE_PACKAGE_FORMAT.md).
+ * Usage: npm run export:course -- <courseId> [outDir] [--media]
+ *
+ * Reads EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (or
+ * EXPO_PUBLIC_SUPABASE_ANON_KEY, which only sees what RLS allows). With
+ * --media the referenced files are downloaded into <outDir>/media.
+ */
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { createClient } from '@supabase/supabase-js';
+import {
+  COURSE_PACKAGE_MEDIA_DIR,
+  downloadPackageMedia,
+  exportCourse,
+  getCoursePackageFileName,
+  serializeCoursePackage,
+} from '../src/lib/courseExport';
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const withMedia = args.includes('--media');
+  const [courseId, outDir = '.'] = args.filter(arg => !arg.startsWith('--'));
+
+  const url = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY ?? process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+  if (!courseId || !url || !key) {
+    console.error('Usage: npm run export:course -- <courseId> [outDir] [--media]');
+    console.error('Requires EXPO_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or EXPO_PUBLIC_SUPABASE_ANON_KEY');
+    process.exit(1);
+  }
+
+  const coursePackage = await exportCourse(createClient(url, key), courseId);
+
+  if (withMedia) {
+    const files = await downloadPackageMedia(coursePackage);
+    const mediaDir = resolve(outDir, COURSE_PACKAGE_MEDIA_DIR);
+    coursePackage.media
+      .filter(media => files[media.url])
+      .forEach(media => {
+        // Paths come from URLs in the content: never write outside the media folder
+        const target = resolve(mediaDir, media.path);
+        if (media.path.split(/[\\/]/).includes('..') || !target.startsWith(`${mediaDir}${sep}`)) {
+          console.warn(`Skipping media ${media.path}: outside the ${COURSE_PACKAGE_MEDIA_DIR} folder`);
+          return;
+        }
+        mkdirSync(dirname(target), { recursive: true });
+        writeFileSync(target, files[media.url]);
+        media.file = `${COURSE_PACKAGE_MEDIA_DIR}/${media.path}`;
+      });
+  }
+
+  mkdirSync(outDir, { recursive: true });
+  const target = join(outDir, getCoursePackageFileName(coursePackage));
+  writeFileSync(target, serializeCoursePackage(coursePackage));
+  console.log(`Wrote ${target} (${coursePackage.media.length} media referenced)`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,11 @@
+/**
+ * Regenerate migrations/page_type_registry.sql from the page type registry.
+ * Usage: npm run generate:page-types
+ */
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { buildPageTypeConstraintsSql } from '../src/lib/pageTypes';
+
+const target = join(__dirname, '..', 'migrations', 'page_type_registry.sql');
+writeFileSync(target, buildPageTypeConstraintsSql());
+console.log(`Wrote ${target}`);
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { COLORS, BORDER_RADIUS } from '../styles/designSystem';
+import { supabase } from '../lib/supabase';
+import {
+  downloadPackageMedia,
+  exportCourse,
+  getCoursePackageFileName,
+  serializeCoursePackage,
+} from '../lib/courseExport';
+import { createScormZip, getScormFileName, ScormVersion } from '../lib/scormExport';
+import { createQtiZip, getQtiFileName } from '../lib/qti';
+import { collectAnkiNotes, createAnkiZip, getAnkiFileName, getAnkiMediaUrls } from '../lib/ankiExport';
+import { saveExportFile } from '../lib/fileExport';
+import { CoursePackage } from '../types';
+
+interface CourseExportPanelProps {
+  courseId: string;
+}
+
+interface ExportFile {
+  fileName: string;
+  contents: string | Uint8Array;
+  mimeType: string;
+  /** What was left out of the export, shown to the user afterwards */
+  notes?: string[];
+}
+
+interface ExportFormat {
+  id: string;
+  label: string;
+  description: string;
+  icon: keyof typeof MaterialIcons.glyphMap;
+  build: (coursePackage: CoursePackage) => Promise<ExportFile>;
+}
+
+const scorm = (version: ScormVersion) => async (coursePackage: CoursePackage): Promise<ExportFile> => ({
+  fileName: getScormFileName(coursePackage, version),
+  contents: createScormZip(coursePackage, { version, media: await downloadPackageMedia(coursePackage) }),
+  mimeType: 'application/zip',
+});
+
+const qti = async (coursePackage: CoursePackage): Promise<ExportFile> => {
+  const { zip, skipped } = createQtiZip(coursePackage, { media: await downloadPackageMedia(coursePackage) });
+  return {
+    fileName: getQtiFileName(coursePackage),
+    contents: zip,
+    mimeType: 'application/zip',
+    notes: skipped.map(issue => `${issue.path}: ${issue.message}`),
+  };
+};
+
+const anki = async (coursePackage: CoursePackage): Promise<ExportFile> => {
+  // Only the images and audio of the notes are bundled
+  const used = new Set(getAnkiMediaUrls(collectAnkiNotes(coursePackage)));
+  const media = await downloadPackageMedia({ ...coursePackage, media: coursePackage.media.filter(item => used.has(item.url)) });
+  const { zip, missingAudio } = createAnkiZip(coursePackage, { media });
+  return {
+    fileName: getAnkiFileName(coursePackage),
+    contents: zip,
+    mimeType: 'application/zip',
+    notes: missingAudio.map(note => `${note.tag.replace('::', ' › ')}: ${note.answer} (áudio não descarregado)`),
+  };
+};
+
+/** Notes listed in the alert before summarizing the rest */
+const MAX_NOTES = 10;
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'package',
+    label: 'Pacote Galeguia',
+    description: 'JSON com todo o curso, para importar noutro editor',
+    icon: 'data-object',
+    build: async coursePackage => ({
+      fileName: getCoursePackageFileName(coursePackage),
+      contents: serializeCoursePackage(coursePackage),
+      mimeType: 'application/json',
+    }),
+  },
+  {
+    id: 'scorm12',
+    label: 'SCORM 1.2',
+    description: 'Zip para Moodle e outros LMS, uma atividade por página',
+    icon: 'school',
+    build: scorm('1.2'),
+  },
+  {
+    id: 'scorm2004',
+    label: 'SCORM 2004',
+    description: 'Zip SCORM 2004 (4.ª edição)',
+    icon: 'school',
+    build: scorm('2004'),
+  },
+  {
+    id: 'qti',
+    label: 'QTI 2.1',
+    description: 'Perguntas, textos para completar e adivinhar, para bancos de itens',
+    icon: 'quiz',
+    build: qti,
+  },
+  {
+    id: 'anki',
+    label: 'Anki',
+    description: 'Vocabulário dos pares e adivinhas para rever no Anki, com a media',
+    icon: 'style',
+    build: anki,
+  },
+];
+
+/**
+ * Export the latest content of a course in one of the supported formats
+ */
+const CourseExportPanel: React.FC<CourseExportPanelProps> = ({ courseId }) => {
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingId(format.id);
+    try {
+      const file = await format.build(await exportCourse(supabase, courseId));
+      const savedTo = await saveExportFile(file.fileName, file.contents, file.mimeType);
+
+      const notes = file.notes ?? [];
+      if (notes.length > 0) {
+        const listed = notes.slice(0, MAX_NOTES).join('\n');
+        const more = notes.length > MAX_NOTES ? `\n… e mais ${notes.length - MAX_NOTES}.` : '';
+        Alert.alert(`${notes.length} elemento(s) não exportado(s)`, `${listed}${more}`);
+      } else if (Platform.OS !== 'web') {
+        Alert.alert('Curso exportado', `Ficheiro guardado em ${savedTo}`);
+      }
+    } catch (error) {
+      console.error(`Erro ao exportar curso (${format.id}):`, error);
+      Alert.alert('Erro', 'Não foi possível exportar o curso.');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Exportar</Text>
+      {EXPORT_FORMATS.map(format => (
+        <TouchableOpacity
+          key={format.id}
+          style={[styles.format, exportingId !== null && styles.formatDisabled]}
+          onPress={() => handleExport(format)}
+          disabled={exportingId !== null}
+        >
+          <MaterialIcons name={format.icon} size={18} color={COLORS.primary} />
+          <View style={styles.formatBody}>
+            <Text style={styles.formatLabel}>{format.label}</Text>
+            <Text style={styles.formatDescription}>{format.description}</Text>
+          </View>
+          {exportingId === format.id ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : (
+            <MaterialIcons name="file-download" size={16} color={COLORS.muted} />
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: 12,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+    marginBottom: 8,
+  },
+  format: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.line,
+  },
+  formatDisabled: {
+    opacity: 0.6,
+  },
+  formatBody: {
+    flex: 1,
+    gap: 2,
+  },
+  formatLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.textPrimary,
+  },
+  formatDescription: {
+    fontSize: 12,
+    color: COLORS.muted,
+  },
+});
+
+export default CourseExportPanel;
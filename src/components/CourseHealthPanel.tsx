@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { COLORS, BORDER_RADIUS } from '../styles/designSystem';
+import { CourseHealthReport, HealthIssue, HealthSeverity } from '../lib/courseHealth';
+
+interface CourseHealthPanelProps {
+  report: CourseHealthReport;
+  onSelectIssue: (issue: HealthIssue) => void;
+  onCheckMedia: () => void;
+  isCheckingMedia?: boolean;
+  /** Whether media URLs were already checked for this report */
+  mediaChecked?: boolean;
+}
+
+const SEVERITY_STYLES: Record<HealthSeverity, { icon: keyof typeof MaterialIcons.glyphMap; color: string; label: string }> = {
+  error: { icon: 'error-outline', color: COLORS.danger, label: 'Erros' },
+  warning: { icon: 'warning-amber', color: COLORS.warning, label: 'Avisos' },
+  info: { icon: 'info-outline', color: COLORS.muted, label: 'Sugestões' },
+};
+
+/** Issues shown before "Ver todos" */
+const VISIBLE_ISSUES = 8;
+
+const CourseHealthPanel: React.FC<CourseHealthPanelProps> = ({
+  report,
+  onSelectIssue,
+  onCheckMedia,
+  isCheckingMedia = false,
+  mediaChecked = false,
+}) => {
+  const [showAll, setShowAll] = useState(false);
+  const issues = showAll ? report.issues : report.issues.slice(0, VISIBLE_ISSUES);
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Saúde do curso</Text>
+        <TouchableOpacity
+          style={[styles.mediaButton, isCheckingMedia && styles.mediaButtonDisabled]}
+          onPress={onCheckMedia}
+          disabled={isCheckingMedia}
+        >
+          {isCheckingMedia ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : (
+            <MaterialIcons name="perm-media" size={14} color={COLORS.primary} />
+          )}
+          <Text style={styles.mediaButtonText}>{mediaChecked ? 'Verificar media de novo' : 'Verificar media'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.counts}>
+        {(Object.keys(SEVERITY_STYLES) as HealthSeverity[]).map(severity => (
+          <View key={severity} style={styles.count}>
+            <MaterialIcons name={SEVERITY_STYLES[severity].icon} size={14} color={SEVERITY_STYLES[severity].color} />
+            <Text style={styles.countText}>
+              {report.counts[severity]} {SEVERITY_STYLES[severity].label}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {report.issues.length === 0 ? (
+        <Text style={styles.emptyText}>Nenhum problema encontrado.</Text>
+      ) : (
+        issues.map(issue => (
+          <TouchableOpacity key={issue.id} style={styles.issue} onPress={() => onSelectIssue(issue)}>
+            <MaterialIcons
+              name={SEVERITY_STYLES[issue.severity].icon}
+              size={16}
+              color={SEVERITY_STYLES[issue.severity].color}
+            />
+            <Text style={styles.issueText}>{issue.message}</Text>
+            <MaterialIcons name="chevron-right" size={16} color={COLORS.muted} />
+          </TouchableOpacity>
+        ))
+      )}
+
+      {report.issues.length > VISIBLE_ISSUES && (
+        <TouchableOpacity onPress={() => setShowAll(current => !current)}>
+          <Text style={styles.toggleText}>
+            {showAll ? 'Mostrar menos' : `Ver todos (${report.issues.length})`}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  mediaButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+  },
+  mediaButtonDisabled: {
+    opacity: 0.6,
+  },
+  mediaButtonText: {
+    fontSize: 12,
+    color: COLORS.primary,
+    fontWeight: '500',
+  },
+  counts: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  count: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  countText: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: COLORS.muted,
+  },
+  issue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.line,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.textPrimary,
+  },
+  toggleText: {
+    marginTop: 8,
+    fontSize: 12,
+    color: COLORS.primary,
+    fontWeight: '500',
+  },
+});
+
+export default CourseHealthPanel;
@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { COLORS, BORDER_RADIUS } from '../styles/designSystem';
+import { supabase } from '../lib/supabase';
+import { repositories } from '../lib/repositories';
+import {
+  applyGrainCsvImport,
+  CsvDelimiter,
+  detectDelimiter,
+  getGrainsCsvFileName,
+  GrainCsvMediaFiles,
+  GrainCsvPage,
+  GrainCsvPlan,
+  GrainCsvTargetPage,
+  parseGrainsCsv,
+  planGrainCsvImport,
+  serializeGrainsCsv,
+} from '../lib/grainCsv';
+import { saveExportFile } from '../lib/fileExport';
+import { useAuth } from '../contexts/AuthContext';
+
+interface GrainCsvPanelProps {
+  lessonId: string;
+  pageId: string;
+  /** Called after the grains were written */
+  onImported: () => void;
+}
+
+type Scope = 'page' | 'lesson';
+
+const SPREADSHEET_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+
+/**
+ * Export the grains of the page (or of its whole lesson) to a spreadsheet,
+ * and fill the grain slots back from one, after a line-by-line check
+ */
+const GrainCsvPanel: React.FC<GrainCsvPanelProps> = ({ lessonId, pageId, onImported }) => {
+  const { session } = useAuth();
+  const userId = session?.user?.id ?? null;
+
+  const [scope, setScope] = useState<Scope>('page');
+  const [busy, setBusy] = useState<'export' | 'pick' | 'apply' | null>(null);
+  const [plan, setPlan] = useState<GrainCsvPlan | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  const [mediaUris, setMediaUris] = useState<Record<string, string>>({});
+
+  /** Pages in scope with their grains */
+  const loadPages = async (): Promise<(GrainCsvTargetPage & GrainCsvPage & { title: string })[]> => {
+    const { data: pages, error } = await repositories.pages.list(lessonId);
+    if (error) {
+      throw error;
+    }
+
+    const inScope = (pages ?? []).filter(page => scope === 'lesson' || page.id === pageId);
+    return Promise.all(
+      inScope.map(async page => {
+        const { data: grains, error: grainsError } = await repositories.grains.list(page.id);
+        if (grainsError) {
+          throw grainsError;
+        }
+        return {
+          id: page.id,
+          title: page.title,
+          position: page.position,
+          type: page.type,
+          grain_pattern: page.grain_pattern,
+          grains: grains ?? [],
+        };
+      })
+    );
+  };
+
+  const handleExport = async (delimiter: CsvDelimiter) => {
+    setBusy('export');
+    try {
+      const pages = await loadPages();
+      const title =
+        scope === 'page'
+          ? (pages[0]?.title ?? '')
+          : ((await repositories.lessons.get(lessonId)).data?.title ?? '');
+      const fileName = getGrainsCsvFileName(title, delimiter);
+      const savedTo = await saveExportFile(
+        fileName,
+        serializeGrainsCsv(pages, delimiter),
+        delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv'
+      );
+
+      if (Platform.OS !== 'web') {
+        Alert.alert('Grãos exportados', `Ficheiro guardado em ${savedTo}`);
+      }
+    } catch (error) {
+      console.error('Error exporting grains:', error);
+      Alert.alert('Erro', 'Não foi possível exportar os grãos.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePick = async () => {
+    setBusy('pick');
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ multiple: true, copyToCacheDirectory: true });
+      if (result.canceled) {
+        return;
+      }
+
+      const sheet = result.assets.find(asset =>
+        SPREADSHEET_EXTENSIONS.some(extension => asset.name.toLowerCase().endsWith(extension))
+      );
+      if (!sheet) {
+        Alert.alert('Ficheiro em falta', 'Selecione a folha de cálculo (.csv ou .tsv) e, se precisar, a media.');
+        return;
+      }
+
+      const text = await (await fetch(sheet.uri)).text();
+      const media = Object.fromEntries(result.assets.filter(asset => asset !== sheet).map(asset => [asset.name, asset.uri]));
+      const { rows, errors } = parseGrainsCsv(text, detectDelimiter(text, sheet.name));
+      const planned = planGrainCsvImport(rows, await loadPages(), { mediaFiles: Object.keys(media) });
+
+      setSourceName(sheet.name);
+      setMediaUris(media);
+      setPlan({ ...planned, errors: [...errors, ...planned.errors].sort((a, b) => a.line - b.line) });
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      Alert.alert('Erro', 'Não foi possível ler a folha de cálculo.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan || !userId) {
+      return;
+    }
+
+    setBusy('apply');
+    try {
+      const files: GrainCsvMediaFiles = {};
+      for (const file of plan.media) {
+        files[file] = await (await fetch(mediaUris[file])).blob();
+      }
+
+      const { created, updated } = await applyGrainCsvImport(supabase, plan, userId, files);
+      Alert.alert('Sucesso', `${updated} grãos atualizados e ${created} criados.`);
+      setPlan(null);
+      onImported();
+    } catch (error) {
+      console.error('Error applying spreadsheet:', error);
+      Alert.alert('Erro', 'Não foi possível guardar os grãos. Nenhuma alteração foi guardada.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const created = plan ? plan.changes.filter(change => !change.grainId).length : 0;
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Folha de cálculo</Text>
+
+      <View style={styles.row}>
+        {(['page', 'lesson'] as Scope[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, scope === option && styles.chipActive]}
+            onPress={() => {
+              setScope(option);
+              setPlan(null);
+            }}
+          >
+            <Text style={styles.chipText}>{option === 'page' ? 'Esta página' : 'Toda a lição'}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <TouchableOpacity style={styles.btn} onPress={() => handleExport(',')} disabled={busy !== null}>
+          <MaterialIcons name="file-download" size={16} color={COLORS.primary} />
+          <Text style={styles.btnText}>CSV</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.btn} onPress={() => handleExport('\t')} disabled={busy !== null}>
+          <MaterialIcons name="file-download" size={16} color={COLORS.primary} />
+          <Text style={styles.btnText}>TSV</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.btn} onPress={handlePick} disabled={busy !== null}>
+          <MaterialIcons name="upload-file" size={16} color={COLORS.primary} />
+          <Text style={styles.btnText}>Importar</Text>
+        </TouchableOpacity>
+        {busy && <ActivityIndicator size="small" color={COLORS.primary} />}
+      </View>
+
+      {plan && (
+        <View style={styles.result}>
+          <Text style={styles.resultTitle}>{sourceName}</Text>
+          {plan.errors.length > 0 ? (
+            <>
+              <Text style={[styles.resultText, { color: COLORS.danger }]}>
+                {plan.errors.length} erro(s) — corrija a folha e importe de novo:
+              </Text>
+              {plan.errors.map((issue, index) => (
+                <Text key={`${issue.line}:${index}`} style={styles.issue}>
+                  Linha {issue.line}: {issue.message}
+                </Text>
+              ))}
+            </>
+          ) : (
+            <>
+              <Text style={styles.resultText}>
+                {plan.changes.length - created} grãos a atualizar, {created} a criar
+                {plan.media.length > 0 ? `, ${plan.media.length} ficheiro(s) de media a carregar` : ''}.
+              </Text>
+              <TouchableOpacity
+                style={[styles.btnPrimary, busy !== null && styles.btnDisabled]}
+                onPress={handleApply}
+                disabled={busy !== null}
+              >
+                <Text style={styles.btnPrimaryText}>Aplicar</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  chipActive: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary + '10',
+  },
+  chipText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  btn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  btnText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.primary,
+  },
+  result: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.line,
+    paddingTop: 8,
+    gap: 4,
+  },
+  resultTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  resultText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  issue: {
+    fontSize: 12,
+    color: COLORS.text,
+  },
+  btnPrimary: {
+    alignSelf: 'flex-start',
+    marginTop: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  btnPrimaryText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  btnDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default GrainCsvPanel;
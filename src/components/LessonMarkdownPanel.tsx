@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { NavigationProp, useNavigation } from '@react-navigation/native';
+import { COLORS, BORDER_RADIUS } from '../styles/designSystem';
+import { CourseService } from '../lib/courseService';
+import { getLessonMarkdownFileName, serializeLessonMarkdown } from '../lib/lessonMarkdown';
+import { saveExportFile } from '../lib/fileExport';
+import { RootStackParamList } from '../types';
+
+interface LessonMarkdownPanelProps {
+  courseId: string;
+  lessonId: string;
+}
+
+/**
+ * Export the lesson as a Markdown file to edit in a text editor, and bring
+ * it back through the course import (merged, it replaces this lesson)
+ */
+const LessonMarkdownPanel: React.FC<LessonMarkdownPanelProps> = ({ courseId, lessonId }) => {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const tree = await CourseService.loadCourseTree(courseId, { includeGrains: true, force: true });
+      const module = tree.modules.find(item => item.lessons.some(lesson => lesson.id === lessonId));
+      const lesson = module?.lessons.find(item => item.id === lessonId);
+      if (!module || !lesson) {
+        throw new Error(`Lesson ${lessonId} not found in course ${courseId}`);
+      }
+
+      const markdown = serializeLessonMarkdown({
+        module: module.title,
+        title: lesson.title,
+        content: lesson.content,
+        pages: lesson.pages.map(page => ({ ...page, grains: page.grains ?? [] })),
+      });
+      const savedTo = await saveExportFile(getLessonMarkdownFileName(lesson.title), markdown, 'text/markdown');
+
+      if (Platform.OS !== 'web') {
+        Alert.alert('Lição exportada', `Ficheiro guardado em ${savedTo}`);
+      }
+    } catch (error) {
+      console.error('Error exporting lesson markdown:', error);
+      Alert.alert('Erro', 'Não foi possível exportar a lição.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Markdown</Text>
+      <Text style={styles.description}>
+        Edite a lição num editor de texto. Para a trazer de volta, importe o ficheiro .md juntando-o a este curso: a lição
+        com o mesmo título é substituída.
+      </Text>
+
+      <View style={styles.row}>
+        <TouchableOpacity style={styles.btn} onPress={handleExport} disabled={isExporting}>
+          <MaterialIcons name="file-download" size={16} color={COLORS.primary} />
+          <Text style={styles.btnText}>Exportar .md</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.btn} onPress={() => navigation.navigate('CourseImport', { courseId })}>
+          <MaterialIcons name="upload-file" size={16} color={COLORS.primary} />
+          <Text style={styles.btnText}>Importar</Text>
+        </TouchableOpacity>
+        {isExporting && <ActivityIndicator size="small" color={COLORS.primary} />}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  btn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  btnText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.primary,
+  },
+});
+
+export default LessonMarkdownPanel;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Platform } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { COLORS, BORDER_RADIUS } from '../styles/designSystem';
+import { repositories } from '../lib/repositories';
+import { buildWorksheetHtml, getWorksheetFileName, WorksheetLesson } from '../lib/worksheet';
+import { printHtml, saveExportFile } from '../lib/fileExport';
+
+interface LessonWorksheetPanelProps {
+  lessonId: string;
+}
+
+/**
+ * Print the lesson as a paper worksheet (or save it as PDF from the print
+ * dialog on web), with or without the answer key
+ */
+const LessonWorksheetPanel: React.FC<LessonWorksheetPanelProps> = ({ lessonId }) => {
+  const [answerKey, setAnswerKey] = useState(true);
+  const [busy, setBusy] = useState<'print' | 'save' | null>(null);
+
+  /** The lesson with the grains of every page, as the page player loads them */
+  const loadLesson = async (): Promise<WorksheetLesson> => {
+    const [lessonResult, pagesResult] = await Promise.all([
+      repositories.lessons.get(lessonId),
+      repositories.pages.list(lessonId),
+    ]);
+    if (lessonResult.error) {
+      throw lessonResult.error;
+    }
+    if (pagesResult.error) {
+      throw pagesResult.error;
+    }
+
+    const pages = await Promise.all(
+      (pagesResult.data ?? []).map(async page => {
+        const { data: grains, error } = await repositories.grains.list(page.id);
+        if (error) {
+          throw error;
+        }
+        return { title: page.title, position: page.position, grains: grains ?? [] };
+      })
+    );
+    return { title: lessonResult.data?.title ?? '', pages };
+  };
+
+  const handleGenerate = async (mode: 'print' | 'save') => {
+    setBusy(mode);
+    try {
+      const lesson = await loadLesson();
+      const html = buildWorksheetHtml(lesson, { answerKey });
+
+      if (mode === 'print' && printHtml(html)) {
+        return;
+      }
+      const savedTo = await saveExportFile(getWorksheetFileName(lesson.title), html, 'text/html');
+      if (Platform.OS !== 'web') {
+        Alert.alert('Ficha guardada', `Ficheiro guardado em ${savedTo}. Abra-o num navegador para imprimir.`);
+      }
+    } catch (error) {
+      console.error('Error generating worksheet:', error);
+      Alert.alert('Erro', 'Não foi possível gerar a ficha da lição.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Ficha para imprimir</Text>
+      <Text style={styles.description}>
+        Os exercícios da lição em papel, página a página, com as soluções numa folha à parte.
+      </Text>
+
+      <TouchableOpacity style={styles.toggle} onPress={() => setAnswerKey(value => !value)}>
+        <MaterialIcons name={answerKey ? 'check-box' : 'check-box-outline-blank'} size={18} color={COLORS.primary} />
+        <Text style={styles.toggleText}>Incluir soluções</Text>
+      </TouchableOpacity>
+
+      <View style={styles.row}>
+        {Platform.OS === 'web' && (
+          <TouchableOpacity style={styles.btn} onPress={() => handleGenerate('print')} disabled={busy !== null}>
+            <MaterialIcons name="print" size={16} color={COLORS.primary} />
+            <Text style={styles.btnText}>Imprimir / PDF</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.btn} onPress={() => handleGenerate('save')} disabled={busy !== null}>
+          <MaterialIcons name="file-download" size={16} color={COLORS.primary} />
+          <Text style={styles.btnText}>Guardar HTML</Text>
+        </TouchableOpacity>
+        {busy && <ActivityIndicator size="small" color={COLORS.primary} />}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.textPrimary,
+  },
+  description: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  toggleText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  btn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  btnText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.primary,
+  },
+});
+
+export default LessonWorksheetPanel;
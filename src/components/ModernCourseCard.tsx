@@ -8,6 +8,7 @@ import {
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SHADOWS } from '../styles/designSystem';
+import { ProgressBar } from './UIComponents';
 
 interface Course {
   id: string;
@@ -109,12 +110,19 @@ const ModernCourseCard: React.FC<ModernCourseCardProps> = ({
             <Text style={styles.progressPercent}>{course.progress}%</Text>
           </View>
         )}
+        {course.progress !== undefined && (
+          <ProgressBar
+            progress={course.progress}
+            color={course.progress === 100 ? COLORS.success : COLORS.primary}
+            height={4}
+          />
+        )}
       </View>
       
       <View style={styles.footer}>
         <Text style={styles.footerText}>
           {course.progress !== undefined 
-            ? (course.progress > 80 ? 'Quase concluído' : 'A desenvolver')
+            ? (course.progress === 100 ? 'Conteúdo completo' : course.progress > 80 ? 'Quase concluído' : 'A desenvolver')
             : `${course.modules_count || 0} módulos · ${course.pages_count || 0} páginas`
           }
         </Text>
@@ -21,7 +21,7 @@ const ModernSidebar: React.FC<ModernSidebarProps> = ({
   currentRoute,
   onNavigate,
 }) => {
-  const { session } = useAuth();
+  const { session, profile } = useAuth();
   const { isSidebarVisible, isMobile, closeSidebar } = useSidebar();
   
   const handleNavigate = (route: string) => {
@@ -38,6 +38,9 @@ const ModernSidebar: React.FC<ModernSidebarProps> = ({
     { key: 'Media', label: 'Mídia', icon: 'photo-library' },
     { key: 'People', label: 'Pessoas', icon: 'people' },
     { key: 'Settings', label: 'Definições', icon: 'settings' },
+    ...(profile?.role === 'admin'
+      ? [{ key: 'PageTemplates', label: 'Modelos de Página', icon: 'view-quilt' }]
+      : []),
   ];
 
   const sidebarContent = (
@@ -12,6 +12,7 @@ import HamburgerButton from './HamburgerButton';
 
 interface ModernTopBarProps {
   onNewCourse: () => void;
+  onImportCourse?: () => void;
   onToggleView: (view: 'cards' | 'table') => void;
   currentView: 'cards' | 'table';
   searchQuery: string;
@@ -21,6 +22,7 @@ interface ModernTopBarProps {
 
 const ModernTopBar: React.FC<ModernTopBarProps> = ({
   onNewCourse,
+  onImportCourse,
   onToggleView,
   currentView,
   searchQuery,
@@ -90,6 +92,13 @@ const ModernTopBar: React.FC<ModernTopBarProps> = ({
             </>
           )}
           
+          {onImportCourse && (
+            <TouchableOpacity style={styles.btn} onPress={onImportCourse}>
+              <MaterialIcons name="file-upload" size={16} color={COLORS.text} />
+              {!isMobile && <Text style={styles.btnText}>Importar</Text>}
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity style={styles.btnPrimary} onPress={onNewCourse}>
             <MaterialIcons name="add" size={20} color="white" />
             <Text style={[styles.btnPrimaryText, isMobile && styles.btnPrimaryTextMobile]}>
@@ -179,6 +188,7 @@ const styles = StyleSheet.create({
     borderRadius: BORDER_RADIUS.md,
     flexDirection: 'row',
     alignItems: 'center',
+    gap: 6,
   },
   btnText: {
     color: COLORS.text,
@@ -0,0 +1,51 @@
+import { useEffect, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { useAuth } from '../contexts/AuthContext';
+import { createPageTracker, getXapiConfig, HttpLrs, PageTracker, StatementQueue, TrackedPage } from '../lib/xapi';
+
+const config = getXapiConfig();
+
+/** Shared offline buffer, or null when no LRS is configured */
+const queue = config ? new StatementQueue(new HttpLrs(config), AsyncStorage) : null;
+
+/**
+ * xAPI tracker for one run of the player on a page (pass a memoized page). Null while the page is
+ * loading, when nobody is signed in or when no LRS is configured
+ * (EXPO_PUBLIC_XAPI_ENDPOINT). Buffered statements are sent again whenever
+ * the device comes back online.
+ */
+export const useXapiTracker = (page: TrackedPage | null): PageTracker | null => {
+  const { session, profile } = useAuth();
+  const userId = session?.user.id;
+  const email = session?.user.email;
+  const username = profile?.username ?? undefined;
+
+  useEffect(() => {
+    if (!queue) {
+      return;
+    }
+    queue.flush();
+    return NetInfo.addEventListener(state => {
+      if (state.isConnected) {
+        queue.flush();
+      }
+    });
+  }, []);
+
+  return useMemo(() => {
+    if (!queue || !config || !page || !userId) {
+      return null;
+    }
+    return createPageTracker(
+      queue,
+      {
+        objectType: 'Agent',
+        name: username,
+        ...(email ? { mbox: `mailto:${email}` } : { account: { homePage: config.activityBase, name: userId } }),
+      },
+      page,
+      config.activityBase
+    );
+  }, [page, userId, email, username]);
+};
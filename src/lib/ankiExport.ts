@@ -0,0 +1,196 @@
+import { CoursePackage } from '../types';
+import { getCourseFileSlug } from './courseExport';
+import { escapeXml } from './xml';
+import { createZip, ZipEntry } from './zip';
+
+/**
+ * Vocabulary review decks for Anki. The word/answer data of pairs and guess
+ * grains becomes notes, one file per grain family so each family can go into
+ * its own note type, in Anki's text import format: tab separated with file
+ * headers (deck, columns, tags and a GUID column so importing again updates
+ * the notes). Media go in `media/`, to be copied into Anki's collection.media.
+ * See ANKI_EXPORT.md.
+ */
+
+export type AnkiNoteFamily = 'vocabulary' | 'image' | 'audio';
+
+export interface AnkiNoteType {
+  /** Suggested Anki note type name */
+  name: string;
+  file: string;
+  fields: [string, string];
+}
+
+export const ANKI_NOTE_TYPES: Record<AnkiNoteFamily, AnkiNoteType> = {
+  vocabulary: { name: 'Galeguia Vocabulário', file: 'galeguia-vocabulario.txt', fields: ['Frente', 'Verso'] },
+  image: { name: 'Galeguia Imagem', file: 'galeguia-imagens.txt', fields: ['Imagem', 'Palavra'] },
+  audio: { name: 'Galeguia Áudio', file: 'galeguia-audio.txt', fields: ['Áudio', 'Palavra'] },
+};
+
+export interface AnkiNote {
+  /** Stable id, so importing a newer deck updates the notes */
+  guid: string;
+  family: AnkiNoteFamily;
+  /** Text, or the media URL for the image and audio families */
+  prompt: string;
+  answer: string;
+  /** Hierarchical `Module::Lesson` tag */
+  tag: string;
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const tagPart = (title: string, fallback: string) => (title.trim() || fallback).replace(/\s+/g, '_').replace(/:+/g, '_');
+
+/**
+ * Notes for every pairs, guess and dictation grain of the course, skipping
+ * blank and repeated ones within a lesson
+ */
+export const collectAnkiNotes = (coursePackage: CoursePackage): AnkiNote[] => {
+  const notes: AnkiNote[] = [];
+
+  coursePackage.modules.forEach(module =>
+    module.lessons.forEach(lesson => {
+      const tag = `${tagPart(module.title, `Módulo_${module.position}`)}::${tagPart(lesson.title, `Lição_${lesson.position}`)}`;
+      const seen = new Set<string>();
+      const add = (guid: string, family: AnkiNoteFamily, prompt: string, answer: string) => {
+        const key = `${family}\u0000${prompt}\u0000${answer}`;
+        if (prompt && answer && !seen.has(key)) {
+          seen.add(key);
+          notes.push({ guid, family, prompt, answer, tag });
+        }
+      };
+
+      lesson.pages.forEach(page =>
+        page.grains.forEach(grain => {
+          const content = grain.content as unknown as Record<string, unknown>;
+          const guid = `galeguia-${grain.id}`;
+          const pairs = Array.isArray(content.pairs) ? (content.pairs as Record<string, unknown>[]) : [];
+
+          switch (grain.type) {
+            case 'pairsOfText':
+              pairs.forEach((pair, index) => add(`${guid}-${index + 1}`, 'vocabulary', text(pair.left), text(pair.right)));
+              break;
+            case 'pairsOfImage':
+              pairs.forEach((pair, index) => add(`${guid}-${index + 1}`, 'image', text(pair.imageUrl), text(pair.text)));
+              break;
+            case 'textToGuess':
+              add(guid, 'image', text(content.imageUrl), text(content.correctAnswer));
+              break;
+            case 'imagesToGuess':
+              add(guid, 'image', text(content.correctImageUrl), text(content.correctWord));
+              break;
+            case 'audioToGuess':
+              add(guid, 'audio', text(content.correctAudioUrl), text(content.correctWord));
+              break;
+            case 'audioToType':
+              add(guid, 'audio', text(content.audioUrl), text(content.correctAnswer));
+              break;
+          }
+        })
+      );
+    })
+  );
+
+  return notes;
+};
+
+/** Media URLs the notes use, to download only those */
+export const getAnkiMediaUrls = (notes: AnkiNote[]): string[] => [
+  ...new Set(notes.filter(note => note.family !== 'vocabulary').map(note => note.prompt)),
+];
+
+/** Anki's media folder is flat: bucket paths become single file names */
+export const getAnkiMediaName = (path: string): string => path.replace(/[/\\]+/g, '_');
+
+/** Fields are HTML (`#html:true`) and may not hold the separator or line breaks */
+const escapeField = (value: string) => escapeXml(value).replace(/[\t\r\n]+/g, ' ');
+
+export interface AnkiExportOptions {
+  /** Media bytes by URL (see downloadPackageMedia) */
+  media?: Record<string, Uint8Array>;
+}
+
+export interface AnkiDeck {
+  files: ZipEntry[];
+  /** Notes written, per family */
+  counts: Record<AnkiNoteFamily, number>;
+  /** Audio notes left out because their file could not be bundled (Anki only plays local sound) */
+  missingAudio: AnkiNote[];
+}
+
+/**
+ * The import files (one per family with notes) and the bundled media.
+ * Images that were not downloaded keep their URL, which Anki shows online.
+ */
+export const buildAnkiDeck = (coursePackage: CoursePackage, { media = {} }: AnkiExportOptions = {}): AnkiDeck => {
+  const mediaNames = new Map(
+    coursePackage.media.filter(item => media[item.url]).map(item => [item.url, getAnkiMediaName(item.path)])
+  );
+  const notes = collectAnkiNotes(coursePackage);
+  const counts: Record<AnkiNoteFamily, number> = { vocabulary: 0, image: 0, audio: 0 };
+  const usedMedia = new Set<string>();
+  const missingAudio: AnkiNote[] = [];
+
+  const field = (note: AnkiNote): string | null => {
+    if (note.family === 'vocabulary') {
+      return escapeField(note.prompt);
+    }
+    const name = mediaNames.get(note.prompt);
+    if (name) {
+      usedMedia.add(note.prompt);
+    }
+    if (note.family === 'audio') {
+      return name ? `[sound:${name}]` : null;
+    }
+    return `<img src="${escapeField(name ?? note.prompt)}">`;
+  };
+
+  const files = (Object.keys(ANKI_NOTE_TYPES) as AnkiNoteFamily[]).flatMap(family => {
+    const noteType = ANKI_NOTE_TYPES[family];
+    const lines = notes
+      .filter(note => note.family === family)
+      .flatMap(note => {
+        const prompt = field(note);
+        if (prompt === null) {
+          missingAudio.push(note);
+          return [];
+        }
+        counts[family] += 1;
+        return [[note.guid, prompt, escapeField(note.answer), note.tag].join('\t')];
+      });
+
+    if (lines.length === 0) {
+      return [];
+    }
+    const headers = [
+      '#separator:tab',
+      '#html:true',
+      `#deck:${coursePackage.course.title.replace(/[\r\n]+/g, ' ')}`,
+      `#columns:GUID\t${noteType.fields.join('\t')}\tTags`,
+      '#guid column:1',
+      '#tags column:4',
+    ];
+    return [{ path: noteType.file, data: `${[...headers, ...lines].join('\n')}\n` }];
+  });
+
+  return {
+    files: [
+      ...files,
+      ...[...usedMedia].map(url => ({ path: `media/${mediaNames.get(url) as string}`, data: media[url] })),
+    ],
+    counts,
+    missingAudio,
+  };
+};
+
+export const createAnkiZip = (
+  coursePackage: CoursePackage,
+  options: AnkiExportOptions = {}
+): Omit<AnkiDeck, 'files'> & { zip: Uint8Array } => {
+  const { files, ...report } = buildAnkiDeck(coursePackage, options);
+  return { zip: createZip(files), ...report };
+};
+
+/** File name for a deck, e.g. `galego-basico.anki.zip` */
+export const getAnkiFileName = (coursePackage: CoursePackage): string => `${getCourseFileSlug(coursePackage)}.anki.zip`;
@@ -0,0 +1,62 @@
+import { GrainType } from '../types';
+import { CHOICE_MAX_OPTIONS } from './grainValidation';
+
+/**
+ * Choice grains: the learner picks the correct option among 1-7 distractors.
+ * Any choice grain may list extra correct answers, which makes it
+ * select-all-that-apply: the answer is right when exactly the correct
+ * options are picked.
+ */
+
+export interface ChoiceFields {
+  answer: string;
+  distractors: string;
+  /** Extra correct answers */
+  extra: string;
+}
+
+export const CHOICE_FIELDS: Partial<Record<GrainType, ChoiceFields>> = {
+  textToComplete: { answer: 'correctAnswer', distractors: 'falseAlternatives', extra: 'extraCorrectAnswers' },
+  testQuestion: { answer: 'correctAnswer', distractors: 'falseAlternatives', extra: 'extraCorrectAnswers' },
+  textToGuess: { answer: 'correctAnswer', distractors: 'falseAlternatives', extra: 'extraCorrectAnswers' },
+  imagesToGuess: { answer: 'correctImageUrl', distractors: 'falseImageUrls', extra: 'extraCorrectImageUrls' },
+  audioToGuess: { answer: 'correctAudioUrl', distractors: 'falseAudioUrls', extra: 'extraCorrectAudioUrls' },
+};
+
+export interface ChoiceOptions {
+  /** The answer first, then the extra correct answers */
+  correct: string[];
+  distractors: string[];
+}
+
+const filled = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+
+/** Filled options of a choice grain, or null for other grain types */
+export const getChoiceOptions = (type: GrainType, content: unknown): ChoiceOptions | null => {
+  const fields = CHOICE_FIELDS[type];
+  if (!fields) {
+    return null;
+  }
+  const record = (content ?? {}) as Record<string, unknown>;
+  return {
+    correct: [...filled(record[fields.answer]), ...filled(record[fields.extra])],
+    distractors: filled(record[fields.distractors]),
+  };
+};
+
+/** Select-all-that-apply: more than one option is correct */
+export const isMultipleAnswer = (options: ChoiceOptions): boolean => options.correct.length > 1;
+
+/** Whether the picked options are exactly the correct ones */
+export const isChoiceSelectionCorrect = (options: ChoiceOptions, selected: string[]): boolean => {
+  const picked = new Set(selected);
+  return picked.size === options.correct.length && options.correct.every(option => picked.has(option));
+};
+
+/** Authoring problems the schema cannot see: too many options to show at once */
+export const getChoiceIssues = (type: GrainType, content: unknown): string[] => {
+  const options = getChoiceOptions(type, content);
+  const count = options ? options.correct.length + options.distractors.length : 0;
+  return count > CHOICE_MAX_OPTIONS ? [`Pode haver até ${CHOICE_MAX_OPTIONS} opções (há ${count}).`] : [];
+};
@@ -0,0 +1,126 @@
+import { ClozeBlank, ClozeContent } from '../types';
+import { normalizeDictation } from './dictation';
+
+/**
+ * Cloze grains: a passage with numbered `[BLANK:n]` markers, where `n` is
+ * the 1-based index of the blank in `blanks`. Each blank has its own
+ * accepted answers (the first one is shown as the solution) and, in
+ * dropdown mode, its own wrong options. Every blank scores on its own.
+ */
+
+const MARKER = /\[BLANK:(\d+)\]/g;
+
+/** Marker text for blank `number` (1-based) */
+export const clozeMarker = (number: number): string => `[BLANK:${number}]`;
+
+export type ClozeSegment = { kind: 'text'; text: string } | { kind: 'blank'; number: number };
+
+/** The passage as text and blank segments, in reading order */
+export const splitClozePassage = (passage: string): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const match of passage.matchAll(MARKER)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      segments.push({ kind: 'text', text: passage.slice(last, index) });
+    }
+    segments.push({ kind: 'blank', number: Number(match[1]) });
+    last = index + match[0].length;
+  }
+  if (last < passage.length) {
+    segments.push({ kind: 'text', text: passage.slice(last) });
+  }
+  return segments;
+};
+
+/** Blank numbers in the order they appear in the passage */
+export const getClozeBlankNumbers = (passage: string): number[] =>
+  splitClozePassage(passage).flatMap(segment => (segment.kind === 'blank' ? [segment.number] : []));
+
+/** Options offered by a dropdown blank: the first answer and the wrong options, in a stable order */
+export const getClozeChoices = (blank: ClozeBlank): string[] =>
+  [...new Set([blank.answers[0] ?? '', ...blank.options].map(option => option.trim()).filter(Boolean))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+/**
+ * Whether a blank was filled in right. Typed answers ignore case and extra
+ * spaces; picked options must be one of the answers.
+ */
+export const isClozeBlankCorrect = (content: ClozeContent, number: number, response: string): boolean => {
+  const blank = content.blanks[number - 1];
+  if (!blank || !response.trim()) {
+    return false;
+  }
+  const tolerance = { ignoreCase: content.mode === 'typing', ignorePunctuation: false, ignoreAccents: false };
+  const answer = normalizeDictation(response, tolerance);
+  return blank.answers.some(candidate => candidate.trim() && normalizeDictation(candidate, tolerance) === answer);
+};
+
+/** Right blanks out of all of them, for a response per blank number */
+export const scoreCloze = (content: ClozeContent, responses: Record<number, string>): { correct: number; total: number } => {
+  const numbers = getClozeBlankNumbers(content.passage);
+  return {
+    correct: numbers.filter(number => isClozeBlankCorrect(content, number, responses[number] ?? '')).length,
+    total: numbers.length,
+  };
+};
+
+/**
+ * Authoring problems the schema cannot see: markers and blanks that do not
+ * match one to one, blanks without an answer, dropdowns without options
+ */
+export const getClozeIssues = (content: ClozeContent): string[] => {
+  const issues: string[] = [];
+  const numbers = getClozeBlankNumbers(content.passage);
+
+  if (content.passage.trim() && numbers.length === 0) {
+    issues.push(`O texto não tem lacunas: marque-as com ${clozeMarker(1)}, ${clozeMarker(2)}…`);
+  }
+  numbers
+    .filter((number, index) => numbers.indexOf(number) !== index)
+    .forEach(number => issues.push(`A lacuna ${number} aparece mais de uma vez no texto.`));
+  numbers
+    .filter(number => number < 1 || number > content.blanks.length)
+    .forEach(number => issues.push(`A lacuna ${number} não tem respostas definidas.`));
+
+  content.blanks.forEach((blank, index) => {
+    const number = index + 1;
+    if (!numbers.includes(number)) {
+      issues.push(`A lacuna ${number} não está marcada no texto.`);
+    }
+    if (!blank.answers.some(answer => answer.trim())) {
+      issues.push(`A lacuna ${number} precisa de pelo menos uma resposta.`);
+    }
+    if (content.mode === 'dropdown' && !blank.options.some(option => option.trim())) {
+      issues.push(`A lacuna ${number} precisa de opções erradas no modo lista.`);
+    }
+  });
+  return issues;
+};
+
+// Spreadsheet cells and Markdown list items: `answer | other answer => option | option`
+
+const LIST_SEPARATOR = '|';
+const OPTIONS_SEPARATOR = '=>';
+
+const splitList = (value: string) =>
+  value
+    .split(LIST_SEPARATOR)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+export const formatClozeBlank = (blank: ClozeBlank): string => {
+  const answers = blank.answers.join(` ${LIST_SEPARATOR} `);
+  return blank.options.length > 0 ? `${answers} ${OPTIONS_SEPARATOR} ${blank.options.join(` ${LIST_SEPARATOR} `)}` : answers;
+};
+
+/** A blank written without answers keeps an empty one, as the editor does */
+export const parseClozeBlank = (value: string): ClozeBlank => {
+  const separator = value.indexOf(OPTIONS_SEPARATOR);
+  const answers = splitList(separator === -1 ? value : value.slice(0, separator));
+  return {
+    answers: answers.length > 0 ? answers : [''],
+    options: separator === -1 ? [] : splitList(value.slice(separator + OPTIONS_SEPARATOR.length)),
+  };
+};
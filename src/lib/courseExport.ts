@@ -0,0 +1,87 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CoursePackage, CourseTree } from '../types';
+import { collectMediaUrls, storagePathFromUrl } from './courseMedia';
+import { createCourseSnapshot } from './courseReleases';
+import { fetchCourseTree } from './courseTree';
+
+/**
+ * Course export: the whole course (metadata, modules, lessons, pages and
+ * grains) plus a manifest of the media it references, as a versioned JSON
+ * package. The format is documented in COURSE_PACKAGE_FORMAT.md.
+ */
+
+export const COURSE_PACKAGE_FORMAT = 'galeguia-course';
+
+/** Current version of the package shape */
+export const COURSE_PACKAGE_VERSION = 1;
+
+/** Folder, next to the package file, holding bundled media */
+export const COURSE_PACKAGE_MEDIA_DIR = 'media';
+
+/**
+ * Package a course tree loaded with grains
+ */
+export const buildCoursePackage = (tree: CourseTree, exportedAt: string = new Date().toISOString()): CoursePackage => {
+  const { course, modules } = createCourseSnapshot(tree);
+
+  return {
+    format: COURSE_PACKAGE_FORMAT,
+    version: COURSE_PACKAGE_VERSION,
+    exported_at: exportedAt,
+    course,
+    modules,
+    media: collectMediaUrls(tree).map(url => ({ path: storagePathFromUrl(url) as string, url })),
+  };
+};
+
+/**
+ * Load the latest content of a course and package it. Takes the client so
+ * Node scripts can export with their own credentials.
+ */
+export const exportCourse = async (client: SupabaseClient, courseId: string): Promise<CoursePackage> =>
+  buildCoursePackage(await fetchCourseTree(client, courseId, true));
+
+export const serializeCoursePackage = (coursePackage: CoursePackage): string =>
+  `${JSON.stringify(coursePackage, null, 2)}\n`;
+
+/** File-name friendly course title, e.g. `galego-basico` */
+export const getCourseFileSlug = (coursePackage: CoursePackage): string => {
+  const slug = coursePackage.course.title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return slug || coursePackage.course.id;
+};
+
+/** File name for a package, e.g. `galego-basico.galeguia.json` */
+export const getCoursePackageFileName = (coursePackage: CoursePackage): string =>
+  `${getCourseFileSlug(coursePackage)}.galeguia.json`;
+
+/**
+ * Download the media listed in the manifest, by URL. Files that cannot be
+ * fetched are left out (and keep pointing at their URL).
+ */
+export const downloadPackageMedia = async (
+  coursePackage: CoursePackage,
+  fetcher: typeof fetch = fetch
+): Promise<Record<string, Uint8Array>> => {
+  const files: Record<string, Uint8Array> = {};
+
+  for (const media of coursePackage.media) {
+    try {
+      const response = await fetcher(media.url);
+      if (response.ok) {
+        files[media.url] = new Uint8Array(await response.arrayBuffer());
+      } else {
+        console.warn(`Skipping media ${media.path}: HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`Skipping media ${media.path}:`, error);
+    }
+  }
+
+  return files;
+};
@@ -0,0 +1,293 @@
+import { CourseTree, PageNode } from '../types';
+import { CHOICE_FIELDS, getChoiceOptions } from './choices';
+import { evaluateGrainCompleteness } from './grainCompleteness';
+import { isGrainType } from './grainTypes';
+import { getPageTypeDefinition, validatePageGrains } from './pageTypes';
+
+/**
+ * Course health report: what an author still has to fix before learners see
+ * the course (empty titles, broken media, distractors equal to the answer,
+ * grains out of the page structure...). Each issue points at the node to fix.
+ */
+
+export type HealthSeverity = 'error' | 'warning' | 'info';
+
+export type HealthIssueCode =
+  | 'empty_title'
+  | 'empty_module'
+  | 'empty_lesson'
+  | 'missing_grains'
+  | 'pattern_mismatch'
+  | 'incomplete_grain'
+  | 'false_equals_answer'
+  | 'duplicate_false_alternative'
+  | 'missing_blank'
+  | 'invalid_media_url'
+  | 'broken_media';
+
+/** Where an issue lives, from the course down to the grain */
+export interface HealthLocation {
+  courseId: string;
+  moduleId?: string;
+  lessonId?: string;
+  pageId?: string;
+  grainId?: string;
+}
+
+export interface HealthIssue {
+  /** Stable key of the issue inside a report */
+  id: string;
+  code: HealthIssueCode;
+  severity: HealthSeverity;
+  message: string;
+  location: HealthLocation;
+  /** Offending grain content field, e.g. `falseAlternatives[1]` */
+  field?: string;
+}
+
+export interface CourseHealthReport {
+  issues: HealthIssue[];
+  counts: Record<HealthSeverity, number>;
+}
+
+export interface AnalyzeOptions {
+  /** Media URLs found unreachable by `CourseHealth.findBrokenMedia` */
+  brokenMediaUrls?: string[];
+}
+
+/** Checks whether a media URL answers; resolves to false when it does not */
+export type MediaCheck = (url: string) => Promise<boolean>;
+
+const SEVERITY_ORDER: HealthSeverity[] = ['error', 'warning', 'info'];
+
+/** Placeholder marking the missing word of a textToComplete phrase */
+export const BLANK_PLACEHOLDER = '[BLANK]';
+
+const MEDIA_BATCH_SIZE = 5;
+
+const isBlank = (value: string | null | undefined) => !value?.trim();
+
+const normalizeText = (value: string) => value.trim().toLowerCase();
+
+/** Content fields holding a media URL (`imageUrl`, `falseAudioUrls[1]`, `pairs[0].imageUrl`...) */
+const collectMediaFields = (value: unknown, path: string, found: { field: string; url: string }[]) => {
+  if (typeof value === 'string') {
+    if (/urls?(\[\d+\])?$/i.test(path) && value.trim()) {
+      found.push({ field: path, url: value.trim() });
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectMediaFields(item, `${path}[${index}]`, found));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => collectMediaFields(item, path ? `${path}.${key}` : key, found));
+  }
+};
+
+const isHttpUrl = (url: string) => /^https?:\/\/\S+$/i.test(url);
+
+/** Grain count a page structure asks for, or null when it does not fix one */
+const expectedGrainCount = (page: PageNode): number | null => {
+  const definition = getPageTypeDefinition(page.type);
+  if (!definition.enforced) {
+    return null;
+  }
+  if (definition.slots) {
+    return definition.slots.length;
+  }
+  return page.grain_pattern?.length ? page.grain_pattern.length : null;
+};
+
+const headCheck: MediaCheck = async url => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export class CourseHealth {
+  /**
+   * Scan a course tree (loaded with grains) and list its issues, errors first
+   */
+  static analyze(tree: CourseTree, { brokenMediaUrls = [] }: AnalyzeOptions = {}): CourseHealthReport {
+    const issues: HealthIssue[] = [];
+    const broken = new Set(brokenMediaUrls);
+
+    const add = (
+      code: HealthIssueCode,
+      severity: HealthSeverity,
+      message: string,
+      location: HealthLocation,
+      field?: string
+    ) => {
+      const target = location.grainId ?? location.pageId ?? location.lessonId ?? location.moduleId ?? location.courseId;
+      issues.push({ id: `${code}:${target}:${field ?? ''}`, code, severity, message, location, field });
+    };
+
+    const checkMedia = (url: string | null | undefined, field: string, location: HealthLocation) => {
+      if (isBlank(url)) {
+        return;
+      }
+      const value = (url as string).trim();
+      if (!isHttpUrl(value)) {
+        add('invalid_media_url', 'error', `O endereço de media "${field}" não é um URL válido.`, location, field);
+      } else if (broken.has(value)) {
+        add('broken_media', 'error', `O ficheiro de media "${field}" não está acessível.`, location, field);
+      }
+    };
+
+    const course: HealthLocation = { courseId: tree.id };
+    if (isBlank(tree.title)) {
+      add('empty_title', 'error', 'O curso não tem título.', course);
+    }
+    checkMedia(tree.cover_image_url, 'cover_image_url', course);
+
+    tree.modules.forEach(module => {
+      const moduleLocation = { ...course, moduleId: module.id };
+      const moduleName = module.title?.trim() || `Módulo ${module.position}`;
+
+      if (isBlank(module.title)) {
+        add('empty_title', 'warning', `${moduleName} não tem título.`, moduleLocation);
+      }
+      if (module.lessons.length === 0) {
+        add('empty_module', 'info', `${moduleName} ainda não tem lições.`, moduleLocation);
+      }
+
+      module.lessons.forEach(lesson => {
+        const lessonLocation = { ...moduleLocation, lessonId: lesson.id };
+        const lessonName = lesson.title?.trim() || `Lição ${lesson.position}`;
+
+        if (isBlank(lesson.title)) {
+          add('empty_title', 'warning', `${lessonName} (${moduleName}) não tem título.`, lessonLocation);
+        }
+        if (lesson.pages.length === 0) {
+          add('empty_lesson', 'info', `${lessonName} ainda não tem páginas.`, lessonLocation);
+        }
+
+        lesson.pages.forEach(page => {
+          const pageLocation = { ...lessonLocation, pageId: page.id };
+          const pageName = `${page.title?.trim() || `Página ${page.position}`} (${lessonName})`;
+          const grains = page.grains ?? [];
+
+          if (isBlank(page.title)) {
+            add('empty_title', 'warning', `Página ${page.position} de ${lessonName} não tem título.`, pageLocation);
+          }
+          checkMedia(page.media_url, 'media_url', pageLocation);
+
+          const expected = expectedGrainCount(page);
+          if (page.grains && expected !== null && grains.length < expected) {
+            add('missing_grains', 'warning', `${pageName} tem ${grains.length} de ${expected} grãos.`, pageLocation);
+          }
+
+          validatePageGrains(page.type, grains, page.grain_pattern).forEach(problem => {
+            const grain = grains.find(candidate => candidate.position === problem.position);
+            add(
+              'pattern_mismatch',
+              'error',
+              `${pageName}: ${problem.message}`,
+              grain ? { ...pageLocation, grainId: grain.id } : pageLocation
+            );
+          });
+
+          grains.forEach(grain => {
+            const grainLocation = { ...pageLocation, grainId: grain.id };
+            const grainName = `${pageName}, grão ${grain.position}`;
+
+            if (!isGrainType(grain.type)) {
+              return;
+            }
+            const content = grain.content as unknown as Record<string, unknown>;
+
+            // Distractors must differ from every correct answer and from each other
+            const fields = CHOICE_FIELDS[grain.type];
+            const options = getChoiceOptions(grain.type, content);
+            if (fields && options) {
+              const answers = new Set(options.correct.map(normalizeText));
+              const seen = new Set<string>();
+              const items = Array.isArray(content[fields.distractors]) ? (content[fields.distractors] as unknown[]) : [];
+
+              items.forEach((item, index) => {
+                if (typeof item !== 'string' || isBlank(item)) {
+                  return;
+                }
+                const field = `${fields.distractors}[${index}]`;
+                const key = normalizeText(item);
+                if (answers.has(key)) {
+                  add('false_equals_answer', 'error', `${grainName}: a alternativa falsa ${index + 1} é igual à resposta correta.`, grainLocation, field);
+                } else if (seen.has(key)) {
+                  add('duplicate_false_alternative', 'error', `${grainName}: a alternativa falsa ${index + 1} está repetida.`, grainLocation, field);
+                }
+                seen.add(key);
+              });
+            }
+
+            const phrase = content.phrase;
+            if (grain.type === 'textToComplete' && typeof phrase === 'string' && !isBlank(phrase) && !phrase.includes(BLANK_PLACEHOLDER)) {
+              add('missing_blank', 'error', `${grainName}: a frase não contém ${BLANK_PLACEHOLDER}.`, grainLocation, 'phrase');
+            }
+
+            const empty = evaluateGrainCompleteness(grain).missing.filter(missing => missing.reason === 'empty');
+            if (empty.length > 0) {
+              add(
+                'incomplete_grain',
+                'warning',
+                `${grainName}: ${empty.length === 1 ? 'falta 1 campo' : `faltam ${empty.length} campos`} (${empty.map(missing => missing.field).join(', ')}).`,
+                grainLocation
+              );
+            }
+
+            const media: { field: string; url: string }[] = [];
+            collectMediaFields(content, '', media);
+            media.forEach(({ field, url }) => checkMedia(url, field, grainLocation));
+          });
+        });
+      });
+    });
+
+    const sorted = issues
+      .map((issue, index) => ({ issue, index }))
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.issue.severity) - SEVERITY_ORDER.indexOf(b.issue.severity) || a.index - b.index)
+      .map(({ issue }) => issue);
+
+    return {
+      issues: sorted,
+      counts: {
+        error: sorted.filter(issue => issue.severity === 'error').length,
+        warning: sorted.filter(issue => issue.severity === 'warning').length,
+        info: sorted.filter(issue => issue.severity === 'info').length,
+      },
+    };
+  }
+
+  /**
+   * Every http(s) media URL of the course that does not answer, checked a few at a time
+   */
+  static async findBrokenMedia(tree: CourseTree, check: MediaCheck = headCheck): Promise<string[]> {
+    const media: { field: string; url: string }[] = [];
+    const urls = [tree.cover_image_url];
+
+    tree.modules.forEach(module =>
+      module.lessons.forEach(lesson =>
+        lesson.pages.forEach(page => {
+          urls.push(page.media_url);
+          page.grains?.forEach(grain => collectMediaFields(grain.content, '', media));
+        })
+      )
+    );
+
+    const candidates = [...new Set([...urls, ...media.map(({ url }) => url)])]
+      .map(url => url?.trim() ?? '')
+      .filter(isHttpUrl);
+    const broken: string[] = [];
+    for (let start = 0; start < candidates.length; start += MEDIA_BATCH_SIZE) {
+      const batch = candidates.slice(start, start + MEDIA_BATCH_SIZE);
+      const results = await Promise.all(batch.map(check));
+      batch.forEach((url, index) => {
+        if (!results[index]) {
+          broken.push(url);
+        }
+      });
+    }
+    return broken;
+  }
+}
@@ -0,0 +1,396 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CoursePackage, CoursePackageMedia, CourseTree, GrainType, PageType } from '../types';
+import { COURSE_MEDIA_BUCKET } from './courseMedia';
+import { COURSE_PACKAGE_FORMAT, COURSE_PACKAGE_VERSION } from './courseExport';
+import { formatGrainContentErrors, validateGrainContent } from './grainValidation';
+import { getGrainTypeLabel } from './grainTypes';
+import { isPageType, validatePageGrains } from './pageTypes';
+
+/**
+ * Course import from a package written by courseExport. Importing is done in
+ * two steps: `planCourseImport` validates the package and works out what will
+ * be created or replaced without writing anything (the dry run shown to the
+ * user), then `importCoursePackage` uploads the bundled media and applies the
+ * plan server-side in a single transaction (`import_course_package`).
+ *
+ * Merging into an existing course appends the package modules, except those
+ * whose title matches an existing module: their lessons go into that module,
+ * replacing the lesson with the same title or appended after the others.
+ */
+
+export interface ImportIssue {
+  /** Where the problem is, e.g. `Cores › Vermello › Página 1 › Grão 2` */
+  path: string;
+  message: string;
+}
+
+export type ImportActionKind = 'create' | 'merge' | 'replace';
+
+export interface ImportAction {
+  kind: ImportActionKind;
+  level: 'course' | 'module' | 'lesson';
+  label: string;
+}
+
+export interface ImportGrainPayload {
+  type: GrainType;
+  content: unknown;
+}
+
+export interface ImportPagePayload {
+  title: string;
+  content: string | null;
+  media_url: string | null;
+  type: PageType;
+  grain_pattern: string[] | null;
+  grains: ImportGrainPayload[];
+}
+
+export interface ImportLessonPayload {
+  replace_lesson_id: string | null;
+  title: string;
+  content: string | null;
+  pages: ImportPagePayload[];
+}
+
+export interface ImportModulePayload {
+  target_module_id: string | null;
+  title: string;
+  lessons: ImportLessonPayload[];
+}
+
+/** Body of `import_course_package` (see migrations/add_import_course_package_function.sql) */
+export interface ImportPayload {
+  course: CoursePackage['course'];
+  modules: ImportModulePayload[];
+}
+
+export interface CourseImportPlan {
+  /** Course merged into, or null to create a new course */
+  targetCourseId: string | null;
+  actions: ImportAction[];
+  /** Rows that will be written */
+  counts: { modules: number; lessons: number; pages: number; grains: number };
+  /** Validation failures; the import is refused while there are any */
+  errors: ImportIssue[];
+  media: {
+    /** Bundled files that will be uploaded to the course media bucket */
+    upload: CoursePackageMedia[];
+    /** Media not bundled (or not provided): the content keeps pointing at the original URL */
+    kept: CoursePackageMedia[];
+  };
+  payload: ImportPayload;
+}
+
+export interface PlanCourseImportOptions {
+  /** Existing course to merge into (loaded with or without grains) */
+  target?: CourseTree;
+  /** Bundled media files available for upload (`CoursePackageMedia.file`) */
+  mediaFiles?: string[];
+}
+
+export interface ImportCourseResult {
+  courseId: string;
+  counts: CourseImportPlan['counts'];
+  mediaUploaded: number;
+}
+
+/** Bytes of a bundled media file, by its `file` entry in the manifest */
+export type ImportMediaFiles = Record<string, Blob | ArrayBuffer | Uint8Array>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNullableString = (value: unknown) => value === null || value === undefined || typeof value === 'string';
+
+const joinPath = (parent: string, label: string) => (parent ? `${parent} › ${label}` : label);
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const listOf = (node: Record<string, unknown>, key: string, path: string, errors: ImportIssue[]): unknown[] => {
+  const value = node[key];
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `O campo "${key}" deve ser uma lista.` });
+    return [];
+  }
+  return value;
+};
+
+const checkTitle = (node: Record<string, unknown>, path: string, errors: ImportIssue[], required = true) => {
+  if (typeof node.title !== 'string' || (required && !node.title.trim())) {
+    errors.push({ path, message: 'Falta o título.' });
+  }
+};
+
+/**
+ * Check the shape of a parsed package: format and version, the tree, page
+ * types, and every grain against the schema of its grain type
+ */
+export const validateCoursePackage = (value: unknown): ImportIssue[] => {
+  const errors: ImportIssue[] = [];
+
+  if (!isRecord(value) || value.format !== COURSE_PACKAGE_FORMAT) {
+    return [{ path: 'Pacote', message: 'O ficheiro não é um pacote de curso Galeguia.' }];
+  }
+  if (typeof value.version !== 'number' || value.version > COURSE_PACKAGE_VERSION) {
+    return [{ path: 'Pacote', message: `Versão do pacote não suportada: ${String(value.version)}.` }];
+  }
+  if (!isRecord(value.course)) {
+    return [{ path: 'Curso', message: 'Faltam os dados do curso.' }];
+  }
+
+  checkTitle(value.course, 'Curso', errors);
+  listOf(value, 'media', 'Pacote', errors);
+
+  listOf(value, 'modules', 'Curso', errors).forEach((module, moduleIndex) => {
+    const modulePath = `Módulo ${moduleIndex + 1}`;
+    if (!isRecord(module)) {
+      errors.push({ path: modulePath, message: 'Módulo inválido.' });
+      return;
+    }
+    checkTitle(module, modulePath, errors);
+
+    listOf(module, 'lessons', modulePath, errors).forEach((lesson, lessonIndex) => {
+      const lessonPath = joinPath(modulePath, `Lição ${lessonIndex + 1}`);
+      if (!isRecord(lesson)) {
+        errors.push({ path: lessonPath, message: 'Lição inválida.' });
+        return;
+      }
+      checkTitle(lesson, lessonPath, errors);
+
+      listOf(lesson, 'pages', lessonPath, errors).forEach((page, pageIndex) => {
+        const pagePath = joinPath(lessonPath, `Página ${pageIndex + 1}`);
+        if (!isRecord(page)) {
+          errors.push({ path: pagePath, message: 'Página inválida.' });
+          return;
+        }
+        checkTitle(page, pagePath, errors, false);
+        if (!isNullableString(page.content) || !isNullableString(page.media_url)) {
+          errors.push({ path: pagePath, message: 'O conteúdo e a media da página devem ser texto.' });
+        }
+        if (!isPageType(page.type)) {
+          errors.push({ path: pagePath, message: `Tipo de página desconhecido: "${String(page.type)}".` });
+        }
+        const pattern = page.grain_pattern;
+        if (pattern !== null && pattern !== undefined && !(Array.isArray(pattern) && pattern.every(item => typeof item === 'string'))) {
+          errors.push({ path: pagePath, message: 'O padrão de grãos deve ser uma lista de tipos.' });
+        }
+
+        const grains = listOf(page, 'grains', pagePath, errors);
+        grains.forEach((grain, grainIndex) => {
+          const grainPath = joinPath(pagePath, `Grão ${grainIndex + 1}`);
+          if (!isRecord(grain)) {
+            errors.push({ path: grainPath, message: 'Grão inválido.' });
+            return;
+          }
+          const { valid, errors: contentErrors } = validateGrainContent(String(grain.type), grain.content);
+          if (!valid) {
+            errors.push({
+              path: `${grainPath} (${getGrainTypeLabel(String(grain.type))})`,
+              message: formatGrainContentErrors(contentErrors),
+            });
+          }
+        });
+
+        if (isPageType(page.type)) {
+          const positioned = grains.filter(isRecord).map((grain, index) => ({ position: index + 1, type: String(grain.type) }));
+          validatePageGrains(page.type, positioned, Array.isArray(pattern) ? (pattern as string[]) : null).forEach(issue =>
+            errors.push({ path: pagePath, message: issue.message })
+          );
+        }
+      });
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Parse the text of a package file. Returns the package only when it is valid.
+ */
+export const parseCoursePackage = (text: string): { coursePackage: CoursePackage | null; errors: ImportIssue[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { coursePackage: null, errors: [{ path: 'Pacote', message: 'O ficheiro não é JSON válido.' }] };
+  }
+
+  const errors = validateCoursePackage(value);
+  return { coursePackage: errors.length === 0 ? (value as CoursePackage) : null, errors };
+};
+
+export interface MediaFileMatch {
+  /** Picked file name, by the `file` entry of the manifest it stands for */
+  matched: Record<string, string>;
+  /** Manifest entries left unmatched because another entry has the same file name */
+  ambiguous: CoursePackageMedia[];
+}
+
+/**
+ * Match picked files to the manifest. File pickers only give base names, so
+ * a name shared by entries in different folders cannot be told apart: those
+ * entries are reported instead of all getting the same file.
+ */
+export const matchMediaFiles = (media: CoursePackageMedia[], pickedNames: string[]): MediaFileMatch => {
+  const baseName = (path: string) => path.split('/').pop() ?? path;
+  const picked = new Set(pickedNames);
+  const bundled = media.filter(item => item.file !== undefined && picked.has(baseName(item.file)));
+  const entriesByName = new Map<string, number>();
+  bundled.forEach(item => {
+    const name = baseName(item.file as string);
+    entriesByName.set(name, (entriesByName.get(name) ?? 0) + 1);
+  });
+
+  const matched: Record<string, string> = {};
+  const ambiguous: CoursePackageMedia[] = [];
+  bundled.forEach(item => {
+    const name = baseName(item.file as string);
+    if ((entriesByName.get(name) ?? 0) > 1) {
+      ambiguous.push(item);
+    } else {
+      matched[item.file as string] = name;
+    }
+  });
+  return { matched, ambiguous };
+};
+
+/**
+ * Dry run: validate the package and list what importing it would create or
+ * replace, as a new course or merged into `target`. Nothing is written.
+ */
+export const planCourseImport = (
+  coursePackage: CoursePackage,
+  { target, mediaFiles = [] }: PlanCourseImportOptions = {}
+): CourseImportPlan => {
+  const actions: ImportAction[] = [];
+  const counts = { modules: 0, lessons: 0, pages: 0, grains: 0 };
+  const usedModules = new Set<string>();
+
+  if (!target) {
+    actions.push({ kind: 'create', level: 'course', label: coursePackage.course.title });
+  }
+
+  const modules = coursePackage.modules.map((module): ImportModulePayload => {
+    const existing = target?.modules.find(node => !usedModules.has(node.id) && sameTitle(node.title, module.title));
+    const usedLessons = new Set<string>();
+
+    if (existing) {
+      usedModules.add(existing.id);
+      actions.push({ kind: 'merge', level: 'module', label: existing.title });
+    } else {
+      counts.modules += 1;
+      actions.push({ kind: 'create', level: 'module', label: module.title });
+    }
+
+    return {
+      target_module_id: existing?.id ?? null,
+      title: module.title,
+      lessons: module.lessons.map((lesson): ImportLessonPayload => {
+        const replaced = existing?.lessons.find(node => !usedLessons.has(node.id) && sameTitle(node.title, lesson.title));
+        if (replaced) {
+          usedLessons.add(replaced.id);
+        }
+        counts.lessons += 1;
+        actions.push({ kind: replaced ? 'replace' : 'create', level: 'lesson', label: joinPath(module.title, lesson.title) });
+
+        return {
+          replace_lesson_id: replaced?.id ?? null,
+          title: lesson.title,
+          content: lesson.content ?? null,
+          pages: lesson.pages.map(page => {
+            counts.pages += 1;
+            counts.grains += page.grains.length;
+            return {
+              title: page.title ?? '',
+              content: page.content ?? null,
+              media_url: page.media_url ?? null,
+              type: page.type,
+              grain_pattern: page.grain_pattern ?? null,
+              grains: page.grains.map(grain => ({ type: grain.type, content: grain.content })),
+            };
+          }),
+        };
+      }),
+    };
+  });
+
+  const available = new Set(mediaFiles);
+  const bundled = (media: CoursePackageMedia) => media.file !== undefined && available.has(media.file);
+
+  return {
+    targetCourseId: target?.id ?? null,
+    actions,
+    counts,
+    errors: validateCoursePackage(coursePackage),
+    media: {
+      upload: coursePackage.media.filter(bundled),
+      kept: coursePackage.media.filter(media => !bundled(media)),
+    },
+    payload: { course: coursePackage.course, modules },
+  };
+};
+
+/**
+ * Apply a plan: upload the bundled media under the creator's folder, then
+ * create or merge the course in one transaction. The uploads are removed
+ * again when the import fails. Takes the client so Node scripts can import
+ * with their own credentials.
+ */
+export const importCoursePackage = async (
+  client: SupabaseClient,
+  plan: CourseImportPlan,
+  creatorId: string,
+  mediaFiles: ImportMediaFiles = {}
+): Promise<ImportCourseResult> => {
+  if (plan.errors.length > 0) {
+    throw new Error(`The package has ${plan.errors.length} validation error(s)`);
+  }
+
+  const mediaMap: Record<string, string> = {};
+  const folder = `${creatorId}/imports/${Date.now()}`;
+  const bucket = client.storage.from(COURSE_MEDIA_BUCKET);
+  const uploaded: string[] = [];
+
+  try {
+    for (const media of plan.media.upload) {
+      const file = mediaFiles[media.file as string];
+      if (!file) {
+        throw new Error(`Missing bundled media ${media.file}`);
+      }
+
+      const targetPath = `${folder}/${media.path}`;
+      const { error } = await bucket.upload(targetPath, file, { upsert: false });
+      if (error) {
+        throw new Error(`Failed to upload media ${media.path}: ${error.message}`);
+      }
+      uploaded.push(targetPath);
+      mediaMap[media.url] = bucket.getPublicUrl(targetPath).data.publicUrl;
+    }
+
+    const { data, error } = await client.rpc('import_course_package', {
+      p_package: plan.payload,
+      p_target_course_id: plan.targetCourseId,
+      p_creator_id: creatorId,
+      p_media_map: mediaMap,
+    });
+
+    if (error) {
+      throw new Error(`Failed to import course: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error('Failed to import course: no result returned');
+    }
+
+    const { course_id: courseId, ...counts } = data as { course_id: string } & CourseImportPlan['counts'];
+    return { courseId, counts, mediaUploaded: uploaded.length };
+  } catch (error) {
+    if (uploaded.length > 0) {
+      const { error: removeError } = await bucket.remove(uploaded);
+      if (removeError) {
+        console.warn('Failed to remove uploaded media:', removeError.message);
+      }
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { CourseTree } from '../types';
+
+/** Storage bucket holding covers, images and audio uploaded by the editors */
+export const COURSE_MEDIA_BUCKET = 'course-content';
+
+const PUBLIC_PATH_MARKER = `/storage/v1/object/public/${COURSE_MEDIA_BUCKET}/`;
+
+/**
+ * Path inside the course media bucket for a public URL, or null for external URLs
+ */
+export const storagePathFromUrl = (url: string): string | null => {
+  const index = url.indexOf(PUBLIC_PATH_MARKER);
+  if (index === -1) {
+    return null;
+  }
+
+  const path = url.slice(index + PUBLIC_PATH_MARKER.length).split('?')[0];
+  return path ? decodeURIComponent(path) : null;
+};
+
+const collectStrings = (value: unknown, found: string[]) => {
+  if (typeof value === 'string') {
+    found.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectStrings(item, found));
+  }
+};
+
+/**
+ * Every distinct course media URL referenced by the course, its pages and grains.
+ * Grains are only inspected when the tree was loaded with them.
+ */
+export const collectMediaUrls = (tree: CourseTree): string[] => {
+  const candidates: string[] = [];
+  collectStrings(tree.cover_image_url, candidates);
+
+  tree.modules.forEach(module =>
+    module.lessons.forEach(lesson =>
+      lesson.pages.forEach(page => {
+        collectStrings(page.media_url, candidates);
+        page.grains?.forEach(grain => collectStrings(grain.content, candidates));
+      })
+    )
+  );
+
+  return [...new Set(candidates.filter(candidate => storagePathFromUrl(candidate) !== null))];
+};
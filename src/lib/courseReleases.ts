@@ -0,0 +1,184 @@
+import {
+  CourseSnapshot,
+  CourseTree,
+  GrainSnapshot,
+  LessonSnapshot,
+  ModuleSnapshot,
+  PageSnapshot,
+} from '../types';
+import { getGrainTypeLabel } from './grainTypes';
+
+/**
+ * Published releases. Publishing freezes the course tree into a snapshot
+ * (course_releases.snapshot) that learners read, while editors keep working
+ * on the draft rows. Releases are compared level by level to show what
+ * changed between two versions.
+ */
+
+/** Current version of the snapshot shape */
+export const COURSE_SNAPSHOT_FORMAT = 1;
+
+export type ReleaseChangeKind = 'added' | 'removed' | 'changed';
+
+export type ReleaseChangeLevel = 'course' | 'module' | 'lesson' | 'page' | 'grain';
+
+export interface ReleaseChange {
+  kind: ReleaseChangeKind;
+  level: ReleaseChangeLevel;
+  id: string;
+  /** Path of the node, e.g. `Módulo 1 › Cores › Página 2` */
+  label: string;
+  /** Fields that differ, for changed nodes */
+  fields: string[];
+}
+
+export interface ReleaseDiff {
+  changes: ReleaseChange[];
+  counts: Record<ReleaseChangeKind, number>;
+}
+
+/**
+ * Freeze a course tree loaded with grains. Only the content learners need is
+ * kept; timestamps and editor-only fields are dropped.
+ */
+export const createCourseSnapshot = (tree: CourseTree): CourseSnapshot => ({
+  format: COURSE_SNAPSHOT_FORMAT,
+  course: {
+    id: tree.id,
+    title: tree.title,
+    description: tree.description,
+    cover_image_url: tree.cover_image_url,
+  },
+  modules: tree.modules.map(module => ({
+    id: module.id,
+    position: module.position,
+    title: module.title,
+    lessons: module.lessons.map(lesson => ({
+      id: lesson.id,
+      position: lesson.position,
+      title: lesson.title,
+      content: lesson.content,
+      pages: lesson.pages.map(page => {
+        if (!page.grains) {
+          throw new Error('Course snapshots need a course tree loaded with grains');
+        }
+        return {
+          id: page.id,
+          position: page.position,
+          title: page.title,
+          content: page.content,
+          media_url: page.media_url,
+          type: page.type,
+          grain_pattern: page.grain_pattern,
+          grains: page.grains.map(grain => ({
+            id: grain.id,
+            position: grain.position,
+            type: grain.type,
+            content: grain.content,
+          })),
+        };
+      }),
+    })),
+  })),
+});
+
+/** JSON with sorted keys, so equal content compares equal whatever the key order */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const changedFields = <T extends object>(previous: T, next: T, fields: (keyof T & string)[]) =>
+  fields.filter(field => stableStringify(previous[field]) !== stableStringify(next[field]));
+
+const joinLabel = (parent: string, label: string) => (parent ? `${parent} › ${label}` : label);
+
+const moduleLabel = (module: ModuleSnapshot) => module.title?.trim() || `Módulo ${module.position}`;
+const lessonLabel = (lesson: LessonSnapshot) => lesson.title?.trim() || `Lição ${lesson.position}`;
+const pageLabel = (page: PageSnapshot) => page.title?.trim() || `Página ${page.position}`;
+const grainLabel = (grain: GrainSnapshot) => `Grão ${grain.position} (${getGrainTypeLabel(grain.type)})`;
+
+/**
+ * Compare two lists of nodes by id: new and removed nodes are reported as a
+ * whole, nodes present in both are compared field by field and then recursed into.
+ */
+const diffNodes = <T extends { id: string }>(
+  changes: ReleaseChange[],
+  level: ReleaseChangeLevel,
+  previous: T[],
+  next: T[],
+  parentLabel: string,
+  label: (node: T) => string,
+  fields: (keyof T & string)[],
+  children?: (previousNode: T, nextNode: T, nodeLabel: string) => void
+) => {
+  const previousById = new Map(previous.map(node => [node.id, node]));
+  const nextIds = new Set(next.map(node => node.id));
+
+  next.forEach(node => {
+    const nodeLabel = joinLabel(parentLabel, label(node));
+    const before = previousById.get(node.id);
+    if (!before) {
+      changes.push({ kind: 'added', level, id: node.id, label: nodeLabel, fields: [] });
+      return;
+    }
+    const differences = changedFields(before, node, fields);
+    if (differences.length > 0) {
+      changes.push({ kind: 'changed', level, id: node.id, label: nodeLabel, fields: differences });
+    }
+    children?.(before, node, nodeLabel);
+  });
+
+  previous
+    .filter(node => !nextIds.has(node.id))
+    .forEach(node => {
+      changes.push({ kind: 'removed', level, id: node.id, label: joinLabel(parentLabel, label(node)), fields: [] });
+    });
+};
+
+/**
+ * What changed from `previous` to `next` (everything is new when there is no previous release)
+ */
+export const diffCourseSnapshots = (previous: CourseSnapshot | null, next: CourseSnapshot): ReleaseDiff => {
+  const changes: ReleaseChange[] = [];
+
+  if (previous) {
+    const courseFields = changedFields(previous.course, next.course, ['title', 'description', 'cover_image_url']);
+    if (courseFields.length > 0) {
+      changes.push({ kind: 'changed', level: 'course', id: next.course.id, label: 'Curso', fields: courseFields });
+    }
+  }
+
+  diffNodes(changes, 'module', previous?.modules ?? [], next.modules, '', moduleLabel, ['title', 'position'], (before, after, label) =>
+    diffNodes(changes, 'lesson', before.lessons, after.lessons, label, lessonLabel, ['title', 'content', 'position'], (beforeLesson, afterLesson, lessonPath) =>
+      diffNodes(
+        changes,
+        'page',
+        beforeLesson.pages,
+        afterLesson.pages,
+        lessonPath,
+        pageLabel,
+        ['title', 'content', 'media_url', 'type', 'grain_pattern', 'position'],
+        (beforePage, afterPage, pagePath) =>
+          diffNodes(changes, 'grain', beforePage.grains, afterPage.grains, pagePath, grainLabel, ['type', 'position', 'content'])
+      )
+    )
+  );
+
+  return {
+    changes,
+    counts: {
+      added: changes.filter(change => change.kind === 'added').length,
+      removed: changes.filter(change => change.kind === 'removed').length,
+      changed: changes.filter(change => change.kind === 'changed').length,
+    },
+  };
+};
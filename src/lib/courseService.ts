@@ -1,318 +1,462 @@
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from './supabase';
-import { Database } from '../types';
+import { repositories } from './repositories';
+import { getGrainPattern, PatternPageType } from './pageTypes';
+import { createEmptyGrainContent } from './grainContent';
+import { CompletionCounts, CompletionSummary, getNodeCompletion, toCompletionSummary } from './grainCompleteness';
+import { COURSE_MEDIA_BUCKET, collectMediaUrls, storagePathFromUrl } from './courseMedia';
+import { fetchCourseTree } from './courseTree';
+import { CourseTree, Database } from '../types';
 import { useAsyncOperation } from '../hooks/useErrorHandler';
 
+export { buildCourseTree } from './courseTree';
+
 type Course = Database['public']['Tables']['courses']['Row'];
 type Module = Database['public']['Tables']['modules']['Row'];
 type Lesson = Database['public']['Tables']['lessons']['Row'];
 type Page = Database['public']['Tables']['pages']['Row'];
-type Grain = Database['public']['Tables']['grains']['Row'];
+
+export interface LoadCourseTreeOptions {
+  /** Embed the full grain rows (otherwise only their count is fetched) */
+  includeGrains?: boolean;
+  /** Skip the cache and always hit the database */
+  force?: boolean;
+}
+
+/** Grain rows sent per insert request when scaffolding a course */
+const GRAIN_INSERT_BATCH_SIZE = 500;
+
+export interface CourseScaffold {
+  course: Course;
+  modules: Module[];
+  lessons: Lesson[];
+  pages: Page[];
+  totalElements: { modules: number; lessons: number; pages: number; grains: number };
+}
+
+export type DuplicationStage = 'loading' | 'copyingMedia' | 'duplicating' | 'done' | 'failed';
+
+export interface DuplicationProgress {
+  stage: DuplicationStage;
+  completed: number;
+  total: number;
+  error?: string;
+}
+
+export interface DuplicateCourseOptions {
+  /** Copy the course media files and point the duplicate at the copies */
+  copyMedia?: boolean;
+  /** Extra URL replacements (old URL -> new URL) applied to the copied rows */
+  mediaUrlMap?: Record<string, string>;
+  onProgress?: (progress: DuplicationProgress) => void;
+}
+
+export interface DuplicateCourseResult {
+  course: Course;
+  counts: { modules: number; lessons: number; pages: number; grains: number };
+  mediaCopied: number;
+}
+
+/** Row returned by the duplicate_course SQL function */
+interface DuplicateCourseSummary {
+  course_id: string;
+  modules: number;
+  lessons: number;
+  pages: number;
+  grains: number;
+}
+
+type CourseTreeListener = (tree: CourseTree | null) => void;
 
 /**
  * Course management utilities
  */
 export class CourseService {
+  private static treeCache = new Map<string, { tree: CourseTree; includesGrains: boolean }>();
+  private static pendingTrees = new Map<string, Promise<CourseTree>>();
+  private static treeListeners = new Map<string, Set<CourseTreeListener>>();
+
   /**
-   * Create a new course with structure
+   * Create a new course with its whole structure: modules, lessons, pages and
+   * the grains of each page (generated from the page type pattern).
+   * Every level is created with one bulk insert; if anything fails the rows
+   * created so far are deleted again so no partial course is left behind.
    */
   static async createWithStructure(courseData: {
     title: string;
-    description?: string;
-    coverImageUrl?: string;
+    description?: string | null;
+    coverImageUrl?: string | null;
     creatorId: string;
     structure: {
       modulesCount: number;
       lessonsPerModule: number;
       pagesPerLesson: number;
+      /** Type given to every generated page (defaults to Introduction) */
+      pageType?: PatternPageType;
     };
-  }) {
-    const { data: course, error: courseError } = await supabase
-      .from('courses')
-      .insert({
-        title: courseData.title,
-        description: courseData.description,
-        cover_image_url: courseData.coverImageUrl,
-        creator_id: courseData.creatorId,
-        published: false,
-      })
-      .select()
-      .single();
-
-    if (courseError || !course) {
+  }): Promise<CourseScaffold> {
+    const { structure } = courseData;
+    const pageType = structure.pageType ?? 'Introduction';
+    const grainPattern = getGrainPattern(pageType);
+
+    const { data: course, error: courseError } = await repositories.courses.create({
+      title: courseData.title,
+      description: courseData.description ?? null,
+      cover_image_url: courseData.coverImageUrl ?? null,
+      creator_id: courseData.creatorId,
+      published: false,
+      modules_count: structure.modulesCount,
+      lessons_per_module: structure.lessonsPerModule,
+      pages_per_lesson: structure.pagesPerLesson,
+      structure_created: false,
+    });
+
+    if (!course) {
       throw new Error(`Failed to create course: ${courseError?.message}`);
     }
 
-    // Create modules
-    const modulePromises = Array.from({ length: courseData.structure.modulesCount }, (_, i) =>
-      supabase
-        .from('modules')
-        .insert({
+    const created: { modules: Module[]; lessons: Lesson[]; pages: Page[] } = { modules: [], lessons: [], pages: [] };
+
+    try {
+      const { data: modules, error: moduleError } = await repositories.modules.createMany(
+        Array.from({ length: structure.modulesCount }, (_, i) => ({
           course_id: course.id,
           title: `Módulo ${i + 1}`,
           position: i + 1,
-        })
-        .select()
-        .single()
-    );
-
-    const moduleResults = await Promise.all(modulePromises);
-    const modules = moduleResults.map(result => {
-      if (result.error) throw new Error(`Failed to create module: ${result.error.message}`);
-      return result.data!;
-    });
+        }))
+      );
+      if (!modules) {
+        throw new Error(`Failed to create modules: ${moduleError?.message}`);
+      }
+      created.modules = modules;
 
-    // Create lessons for each module
-    const lessonPromises = modules.flatMap(module =>
-      Array.from({ length: courseData.structure.lessonsPerModule }, (_, i) =>
-        supabase
-          .from('lessons')
-          .insert({
+      const { data: lessons, error: lessonError } = await repositories.lessons.createMany(
+        modules.flatMap(module =>
+          Array.from({ length: structure.lessonsPerModule }, (_, i) => ({
             module_id: module.id,
             title: `Lição ${i + 1}`,
             position: i + 1,
             content: '',
-          })
-          .select()
-          .single()
-      )
-    );
-
-    const lessonResults = await Promise.all(lessonPromises);
-    const lessons = lessonResults.map(result => {
-      if (result.error) throw new Error(`Failed to create lesson: ${result.error.message}`);
-      return result.data!;
-    });
+          }))
+        )
+      );
+      if (!lessons) {
+        throw new Error(`Failed to create lessons: ${lessonError?.message}`);
+      }
+      created.lessons = lessons;
 
-    // Create pages for each lesson
-    const pagePromises = lessons.flatMap(lesson =>
-      Array.from({ length: courseData.structure.pagesPerLesson }, (_, i) =>
-        supabase
-          .from('pages')
-          .insert({
+      const { data: pages, error: pageError } = await repositories.pages.createMany(
+        lessons.flatMap(lesson =>
+          Array.from({ length: structure.pagesPerLesson }, (_, i) => ({
             lesson_id: lesson.id,
             title: `Página ${i + 1}`,
             position: i + 1,
-            type: 'Introduction', // Default page type
+            type: pageType,
             content: '',
-          })
-          .select()
-          .single()
-      )
-    );
+            grain_pattern: grainPattern,
+          }))
+        )
+      );
+      if (!pages) {
+        throw new Error(`Failed to create pages: ${pageError?.message}`);
+      }
+      created.pages = pages;
+
+      const grainRows = pages.flatMap(page =>
+        grainPattern.map((type, index) => ({
+          page_id: page.id,
+          position: index + 1,
+          type,
+          content: createEmptyGrainContent(type),
+        }))
+      );
+
+      let grainsCreated = 0;
+      for (let start = 0; start < grainRows.length; start += GRAIN_INSERT_BATCH_SIZE) {
+        const { data: grains, error: grainError } = await repositories.grains.createMany(
+          grainRows.slice(start, start + GRAIN_INSERT_BATCH_SIZE)
+        );
+        if (!grains) {
+          throw new Error(`Failed to create grains: ${grainError?.message}`);
+        }
+        grainsCreated += grains.length;
+      }
+
+      const { data: finishedCourse, error: finishError } = await repositories.courses.update(course.id, {
+        structure_created: true,
+      });
+      if (!finishedCourse) {
+        throw new Error(`Failed to finish course structure: ${finishError?.message}`);
+      }
+
+      return {
+        course: finishedCourse,
+        modules,
+        lessons,
+        pages,
+        totalElements: {
+          modules: modules.length,
+          lessons: lessons.length,
+          pages: pages.length,
+          grains: grainsCreated,
+        },
+      };
+    } catch (error) {
+      await CourseService.rollbackScaffold(course.id, created);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a partially created course, deepest level first
+   */
+  private static async rollbackScaffold(
+    courseId: string,
+    created: { modules: Module[]; lessons: Lesson[]; pages: Page[] }
+  ) {
+    const steps = [
+      () => repositories.grains.deleteByParents(created.pages.map(page => page.id)),
+      () => repositories.pages.deleteMany(created.pages.map(page => page.id)),
+      () => repositories.lessons.deleteMany(created.lessons.map(lesson => lesson.id)),
+      () => repositories.modules.deleteMany(created.modules.map(module => module.id)),
+      () => repositories.courses.delete(courseId),
+    ];
+
+    for (const step of steps) {
+      const { error } = await step();
+      if (error) {
+        console.error('Failed to roll back course structure:', error);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Load the whole course (modules → lessons → pages, grains optional) in a
+   * single request. Results are cached in memory and shared between screens.
+   */
+  static async loadCourseTree(courseId: string, options: LoadCourseTreeOptions = {}): Promise<CourseTree> {
+    const includeGrains = options.includeGrains ?? false;
+    const cached = CourseService.treeCache.get(courseId);
+    if (!options.force && cached && (cached.includesGrains || !includeGrains)) {
+      return cached.tree;
+    }
+
+    const key = `${courseId}:${includeGrains}`;
+    const pending = CourseService.pendingTrees.get(key);
+    if (pending && !options.force) {
+      return pending;
+    }
+
+    const request = (async () => {
+      const tree = await fetchCourseTree(supabase, courseId, includeGrains);
+      CourseService.setCachedCourseTree(tree, includeGrains);
+      return tree;
+    })();
+
+    CourseService.pendingTrees.set(key, request);
+    try {
+      return await request;
+    } finally {
+      CourseService.pendingTrees.delete(key);
+    }
+  }
+
+  /**
+   * Cached tree for a course, if one has been loaded
+   */
+  static getCachedCourseTree(courseId: string): CourseTree | null {
+    return CourseService.treeCache.get(courseId)?.tree ?? null;
+  }
 
-    const pageResults = await Promise.all(pagePromises);
-    const pages = pageResults.map(result => {
-      if (result.error) throw new Error(`Failed to create page: ${result.error.message}`);
-      return result.data!;
+  /**
+   * Replace the cached tree (e.g. after a local edit) and notify subscribers
+   */
+  static setCachedCourseTree(tree: CourseTree, includesGrains?: boolean) {
+    const previous = CourseService.treeCache.get(tree.id);
+    CourseService.treeCache.set(tree.id, {
+      tree,
+      includesGrains: includesGrains ?? previous?.includesGrains ?? false,
     });
+    CourseService.notifyTreeListeners(tree.id, tree);
+  }
 
-    return {
-      course,
-      modules,
-      lessons,
-      pages,
-      totalElements: {
-        modules: modules.length,
-        lessons: lessons.length,
-        pages: pages.length,
-        grains: pages.length * 15, // Each page has 15 grains
-      },
+  /**
+   * Drop cached trees so the next load hits the database.
+   * Without a course id every cached course is invalidated.
+   */
+  static invalidateCourseTree(courseId?: string) {
+    const courseIds = courseId ? [courseId] : [...CourseService.treeCache.keys()];
+    courseIds.forEach(id => {
+      CourseService.treeCache.delete(id);
+      CourseService.notifyTreeListeners(id, null);
+    });
+  }
+
+  /**
+   * Forget a course that no longer exists without asking subscribers to reload
+   */
+  static removeCachedCourseTree(courseId: string) {
+    CourseService.treeCache.delete(courseId);
+  }
+
+  /**
+   * Listen for changes to a cached course tree; `null` means it went stale
+   */
+  static subscribeToCourseTree(courseId: string, listener: CourseTreeListener): () => void {
+    const listeners = CourseService.treeListeners.get(courseId) ?? new Set<CourseTreeListener>();
+    listeners.add(listener);
+    CourseService.treeListeners.set(courseId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        CourseService.treeListeners.delete(courseId);
+      }
     };
   }
 
+  private static notifyTreeListeners(courseId: string, tree: CourseTree | null) {
+    CourseService.treeListeners.get(courseId)?.forEach(listener => listener(tree));
+  }
+
   /**
-   * Get course completion statistics
+   * Get course completion statistics. A level counts as done when every grain below it is complete.
    */
   static async getCourseCompletion(courseId: string) {
-    // Get modules
-    const { data: modules, error: moduleError } = await supabase
-      .from('modules')
-      .select('id')
-      .eq('course_id', courseId);
-
-    if (moduleError) throw moduleError;
-
-    // Get lessons
-    const { data: lessons, error: lessonError } = await supabase
-      .from('lessons')
-      .select('id, module_id')
-      .in('module_id', modules?.map(m => m.id) || []);
-
-    if (lessonError) throw lessonError;
-
-    // Get pages
-    const { data: pages, error: pageError } = await supabase
-      .from('pages')
-      .select('id, lesson_id, title, content')
-      .in('lesson_id', lessons?.map(l => l.id) || []);
-
-    if (pageError) throw pageError;
-
-    // Get grains
-    const { data: grains, error: grainError } = await supabase
-      .from('grains')
-      .select('id, page_id, content')
-      .in('page_id', pages?.map(p => p.id) || []);
-
-    if (grainError) throw grainError;
-
-    // Calculate completion statistics
-    const completedPages = pages?.filter(page => 
-      page.title?.trim() && page.content?.trim()
-    ).length || 0;
-
-    const completedGrains = grains?.filter(grain => {
-      if (!grain.content) return false;
-      
-      // Check if grain has meaningful content based on type
-      const content = grain.content as any;
-      switch (content.type) {
-        case 'textToComplete':
-          return content.phrase && content.correctAnswer;
-        case 'testQuestion':
-          return content.question && content.correctAnswer;
-        default:
-          return Object.keys(content).length > 0;
-      }
-    }).length || 0;
+    const tree = await CourseService.loadCourseTree(courseId, { includeGrains: true });
+
+    const lessons = tree.modules.flatMap(module => module.lessons);
+    const pages = lessons.flatMap(lesson => lesson.pages);
+    const summary = getNodeCompletion(tree);
+    const isComplete = (node: Parameters<typeof getNodeCompletion>[0]) => getNodeCompletion(node).status === 'complete';
 
     return {
-      modules: { current: modules?.length || 0, total: modules?.length || 0 },
-      lessons: { current: lessons?.length || 0, total: lessons?.length || 0 },
-      pages: { current: completedPages, total: pages?.length || 0 },
-      grains: { 
-        current: completedGrains, 
-        total: grains?.length || 0,
-        percentage: grains?.length ? Math.round((completedGrains / grains.length) * 100) : 0
+      modules: { current: tree.modules.filter(isComplete).length, total: tree.modules.length },
+      lessons: { current: lessons.filter(isComplete).length, total: lessons.length },
+      pages: { current: pages.filter(page => page.completion_status === 'complete').length, total: pages.length },
+      grains: {
+        current: summary.complete,
+        total: summary.total,
+        percentage: summary.percentage,
       },
     };
   }
 
   /**
-   * Duplicate a course with all its content
+   * Completion of several courses with a single request (used by the course list).
+   * Counted in the database (`get_courses_completion`), so no grain content is loaded.
    */
-  static async duplicateCourse(courseId: string, newTitle: string, creatorId: string) {
-    // Get original course
-    const { data: originalCourse, error: courseError } = await supabase
-      .from('courses')
-      .select('*')
-      .eq('id', courseId)
-      .single();
-
-    if (courseError || !originalCourse) {
-      throw new Error(`Failed to fetch original course: ${courseError?.message}`);
+  static async getCoursesCompletion(courseIds: string[]): Promise<Record<string, CompletionSummary>> {
+    if (courseIds.length === 0) {
+      return {};
     }
 
-    // Create new course
-    const { data: newCourse, error: newCourseError } = await supabase
-      .from('courses')
-      .insert({
-        title: newTitle,
-        description: originalCourse.description,
-        cover_image_url: originalCourse.cover_image_url,
-        creator_id: creatorId,
-        published: false,
-      })
-      .select()
-      .single();
-
-    if (newCourseError || !newCourse) {
-      throw new Error(`Failed to create new course: ${newCourseError?.message}`);
+    const { data, error } = await supabase.rpc('get_courses_completion', { p_course_ids: courseIds });
+
+    if (error) {
+      throw new Error(`Failed to load course completion: ${error.message}`);
     }
 
-    // Get and duplicate modules
-    const { data: originalModules } = await supabase
-      .from('modules')
-      .select('*')
-      .eq('course_id', courseId)
-      .order('position');
-
-    if (originalModules) {
-      for (const module of originalModules) {
-        const { data: newModule } = await supabase
-          .from('modules')
-          .insert({
-            course_id: newCourse.id,
-            title: module.title,
-            position: module.position,
-          })
-          .select()
-          .single();
-
-        if (newModule) {
-          // Get and duplicate lessons
-          const { data: originalLessons } = await supabase
-            .from('lessons')
-            .select('*')
-            .eq('module_id', module.id)
-            .order('position');
-
-          if (originalLessons) {
-            for (const lesson of originalLessons) {
-              const { data: newLesson } = await supabase
-                .from('lessons')
-                .insert({
-                  module_id: newModule.id,
-                  title: lesson.title,
-                  content: lesson.content,
-                  position: lesson.position,
-                })
-                .select()
-                .single();
-
-              if (newLesson) {
-                // Get and duplicate pages
-                const { data: originalPages } = await supabase
-                  .from('pages')
-                  .select('*')
-                  .eq('lesson_id', lesson.id)
-                  .order('position');
-
-                if (originalPages) {
-                  for (const page of originalPages) {
-                    const { data: newPage } = await supabase
-                      .from('pages')
-                      .insert({
-                        lesson_id: newLesson.id,
-                        title: page.title,
-                        content: page.content,
-                        media_url: page.media_url,
-                        position: page.position,
-                        type: page.type,
-                        grain_pattern: page.grain_pattern,
-                      })
-                      .select()
-                      .single();
-
-                    if (newPage) {
-                      // Get and duplicate grains
-                      const { data: originalGrains } = await supabase
-                        .from('grains')
-                        .select('*')
-                        .eq('page_id', page.id)
-                        .order('position');
-
-                      if (originalGrains) {
-                        const grainInserts = originalGrains.map(grain => ({
-                          page_id: newPage.id,
-                          position: grain.position,
-                          type: grain.type,
-                          content: grain.content,
-                        }));
-
-                        await supabase.from('grains').insert(grainInserts);
-                      }
-                    }
-                  }
-                }
-              }
-            }
+    return Object.fromEntries(
+      ((data ?? []) as ({ course_id: string } & CompletionCounts)[]).map(({ course_id: courseId, ...counts }) => [
+        courseId,
+        toCompletionSummary(counts),
+      ])
+    );
+  }
+
+  /**
+   * Duplicate a course with all its content.
+   * The copy runs server-side in a single transaction (`duplicate_course`), so a
+   * failure never leaves a half-copied course behind. With `copyMedia` the
+   * course media files are copied first and the new rows point at the copies.
+   */
+  static async duplicateCourse(
+    courseId: string,
+    newTitle: string,
+    creatorId: string,
+    options: DuplicateCourseOptions = {}
+  ): Promise<DuplicateCourseResult> {
+    const report = (progress: DuplicationProgress) => options.onProgress?.(progress);
+    const mediaMap: Record<string, string> = { ...options.mediaUrlMap };
+    // Storage objects this call copied, removed again when the duplication fails
+    const copiedPaths: string[] = [];
+    let duplicated = false;
+
+    try {
+      if (options.copyMedia) {
+        report({ stage: 'loading', completed: 0, total: 1 });
+        const tree = await CourseService.loadCourseTree(courseId, { includeGrains: true });
+        const urls = collectMediaUrls(tree).filter(url => !(url in mediaMap));
+        const folder = `${creatorId}/copies/${Date.now()}`;
+
+        for (const [index, url] of urls.entries()) {
+          report({ stage: 'copyingMedia', completed: index, total: urls.length });
+          const path = storagePathFromUrl(url);
+          if (!path) {
+            continue;
           }
+
+          const targetPath = `${folder}/${path}`;
+          const { error } = await supabase.storage.from(COURSE_MEDIA_BUCKET).copy(path, targetPath);
+          if (error) {
+            throw new Error(`Failed to copy media ${path}: ${error.message}`);
+          }
+          copiedPaths.push(targetPath);
+          mediaMap[url] = supabase.storage.from(COURSE_MEDIA_BUCKET).getPublicUrl(targetPath).data.publicUrl;
         }
       }
-    }
 
-    return newCourse;
+      report({ stage: 'duplicating', completed: 0, total: 1 });
+      const { data, error } = await supabase.rpc('duplicate_course', {
+        p_course_id: courseId,
+        p_new_title: newTitle,
+        p_creator_id: creatorId,
+        p_media_map: mediaMap,
+      });
+
+      if (error) {
+        throw new Error(`Failed to duplicate course: ${error.message}`);
+      }
+      if (!data) {
+        throw new Error('Failed to duplicate course: no summary returned');
+      }
+      duplicated = true;
+
+      const summary = data as DuplicateCourseSummary;
+      const { data: course, error: courseError } = await supabase
+        .from('courses')
+        .select('*')
+        .eq('id', summary.course_id)
+        .single();
+
+      if (!course) {
+        throw new Error(`Failed to fetch duplicated course: ${courseError?.message}`);
+      }
+
+      report({ stage: 'done', completed: 1, total: 1 });
+      return {
+        course: course as Course,
+        counts: {
+          modules: summary.modules,
+          lessons: summary.lessons,
+          pages: summary.pages,
+          grains: summary.grains,
+        },
+        mediaCopied: copiedPaths.length,
+      };
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      if (!duplicated && copiedPaths.length > 0) {
+        const { error: removeError } = await supabase.storage.from(COURSE_MEDIA_BUCKET).remove(copiedPaths);
+        if (removeError) {
+          console.warn('Failed to remove copied media:', removeError.message);
+        }
+      }
+      report({ stage: 'failed', completed: 0, total: 1, error: failure.message });
+      throw failure;
+    }
   }
 }
 
@@ -331,4 +475,70 @@ export const useCourseOperations = () => {
     isLoading: createCourseWithStructure.isLoading || getCourseCompletion.isLoading || duplicateCourse.isLoading,
     error: createCourseWithStructure.error || getCourseCompletion.error || duplicateCourse.error,
   };
-};
\ No newline at end of file
+};
+/**
+ * React hook exposing the shared, cached course tree.
+ * Local edits go through `setTree` so every screen sees the same tree.
+ */
+export const useCourseTree = (courseId: string | null | undefined, options: { includeGrains?: boolean } = {}) => {
+  const includeGrains = options.includeGrains ?? false;
+  const [tree, setTreeState] = useState<CourseTree | null>(() =>
+    courseId ? CourseService.getCachedCourseTree(courseId) : null
+  );
+  const [isLoading, setIsLoading] = useState(!tree);
+  const [error, setError] = useState<Error | null>(null);
+
+  const reload = useCallback(async (force = false) => {
+    if (!courseId) {
+      return null;
+    }
+
+    try {
+      // Cached trees resolve immediately, so only show a loader for real requests
+      if (force || !CourseService.getCachedCourseTree(courseId)) {
+        setIsLoading(true);
+      }
+      setError(null);
+      const loaded = await CourseService.loadCourseTree(courseId, { includeGrains, force });
+      setTreeState(loaded);
+      return loaded;
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId, includeGrains]);
+
+  useEffect(() => {
+    if (!courseId) {
+      return undefined;
+    }
+
+    reload();
+    return CourseService.subscribeToCourseTree(courseId, updated => {
+      if (updated) {
+        setTreeState(updated);
+      } else {
+        reload();
+      }
+    });
+  }, [courseId, reload]);
+
+  const setTree = useCallback((update: CourseTree | null | ((current: CourseTree | null) => CourseTree | null)) => {
+    const current = (courseId ? CourseService.getCachedCourseTree(courseId) : null) ?? tree;
+    const next = typeof update === 'function' ? update(current) : update;
+
+    if (next) {
+      // Subscribers (including this hook) receive the new tree
+      CourseService.setCachedCourseTree(next);
+    } else {
+      if (courseId) {
+        CourseService.removeCachedCourseTree(courseId);
+      }
+      setTreeState(null);
+    }
+  }, [courseId, tree]);
+
+  return { tree, setTree, isLoading, error, reload };
+};
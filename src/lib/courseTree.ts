@@ -0,0 +1,93 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { normalizeGrain } from './grainValidation';
+import { summarizeCompleteness } from './grainCompleteness';
+import { CourseTree, Database, LessonNode, ModuleNode, PageNode } from '../types';
+
+/**
+ * Loading a course tree with a single embedded select. Kept free of the app's
+ * Supabase client so Node scripts can load trees with their own client.
+ */
+
+type Course = Database['public']['Tables']['courses']['Row'];
+type Module = Database['public']['Tables']['modules']['Row'];
+type Lesson = Database['public']['Tables']['lessons']['Row'];
+type Page = Database['public']['Tables']['pages']['Row'];
+type Grain = Database['public']['Tables']['grains']['Row'];
+
+type RawPage = Page & { grains?: Grain[] | { count: number }[] | null };
+type RawLesson = Lesson & { pages?: RawPage[] | null };
+type RawModule = Module & { lessons?: RawLesson[] | null };
+type RawCourse = Course & { modules?: RawModule[] | null };
+
+const byPosition = <T extends { position: number }>(items: T[] | null | undefined): T[] =>
+  [...(items ?? [])].sort((a, b) => a.position - b.position);
+
+const toPageNode = (page: RawPage, includeGrains: boolean): PageNode => {
+  const { grains: rawGrains, ...row } = page;
+
+  if (!includeGrains) {
+    const count = (rawGrains as { count: number }[] | null | undefined)?.[0]?.count ?? 0;
+    // Without the grain rows we only know whether the page has content at all
+    return { ...row, grains_count: count, completion_status: count === 0 ? 'empty' : 'partial' };
+  }
+
+  const grains = byPosition(rawGrains as Grain[] | null | undefined).map(normalizeGrain);
+  return {
+    ...row,
+    grains,
+    grains_count: grains.length,
+    completion_status: summarizeCompleteness(grains).status,
+  };
+};
+
+/**
+ * Turn the nested rows returned by the embedded select into a sorted CourseTree
+ */
+export const buildCourseTree = (raw: RawCourse, includeGrains: boolean): CourseTree => {
+  const { modules, ...course } = raw;
+
+  return {
+    ...course,
+    modules: byPosition(modules).map(({ lessons, ...module }): ModuleNode => ({
+      ...module,
+      lessons: byPosition(lessons).map(({ pages, ...lesson }): LessonNode => ({
+        ...lesson,
+        pages: byPosition(pages).map(page => toPageNode(page, includeGrains)),
+      })),
+    })),
+  };
+};
+
+
+/**
+ * Fetch a course with its modules, lessons and pages (and grains, or only their count)
+ */
+export const fetchCourseTree = async (
+  client: SupabaseClient,
+  courseId: string,
+  includeGrains: boolean
+): Promise<CourseTree> => {
+  const { data, error } = await client
+    .from('courses')
+    .select(`
+      *,
+      modules (
+        *,
+        lessons (
+          *,
+          pages (
+            *,
+            grains (${includeGrains ? '*' : 'count'})
+          )
+        )
+      )
+    `)
+    .eq('id', courseId)
+    .single();
+
+  if (!data) {
+    throw new Error(`Failed to load course tree: ${error?.message}`);
+  }
+
+  return buildCourseTree(data as RawCourse, includeGrains);
+};
@@ -0,0 +1,73 @@
+import { AudioToTypeContent } from '../types';
+
+/**
+ * Dictation (audioToType) answers. The typed text is compared with the
+ * correct answer and the accepted spellings after the tolerance of the grain
+ * is applied (case, punctuation, accents), and may still be off by up to
+ * `maxDistance` single-character edits.
+ */
+
+export type DictationTolerance = Pick<AudioToTypeContent, 'ignoreCase' | 'ignorePunctuation' | 'ignoreAccents' | 'maxDistance'>;
+
+export interface DictationResult {
+  correct: boolean;
+  /** The correct answer or accepted spelling closest to what was typed */
+  expected: string;
+  /** Edits between the typed answer and `expected`, after normalizing both */
+  distance: number;
+  /** Right without any edit */
+  exact: boolean;
+}
+
+/** Punctuation ignored with `ignorePunctuation` (apostrophes and hyphens are part of words) */
+const PUNCTUATION = /[.,;:!?¡¿"«»“”()…]/g;
+
+/** Text as compared under the given tolerance; spacing is always collapsed */
+export const normalizeDictation = (value: string, tolerance: Omit<DictationTolerance, 'maxDistance'>): string => {
+  let result = value.normalize('NFC');
+  if (tolerance.ignoreCase) {
+    result = result.toLowerCase();
+  }
+  if (tolerance.ignorePunctuation) {
+    result = result.replace(PUNCTUATION, ' ');
+  }
+  if (tolerance.ignoreAccents) {
+    result = result.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+  }
+  return result.trim().replace(/\s+/g, ' ');
+};
+
+/** Levenshtein distance (insertions, deletions and substitutions) */
+export const levenshtein = (a: string, b: string): number => {
+  const left = [...a];
+  const right = [...b];
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+
+  left.forEach((char, row) => {
+    const current = [row + 1];
+    right.forEach((other, column) => {
+      current.push(Math.min(previous[column + 1] + 1, current[column] + 1, previous[column] + (char === other ? 0 : 1)));
+    });
+    previous = current;
+  });
+  return previous[right.length];
+};
+
+/**
+ * Check a typed answer. Empty answers are never correct, whatever the
+ * allowed distance.
+ */
+export const checkDictation = (content: AudioToTypeContent, typed: string): DictationResult => {
+  const answer = normalizeDictation(typed, content);
+  const candidates = [content.correctAnswer, ...content.acceptedSpellings].filter(candidate => candidate.trim());
+
+  let best: DictationResult = { correct: false, expected: content.correctAnswer, distance: Infinity, exact: false };
+  candidates.forEach(candidate => {
+    const distance = levenshtein(answer, normalizeDictation(candidate, content));
+    if (distance < best.distance) {
+      best = { correct: false, expected: candidate, distance, exact: distance === 0 };
+    }
+  });
+
+  return { ...best, correct: answer !== '' && best.distance <= content.maxDistance };
+};
@@ -0,0 +1,63 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large archives do not overflow the argument limit
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Hand a generated file to the user: a browser download on web, a file in
+ * the app's document directory on native. Returns where the file went.
+ */
+export const saveExportFile = async (
+  fileName: string,
+  contents: string | Uint8Array,
+  mimeType: string
+): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return fileName;
+  }
+
+  const uri = `${FileSystem.documentDirectory}${fileName}`;
+  if (typeof contents === 'string') {
+    await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+  } else {
+    await FileSystem.writeAsStringAsync(uri, toBase64(contents), { encoding: FileSystem.EncodingType.Base64 });
+  }
+  return uri;
+};
+
+/**
+ * Open an HTML document in a new browser tab and bring up the print dialog,
+ * where it can also be saved as PDF. Web only: returns false elsewhere, or
+ * when the browser blocked the tab.
+ */
+export const printHtml = (html: string): boolean => {
+  if (Platform.OS !== 'web') {
+    return false;
+  }
+
+  const tab = window.open('', '_blank');
+  if (!tab) {
+    return false;
+  }
+  tab.document.open();
+  tab.document.write(html);
+  tab.document.close();
+  // Printing once loaded, so the images are in the document
+  tab.addEventListener('load', () => tab.print());
+  return true;
+};
@@ -0,0 +1,263 @@
+import { CompletionStatus, CourseTree, GrainType, LessonNode, ModuleNode, PageNode } from '../types';
+import { isGrainType } from './grainTypes';
+import { normalizeGrainContent } from './grainValidation';
+
+/**
+ * How much of a grain an editor has filled in. Each grain type lists the
+ * fields a learner needs (e.g. imagesToGuess: the correct image, three
+ * distinct false images and the word); a grain is complete when all of them
+ * are present, empty when none are and partial otherwise.
+ *
+ * The course list counts the same requirements in the database
+ * (migrations/add_course_completion_function.sql); change both together.
+ */
+
+export interface MissingGrainField {
+  /** Path of the field, e.g. `falseImageUrls[2]` or `pairs[3].right` */
+  field: string;
+  reason: 'empty' | 'duplicate';
+}
+
+export interface GrainCompleteness {
+  status: CompletionStatus;
+  missing: MissingGrainField[];
+  /** Required fields that are filled in */
+  filled: number;
+  required: number;
+}
+
+export interface CompletionSummary {
+  status: CompletionStatus;
+  /** Grains by status */
+  complete: number;
+  partial: number;
+  empty: number;
+  total: number;
+  /** Filled required fields across all grains, 0-100 */
+  percentage: number;
+}
+
+type Requirement = { field: string; filled: boolean; reason?: MissingGrainField['reason'] };
+
+/** Pairs grains need at least this many complete pairs (and accept up to 6) */
+export const MIN_COMPLETE_PAIRS = 4;
+
+const isFilled = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+
+const normalizeText = (value: string) => value.trim().toLowerCase();
+
+const text = (content: Record<string, unknown>, field: string): Requirement => ({
+  field,
+  filled: isFilled(content[field]),
+});
+
+/**
+ * The first distractor is required; every distractor added must be filled
+ * and differ from the answers and from the other distractors
+ */
+const distinctList = (
+  content: Record<string, unknown>,
+  field: string,
+  answerField: string,
+  extraField?: string
+): Requirement[] => {
+  const extra = extraField && Array.isArray(content[extraField]) ? (content[extraField] as unknown[]) : [];
+  const answers = [content[answerField], ...extra].filter(isFilled) as string[];
+  const seen = new Set<string>(answers.map(normalizeText));
+  const items = Array.isArray(content[field]) ? (content[field] as unknown[]) : [];
+
+  return Array.from({ length: Math.max(1, items.length) }, (_, index) => {
+    const item = items[index];
+    if (!isFilled(item)) {
+      return { field: `${field}[${index}]`, filled: false, reason: 'empty' };
+    }
+    const key = normalizeText(item as string);
+    if (seen.has(key)) {
+      return { field: `${field}[${index}]`, filled: false, reason: 'duplicate' };
+    }
+    seen.add(key);
+    return { field: `${field}[${index}]`, filled: true };
+  });
+};
+
+/** Optional list: only the items that were added count, and must be filled */
+const optionalList = (content: Record<string, unknown>, field: string): Requirement[] =>
+  (Array.isArray(content[field]) ? (content[field] as unknown[]) : []).map((item, index) => ({
+    field: `${field}[${index}]`,
+    filled: isFilled(item),
+  }));
+
+/**
+ * The first MIN_COMPLETE_PAIRS pairs are required; extra pairs only count
+ * once the editor started filling them in
+ */
+const pairs = (content: Record<string, unknown>, keys: [string, string]): Requirement[] => {
+  const items = Array.isArray(content.pairs) ? (content.pairs as Record<string, unknown>[]) : [];
+  const length = Math.max(MIN_COMPLETE_PAIRS, items.length);
+
+  return Array.from({ length }, (_, index) => {
+    const pair = items[index] ?? {};
+    const started = keys.some(key => isFilled(pair[key]));
+    if (index >= MIN_COMPLETE_PAIRS && !started) {
+      return [];
+    }
+    return keys.map(key => ({ field: `pairs[${index}].${key}`, filled: isFilled(pair[key]) }));
+  }).flat();
+};
+
+/**
+ * Every blank needs its first answer (and, in dropdown mode, a wrong option);
+ * a passage without blanks still asks for the first one
+ */
+const blanks = (content: Record<string, unknown>): Requirement[] => {
+  const items = Array.isArray(content.blanks) ? (content.blanks as Record<string, unknown>[]) : [];
+  const first = (list: unknown) => (Array.isArray(list) ? list[0] : undefined);
+
+  return (items.length > 0 ? items : [{}]).flatMap((blank, index) => [
+    { field: `blanks[${index}].answers[0]`, filled: isFilled(first(blank.answers)) },
+    ...(content.mode === 'dropdown'
+      ? [{ field: `blanks[${index}].options[0]`, filled: isFilled(first(blank.options)) }]
+      : []),
+  ]);
+};
+
+/** Every statement needs its text; the explanation is optional */
+const statements = (content: Record<string, unknown>): Requirement[] => {
+  const items = Array.isArray(content.statements) ? (content.statements as Record<string, unknown>[]) : [];
+  return (items.length > 0 ? items : [{}]).map((statement, index) => ({
+    field: `statements[${index}].text`,
+    filled: isFilled(statement.text),
+  }));
+};
+
+const REQUIREMENTS: Record<GrainType, (content: Record<string, unknown>) => Requirement[]> = {
+  textToComplete: content => [
+    text(content, 'phrase'),
+    text(content, 'correctAnswer'),
+    ...distinctList(content, 'falseAlternatives', 'correctAnswer', 'extraCorrectAnswers'),
+    ...optionalList(content, 'extraCorrectAnswers'),
+  ],
+  testQuestion: content => [
+    text(content, 'question'),
+    text(content, 'correctAnswer'),
+    ...distinctList(content, 'falseAlternatives', 'correctAnswer', 'extraCorrectAnswers'),
+    ...optionalList(content, 'extraCorrectAnswers'),
+  ],
+  imagesToGuess: content => [
+    text(content, 'correctImageUrl'),
+    ...distinctList(content, 'falseImageUrls', 'correctImageUrl', 'extraCorrectImageUrls'),
+    text(content, 'correctWord'),
+    ...optionalList(content, 'extraCorrectImageUrls'),
+  ],
+  textToGuess: content => [
+    text(content, 'imageUrl'),
+    text(content, 'correctAnswer'),
+    ...distinctList(content, 'falseAlternatives', 'correctAnswer', 'extraCorrectAnswers'),
+    ...optionalList(content, 'extraCorrectAnswers'),
+  ],
+  audioToGuess: content => [
+    text(content, 'correctWord'),
+    text(content, 'correctAudioUrl'),
+    ...distinctList(content, 'falseAudioUrls', 'correctAudioUrl', 'extraCorrectAudioUrls'),
+    ...optionalList(content, 'extraCorrectAudioUrls'),
+  ],
+  pairsOfText: content => pairs(content, ['left', 'right']),
+  pairsOfImage: content => pairs(content, ['imageUrl', 'text']),
+  orderWords: content => [
+    text(content, 'sentence'),
+    ...optionalList(content, 'distractors'),
+    ...optionalList(content, 'acceptedOrders'),
+  ],
+  audioToType: content => [
+    text(content, 'audioUrl'),
+    text(content, 'correctAnswer'),
+    ...optionalList(content, 'acceptedSpellings'),
+  ],
+  cloze: content => [text(content, 'passage'), ...blanks(content)],
+  trueFalse: content => statements(content),
+};
+
+const statusFor = (filled: number, required: number): CompletionStatus => {
+  if (filled === 0) {
+    return 'empty';
+  }
+  return filled === required ? 'complete' : 'partial';
+};
+
+/**
+ * Completeness of one grain. Content is normalized first, so legacy rows are scored on their repaired shape.
+ */
+export const evaluateGrainCompleteness = (grain: { type: string; content: unknown }): GrainCompleteness => {
+  if (!isGrainType(grain.type)) {
+    return { status: 'empty', missing: [{ field: 'type', reason: 'empty' }], filled: 0, required: 1 };
+  }
+
+  const { content } = normalizeGrainContent(grain.type, grain.content);
+  const requirements = REQUIREMENTS[grain.type](content as unknown as Record<string, unknown>);
+  const filled = requirements.filter(requirement => requirement.filled).length;
+
+  return {
+    status: statusFor(filled, requirements.length),
+    missing: requirements
+      .filter(requirement => !requirement.filled)
+      .map(requirement => ({ field: requirement.field, reason: requirement.reason ?? 'empty' })),
+    filled,
+    required: requirements.length,
+  };
+};
+
+export interface CompletionCounts {
+  complete: number;
+  partial: number;
+  empty: number;
+  total: number;
+  filled: number;
+  required: number;
+}
+
+/**
+ * Summary of grains counted by status, with their filled and required fields
+ * (as `get_courses_completion` returns them)
+ */
+export const toCompletionSummary = ({ filled, required, ...grains }: CompletionCounts): CompletionSummary => ({
+  status: statusFor(filled, required),
+  ...grains,
+  percentage: required ? Math.round((filled / required) * 100) : 0,
+});
+
+/**
+ * Aggregate completeness of a set of grains
+ */
+export const summarizeCompleteness = (grains: { type: string; content: unknown }[]): CompletionSummary => {
+  const results = grains.map(evaluateGrainCompleteness);
+  const count = (status: CompletionStatus) => results.filter(result => result.status === status).length;
+
+  return toCompletionSummary({
+    complete: count('complete'),
+    partial: count('partial'),
+    empty: count('empty'),
+    total: results.length,
+    filled: results.reduce((sum, result) => sum + result.filled, 0),
+    required: results.reduce((sum, result) => sum + result.required, 0),
+  });
+};
+
+/** Grains of a page, lesson, module or course tree loaded with `includeGrains` */
+const grainsOf = (node: PageNode | LessonNode | ModuleNode | CourseTree) => {
+  if ('grains_count' in node) {
+    return node.grains ?? [];
+  }
+  if ('pages' in node) {
+    return node.pages.flatMap(page => page.grains ?? []);
+  }
+  if ('lessons' in node) {
+    return node.lessons.flatMap(lesson => lesson.pages.flatMap(page => page.grains ?? []));
+  }
+  return node.modules.flatMap(module => module.lessons.flatMap(lesson => lesson.pages.flatMap(page => page.grains ?? [])));
+};
+
+/**
+ * Completion of any level of a course tree (the tree must include grains)
+ */
+export const getNodeCompletion = (node: PageNode | LessonNode | ModuleNode | CourseTree): CompletionSummary =>
+  summarizeCompleteness(grainsOf(node));
@@ -0,0 +1,55 @@
+import {
+  AudioToGuessContent,
+  AudioToTypeContent,
+  ClozeContent,
+  GrainContent,
+  GrainType,
+  ImagesToGuessContent,
+  OrderWordsContent,
+  PairsOfImageContent,
+  PairsOfTextContent,
+  TestQuestionContent,
+  TextToCompleteContent,
+  TextToGuessContent,
+  TrueFalseContent,
+} from '../types';
+
+/**
+ * Blank content for a new grain of the given type, in the shape the editors save
+ */
+export const createEmptyGrainContent = (type: GrainType): GrainContent => {
+  switch (type) {
+    case 'textToComplete':
+      return { phrase: '', correctAnswer: '', falseAlternatives: ['', '', ''] } as TextToCompleteContent;
+    case 'testQuestion':
+      return { question: '', correctAnswer: '', falseAlternatives: ['', '', ''] } as TestQuestionContent;
+    case 'imagesToGuess':
+      return { correctImageUrl: '', falseImageUrls: ['', '', ''], correctWord: '' } as ImagesToGuessContent;
+    case 'textToGuess':
+      return { imageUrl: '', correctAnswer: '', falseAlternatives: ['', '', ''] } as TextToGuessContent;
+    case 'audioToGuess':
+      return { correctWord: '', correctAudioUrl: '', falseAudioUrls: ['', '', ''] } as AudioToGuessContent;
+    case 'pairsOfText':
+      return { pairs: Array.from({ length: 4 }, () => ({ left: '', right: '' })) } as PairsOfTextContent;
+    case 'pairsOfImage':
+      return { pairs: Array.from({ length: 4 }, () => ({ imageUrl: '', text: '' })) } as PairsOfImageContent;
+    case 'orderWords':
+      return { sentence: '', distractors: [], acceptedOrders: [] } as OrderWordsContent;
+    case 'audioToType':
+      return {
+        audioUrl: '',
+        correctAnswer: '',
+        acceptedSpellings: [],
+        ignoreCase: true,
+        ignorePunctuation: true,
+        ignoreAccents: false,
+        maxDistance: 0,
+      } as AudioToTypeContent;
+    case 'cloze':
+      return { passage: '', mode: 'typing', blanks: [] } as ClozeContent;
+    case 'trueFalse':
+      return {
+        statements: Array.from({ length: 3 }, () => ({ text: '', isTrue: true, explanation: '' })),
+      } as TrueFalseContent;
+  }
+};
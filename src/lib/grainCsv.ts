@@ -0,0 +1,746 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AudioToTypeContent, ClozeContent, GrainContent, GrainType, TrueFalseContent } from '../types';
+import { formatClozeBlank, parseClozeBlank } from './cloze';
+import { COURSE_MEDIA_BUCKET } from './courseMedia';
+import { ALL_GRAIN_TYPES, GRAIN_TYPE_LABELS, isGrainType } from './grainTypes';
+import { GrainContentError, validateGrainContent } from './grainValidation';
+import { getExpectedGrainType, validatePageGrains } from './pageTypes';
+import { formatTrueFalseStatement, parseTrueFalseStatement } from './trueFalse';
+
+/**
+ * Bulk grain authoring with spreadsheets. The grains of a page or a lesson
+ * are exported to CSV/TSV, one row per grain, and read back row by row: every
+ * problem is reported with its line number, and nothing is written until the
+ * whole file is valid. Rows fill the grain slot at their page and position,
+ * following the page type and its `grain_pattern`.
+ *
+ * All rows share one header; each grain type uses its own columns (see
+ * GRAIN_CSV_LAYOUTS and GRAIN_CSV.md). Media columns hold a URL, kept as is,
+ * or the name of a file picked with the spreadsheet, uploaded on import.
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface GrainCsvIssue {
+  /** 1-based line of the file */
+  line: number;
+  message: string;
+}
+
+const FALSE_NUMBERS = [1, 2, 3, 4, 5, 6, 7];
+const PAIR_NUMBERS = [1, 2, 3, 4, 5, 6];
+const BLANK_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8];
+const STATEMENT_NUMBERS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+/** Every column, in the order they are exported */
+export const GRAIN_CSV_COLUMNS = [
+  'page',
+  'position',
+  'type',
+  'phrase',
+  'question',
+  'correctAnswer',
+  'correctWord',
+  'image',
+  'audio',
+  ...FALSE_NUMBERS.map(n => `false${n}`),
+  'extraCorrectAnswers',
+  ...PAIR_NUMBERS.flatMap(n => [`left${n}`, `right${n}`]),
+  'sentence',
+  'distractors',
+  'acceptedOrders',
+  'acceptedSpellings',
+  'ignoreCase',
+  'ignorePunctuation',
+  'ignoreAccents',
+  'maxDistance',
+  'passage',
+  'mode',
+  ...BLANK_NUMBERS.map(n => `blank${n}`),
+  ...STATEMENT_NUMBERS.map(n => `statement${n}`),
+];
+
+type Cells = Record<string, string>;
+
+export interface GrainCsvLayout {
+  /** Columns this grain type uses */
+  columns: string[];
+  /** Columns holding media (URL or file name) */
+  media: string[];
+  /** List columns holding media, one URL or file name per item */
+  mediaLists?: string[];
+  read: (cells: Cells) => GrainContent;
+  write: (content: Record<string, unknown>) => Cells;
+}
+
+const FALSE_COLUMNS = FALSE_NUMBERS.map(n => `false${n}`);
+const PAIR_COLUMNS = PAIR_NUMBERS.flatMap(n => [`left${n}`, `right${n}`]);
+const BLANK_COLUMNS = BLANK_NUMBERS.map(n => `blank${n}`);
+const STATEMENT_COLUMNS = STATEMENT_NUMBERS.map(n => `statement${n}`);
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+/** Separator of the items of a list cell, e.g. `azul | verde` */
+const LIST_SEPARATOR = '|';
+
+const readList = (cell: string | undefined) =>
+  (cell ?? '')
+    .split(LIST_SEPARATOR)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+/** Switch cells: `true`/`false` (also `1`/`0`, `sim`/`não`); empty keeps the default */
+const readSwitch = (cell: string | undefined, fallback: boolean): boolean | string => {
+  const value = (cell ?? '').trim().toLowerCase();
+  if (!value) {
+    return fallback;
+  }
+  if (['true', '1', 'sim'].includes(value)) {
+    return true;
+  }
+  // Anything else is kept as text so validation reports the cell
+  return ['false', '0', 'não', 'nao'].includes(value) ? false : value;
+};
+
+const readInteger = (cell: string | undefined, fallback: number): number | string => {
+  const value = (cell ?? '').trim();
+  if (!value) {
+    return fallback;
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+const writeList = (values: unknown) => (Array.isArray(values) ? values.map(text).filter(Boolean).join(` ${LIST_SEPARATOR} `) : '');
+
+/** Wrong options up to the last filled cell; gaps stay, so validation reports them */
+const readFalse = (cells: Cells) => {
+  const values = FALSE_COLUMNS.map(column => cells[column] ?? '');
+  const count = values.reduce((last, value, index) => (value.trim() ? index + 1 : last), 0);
+  return values.slice(0, Math.max(count, 1));
+};
+
+const writeFalse = (values: unknown): Cells =>
+  Object.fromEntries(FALSE_COLUMNS.map((column, index) => [column, text(Array.isArray(values) ? values[index] : '')]));
+
+/** Choice grains: the other right answers under `field`, left out when there are none */
+const readExtraCorrect = <K extends string>(cells: Cells, field: K) => {
+  const answers = readList(cells.extraCorrectAnswers);
+  return answers.length > 0 ? ({ [field]: answers } as Record<K, string[]>) : {};
+};
+
+const readPairs = <L extends string, R extends string>(cells: Cells, leftKey: L, rightKey: R) =>
+  PAIR_NUMBERS.filter(n => cells[`left${n}`] || cells[`right${n}`]).map(
+    n => ({ [leftKey]: cells[`left${n}`] ?? '', [rightKey]: cells[`right${n}`] ?? '' }) as Record<L | R, string>
+  );
+
+const writePairs = (pairs: unknown, leftKey: string, rightKey: string): Cells =>
+  Object.fromEntries(
+    (Array.isArray(pairs) ? pairs : []).slice(0, PAIR_NUMBERS.length).flatMap((pair, index) => [
+      [`left${index + 1}`, text(pair?.[leftKey])],
+      [`right${index + 1}`, text(pair?.[rightKey])],
+    ])
+  );
+
+export const GRAIN_CSV_LAYOUTS: Record<GrainType, GrainCsvLayout> = {
+  textToComplete: {
+    columns: ['phrase', 'correctAnswer', ...FALSE_COLUMNS, 'extraCorrectAnswers'],
+    media: [],
+    read: cells => ({
+      phrase: cells.phrase ?? '',
+      correctAnswer: cells.correctAnswer ?? '',
+      falseAlternatives: readFalse(cells),
+      ...readExtraCorrect(cells, 'extraCorrectAnswers'),
+    }),
+    write: content => ({
+      phrase: text(content.phrase),
+      correctAnswer: text(content.correctAnswer),
+      ...writeFalse(content.falseAlternatives),
+      extraCorrectAnswers: writeList(content.extraCorrectAnswers),
+    }),
+  },
+  testQuestion: {
+    columns: ['question', 'correctAnswer', ...FALSE_COLUMNS, 'extraCorrectAnswers'],
+    media: [],
+    read: cells => ({
+      question: cells.question ?? '',
+      correctAnswer: cells.correctAnswer ?? '',
+      falseAlternatives: readFalse(cells),
+      ...readExtraCorrect(cells, 'extraCorrectAnswers'),
+    }),
+    write: content => ({
+      question: text(content.question),
+      correctAnswer: text(content.correctAnswer),
+      ...writeFalse(content.falseAlternatives),
+      extraCorrectAnswers: writeList(content.extraCorrectAnswers),
+    }),
+  },
+  textToGuess: {
+    columns: ['image', 'correctAnswer', ...FALSE_COLUMNS, 'extraCorrectAnswers'],
+    media: ['image'],
+    read: cells => ({
+      imageUrl: cells.image ?? '',
+      correctAnswer: cells.correctAnswer ?? '',
+      falseAlternatives: readFalse(cells),
+      ...readExtraCorrect(cells, 'extraCorrectAnswers'),
+    }),
+    write: content => ({
+      image: text(content.imageUrl),
+      correctAnswer: text(content.correctAnswer),
+      ...writeFalse(content.falseAlternatives),
+      extraCorrectAnswers: writeList(content.extraCorrectAnswers),
+    }),
+  },
+  imagesToGuess: {
+    columns: ['correctWord', 'image', ...FALSE_COLUMNS, 'extraCorrectAnswers'],
+    media: ['image', ...FALSE_COLUMNS],
+    mediaLists: ['extraCorrectAnswers'],
+    read: cells => ({
+      correctWord: cells.correctWord ?? '',
+      correctImageUrl: cells.image ?? '',
+      falseImageUrls: readFalse(cells),
+      ...readExtraCorrect(cells, 'extraCorrectImageUrls'),
+    }),
+    write: content => ({
+      correctWord: text(content.correctWord),
+      image: text(content.correctImageUrl),
+      ...writeFalse(content.falseImageUrls),
+      extraCorrectAnswers: writeList(content.extraCorrectImageUrls),
+    }),
+  },
+  audioToGuess: {
+    columns: ['correctWord', 'audio', ...FALSE_COLUMNS, 'extraCorrectAnswers'],
+    media: ['audio', ...FALSE_COLUMNS],
+    mediaLists: ['extraCorrectAnswers'],
+    read: cells => ({
+      correctWord: cells.correctWord ?? '',
+      correctAudioUrl: cells.audio ?? '',
+      falseAudioUrls: readFalse(cells),
+      ...readExtraCorrect(cells, 'extraCorrectAudioUrls'),
+    }),
+    write: content => ({
+      correctWord: text(content.correctWord),
+      audio: text(content.correctAudioUrl),
+      ...writeFalse(content.falseAudioUrls),
+      extraCorrectAnswers: writeList(content.extraCorrectAudioUrls),
+    }),
+  },
+  pairsOfText: {
+    columns: PAIR_COLUMNS,
+    media: [],
+    read: cells => ({ pairs: readPairs(cells, 'left', 'right') }),
+    write: content => writePairs(content.pairs, 'left', 'right'),
+  },
+  pairsOfImage: {
+    columns: PAIR_COLUMNS,
+    media: PAIR_NUMBERS.map(n => `left${n}`),
+    read: cells => ({ pairs: readPairs(cells, 'imageUrl', 'text') }),
+    write: content => writePairs(content.pairs, 'imageUrl', 'text'),
+  },
+  orderWords: {
+    columns: ['sentence', 'distractors', 'acceptedOrders'],
+    media: [],
+    read: cells => ({
+      sentence: cells.sentence ?? '',
+      distractors: readList(cells.distractors),
+      acceptedOrders: readList(cells.acceptedOrders),
+    }),
+    write: content => ({
+      sentence: text(content.sentence),
+      distractors: writeList(content.distractors),
+      acceptedOrders: writeList(content.acceptedOrders),
+    }),
+  },
+  audioToType: {
+    columns: ['audio', 'correctAnswer', 'acceptedSpellings', 'ignoreCase', 'ignorePunctuation', 'ignoreAccents', 'maxDistance'],
+    media: ['audio'],
+    read: cells =>
+      ({
+        audioUrl: cells.audio ?? '',
+        correctAnswer: cells.correctAnswer ?? '',
+        acceptedSpellings: readList(cells.acceptedSpellings),
+        ignoreCase: readSwitch(cells.ignoreCase, true),
+        ignorePunctuation: readSwitch(cells.ignorePunctuation, true),
+        ignoreAccents: readSwitch(cells.ignoreAccents, false),
+        maxDistance: readInteger(cells.maxDistance, 0),
+      }) as AudioToTypeContent,
+    write: content => ({
+      audio: text(content.audioUrl),
+      correctAnswer: text(content.correctAnswer),
+      acceptedSpellings: writeList(content.acceptedSpellings),
+      ignoreCase: String(content.ignoreCase ?? ''),
+      ignorePunctuation: String(content.ignorePunctuation ?? ''),
+      ignoreAccents: String(content.ignoreAccents ?? ''),
+      maxDistance: String(content.maxDistance ?? ''),
+    }),
+  },
+  cloze: {
+    columns: ['passage', 'mode', ...BLANK_COLUMNS],
+    media: [],
+    read: cells => {
+      // Blanks up to the last filled column, so `[BLANK:n]` keeps pointing at blank n
+      const count = BLANK_COLUMNS.reduce((last, column, index) => (cells[column]?.trim() ? index + 1 : last), 0);
+      return {
+        passage: cells.passage ?? '',
+        mode: cells.mode?.trim() || 'typing',
+        blanks: BLANK_COLUMNS.slice(0, count).map(column => parseClozeBlank(cells[column] ?? '')),
+      } as ClozeContent;
+    },
+    write: content => {
+      const blanks = Array.isArray(content.blanks) ? (content.blanks as ClozeContent['blanks']) : [];
+      return {
+        passage: text(content.passage),
+        mode: text(content.mode),
+        ...Object.fromEntries(BLANK_COLUMNS.map((column, index) => [column, blanks[index] ? formatClozeBlank(blanks[index]) : ''])),
+      };
+    },
+  },
+  trueFalse: {
+    columns: STATEMENT_COLUMNS,
+    media: [],
+    // Empty cells are skipped; a cell without `true:`/`false:` keeps its text so validation reports it
+    read: cells => ({
+      statements: STATEMENT_COLUMNS.map(column => (cells[column] ?? '').trim())
+        .filter(cell => cell !== '')
+        .map(cell => parseTrueFalseStatement(cell) ?? { text: cell, isTrue: null as unknown as boolean, explanation: '' }),
+    }),
+    write: content => {
+      const statements = Array.isArray(content.statements) ? (content.statements as TrueFalseContent['statements']) : [];
+      return Object.fromEntries(
+        STATEMENT_COLUMNS.map((column, index) => [column, statements[index] ? formatTrueFalseStatement(statements[index]) : ''])
+      );
+    },
+  },
+};
+
+// Delimited text
+
+/**
+ * Delimiter of a file: tab for .tsv, otherwise whichever of tab, semicolon
+ * (spreadsheets in Portuguese locales) or comma the header uses
+ */
+export const detectDelimiter = (textContent: string, fileName = ''): CsvDelimiter => {
+  if (fileName.toLowerCase().endsWith('.tsv')) {
+    return '\t';
+  }
+  const header = textContent.split(/\r?\n/, 1)[0] ?? '';
+  if (header.includes('\t')) {
+    return '\t';
+  }
+  return header.split(';').length > header.split(',').length ? ';' : ',';
+};
+
+/**
+ * Records of a delimited file (RFC 4180 quoting), with the line each record
+ * starts on. Blank lines are skipped.
+ */
+export const parseDelimited = (source: string, delimiter: CsvDelimiter): { line: number; cells: string[] }[] => {
+  const records: { line: number; cells: string[] }[] = [];
+  const input = source.replace(/^\uFEFF/, '');
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') {
+      records.push({ line: start, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index++;
+      }
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+const quoteCell = (value: string, delimiter: CsvDelimiter) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Export
+
+export interface GrainCsvPage {
+  position: number;
+  grains: { position: number; type: string; content: unknown }[];
+}
+
+/**
+ * Spreadsheet of the grains of one or more pages. Starts with a byte order
+ * mark so spreadsheet apps read it as UTF-8.
+ */
+export const serializeGrainsCsv = (pages: GrainCsvPage[], delimiter: CsvDelimiter = ','): string => {
+  const rows = pages.flatMap(page =>
+    [...page.grains]
+      .sort((a, b) => a.position - b.position)
+      .map(grain => {
+        const cells: Cells = isGrainType(grain.type)
+          ? GRAIN_CSV_LAYOUTS[grain.type].write((grain.content ?? {}) as Record<string, unknown>)
+          : {};
+        return { page: String(page.position), position: String(grain.position), type: grain.type, ...cells } as Cells;
+      })
+  );
+
+  return `\uFEFF${[GRAIN_CSV_COLUMNS, ...rows.map(row => GRAIN_CSV_COLUMNS.map(column => row[column] ?? ''))]
+    .map(cells => cells.map(cell => quoteCell(cell, delimiter)).join(delimiter))
+    .join('\r\n')}\r\n`;
+};
+
+/** File name for a spreadsheet, e.g. `vermello-graos.csv` */
+export const getGrainsCsvFileName = (title: string, delimiter: CsvDelimiter = ','): string => {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'pagina'}-graos.${delimiter === '\t' ? 'tsv' : 'csv'}`;
+};
+
+// Import
+
+export interface GrainCsvRow {
+  line: number;
+  /** Page position in the lesson, or null when the column is empty */
+  page: number | null;
+  position: number;
+  /** Grain type, or null to use the one the page expects at this position */
+  type: GrainType | null;
+  cells: Cells;
+}
+
+const TYPES_BY_NAME = new Map<string, GrainType>(
+  ALL_GRAIN_TYPES.flatMap(type => [
+    [type.toLowerCase(), type],
+    [GRAIN_TYPE_LABELS[type].toLowerCase(), type],
+  ])
+);
+
+const COLUMNS_BY_NAME = new Map(GRAIN_CSV_COLUMNS.map(column => [column.toLowerCase(), column]));
+
+const parsePositive = (value: string) => (/^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null);
+
+/**
+ * Read the rows of a spreadsheet; the first line is the header. Grain types
+ * may be written as ids or as their labels.
+ */
+export const parseGrainsCsv = (
+  source: string,
+  delimiter: CsvDelimiter = detectDelimiter(source)
+): { rows: GrainCsvRow[]; errors: GrainCsvIssue[] } => {
+  const [header, ...records] = parseDelimited(source, delimiter);
+  const errors: GrainCsvIssue[] = [];
+  const rows: GrainCsvRow[] = [];
+
+  if (!header) {
+    return { rows, errors: [{ line: 1, message: 'O ficheiro está vazio.' }] };
+  }
+
+  const columns = header.cells.map(cell => {
+    const column = COLUMNS_BY_NAME.get(cell.trim().toLowerCase());
+    if (!column && cell.trim()) {
+      errors.push({ line: header.line, message: `Coluna desconhecida: "${cell.trim()}".` });
+    }
+    return column ?? null;
+  });
+  if (!columns.includes('position')) {
+    errors.push({ line: header.line, message: 'Falta a coluna "position".' });
+  }
+  if (errors.length > 0) {
+    return { rows, errors };
+  }
+
+  records.forEach(({ line, cells: values }) => {
+    if (values.length > columns.length) {
+      errors.push({ line, message: `A linha tem ${values.length} células, mas o cabeçalho tem ${columns.length}.` });
+      return;
+    }
+
+    const cells: Cells = {};
+    columns.forEach((column, index) => {
+      if (column) {
+        cells[column] = (values[index] ?? '').trim();
+      }
+    });
+
+    const position = parsePositive(cells.position ?? '');
+    const page = cells.page ? parsePositive(cells.page) : null;
+    const type = cells.type ? TYPES_BY_NAME.get(cells.type.toLowerCase()) : null;
+
+    if (position === null) {
+      errors.push({ line, message: `Posição inválida: "${cells.position ?? ''}".` });
+    } else if (cells.page && page === null) {
+      errors.push({ line, message: `Página inválida: "${cells.page}".` });
+    } else if (type === undefined) {
+      errors.push({ line, message: `Tipo de grão desconhecido: "${cells.type}".` });
+    } else {
+      rows.push({ line, page, position, type, cells });
+    }
+  });
+
+  return { rows, errors };
+};
+
+export interface GrainCsvTargetPage {
+  id: string;
+  /** Position in the lesson, matched against the `page` column */
+  position: number;
+  type: string;
+  grain_pattern: string[] | null;
+  grains: { id: string; position: number; type: string }[];
+}
+
+export interface GrainCsvChange {
+  line: number;
+  pageId: string;
+  /** Grain updated in its slot, or null when the slot is empty and a grain is created */
+  grainId: string | null;
+  position: number;
+  type: GrainType;
+  content: GrainContent;
+}
+
+export interface GrainCsvPlan {
+  changes: GrainCsvChange[];
+  /** Nothing is written while there are any */
+  errors: GrainCsvIssue[];
+  /** Media file names to upload */
+  media: string[];
+}
+
+const isUrl = (value: string) => /^[a-z][a-z0-9+.-]*:/i.test(value);
+
+const MEDIA_FIELD_COLUMNS: Record<string, string> = {
+  imageUrl: 'image',
+  correctImageUrl: 'image',
+  correctAudioUrl: 'audio',
+  audioUrl: 'audio',
+  extraCorrectImageUrls: 'extraCorrectAnswers',
+  extraCorrectAudioUrls: 'extraCorrectAnswers',
+};
+
+/** Media of a row: single media cells, then each item of the media list cells */
+const mediaCells = (layout: GrainCsvLayout, cells: Cells): string[] => [
+  ...layout.media.map(column => cells[column] ?? ''),
+  ...(layout.mediaLists ?? []).flatMap(column => readList(cells[column])),
+];
+
+/** Spreadsheet column of a content field reported by validateGrainContent */
+const columnOf = (field: string): string => {
+  const blank = /^blanks\[(\d+)\]/.exec(field);
+  if (blank) {
+    return `blank${Number(blank[1]) + 1}`;
+  }
+  const statement = /^statements\[(\d+)\]/.exec(field);
+  if (statement) {
+    return `statement${Number(statement[1]) + 1}`;
+  }
+  const pair = /^pairs\[(\d+)\]\.(\w+)$/.exec(field);
+  if (pair) {
+    return `${['left', 'imageUrl'].includes(pair[2]) ? 'left' : 'right'}${Number(pair[1]) + 1}`;
+  }
+  const item = /^(\w+)\[(\d+)\]$/.exec(field);
+  if (item) {
+    // List cells hold the whole list; the wrong options are spread over false1-7
+    if (GRAIN_CSV_COLUMNS.includes(item[1]) || MEDIA_FIELD_COLUMNS[item[1]]) {
+      return MEDIA_FIELD_COLUMNS[item[1]] ?? item[1];
+    }
+    return `false${Number(item[2]) + 1}`;
+  }
+  return MEDIA_FIELD_COLUMNS[field] ?? field;
+};
+
+const describeContentError = (error: GrainContentError) =>
+  error.code === 'missing' || error.code === 'empty'
+    ? `A coluna "${columnOf(error.field)}" está vazia.`
+    : error.field === 'pairs'
+      ? error.message.replace('O campo "pairs"', 'A linha')
+      : error.message;
+
+/**
+ * Match the rows to the grain slots of the pages (a page, or the pages of a
+ * lesson) and validate them. Nothing is written.
+ */
+export const planGrainCsvImport = (
+  rows: GrainCsvRow[],
+  pages: GrainCsvTargetPage[],
+  { mediaFiles = [] }: { mediaFiles?: string[] } = {}
+): GrainCsvPlan => {
+  const errors: GrainCsvIssue[] = [];
+  const changes: GrainCsvChange[] = [];
+  const media = new Set<string>();
+  const available = new Set(mediaFiles);
+  const seen = new Map<string, number>();
+
+  rows.forEach(row => {
+    const page = row.page === null ? (pages.length === 1 ? pages[0] : undefined) : pages.find(node => node.position === row.page);
+    if (!page) {
+      errors.push({
+        line: row.line,
+        message: row.page === null ? 'Indique a página na coluna "page".' : `Não existe a página ${row.page}.`,
+      });
+      return;
+    }
+
+    const slot = `${page.id}:${row.position}`;
+    const previous = seen.get(slot);
+    if (previous !== undefined) {
+      errors.push({ line: row.line, message: `A posição ${row.position} já foi preenchida na linha ${previous}.` });
+      return;
+    }
+    seen.set(slot, row.line);
+
+    // Custom pages only have the slots their pattern lists
+    if (page.type === 'Custom' && page.grain_pattern && row.position > page.grain_pattern.length) {
+      errors.push({ line: row.line, message: `A página só tem ${page.grain_pattern.length} posições.` });
+      return;
+    }
+
+    const existing = page.grains.find(grain => grain.position === row.position);
+    const type =
+      row.type ??
+      getExpectedGrainType(page.type, row.position, page.grain_pattern) ??
+      (existing && isGrainType(existing.type) ? existing.type : null);
+    if (!type) {
+      errors.push({ line: row.line, message: 'Indique o tipo do grão na coluna "type".' });
+      return;
+    }
+
+    const [structureIssue] = validatePageGrains(page.type, [{ position: row.position, type }], page.grain_pattern);
+    if (structureIssue) {
+      errors.push({ line: row.line, message: structureIssue.message });
+      return;
+    }
+
+    const layout = GRAIN_CSV_LAYOUTS[type];
+    const missingMedia = mediaCells(layout, row.cells)
+      .filter(value => value && !isUrl(value))
+      .filter(file => {
+        media.add(file);
+        return !available.has(file);
+      });
+    if (missingMedia.length > 0) {
+      errors.push({ line: row.line, message: `Ficheiros de media em falta: ${missingMedia.join(', ')}.` });
+    }
+
+    const content = layout.read(row.cells);
+    const { errors: contentErrors } = validateGrainContent(type, content, { requireValues: true });
+    contentErrors.forEach(error => errors.push({ line: row.line, message: describeContentError(error) }));
+
+    changes.push({ line: row.line, pageId: page.id, grainId: existing?.id ?? null, position: row.position, type, content });
+  });
+
+  return { changes, errors, media: [...media].filter(file => available.has(file)) };
+};
+
+/** Bytes of the picked media files, by file name */
+export type GrainCsvMediaFiles = Record<string, Blob | ArrayBuffer | Uint8Array>;
+
+/** Content of a change with its media file names replaced by the uploaded URLs */
+const withUploadedMedia = (change: GrainCsvChange, urls: Record<string, string>): GrainContent => {
+  const layout = GRAIN_CSV_LAYOUTS[change.type];
+  const cells = layout.write(change.content as unknown as Record<string, unknown>);
+  layout.media.forEach(column => {
+    cells[column] = urls[cells[column]] ?? cells[column];
+  });
+  layout.mediaLists?.forEach(column => {
+    cells[column] = writeList(readList(cells[column]).map(value => urls[value] ?? value));
+  });
+  return layout.read(cells);
+};
+
+/**
+ * Upload the media of a plan under the creator's folder, then write every
+ * row in one transaction (`apply_grain_rows`). Takes the client so Node
+ * scripts can import with their own credentials.
+ */
+export const applyGrainCsvImport = async (
+  client: SupabaseClient,
+  plan: GrainCsvPlan,
+  creatorId: string,
+  mediaFiles: GrainCsvMediaFiles = {}
+): Promise<{ created: number; updated: number }> => {
+  if (plan.errors.length > 0) {
+    throw new Error(`The spreadsheet has ${plan.errors.length} error(s)`);
+  }
+
+  const urls: Record<string, string> = {};
+  const folder = `${creatorId}/grains/${Date.now()}`;
+  const bucket = client.storage.from(COURSE_MEDIA_BUCKET);
+  // Uploaded files are removed again when the rows are not written
+  const uploaded: string[] = [];
+
+  try {
+    for (const file of plan.media) {
+      const data = mediaFiles[file];
+      if (!data) {
+        throw new Error(`Missing media file ${file}`);
+      }
+      const { error } = await bucket.upload(`${folder}/${file}`, data, { upsert: false });
+      if (error) {
+        throw new Error(`Failed to upload media ${file}: ${error.message}`);
+      }
+      uploaded.push(`${folder}/${file}`);
+      urls[file] = bucket.getPublicUrl(`${folder}/${file}`).data.publicUrl;
+    }
+
+    const { data, error } = await client.rpc('apply_grain_rows', {
+      p_rows: plan.changes.map(change => ({
+        page_id: change.pageId,
+        position: change.position,
+        type: change.type,
+        content: withUploadedMedia(change, urls),
+      })),
+    });
+
+    if (error) {
+      throw new Error(`Failed to apply grain rows: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error('Failed to apply grain rows: no result returned');
+    }
+    return data as { created: number; updated: number };
+  } catch (error) {
+    if (uploaded.length > 0) {
+      const { error: removeError } = await bucket.remove(uploaded);
+      if (removeError) {
+        console.warn('Failed to remove uploaded media:', removeError.message);
+      }
+    }
+    throw error;
+  }
+};
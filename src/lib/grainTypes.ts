@@ -0,0 +1,36 @@
+import { GrainType } from '../types';
+
+/** Every grain type the editor and the database accept */
+export const ALL_GRAIN_TYPES: GrainType[] = [
+  'textToComplete',
+  'testQuestion',
+  'imagesToGuess',
+  'textToGuess',
+  'audioToGuess',
+  'pairsOfText',
+  'pairsOfImage',
+  'orderWords',
+  'audioToType',
+  'cloze',
+  'trueFalse',
+];
+
+export const GRAIN_TYPE_LABELS: Record<GrainType, string> = {
+  textToComplete: 'Texto para Completar',
+  testQuestion: 'Pergunta de Teste',
+  imagesToGuess: 'Imagens para Adivinhar',
+  textToGuess: 'Texto para Adivinhar',
+  audioToGuess: 'Áudio para Adivinhar',
+  pairsOfText: 'Pares de Texto',
+  pairsOfImage: 'Pares de Imagem',
+  orderWords: 'Ordenar Palavras',
+  audioToType: 'Ditado',
+  cloze: 'Texto com Lacunas',
+  trueFalse: 'Verdadeiro ou Falso',
+};
+
+export const isGrainType = (value: unknown): value is GrainType =>
+  typeof value === 'string' && (ALL_GRAIN_TYPES as string[]).includes(value);
+
+export const getGrainTypeLabel = (type: string): string =>
+  isGrainType(type) ? GRAIN_TYPE_LABELS[type] : type;
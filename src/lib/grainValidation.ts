@@ -0,0 +1,539 @@
+import { ClozeBlank, ClozeContent, GrainContent, GrainType, TrueFalseStatement } from '../types';
+import { createEmptyGrainContent } from './grainContent';
+import { isGrainType } from './grainTypes';
+
+/**
+ * Runtime checks for `grains.content`. The column is JSONB, so rows written by
+ * older app versions, SQL migrations or import tools can hold any shape.
+ * `normalizeGrainContent` repairs the legacy shapes we know about and
+ * `validateGrainContent` reports what is still wrong, field by field.
+ */
+
+export type GrainContentErrorCode = 'missing' | 'invalid_type' | 'invalid_length' | 'empty';
+
+export interface GrainContentError {
+  /** Path of the offending field, e.g. `falseAlternatives[1]` or `pairs[0].right` */
+  field: string;
+  code: GrainContentErrorCode;
+  message: string;
+}
+
+export interface GrainContentValidation {
+  valid: boolean;
+  errors: GrainContentError[];
+}
+
+export interface ValidateGrainContentOptions {
+  /** Also report empty strings (used before publishing; drafts may be blank) */
+  requireValues?: boolean;
+}
+
+export interface NormalizedGrainContent {
+  content: GrainContent;
+  /** Whether anything had to be changed to reach the current shape */
+  repaired: boolean;
+}
+
+type Field =
+  | { kind: 'string' }
+  | { kind: 'boolean' }
+  | { kind: 'integer'; min: number; max: number }
+  | { kind: 'choice'; values: string[] }
+  | { kind: 'strings'; min: number; max: number; optional?: boolean }
+  | { kind: 'blanks'; min: number; max: number }
+  | { kind: 'statements'; min: number; max: number }
+  | { kind: 'pairs'; min: number; max: number; keys: [string, string] };
+
+const PAIRS_MIN = 4;
+const PAIRS_MAX = 6;
+
+/** Distractors of a choice grain (new grains start with the default count) */
+export const CHOICE_MIN_DISTRACTORS = 1;
+export const CHOICE_MAX_DISTRACTORS = 7;
+export const CHOICE_DEFAULT_DISTRACTORS = 3;
+
+/** Most extra correct answers of a choice grain, and most options shown at once */
+export const CHOICE_MAX_EXTRA_CORRECT = 3;
+export const CHOICE_MAX_OPTIONS = 8;
+
+const DISTRACTORS: Field = { kind: 'strings', min: CHOICE_MIN_DISTRACTORS, max: CHOICE_MAX_DISTRACTORS };
+const EXTRA_CORRECT: Field = { kind: 'strings', min: 0, max: CHOICE_MAX_EXTRA_CORRECT, optional: true };
+
+/** Most distractor tiles and accepted alternative orders of an orderWords grain */
+export const ORDER_WORDS_MAX_DISTRACTORS = 6;
+export const ORDER_WORDS_MAX_ACCEPTED_ORDERS = 5;
+
+/** Most accepted spellings and allowed typos of an audioToType grain */
+export const AUDIO_TO_TYPE_MAX_SPELLINGS = 5;
+export const AUDIO_TO_TYPE_MAX_DISTANCE = 3;
+
+/** Most blanks of a cloze passage, and most answers or options of one blank */
+export const CLOZE_MAX_BLANKS = 8;
+export const CLOZE_MAX_BLANK_ITEMS = 5;
+
+export const CLOZE_MODES: ClozeContent['mode'][] = ['typing', 'dropdown'];
+
+/** Statements of a true/false grain */
+export const TRUE_FALSE_MIN_STATEMENTS = 3;
+export const TRUE_FALSE_MAX_STATEMENTS = 8;
+
+/** Expected fields for each grain type */
+export const GRAIN_CONTENT_SCHEMAS: Record<GrainType, Record<string, Field>> = {
+  textToComplete: {
+    phrase: { kind: 'string' },
+    correctAnswer: { kind: 'string' },
+    falseAlternatives: DISTRACTORS,
+    extraCorrectAnswers: EXTRA_CORRECT,
+  },
+  testQuestion: {
+    question: { kind: 'string' },
+    correctAnswer: { kind: 'string' },
+    falseAlternatives: DISTRACTORS,
+    extraCorrectAnswers: EXTRA_CORRECT,
+  },
+  imagesToGuess: {
+    correctImageUrl: { kind: 'string' },
+    falseImageUrls: DISTRACTORS,
+    correctWord: { kind: 'string' },
+    extraCorrectImageUrls: EXTRA_CORRECT,
+  },
+  textToGuess: {
+    imageUrl: { kind: 'string' },
+    correctAnswer: { kind: 'string' },
+    falseAlternatives: DISTRACTORS,
+    extraCorrectAnswers: EXTRA_CORRECT,
+  },
+  audioToGuess: {
+    correctWord: { kind: 'string' },
+    correctAudioUrl: { kind: 'string' },
+    falseAudioUrls: DISTRACTORS,
+    extraCorrectAudioUrls: EXTRA_CORRECT,
+  },
+  pairsOfText: {
+    pairs: { kind: 'pairs', min: PAIRS_MIN, max: PAIRS_MAX, keys: ['left', 'right'] },
+  },
+  pairsOfImage: {
+    pairs: { kind: 'pairs', min: PAIRS_MIN, max: PAIRS_MAX, keys: ['imageUrl', 'text'] },
+  },
+  orderWords: {
+    sentence: { kind: 'string' },
+    distractors: { kind: 'strings', min: 0, max: ORDER_WORDS_MAX_DISTRACTORS },
+    acceptedOrders: { kind: 'strings', min: 0, max: ORDER_WORDS_MAX_ACCEPTED_ORDERS },
+  },
+  audioToType: {
+    audioUrl: { kind: 'string' },
+    correctAnswer: { kind: 'string' },
+    acceptedSpellings: { kind: 'strings', min: 0, max: AUDIO_TO_TYPE_MAX_SPELLINGS },
+    ignoreCase: { kind: 'boolean' },
+    ignorePunctuation: { kind: 'boolean' },
+    ignoreAccents: { kind: 'boolean' },
+    maxDistance: { kind: 'integer', min: 0, max: AUDIO_TO_TYPE_MAX_DISTANCE },
+  },
+  cloze: {
+    passage: { kind: 'string' },
+    mode: { kind: 'choice', values: CLOZE_MODES },
+    blanks: { kind: 'blanks', min: 0, max: CLOZE_MAX_BLANKS },
+  },
+  trueFalse: {
+    statements: { kind: 'statements', min: TRUE_FALSE_MIN_STATEMENTS, max: TRUE_FALSE_MAX_STATEMENTS },
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkString = (
+  value: unknown,
+  field: string,
+  requireValues: boolean,
+  errors: GrainContentError[]
+) => {
+  if (value === undefined || value === null) {
+    errors.push({ field, code: 'missing', message: `O campo "${field}" é obrigatório.` });
+  } else if (typeof value !== 'string') {
+    errors.push({ field, code: 'invalid_type', message: `O campo "${field}" deve ser texto.` });
+  } else if (requireValues && !value.trim()) {
+    errors.push({ field, code: 'empty', message: `O campo "${field}" está vazio.` });
+  }
+};
+
+/**
+ * Check `content` against the shape of `type`
+ */
+export const validateGrainContent = (
+  type: string,
+  content: unknown,
+  { requireValues = false }: ValidateGrainContentOptions = {}
+): GrainContentValidation => {
+  const errors: GrainContentError[] = [];
+
+  if (!isGrainType(type)) {
+    errors.push({ field: 'type', code: 'invalid_type', message: `Tipo de grain desconhecido: "${type}".` });
+    return { valid: false, errors };
+  }
+  if (!isRecord(content)) {
+    errors.push({ field: 'content', code: 'invalid_type', message: 'O conteúdo do grain deve ser um objeto.' });
+    return { valid: false, errors };
+  }
+
+  Object.entries(GRAIN_CONTENT_SCHEMAS[type]).forEach(([key, field]) => {
+    const value = content[key];
+
+    if (field.kind === 'string') {
+      checkString(value, key, requireValues, errors);
+      return;
+    }
+
+    if (field.kind === 'boolean' || field.kind === 'integer') {
+      if (value === undefined || value === null) {
+        errors.push({ field: key, code: 'missing', message: `O campo "${key}" é obrigatório.` });
+      } else if (field.kind === 'boolean' && typeof value !== 'boolean') {
+        errors.push({ field: key, code: 'invalid_type', message: `O campo "${key}" deve ser verdadeiro ou falso.` });
+      } else if (
+        field.kind === 'integer' &&
+        (typeof value !== 'number' || !Number.isInteger(value) || value < field.min || value > field.max)
+      ) {
+        errors.push({
+          field: key,
+          code: 'invalid_type',
+          message: `O campo "${key}" deve ser um número inteiro entre ${field.min} e ${field.max}.`,
+        });
+      }
+      return;
+    }
+
+    if (field.kind === 'choice') {
+      if (value === undefined || value === null) {
+        errors.push({ field: key, code: 'missing', message: `O campo "${key}" é obrigatório.` });
+      } else if (typeof value !== 'string' || !field.values.includes(value)) {
+        errors.push({
+          field: key,
+          code: 'invalid_type',
+          message: `O campo "${key}" deve ser um de: ${field.values.join(', ')}.`,
+        });
+      }
+      return;
+    }
+
+    if (field.kind === 'strings' && field.optional && value === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(value)) {
+      errors.push({
+        field: key,
+        code: value === undefined || value === null ? 'missing' : 'invalid_type',
+        message: `O campo "${key}" deve ser uma lista.`,
+      });
+      return;
+    }
+
+    if (field.kind === 'strings') {
+      if (value.length < field.min || value.length > field.max) {
+        errors.push({
+          field: key,
+          code: 'invalid_length',
+          message:
+            field.min === field.max
+              ? `O campo "${key}" deve ter ${field.min} elementos (tem ${value.length}).`
+              : `O campo "${key}" deve ter entre ${field.min} e ${field.max} elementos (tem ${value.length}).`,
+        });
+      }
+      value.forEach((item, index) => checkString(item, `${key}[${index}]`, requireValues, errors));
+      return;
+    }
+
+    if (field.kind === 'blanks') {
+      if (value.length < field.min || value.length > field.max) {
+        errors.push({
+          field: key,
+          code: 'invalid_length',
+          message: `O campo "${key}" deve ter entre ${field.min} e ${field.max} lacunas (tem ${value.length}).`,
+        });
+      }
+      value.forEach((blank, index) => {
+        const path = `${key}[${index}]`;
+        if (!isRecord(blank)) {
+          errors.push({ field: path, code: 'invalid_type', message: `A lacuna ${index + 1} é inválida.` });
+          return;
+        }
+        (['answers', 'options'] as const).forEach(listKey => {
+          const items = blank[listKey];
+          const min = listKey === 'answers' ? 1 : 0;
+          if (!Array.isArray(items)) {
+            errors.push({
+              field: `${path}.${listKey}`,
+              code: items === undefined || items === null ? 'missing' : 'invalid_type',
+              message: `O campo "${path}.${listKey}" deve ser uma lista.`,
+            });
+            return;
+          }
+          if (items.length < min || items.length > CLOZE_MAX_BLANK_ITEMS) {
+            errors.push({
+              field: `${path}.${listKey}`,
+              code: 'invalid_length',
+              message: `O campo "${path}.${listKey}" deve ter entre ${min} e ${CLOZE_MAX_BLANK_ITEMS} elementos (tem ${items.length}).`,
+            });
+          }
+          items.forEach((item, itemIndex) =>
+            checkString(item, `${path}.${listKey}[${itemIndex}]`, requireValues, errors)
+          );
+        });
+      });
+      return;
+    }
+
+    if (field.kind === 'statements') {
+      if (value.length < field.min || value.length > field.max) {
+        errors.push({
+          field: key,
+          code: 'invalid_length',
+          message: `O campo "${key}" deve ter entre ${field.min} e ${field.max} afirmações (tem ${value.length}).`,
+        });
+      }
+      value.forEach((statement, index) => {
+        const path = `${key}[${index}]`;
+        if (!isRecord(statement)) {
+          errors.push({ field: path, code: 'invalid_type', message: `A afirmação ${index + 1} é inválida.` });
+          return;
+        }
+        checkString(statement.text, `${path}.text`, requireValues, errors);
+        if (typeof statement.isTrue !== 'boolean') {
+          errors.push({
+            field: `${path}.isTrue`,
+            code: 'invalid_type',
+            message: `A afirmação ${index + 1} deve ser marcada como verdadeira ou falsa.`,
+          });
+        }
+        // The explanation is optional, but always stored
+        checkString(statement.explanation, `${path}.explanation`, false, errors);
+      });
+      return;
+    }
+
+    if (value.length < field.min || value.length > field.max) {
+      errors.push({
+        field: key,
+        code: 'invalid_length',
+        message: `O campo "${key}" deve ter entre ${field.min} e ${field.max} pares (tem ${value.length}).`,
+      });
+    }
+    value.forEach((pair, index) => {
+      if (!isRecord(pair)) {
+        errors.push({ field: `${key}[${index}]`, code: 'invalid_type', message: `O par ${index + 1} é inválido.` });
+        return;
+      }
+      field.keys.forEach(pairKey => checkString(pair[pairKey], `${key}[${index}].${pairKey}`, requireValues, errors));
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+};
+
+export const isValidGrainContent = (type: GrainType, content: unknown): content is GrainContent =>
+  validateGrainContent(type, content).valid;
+
+const asString = (...candidates: unknown[]): string => {
+  const found = candidates.find(candidate => typeof candidate === 'string');
+  if (typeof found === 'string') {
+    return found;
+  }
+  const number = candidates.find(candidate => typeof candidate === 'number');
+  return typeof number === 'number' ? String(number) : '';
+};
+
+const asStrings = (value: unknown, length: number): string[] => {
+  const items = Array.isArray(value) ? value.map(item => asString(item)) : [];
+  return Array.from({ length }, (_, index) => items[index] ?? '');
+};
+
+/** Distractors as stored, padded to the default count and trimmed to the most allowed */
+const asDistractors = (value: unknown): string[] =>
+  asStrings(
+    value,
+    Math.min(CHOICE_MAX_DISTRACTORS, Math.max(CHOICE_DEFAULT_DISTRACTORS, Array.isArray(value) ? value.length : 0))
+  );
+
+/** Variable-length list: non-empty items only, up to `max` */
+const asList = (value: unknown, max: number): string[] =>
+  (Array.isArray(value) ? value.map(item => asString(item)) : []).filter(item => item.trim()).slice(0, max);
+
+const asBoolean = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+/** Whole number clamped to `min`..`max`, or `fallback` when there is none */
+const asInteger = (value: unknown, min: number, max: number, fallback: number): number => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? Math.min(max, Math.max(min, Math.round(number))) : fallback;
+};
+
+/** Legacy multiple choice rows kept every option in `options`, the answer first */
+const falseOptions = (raw: Record<string, unknown>, answer: string): unknown => {
+  if (raw.falseAlternatives !== undefined) {
+    return raw.falseAlternatives;
+  }
+  if (!Array.isArray(raw.options)) {
+    return undefined;
+  }
+  return raw.options.filter(option => option !== answer);
+};
+
+/** Extra correct answers kept under `field`, left out when there are none */
+const extraCorrect = <K extends string>(raw: Record<string, unknown>, field: K): Partial<Record<K, string[]>> => {
+  const answers = asList(raw[field], CHOICE_MAX_EXTRA_CORRECT);
+  return answers.length > 0 ? ({ [field]: answers } as Record<K, string[]>) : {};
+};
+
+const normalizePairs = (value: unknown, keys: [string, string]): Record<string, string>[] => {
+  const pairs = Array.isArray(value) ? value : [];
+  const normalized = pairs.map((pair): Record<string, string> => {
+    const raw = isRecord(pair) ? pair : {};
+    // Some editors nested the image pair as `right: { imageUrl, text }`
+    const nested = isRecord(raw.right) ? raw.right : {};
+    return keys[0] === 'imageUrl'
+      ? { imageUrl: asString(raw.imageUrl, nested.imageUrl, raw.left), text: asString(raw.text, nested.text, raw.right) }
+      : { left: asString(raw.left), right: asString(raw.right) };
+  });
+
+  while (normalized.length < PAIRS_MIN) {
+    normalized.push(keys[0] === 'imageUrl' ? { imageUrl: '', text: '' } : { left: '', right: '' });
+  }
+  return normalized.slice(0, PAIRS_MAX);
+};
+
+const rebuild = (type: GrainType, raw: Record<string, unknown>): GrainContent => {
+  switch (type) {
+    case 'textToComplete': {
+      const correctAnswer = asString(raw.correctAnswer, raw.missingWord);
+      return {
+        phrase: asString(raw.phrase, raw.text),
+        correctAnswer,
+        falseAlternatives: asDistractors(falseOptions(raw, correctAnswer)),
+        ...extraCorrect(raw, 'extraCorrectAnswers'),
+      };
+    }
+    case 'testQuestion': {
+      const correctAnswer = asString(raw.correctAnswer);
+      return {
+        question: asString(raw.question),
+        correctAnswer,
+        falseAlternatives: asDistractors(falseOptions(raw, correctAnswer)),
+        ...extraCorrect(raw, 'extraCorrectAnswers'),
+      };
+    }
+    case 'imagesToGuess':
+      return {
+        correctImageUrl: asString(raw.correctImageUrl, raw.imageUrl),
+        falseImageUrls: asDistractors(raw.falseImageUrls),
+        correctWord: asString(raw.correctWord, raw.word),
+        ...extraCorrect(raw, 'extraCorrectImageUrls'),
+      };
+    case 'textToGuess': {
+      const correctAnswer = asString(raw.correctAnswer);
+      return {
+        imageUrl: asString(raw.imageUrl),
+        correctAnswer,
+        falseAlternatives: asDistractors(falseOptions(raw, correctAnswer)),
+        ...extraCorrect(raw, 'extraCorrectAnswers'),
+      };
+    }
+    case 'audioToGuess':
+      return {
+        correctWord: asString(raw.correctWord, raw.word),
+        correctAudioUrl: asString(raw.correctAudioUrl, raw.audioUrl),
+        falseAudioUrls: asDistractors(raw.falseAudioUrls),
+        ...extraCorrect(raw, 'extraCorrectAudioUrls'),
+      };
+    case 'pairsOfText':
+      return { pairs: normalizePairs(raw.pairs, ['left', 'right']) as { left: string; right: string }[] };
+    case 'pairsOfImage':
+      return { pairs: normalizePairs(raw.pairs, ['imageUrl', 'text']) as { imageUrl: string; text: string }[] };
+    case 'orderWords':
+      return {
+        sentence: asString(raw.sentence),
+        distractors: asList(raw.distractors, ORDER_WORDS_MAX_DISTRACTORS),
+        acceptedOrders: asList(raw.acceptedOrders, ORDER_WORDS_MAX_ACCEPTED_ORDERS),
+      };
+    case 'cloze':
+      return {
+        passage: asString(raw.passage),
+        mode: CLOZE_MODES.find(mode => mode === raw.mode) ?? 'typing',
+        blanks: (Array.isArray(raw.blanks) ? raw.blanks : []).slice(0, CLOZE_MAX_BLANKS).map(
+          (blank): ClozeBlank => {
+            const item = isRecord(blank) ? blank : {};
+            const answers = asList(item.answers, CLOZE_MAX_BLANK_ITEMS);
+            return { answers: answers.length > 0 ? answers : [''], options: asList(item.options, CLOZE_MAX_BLANK_ITEMS) };
+          }
+        ),
+      };
+    case 'trueFalse': {
+      const statements = (Array.isArray(raw.statements) ? raw.statements : [])
+        .slice(0, TRUE_FALSE_MAX_STATEMENTS)
+        .map((statement): TrueFalseStatement => {
+          const item = isRecord(statement) ? statement : {};
+          return {
+            text: asString(item.text, item.statement),
+            isTrue: item.isTrue !== false && item.isTrue !== 'false',
+            explanation: asString(item.explanation),
+          };
+        });
+      while (statements.length < TRUE_FALSE_MIN_STATEMENTS) {
+        statements.push({ text: '', isTrue: true, explanation: '' });
+      }
+      return { statements };
+    }
+    case 'audioToType':
+      return {
+        audioUrl: asString(raw.audioUrl),
+        correctAnswer: asString(raw.correctAnswer),
+        acceptedSpellings: asList(raw.acceptedSpellings, AUDIO_TO_TYPE_MAX_SPELLINGS),
+        ignoreCase: asBoolean(raw.ignoreCase, true),
+        ignorePunctuation: asBoolean(raw.ignorePunctuation, true),
+        ignoreAccents: asBoolean(raw.ignoreAccents, false),
+        maxDistance: asInteger(raw.maxDistance, 0, AUDIO_TO_TYPE_MAX_DISTANCE, 0),
+      };
+  }
+};
+
+const parseContent = (content: unknown): unknown => {
+  if (typeof content !== 'string') {
+    return content;
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Bring stored content to the current shape of `type`: reads legacy field names
+ * (`missingWord`, `options`, `imageUrl`...), content saved as a JSON string,
+ * and pads or trims lists. Content that is already valid is returned as is.
+ */
+export const normalizeGrainContent = (type: GrainType, content: unknown): NormalizedGrainContent => {
+  if (validateGrainContent(type, content).valid) {
+    return { content: content as GrainContent, repaired: false };
+  }
+
+  const parsed = parseContent(content);
+  if (!isRecord(parsed)) {
+    return { content: createEmptyGrainContent(type), repaired: true };
+  }
+  return { content: rebuild(type, parsed), repaired: true };
+};
+
+/**
+ * Same grain with its content normalized (used when rows are loaded)
+ */
+export const normalizeGrain = <T extends { type: GrainType; content: unknown }>(grain: T): T & { content: GrainContent } => {
+  if (!isGrainType(grain.type)) {
+    return grain as T & { content: GrainContent };
+  }
+  return { ...grain, content: normalizeGrainContent(grain.type, grain.content).content };
+};
+
+/**
+ * One line per error, for alerts
+ */
+export const formatGrainContentErrors = (errors: GrainContentError[]): string =>
+  errors.map(error => `• ${error.message}`).join('\n');
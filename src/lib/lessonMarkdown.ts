@@ -0,0 +1,534 @@
+import {
+  ClozeBlank,
+  CoursePackage,
+  GrainContent,
+  GrainSnapshot,
+  GrainType,
+  LessonSnapshot,
+  PageSnapshot,
+  PageType,
+  TrueFalseStatement,
+} from '../types';
+import { formatClozeBlank, parseClozeBlank } from './cloze';
+import { COURSE_PACKAGE_FORMAT, COURSE_PACKAGE_VERSION } from './courseExport';
+import { isGrainType } from './grainTypes';
+import { formatGrainContentErrors, GRAIN_CONTENT_SCHEMAS, validateGrainContent } from './grainValidation';
+import { isPageType } from './pageTypes';
+import { formatTrueFalseStatement, parseTrueFalseStatement } from './trueFalse';
+
+/**
+ * Lessons as Markdown files, for authors who prefer a text editor. A lesson
+ * is a `#` heading, each page a `##` heading with its page type, and each
+ * grain a `:::<grainType>` fenced block with one line per content field.
+ * `serializeLessonMarkdown` and `parseLessonMarkdown` round-trip with the
+ * grain model; parsed lessons are imported through the course package
+ * pipeline (`buildMarkdownCoursePackage`). See LESSON_MARKDOWN.md.
+ */
+
+export type MarkdownGrain = Pick<GrainSnapshot, 'position' | 'type' | 'content'>;
+
+export type MarkdownPage = Pick<PageSnapshot, 'title' | 'position' | 'type' | 'grain_pattern' | 'content' | 'media_url'> & {
+  grains: MarkdownGrain[];
+};
+
+export interface MarkdownLesson extends Pick<LessonSnapshot, 'title' | 'content'> {
+  /** Module the lesson belongs to (front matter `module`) */
+  module: string | null;
+  pages: MarkdownPage[];
+}
+
+export interface LessonMarkdownIssue {
+  line: number;
+  message: string;
+}
+
+const FENCE = ':::';
+const PAIR_SEPARATOR = '=>';
+
+/** Default module of imported lessons that do not name one */
+export const MARKDOWN_IMPORT_MODULE = 'Lições em Markdown';
+
+// Values
+
+/** Values are written as is, or as a JSON string when that would lose something */
+const needsQuotes = (value: string) => value !== value.trim() || /[\r\n\t"\\]/.test(value) || value.startsWith('"');
+
+const encodeValue = (value: string) => (needsQuotes(value) ? JSON.stringify(value) : value);
+
+const encodePairSide = (value: string) =>
+  needsQuotes(value) || !value || value.includes(PAIR_SEPARATOR) ? JSON.stringify(value) : value;
+
+const QUOTED = /^"(?:[^"\\]|\\.)*"/;
+
+/** A plain or quoted value, and what follows a quoted one */
+const readValue = (source: string): { value: string; rest: string } => {
+  const quoted = QUOTED.exec(source);
+  if (quoted) {
+    return { value: JSON.parse(quoted[0]) as string, rest: source.slice(quoted[0].length).trim() };
+  }
+  return { value: source.trim(), rest: '' };
+};
+
+const readPair = (source: string): [string, string] | null => {
+  let left: string;
+  let rest: string;
+  if (source.startsWith('"')) {
+    ({ value: left, rest } = readValue(source));
+  } else {
+    const separator = source.indexOf(PAIR_SEPARATOR);
+    left = separator === -1 ? source.trim() : source.slice(0, separator).trim();
+    rest = separator === -1 ? '' : source.slice(separator);
+  }
+  if (!rest.startsWith(PAIR_SEPARATOR)) {
+    return null;
+  }
+  const right = readValue(rest.slice(PAIR_SEPARATOR.length).trim());
+  return right.rest ? null : [left, right.value];
+};
+
+// Text
+
+/** Text lines that would read as a heading or a grain block, or that start with the escape itself */
+const NEEDS_ESCAPE = /^(?:#|:::|\\)/;
+
+const escapeText = (text: string) =>
+  text
+    .split('\n')
+    .map(line => (NEEDS_ESCAPE.test(line) ? `\\${line}` : line))
+    .join('\n');
+
+const unescapeLine = (line: string) => (line.startsWith('\\') ? line.slice(1) : line);
+
+// Heading attributes: `{type=Custom pattern=testQuestion,pairsOfText}`
+
+const ATTRIBUTE = /([a-z]+)=("(?:[^"\\]|\\.)*"|[^\s"}]+)/gi;
+
+const encodeAttribute = (key: string, value: string) =>
+  `${key}=${/^[^\s"{}]+$/.test(value) ? value : JSON.stringify(value)}`;
+
+const parseAttributes = (source: string): Record<string, string> | null => {
+  const attributes: Record<string, string> = {};
+  let consumed = source;
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = match[2].startsWith('"') ? (JSON.parse(match[2]) as string) : match[2];
+    consumed = consumed.replace(match[0], '');
+  }
+  return consumed.trim() ? null : attributes;
+};
+
+// Serializer
+
+const byPosition = <T extends { position: number }>(items: T[]) => [...items].sort((a, b) => a.position - b.position);
+
+const serializeGrain = (grain: MarkdownGrain, expectedPosition: number): string[] => {
+  const content = grain.content as unknown as Record<string, unknown>;
+  const lines = [`${FENCE}${grain.type}${grain.position === expectedPosition ? '' : ` {position=${grain.position}}`}`];
+
+  Object.entries(GRAIN_CONTENT_SCHEMAS[grain.type]).forEach(([key, field]) => {
+    const value = content[key];
+    if (field.kind === 'string') {
+      lines.push(`${key}: ${encodeValue(typeof value === 'string' ? value : '')}`.trimEnd());
+      return;
+    }
+    if (field.kind === 'boolean' || field.kind === 'integer' || field.kind === 'choice') {
+      lines.push(`${key}: ${String(value ?? '')}`.trimEnd());
+      return;
+    }
+    if (field.kind === 'strings' && field.optional && !(Array.isArray(value) && value.length > 0)) {
+      return;
+    }
+    lines.push(`${key}:`);
+    (Array.isArray(value) ? value : []).forEach(item => {
+      if (field.kind === 'strings') {
+        lines.push(`- ${encodeValue(typeof item === 'string' ? item : '')}`.trimEnd());
+      } else if (field.kind === 'blanks') {
+        lines.push(`- ${formatClozeBlank(item as ClozeBlank)}`.trimEnd());
+      } else if (field.kind === 'statements') {
+        lines.push(`- ${formatTrueFalseStatement(item as TrueFalseStatement)}`.trimEnd());
+      } else {
+        const pair = (item ?? {}) as Record<string, unknown>;
+        const [left, right] = field.keys.map(side => (typeof pair[side] === 'string' ? (pair[side] as string) : ''));
+        lines.push(`- ${encodePairSide(left)} ${PAIR_SEPARATOR} ${encodePairSide(right)}`);
+      }
+    });
+  });
+
+  lines.push(FENCE);
+  return lines;
+};
+
+/**
+ * Write a lesson as Markdown. Pages and grains go in position order; their
+ * position is only written when it does not follow the previous one.
+ */
+export const serializeLessonMarkdown = (lesson: MarkdownLesson): string => {
+  const blocks: string[][] = [];
+
+  if (lesson.module) {
+    blocks.push(['---', `module: ${encodeValue(lesson.module)}`, '---']);
+  }
+  blocks.push([`# ${lesson.title.trim()}`]);
+  if (lesson.content?.trim()) {
+    blocks.push([escapeText(lesson.content.trim())]);
+  }
+
+  let expectedPagePosition = 1;
+  byPosition(lesson.pages).forEach(page => {
+    const attributes = [encodeAttribute('type', page.type)];
+    if (page.position !== expectedPagePosition) {
+      attributes.push(encodeAttribute('position', String(page.position)));
+    }
+    expectedPagePosition = page.position + 1;
+    if (page.grain_pattern) {
+      attributes.push(encodeAttribute('pattern', page.grain_pattern.join(',')));
+    }
+    if (page.media_url) {
+      attributes.push(encodeAttribute('media', page.media_url));
+    }
+    blocks.push([`## ${page.title.trim()} {${attributes.join(' ')}}`.replace('##  {', '## {')]);
+    if (page.content?.trim()) {
+      blocks.push([escapeText(page.content.trim())]);
+    }
+
+    let expectedPosition = 1;
+    byPosition(page.grains).forEach(grain => {
+      blocks.push(serializeGrain(grain, expectedPosition));
+      expectedPosition = grain.position + 1;
+    });
+  });
+
+  return `${blocks.map(block => block.join('\n')).join('\n\n')}\n`;
+};
+
+// Parser
+
+const PAGE_HEADING = /^##\s+(.*?)\s*\{([^{}]*)\}\s*$/;
+const LESSON_HEADING = /^#\s+(.*)$/;
+const GRAIN_FENCE = /^:::\s*([A-Za-z]+)\s*(?:\{([^{}]*)\})?\s*$/;
+const FIELD = /^([A-Za-z]+):(?:\s(.*))?$/;
+
+/** Fields of a grain block, before they are checked against the schema */
+const parseGrainBlock = (
+  type: GrainType,
+  lines: { text: string; line: number }[],
+  issues: LessonMarkdownIssue[]
+): GrainContent => {
+  const schema = GRAIN_CONTENT_SCHEMAS[type];
+  const content: Record<string, unknown> = {};
+  let list: { key: string; items: unknown[] } | null = null;
+
+  lines.forEach(({ text: raw, line }) => {
+    const text = raw.trim();
+    if (!text) {
+      return;
+    }
+
+    if (text.startsWith('-')) {
+      const item = text.slice(1).trim();
+      const field = list ? schema[list.key] : undefined;
+      if (
+        !list ||
+        !field ||
+        (field.kind !== 'strings' && field.kind !== 'pairs' && field.kind !== 'blanks' && field.kind !== 'statements')
+      ) {
+        issues.push({ line, message: 'Elemento de lista fora de um campo de lista.' });
+      } else if (field.kind === 'strings') {
+        list.items.push(readValue(item).value);
+      } else if (field.kind === 'blanks') {
+        list.items.push(parseClozeBlank(item));
+      } else if (field.kind === 'statements') {
+        const statement = parseTrueFalseStatement(item);
+        if (statement) {
+          list.items.push(statement);
+        } else {
+          issues.push({ line, message: 'Afirmação inválida: comece por "true:" ou "false:".' });
+        }
+      } else {
+        const pair = readPair(item);
+        if (pair) {
+          list.items.push({ [field.keys[0]]: pair[0], [field.keys[1]]: pair[1] });
+        } else {
+          issues.push({ line, message: `Par inválido: use "esquerda ${PAIR_SEPARATOR} direita".` });
+        }
+      }
+      return;
+    }
+
+    const match = FIELD.exec(text);
+    const field = match ? schema[match[1]] : undefined;
+    if (!match || !field) {
+      issues.push({ line, message: match ? `Campo desconhecido para ${type}: "${match[1]}".` : `Linha inválida: "${text}".` });
+      return;
+    }
+    if (match[1] in content) {
+      issues.push({ line, message: `Campo repetido: "${match[1]}".` });
+      return;
+    }
+
+    if (field.kind === 'string') {
+      const { value, rest } = readValue(match[2] ?? '');
+      if (rest) {
+        issues.push({ line, message: `Texto a mais depois do valor de "${match[1]}".` });
+      }
+      content[match[1]] = value;
+      list = null;
+    } else if (field.kind === 'boolean' || field.kind === 'integer') {
+      const value = (match[2] ?? '').trim();
+      if (field.kind === 'boolean' && value !== 'true' && value !== 'false') {
+        issues.push({ line, message: `O valor de "${match[1]}" deve ser true ou false.` });
+      } else if (field.kind === 'integer' && !/^\d+$/.test(value)) {
+        issues.push({ line, message: `O valor de "${match[1]}" deve ser um número inteiro.` });
+      }
+      content[match[1]] = field.kind === 'boolean' ? value === 'true' : Number(value);
+      list = null;
+    } else if (field.kind === 'choice') {
+      const value = (match[2] ?? '').trim();
+      // Reported here, so the schema check does not report it again
+      if (!field.values.includes(value)) {
+        issues.push({ line, message: `O valor de "${match[1]}" deve ser um de: ${field.values.join(', ')}.` });
+      }
+      content[match[1]] = field.values.includes(value) ? value : field.values[0];
+      list = null;
+    } else {
+      list = { key: match[1], items: [] };
+      content[match[1]] = list.items;
+      if (match[2]?.trim()) {
+        issues.push({ line, message: `Os elementos de "${match[1]}" vão nas linhas seguintes, começados por "- ".` });
+      }
+    }
+  });
+
+  return content as unknown as GrainContent;
+};
+
+/**
+ * Read a lesson written in the Markdown dialect. Every problem is reported
+ * with its line; the lesson is only returned when there are none.
+ */
+export const parseLessonMarkdown = (
+  text: string
+): { lesson: MarkdownLesson | null; errors: LessonMarkdownIssue[] } => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const errors: LessonMarkdownIssue[] = [];
+  let index = 0;
+  let moduleTitle: string | null = null;
+
+  // Front matter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end === -1) {
+      return { lesson: null, errors: [{ line: 1, message: 'O cabeçalho "---" não está fechado.' }] };
+    }
+    lines.slice(1, end).forEach((line, offset) => {
+      const match = FIELD.exec(line);
+      if (match?.[1] === 'module') {
+        moduleTitle = readValue(match[2] ?? '').value || null;
+      } else if (line.trim()) {
+        errors.push({ line: offset + 2, message: `Cabeçalho desconhecido: "${line.trim()}".` });
+      }
+    });
+    index = end + 1;
+  }
+
+  let title: string | null = null;
+  const lessonText: string[] = [];
+  const pages: (MarkdownPage & { text: string[] })[] = [];
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const lineNumber = index + 1;
+    index++;
+
+    const pageHeading = PAGE_HEADING.exec(line);
+    if (pageHeading) {
+      const attributes = parseAttributes(pageHeading[2]);
+      if (!attributes) {
+        errors.push({ line: lineNumber, message: 'Atributos da página inválidos.' });
+      }
+      const type = attributes?.type;
+      if (!isPageType(type)) {
+        errors.push({
+          line: lineNumber,
+          message: type ? `Tipo de página desconhecido: "${type}".` : 'Falta o tipo da página: {type=…}.',
+        });
+      }
+      const previousPage = pages[pages.length - 1];
+      const pagePosition = attributes?.position === undefined ? NaN : Number(attributes.position);
+      if (attributes?.position !== undefined && !(Number.isInteger(pagePosition) && pagePosition > 0)) {
+        errors.push({ line: lineNumber, message: `Posição da página inválida: "${attributes.position}".` });
+      }
+      pages.push({
+        title: pageHeading[1],
+        position: attributes?.position === undefined ? (previousPage ? previousPage.position + 1 : 1) : pagePosition,
+        type: (type ?? 'Custom') as PageType,
+        grain_pattern: attributes?.pattern ? attributes.pattern.split(',').map(item => item.trim()) : null,
+        content: null,
+        media_url: attributes?.media ?? null,
+        grains: [],
+        text: [],
+      });
+      continue;
+    }
+    if (line.startsWith('## ')) {
+      errors.push({ line: lineNumber, message: 'Título de página sem tipo: acrescente {type=…}.' });
+      continue;
+    }
+
+    const lessonHeading = LESSON_HEADING.exec(line);
+    if (lessonHeading && title === null && pages.length === 0) {
+      title = lessonHeading[1].trim();
+      continue;
+    }
+
+    const fence = GRAIN_FENCE.exec(line);
+    if (fence) {
+      const end = lines.findIndex((candidate, candidateIndex) => candidateIndex >= index && candidate.trim() === FENCE);
+      if (end === -1) {
+        errors.push({ line: lineNumber, message: `O bloco ${FENCE}${fence[1]} não está fechado.` });
+        break;
+      }
+      const body = lines.slice(index, end).map((text, offset) => ({ text, line: index + offset + 1 }));
+      index = end + 1;
+
+      const page = pages[pages.length - 1];
+      const type = fence[1];
+      const attributes = parseAttributes(fence[2] ?? '');
+      const position = attributes?.position === undefined ? NaN : Number(attributes.position);
+      if (!page) {
+        errors.push({ line: lineNumber, message: 'Bloco de grão antes do primeiro título de página (##).' });
+        continue;
+      }
+      if (!isGrainType(type)) {
+        errors.push({ line: lineNumber, message: `Tipo de grão desconhecido: "${type}".` });
+        continue;
+      }
+      if (!attributes || (attributes.position !== undefined && !(Number.isInteger(position) && position > 0))) {
+        errors.push({ line: lineNumber, message: 'Atributos do grão inválidos: use {position=N}.' });
+        continue;
+      }
+
+      const content = parseGrainBlock(type, body, errors);
+      const validation = validateGrainContent(type, content);
+      if (!validation.valid) {
+        errors.push({ line: lineNumber, message: formatGrainContentErrors(validation.errors) });
+      }
+      const previous = page.grains[page.grains.length - 1];
+      page.grains.push({
+        type,
+        position: attributes.position === undefined ? (previous ? previous.position + 1 : 1) : position,
+        content,
+      });
+      continue;
+    }
+
+    (pages.length > 0 ? pages[pages.length - 1].text : lessonText).push(unescapeLine(line));
+  }
+
+  if (title === null) {
+    errors.push({ line: 1, message: 'Falta o título da lição (# Título).' });
+  }
+  if (errors.length > 0) {
+    return { lesson: null, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  const joinText = (text: string[]) => text.join('\n').trim() || null;
+  return {
+    lesson: {
+      module: moduleTitle,
+      title: title as string,
+      content: joinText(lessonText),
+      pages: pages.map(({ text: pageText, ...page }) => ({ ...page, content: joinText(pageText) })),
+    },
+    errors: [],
+  };
+};
+
+// Import
+
+const isRemote = (url: string) => /^[a-z][a-z0-9+.-]*:/i.test(url);
+
+/** Relative paths in media fields (`…Url`, `…Urls`) and page media */
+const collectLocalMedia = (lessons: MarkdownLesson[]): string[] => {
+  const found: string[] = [];
+  const visit = (value: unknown, isMedia: boolean) => {
+    if (typeof value === 'string') {
+      if (isMedia && value && !isRemote(value)) {
+        found.push(value);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(item => visit(item, isMedia));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => visit(item, /Urls?$/.test(key)));
+    }
+  };
+
+  lessons.forEach(lesson =>
+    lesson.pages.forEach(page => {
+      visit(page.media_url, true);
+      page.grains.forEach(grain => visit(grain.content, false));
+    })
+  );
+  return [...new Set(found)];
+};
+
+/**
+ * Course package holding the lessons, grouped in modules by their `module`
+ * (or in one module named `MARKDOWN_IMPORT_MODULE`). Merged into a course,
+ * a lesson replaces the lesson with the same title in the module with the
+ * same title. Relative media paths are listed as media to upload, matched to
+ * the picked files by name.
+ */
+export const buildMarkdownCoursePackage = (
+  lessons: MarkdownLesson[],
+  importedAt: string = new Date().toISOString()
+): CoursePackage => {
+  const moduleTitles = [...new Set(lessons.map(lesson => lesson.module ?? MARKDOWN_IMPORT_MODULE))];
+
+  return {
+    format: COURSE_PACKAGE_FORMAT,
+    version: COURSE_PACKAGE_VERSION,
+    exported_at: importedAt,
+    course: {
+      id: 'markdown',
+      title: moduleTitles.length === 1 ? moduleTitles[0] : MARKDOWN_IMPORT_MODULE,
+      description: null,
+      cover_image_url: null,
+    },
+    modules: moduleTitles.map((moduleTitle, moduleIndex) => ({
+      id: `md-module-${moduleIndex + 1}`,
+      position: moduleIndex + 1,
+      title: moduleTitle,
+      lessons: lessons
+        .filter(lesson => (lesson.module ?? MARKDOWN_IMPORT_MODULE) === moduleTitle)
+        .map((lesson, lessonIndex) => {
+          const lessonId = `md-lesson-${moduleIndex + 1}-${lessonIndex + 1}`;
+          return {
+            id: lessonId,
+            position: lessonIndex + 1,
+            title: lesson.title,
+            content: lesson.content,
+            pages: lesson.pages.map(page => ({
+              ...page,
+              id: `${lessonId}-page-${page.position}`,
+              grains: page.grains.map(grain => ({
+                ...grain,
+                id: `${lessonId}-page-${page.position}-grain-${grain.position}`,
+              })),
+            })),
+          };
+        }),
+    })),
+    media: collectLocalMedia(lessons).map(url => ({ path: url.replace(/^(\.\.?\/)+/, ''), url, file: url })),
+  };
+};
+
+/** File name for a lesson, e.g. `na-granxa.md` */
+export const getLessonMarkdownFileName = (title: string): string => {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'licao'}.md`;
+};
@@ -0,0 +1,61 @@
+import { OrderWordsContent } from '../types';
+
+/**
+ * Sentence ordering grains: the learner builds the sentence by tapping word
+ * tiles in order. The tiles are the words of the sentence plus the
+ * distractors; an answer is right when it reads as the sentence or as one of
+ * the accepted orders, ignoring case, punctuation and spacing.
+ */
+
+export interface OrderWordsTile {
+  /** Stable within the grain, as words may repeat */
+  id: string;
+  word: string;
+  distractor: boolean;
+}
+
+/** Words of a sentence, as the tiles show them (punctuation stays attached) */
+export const splitOrderWords = (sentence: string): string[] => sentence.split(/\s+/).filter(Boolean);
+
+/** Punctuation ignored when comparing answers (the SCORM player uses the same set) */
+const PUNCTUATION = /[.,;:!?¡¿"«»“”()…]/g;
+
+/** Lowercase words without punctuation, for comparing answers */
+const normalize = (sentence: string) => splitOrderWords(sentence.toLowerCase().replace(PUNCTUATION, ' ')).join(' ');
+
+/** The tiles of a grain, sentence words first and then the distractors (not shuffled) */
+export const getOrderWordsTiles = (content: OrderWordsContent): OrderWordsTile[] => [
+  ...splitOrderWords(content.sentence).map((word, index) => ({ id: `w${index}`, word, distractor: false })),
+  ...content.distractors
+    .map(word => word.trim())
+    .filter(Boolean)
+    .map((word, index) => ({ id: `d${index}`, word, distractor: true })),
+];
+
+/** Whether the placed words read as the sentence or one of the accepted orders */
+export const isOrderWordsCorrect = (content: OrderWordsContent, placed: string[]): boolean => {
+  const answer = normalize(placed.join(' '));
+  return answer !== '' && [content.sentence, ...content.acceptedOrders].some(sentence => normalize(sentence) === answer);
+};
+
+const sortedWords = (sentence: string) => normalize(sentence).split(' ').sort().join(' ');
+
+/**
+ * Authoring problems the schema cannot see: a sentence too short to order,
+ * and accepted orders that do not use exactly the words of the sentence
+ * (they could never be built from the tiles)
+ */
+export const getOrderWordsIssues = (content: OrderWordsContent): string[] => {
+  const issues: string[] = [];
+  if (content.sentence.trim() && splitOrderWords(content.sentence).length < 2) {
+    issues.push('A frase deve ter pelo menos 2 palavras.');
+  }
+
+  const words = sortedWords(content.sentence);
+  content.acceptedOrders.forEach((order, index) => {
+    if (order.trim() && sortedWords(order) !== words) {
+      issues.push(`A ordem aceite ${index + 1} não usa as mesmas palavras da frase.`);
+    }
+  });
+  return issues;
+};
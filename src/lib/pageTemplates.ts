@@ -0,0 +1,109 @@
+import { GrainType } from '../types';
+import { isGrainType, getGrainTypeLabel } from './grainTypes';
+import { PAGE_TYPES } from './pageTypes';
+import { PageTemplateVersionRow, PageTemplateWithVersions } from './repositories';
+
+/**
+ * Admin-defined page templates. A template is a named grain sequence with
+ * optional hints per slot; pages created from it are stored as Custom pages
+ * whose grain_pattern is the template sequence, plus a reference to the
+ * template version so later edits never change existing pages.
+ */
+
+export interface PageTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  version: number;
+  grainPattern: GrainType[];
+  /** Hint shown to the editor for each slot (same length as grainPattern) */
+  slotHints: (string | null)[];
+  archived: boolean;
+}
+
+export interface PageTemplateDraft {
+  name: string;
+  description: string;
+  grainPattern: GrainType[];
+  slotHints: string[];
+}
+
+/** Most slots a template may define (the same limit as Custom pages) */
+export const MAX_TEMPLATE_SLOTS = PAGE_TYPES.Custom.grainCount;
+
+const fromVersion = (
+  template: Pick<PageTemplateWithVersions, 'id' | 'name' | 'description' | 'archived'>,
+  version: PageTemplateVersionRow
+): PageTemplate => {
+  // Unknown grain types are dropped together with their hint, so hints stay on their slot
+  const slots = version.grain_pattern
+    .map((type, index) => ({ type, hint: version.slot_hints?.[index] ?? null }))
+    .filter((slot): slot is { type: GrainType; hint: string | null } => isGrainType(slot.type));
+
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    version: version.version,
+    grainPattern: slots.map(slot => slot.type),
+    slotHints: slots.map(slot => slot.hint),
+    archived: template.archived,
+  };
+};
+
+/**
+ * Template at its current version, or at `version` when given.
+ * Returns null when that version is not embedded in the row.
+ */
+export const toPageTemplate = (row: PageTemplateWithVersions, version = row.current_version): PageTemplate | null => {
+  const match = row.versions.find(candidate => candidate.version === version);
+  return match ? fromVersion(row, match) : null;
+};
+
+/**
+ * Problems preventing a draft from being saved (empty when valid)
+ */
+export const validatePageTemplateDraft = (draft: PageTemplateDraft): string[] => {
+  const errors: string[] = [];
+
+  if (!draft.name.trim()) {
+    errors.push('O modelo precisa de um nome.');
+  }
+  if (draft.grainPattern.length === 0) {
+    errors.push('O modelo precisa de pelo menos um grain.');
+  }
+  if (draft.grainPattern.length > MAX_TEMPLATE_SLOTS) {
+    errors.push(`O modelo pode ter no máximo ${MAX_TEMPLATE_SLOTS} grains.`);
+  }
+  draft.grainPattern.forEach((type, index) => {
+    if (!isGrainType(type)) {
+      errors.push(`Posição ${index + 1}: tipo de grain desconhecido "${getGrainTypeLabel(type)}".`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Page columns for a page created from `template`
+ */
+export const pageFieldsFromTemplate = (template: PageTemplate) => ({
+  type: 'Custom' as const,
+  grain_pattern: [...template.grainPattern],
+  template_id: template.id,
+  template_version: template.version,
+});
+
+export const emptyPageTemplateDraft = (): PageTemplateDraft => ({
+  name: '',
+  description: '',
+  grainPattern: ['textToComplete'],
+  slotHints: [''],
+});
+
+export const draftFromPageTemplate = (template: PageTemplate): PageTemplateDraft => ({
+  name: template.name,
+  description: template.description ?? '',
+  grainPattern: [...template.grainPattern],
+  slotHints: template.slotHints.map(hint => hint ?? ''),
+});
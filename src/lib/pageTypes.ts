@@ -0,0 +1,350 @@
+import { GrainType, PageType } from '../types';
+import { ALL_GRAIN_TYPES, getGrainTypeLabel } from './grainTypes';
+
+/**
+ * Single source of truth for page types: how many grains a page holds and
+ * which grain types each position accepts. The editors, CourseService,
+ * PageTestScreen and the generated SQL constraints all read from here.
+ */
+
+/** Page types whose grains follow a fixed sequence */
+export type PatternPageType = Exclude<PageType, 'Custom' | 'text'>;
+
+/** Every patterned page holds exactly this many grains */
+export const GRAINS_PER_PAGE = 15;
+
+export interface PageTypeSlot {
+  /** Grain type created for this position when the page is scaffolded */
+  defaultType: GrainType;
+  /** Grain types an editor may use at this position */
+  allowed: GrainType[];
+}
+
+export interface PageTypeDefinition {
+  type: PageType;
+  label: string;
+  description: string;
+  /** Maximum number of grains on the page */
+  grainCount: number;
+  /** Fixed slots, or null when the editor picks the sequence (Custom) or nothing is enforced (legacy text) */
+  slots: PageTypeSlot[] | null;
+  /** Whether grain types are enforced per position */
+  enforced: boolean;
+  /** Offered when creating new pages */
+  selectable: boolean;
+}
+
+const fixed = (sequence: GrainType[]): PageTypeSlot[] =>
+  sequence.map(type => ({ defaultType: type, allowed: [type] }));
+
+/** A position scaffolded with `defaultType` that also accepts the `others` */
+const either = (defaultType: GrainType, ...others: GrainType[]): PageTypeSlot => ({
+  defaultType,
+  allowed: [defaultType, ...others],
+});
+
+export const PAGE_TYPES: Record<PageType, PageTypeDefinition> = {
+  Introduction: {
+    type: 'Introduction',
+    label: 'Introdução',
+    description: 'Apresenta vocabulário novo com imagens, frases para completar e pares.',
+    grainCount: GRAINS_PER_PAGE,
+    enforced: true,
+    selectable: true,
+    slots: fixed([
+      'imagesToGuess', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
+      'pairsOfText',
+      'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
+      'pairsOfText',
+    ]),
+  },
+  Booster: {
+    type: 'Booster',
+    label: 'Reforço',
+    description: 'Mistura perguntas, imagens e pares para consolidar o vocabulário.',
+    grainCount: GRAINS_PER_PAGE,
+    enforced: true,
+    selectable: true,
+    slots: fixed([
+      'textToComplete', 'testQuestion', 'imagesToGuess', 'textToComplete', 'pairsOfImage', 'testQuestion', 'imagesToGuess',
+      'pairsOfText',
+      'testQuestion', 'textToComplete', 'imagesToGuess', 'pairsOfImage', 'testQuestion', 'textToComplete',
+      'pairsOfText',
+    ]),
+  },
+  Comparation: {
+    type: 'Comparation',
+    label: 'Comparação',
+    description: 'Alterna imagens e textos para distinguir palavras parecidas.',
+    grainCount: GRAINS_PER_PAGE,
+    enforced: true,
+    selectable: true,
+    slots: fixed([
+      'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess',
+      'pairsOfText',
+      'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess',
+      'pairsOfText',
+    ]),
+  },
+  Review: {
+    type: 'Review',
+    label: 'Revisão',
+    description: 'Revê o conteúdo da lição com frases para completar.',
+    grainCount: GRAINS_PER_PAGE,
+    enforced: true,
+    selectable: true,
+    slots: [
+      ...fixed([
+        'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
+        'pairsOfText',
+        'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
+      ]),
+      either('textToComplete', 'trueFalse'),
+      ...fixed(['pairsOfText']),
+    ],
+  },
+  Custom: {
+    type: 'Custom',
+    label: 'Personalizada',
+    description: 'O editor escolhe o tipo de cada um dos grãos.',
+    grainCount: GRAINS_PER_PAGE,
+    enforced: true,
+    selectable: true,
+    slots: null,
+  },
+  text: {
+    type: 'text',
+    label: 'Texto (legado)',
+    description: 'Páginas antigas sem estrutura definida.',
+    grainCount: GRAINS_PER_PAGE,
+    enforced: false,
+    selectable: false,
+    slots: null,
+  },
+};
+
+/** Page types offered in the editors, in display order */
+export const SELECTABLE_PAGE_TYPES = (Object.keys(PAGE_TYPES) as PageType[]).filter(type => PAGE_TYPES[type].selectable);
+
+/**
+ * Grain sequence for each patterned page type (position 1 is the first entry)
+ */
+export const PAGE_TYPE_PATTERNS = Object.fromEntries(
+  (Object.keys(PAGE_TYPES) as PageType[])
+    .filter(type => PAGE_TYPES[type].slots)
+    .map(type => [type, PAGE_TYPES[type].slots!.map(slot => slot.defaultType)])
+) as Record<PatternPageType, GrainType[]>;
+
+export const isPageType = (value: unknown): value is PageType =>
+  typeof value === 'string' && value in PAGE_TYPES;
+
+export const getPageTypeDefinition = (pageType: string): PageTypeDefinition =>
+  isPageType(pageType) ? PAGE_TYPES[pageType] : PAGE_TYPES.text;
+
+/**
+ * Grain types to create for a page: the fixed pattern, or the custom selection for Custom pages
+ */
+export const getGrainPattern = (pageType: PageType, customPattern: GrainType[] = []): GrainType[] => {
+  if (pageType === 'Custom') {
+    return customPattern;
+  }
+  return pageType in PAGE_TYPE_PATTERNS ? [...PAGE_TYPE_PATTERNS[pageType as PatternPageType]] : [];
+};
+
+/**
+ * Grain types accepted at a 1-based position. Custom pages accept whatever
+ * their saved pattern says; unenforced pages accept every type.
+ */
+export const getAllowedGrainTypes = (
+  pageType: string,
+  position: number,
+  customPattern?: string[] | null
+): GrainType[] => {
+  const definition = getPageTypeDefinition(pageType);
+  if (!definition.enforced || position < 1 || position > definition.grainCount) {
+    return definition.enforced ? [] : [...ALL_GRAIN_TYPES];
+  }
+
+  if (definition.slots) {
+    return [...(definition.slots[position - 1]?.allowed ?? [])];
+  }
+
+  const customType = customPattern?.[position - 1];
+  return customType && (ALL_GRAIN_TYPES as string[]).includes(customType)
+    ? [customType as GrainType]
+    : [...ALL_GRAIN_TYPES];
+};
+
+/**
+ * Grain type a position should hold, or null when more than one type is accepted
+ */
+export const getExpectedGrainType = (
+  pageType: string,
+  position: number,
+  customPattern?: string[] | null
+): GrainType | null => {
+  const allowed = getAllowedGrainTypes(pageType, position, customPattern);
+  return allowed.length === 1 ? allowed[0] : null;
+};
+
+export const isGrainTypeAllowed = (
+  pageType: string,
+  position: number,
+  grainType: string,
+  customPattern?: string[] | null
+): boolean => (getAllowedGrainTypes(pageType, position, customPattern) as string[]).includes(grainType);
+
+export interface PageStructureIssue {
+  position: number | null;
+  message: string;
+}
+
+/**
+ * Compare the grains of a page against its page type
+ */
+export const validatePageGrains = (
+  pageType: string,
+  grains: { position: number; type: string }[],
+  customPattern?: string[] | null
+): PageStructureIssue[] => {
+  const definition = getPageTypeDefinition(pageType);
+  const issues: PageStructureIssue[] = [];
+
+  if (!definition.enforced) {
+    return issues;
+  }
+
+  if (grains.length > definition.grainCount) {
+    issues.push({
+      position: null,
+      message: `A página tem ${grains.length} grãos, mas o tipo "${definition.label}" permite no máximo ${definition.grainCount}.`,
+    });
+  }
+
+  grains.forEach(grain => {
+    if (!isGrainTypeAllowed(pageType, grain.position, grain.type, customPattern)) {
+      const expected = getAllowedGrainTypes(pageType, grain.position, customPattern).map(getGrainTypeLabel);
+      issues.push({
+        position: grain.position,
+        message: expected.length
+          ? `Posição ${grain.position}: esperado ${expected.join(' ou ')}, encontrado ${getGrainTypeLabel(grain.type)}.`
+          : `Posição ${grain.position} está fora da estrutura do tipo "${definition.label}".`,
+      });
+    }
+  });
+
+  return issues;
+};
+
+const sqlList = (values: string[]) => values.map(value => `'${value}'`).join(', ');
+
+/**
+ * SQL that mirrors this registry in the database: the pages type check and a
+ * trigger rejecting grains whose type or position breaks the page type.
+ * `migrations/page_type_registry.sql` is generated from this function.
+ */
+export const buildPageTypeConstraintsSql = (): string => {
+  const pageTypes = Object.keys(PAGE_TYPES) as PageType[];
+
+  const slotCases = pageTypes
+    .filter(type => PAGE_TYPES[type].slots)
+    .map(type => {
+      const positions = PAGE_TYPES[type].slots!
+        .map((slot, index) => `        WHEN ${index + 1} THEN ARRAY[${sqlList(slot.allowed)}]`)
+        .join('\n');
+      return `    WHEN '${type}' THEN\n      RETURN CASE p_position\n${positions}\n        ELSE ARRAY[]::text[]\n      END;`;
+    })
+    .join('\n');
+
+  const countCases = pageTypes
+    .map(type => `    WHEN '${type}' THEN ${PAGE_TYPES[type].grainCount}`)
+    .join('\n');
+
+  const unenforced = pageTypes.filter(type => !PAGE_TYPES[type].enforced);
+
+  return `-- Migration: Page type registry constraints
+-- Description: Generated from src/lib/pageTypes.ts. Do not edit by hand;
+--              run \`npm run generate:page-types\` after changing the registry.
+
+ALTER TABLE public.pages DROP CONSTRAINT IF EXISTS pages_type_check;
+ALTER TABLE public.pages ADD CONSTRAINT pages_type_check
+  CHECK (type IN (${sqlList(pageTypes)}));
+
+-- Subqueries are not allowed in CHECK constraints; the trigger below enforces the limit instead
+ALTER TABLE public.grains DROP CONSTRAINT IF EXISTS check_max_grains_per_page;
+
+-- Maximum number of grains for a page type
+CREATE OR REPLACE FUNCTION public.page_type_grain_count(p_page_type text)
+RETURNS integer AS $$
+  SELECT CASE p_page_type
+${countCases}
+    ELSE ${GRAINS_PER_PAGE}
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Grain types accepted at a position of a patterned page type (NULL when not patterned)
+CREATE OR REPLACE FUNCTION public.page_type_allowed_grains(p_page_type text, p_position integer)
+RETURNS text[] AS $$
+BEGIN
+  CASE p_page_type
+${slotCases}
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.enforce_page_type_grains()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_page_type text;
+  v_pattern text[];
+  v_allowed text[];
+  v_max integer;
+  v_count integer;
+BEGIN
+  SELECT type, grain_pattern INTO v_page_type, v_pattern
+  FROM public.pages
+  WHERE id = NEW.page_id;
+
+  IF v_page_type IS NULL OR v_page_type IN (${sqlList(unenforced)}) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Negative positions are temporary values used while reordering
+  IF NEW.position < 1 THEN
+    RETURN NEW;
+  END IF;
+
+  v_max := page_type_grain_count(v_page_type);
+  IF NEW.position > v_max THEN
+    RAISE EXCEPTION 'Grain position % is outside the % slots of page type %', NEW.position, v_max, v_page_type;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.grains
+  WHERE page_id = NEW.page_id AND id IS DISTINCT FROM NEW.id;
+
+  IF v_count >= v_max THEN
+    RAISE EXCEPTION 'Page type % allows at most % grains', v_page_type, v_max;
+  END IF;
+
+  v_allowed := page_type_allowed_grains(v_page_type, NEW.position);
+  IF v_allowed IS NULL AND v_pattern IS NOT NULL AND array_length(v_pattern, 1) >= NEW.position THEN
+    v_allowed := ARRAY[v_pattern[NEW.position]];
+  END IF;
+
+  IF v_allowed IS NOT NULL AND NOT (NEW.type = ANY (v_allowed)) THEN
+    RAISE EXCEPTION 'Grain type % is not allowed at position % of page type %', NEW.type, NEW.position, v_page_type;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_page_type_grains ON public.grains;
+CREATE TRIGGER enforce_page_type_grains
+  BEFORE INSERT OR UPDATE OF page_id, position, type ON public.grains
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_page_type_grains();
+`;
+};
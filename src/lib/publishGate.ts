@@ -0,0 +1,140 @@
+import { CourseTree } from '../types';
+import { CourseService } from './courseService';
+import { CourseHealth, HealthIssue, HealthIssueCode, MediaCheck } from './courseHealth';
+import { createCourseSnapshot } from './courseReleases';
+import { PublishedRelease, repositories } from './repositories';
+
+/**
+ * Publish gate: the app only publishes a course when every step of the
+ * pipeline passes, and publishing means storing a new release (see
+ * courseReleases). Otherwise the caller gets the blocking report; admins can
+ * override it with a reason, which is recorded server-side
+ * (`override_publish_course`).
+ *
+ * The pipeline runs in the app and is advisory. The database only enforces
+ * that admins publish and that every publication goes through a release.
+ */
+
+export type PublishStepId = 'content' | 'media' | 'structure';
+
+export interface PublishStep {
+  id: PublishStepId;
+  label: string;
+  /** Health issues that block publishing at this step */
+  codes: HealthIssueCode[];
+}
+
+export interface PublishStepResult {
+  id: PublishStepId;
+  label: string;
+  passed: boolean;
+  issues: HealthIssue[];
+}
+
+export interface PublishReport {
+  courseId: string;
+  canPublish: boolean;
+  steps: PublishStepResult[];
+  /** Every blocking issue, in step order */
+  blocking: HealthIssue[];
+}
+
+export type PublishOutcome =
+  | { status: 'published'; report: PublishReport; release: PublishedRelease }
+  | { status: 'blocked'; report: PublishReport }
+  | { status: 'overridden'; report: PublishReport; release: PublishedRelease; overrideId: string };
+
+export interface PublishOptions {
+  /** Publish even when blocked (admins only); the reason is stored with the report */
+  override?: { reason: string };
+  mediaCheck?: MediaCheck;
+}
+
+/** Pipeline steps, in the order they are reported */
+export const PUBLISH_STEPS: PublishStep[] = [
+  {
+    id: 'content',
+    label: 'Grãos completos e válidos',
+    codes: ['incomplete_grain', 'false_equals_answer', 'duplicate_false_alternative', 'missing_blank'],
+  },
+  {
+    id: 'media',
+    label: 'Media acessível',
+    codes: ['invalid_media_url', 'broken_media'],
+  },
+  {
+    id: 'structure',
+    label: 'Páginas com todos os grãos do seu tipo',
+    codes: ['missing_grains', 'pattern_mismatch'],
+  },
+];
+
+export class PublishGate {
+  /**
+   * Run the pipeline on a loaded tree (with grains) and the media URLs found unreachable
+   */
+  static evaluate(tree: CourseTree, brokenMediaUrls: string[] = []): PublishReport {
+    const { issues } = CourseHealth.analyze(tree, { brokenMediaUrls });
+
+    const steps = PUBLISH_STEPS.map(step => {
+      const stepIssues = issues.filter(issue => step.codes.includes(issue.code));
+      return { id: step.id, label: step.label, passed: stepIssues.length === 0, issues: stepIssues };
+    });
+    const blocking = steps.flatMap(step => step.issues);
+
+    return { courseId: tree.id, canPublish: blocking.length === 0, steps, blocking };
+  }
+
+  /**
+   * Load the latest course content, check its media and run the pipeline
+   */
+  static async check(courseId: string, mediaCheck?: MediaCheck): Promise<PublishReport> {
+    return (await PublishGate.run(courseId, mediaCheck)).report;
+  }
+
+  private static async run(courseId: string, mediaCheck?: MediaCheck) {
+    const tree = await CourseService.loadCourseTree(courseId, { includeGrains: true, force: true });
+    const brokenMediaUrls = await CourseHealth.findBrokenMedia(tree, mediaCheck);
+    return { tree, report: PublishGate.evaluate(tree, brokenMediaUrls) };
+  }
+
+  /**
+   * Publish a new release of the course when the pipeline passes, or when an
+   * admin overrides the blocking report
+   */
+  static async publish(courseId: string, { override, mediaCheck }: PublishOptions = {}): Promise<PublishOutcome> {
+    const { tree, report } = await PublishGate.run(courseId, mediaCheck);
+    const snapshot = createCourseSnapshot(tree);
+
+    if (report.canPublish) {
+      const { data: release, error } = await repositories.courseReleases.publish(courseId, snapshot);
+      if (!release) {
+        throw error;
+      }
+      CourseService.invalidateCourseTree(courseId);
+      return { status: 'published', report, release };
+    }
+
+    if (!override) {
+      return { status: 'blocked', report };
+    }
+    if (!override.reason.trim()) {
+      throw new Error('A reason is required to override the publish gate');
+    }
+
+    const blocking = report.blocking.map(({ code, severity, message, location, field }) => ({
+      code,
+      severity,
+      message,
+      location,
+      field,
+    }));
+    const { data, error } = await repositories.courses.publishWithOverride(courseId, override.reason.trim(), blocking, snapshot);
+    if (!data) {
+      throw error;
+    }
+    CourseService.invalidateCourseTree(courseId);
+    const { override_id: overrideId, ...release } = data;
+    return { status: 'overridden', report, release, overrideId };
+  }
+}
@@ -0,0 +1,460 @@
+import {
+  CoursePackage,
+  CoursePackageMedia,
+  GrainSnapshot,
+  PageSnapshot,
+  TestQuestionContent,
+  TextToCompleteContent,
+  TextToGuessContent,
+} from '../types';
+import { COURSE_PACKAGE_FORMAT, COURSE_PACKAGE_VERSION, getCourseFileSlug } from './courseExport';
+import { BLANK_PLACEHOLDER } from './courseHealth';
+import { ImportIssue } from './courseImport';
+import { getGrainTypeLabel } from './grainTypes';
+import {
+  CHOICE_MAX_DISTRACTORS,
+  CHOICE_MAX_EXTRA_CORRECT,
+  CHOICE_MAX_OPTIONS,
+  CHOICE_MIN_DISTRACTORS,
+  validateGrainContent,
+} from './grainValidation';
+import { GRAINS_PER_PAGE } from './pageTypes';
+import {
+  childElements,
+  escapeXml,
+  findElement,
+  findElements,
+  localName,
+  parseXml,
+  textContent,
+  XmlElement,
+  XmlNode,
+} from './xml';
+import { createZip, ZipEntry } from './zip';
+
+/**
+ * IMS QTI 2.1 interchange for the question-like grains. Test questions and
+ * texts to guess become `choiceInteraction` items, texts to complete an
+ * `inlineChoiceInteraction` in place of the [BLANK]; grains with extra
+ * correct answers are multiple-response items. Exporting writes a QTI
+ * content package; importing reads item files into a course package that
+ * goes through the regular import (courseImport). Grains and items with no
+ * equivalent on the other side are reported, never dropped silently.
+ */
+
+export type QtiGrainType = 'testQuestion' | 'textToComplete' | 'textToGuess';
+
+export const QTI_GRAIN_TYPES: QtiGrainType[] = ['testQuestion', 'textToComplete', 'textToGuess'];
+
+type QtiGrainContent = TestQuestionContent | TextToCompleteContent | TextToGuessContent;
+
+const isQtiGrainType = (type: string): type is QtiGrainType => (QTI_GRAIN_TYPES as string[]).includes(type);
+
+const RESPONSE_ID = 'RESPONSE';
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+
+/** Prompt of a text to guess, as shown by the players */
+export const TEXT_TO_GUESS_PROMPT = 'O que vê na imagem?';
+
+/** Choices per grain: the correct answers and 1-7 false alternatives, 8 at most */
+const MIN_CHOICES = 1 + CHOICE_MIN_DISTRACTORS;
+
+const choiceId = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Why a grain cannot become a QTI item, or null when it can
+ */
+export const getQtiExportIssue = (grain: Pick<GrainSnapshot, 'type' | 'content'>): string | null => {
+  if (!isQtiGrainType(grain.type)) {
+    return `${getGrainTypeLabel(grain.type)} não tem equivalente em QTI.`;
+  }
+  if (!validateGrainContent(grain.type, grain.content, { requireValues: true }).valid) {
+    return 'O grão está incompleto.';
+  }
+  if (grain.type === 'textToComplete' && (grain.content as TextToCompleteContent).phrase.split(BLANK_PLACEHOLDER).length !== 2) {
+    return `A frase deve conter ${BLANK_PLACEHOLDER} uma única vez.`;
+  }
+  if (grain.type === 'textToComplete' && (grain.content as TextToCompleteContent).extraCorrectAnswers?.length) {
+    return 'Em QTI, a lacuna de uma frase só pode ter uma resposta certa.';
+  }
+  return null;
+};
+
+/**
+ * QTI 2.1 assessmentItem for a grain. The correct answers are the first
+ * choices (A, and B… for extra correct answers); the interactions are shuffled. `imageSrc` replaces the image URL of a text
+ * to guess (bundled media).
+ */
+export const buildQtiItem = (
+  identifier: string,
+  title: string,
+  type: QtiGrainType,
+  content: QtiGrainContent,
+  imageSrc?: string
+): string => {
+  const correct = [content.correctAnswer, ...(content.extraCorrectAnswers ?? [])];
+  const choices = [...correct, ...content.falseAlternatives];
+  const multiple = correct.length > 1;
+  let body: string;
+
+  if (type === 'textToComplete') {
+    const [before, after] = (content as TextToCompleteContent).phrase.split(BLANK_PLACEHOLDER);
+    const inlineChoices = choices
+      .map((choice, index) => `<inlineChoice identifier="${choiceId(index)}">${escapeXml(choice)}</inlineChoice>`)
+      .join('');
+    body = `    <p>${escapeXml(before)}<inlineChoiceInteraction responseIdentifier="${RESPONSE_ID}" shuffle="true">${inlineChoices}</inlineChoiceInteraction>${escapeXml(after)}</p>\n`;
+  } else {
+    const image =
+      type === 'textToGuess'
+        ? `    <p><img src="${escapeXml(imageSrc ?? (content as TextToGuessContent).imageUrl)}" alt=""/></p>\n`
+        : '';
+    const prompt = type === 'testQuestion' ? (content as TestQuestionContent).question : TEXT_TO_GUESS_PROMPT;
+    body = `${image}    <choiceInteraction responseIdentifier="${RESPONSE_ID}" shuffle="true" maxChoices="${multiple ? 0 : 1}">
+      <prompt>${escapeXml(prompt)}</prompt>
+${choices.map((choice, index) => `      <simpleChoice identifier="${choiceId(index)}">${escapeXml(choice)}</simpleChoice>`).join('\n')}
+    </choiceInteraction>\n`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="${escapeXml(identifier)}" title="${escapeXml(title)}" adaptive="false" timeDependent="false" toolName="Galeguia">
+  <responseDeclaration identifier="${RESPONSE_ID}" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">
+    <correctResponse>
+${correct.map((_, index) => `      <value>${choiceId(index)}</value>`).join('\n')}
+    </correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue>
+      <value>0</value>
+    </defaultValue>
+  </outcomeDeclaration>
+  <itemBody>
+${body}  </itemBody>
+  <responseProcessing template="${MATCH_CORRECT}"/>
+</assessmentItem>
+`;
+};
+
+export interface QtiExportOptions {
+  /** Media bytes by URL (see downloadPackageMedia); these are bundled, the others stay remote */
+  media?: Record<string, Uint8Array>;
+}
+
+export interface QtiPackage {
+  files: ZipEntry[];
+  /** Number of items written */
+  items: number;
+  /** Grains left out, and why */
+  skipped: ImportIssue[];
+}
+
+const itemManifest = (coursePackage: CoursePackage, resources: { identifier: string; href: string; media: string[] }[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"
+  identifier="galeguia-qti-${coursePackage.course.id}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources
+  .map(
+    resource => `    <resource identifier="${resource.identifier}" type="imsqti_item_xmlv2p1" href="${resource.href}">
+      <file href="${resource.href}"/>
+${resource.media.map(file => `      <file href="${escapeXml(file)}"/>\n`).join('')}    </resource>`
+  )
+  .join('\n')}
+  </resources>
+</manifest>
+`;
+
+/**
+ * Every file of the QTI content package: imsmanifest.xml, one item per
+ * exportable grain under `items/` and the bundled images under `media/`
+ */
+export const buildQtiPackage = (coursePackage: CoursePackage, { media = {} }: QtiExportOptions = {}): QtiPackage => {
+  const bundled = new Map(coursePackage.media.filter(item => media[item.url]).map(item => [item.url, item]));
+  const usedMedia = new Map<string, CoursePackageMedia>();
+  const resources: { identifier: string; href: string; media: string[] }[] = [];
+  const items: ZipEntry[] = [];
+  const skipped: ImportIssue[] = [];
+
+  coursePackage.modules.forEach(module =>
+    module.lessons.forEach(lesson =>
+      lesson.pages.forEach(page => {
+        const pageTitle = page.title.trim() || `Página ${page.position}`;
+
+        page.grains.forEach(grain => {
+          const path = `${module.title} › ${lesson.title} › ${pageTitle} › Grão ${grain.position}`;
+          const issue = getQtiExportIssue(grain);
+          if (issue) {
+            skipped.push({ path, message: issue });
+            return;
+          }
+
+          const identifier = `grain-${grain.id}`;
+          const href = `items/${identifier}.xml`;
+          const image = grain.type === 'textToGuess' ? bundled.get((grain.content as TextToGuessContent).imageUrl) : undefined;
+          if (image) {
+            usedMedia.set(image.url, image);
+          }
+
+          items.push({
+            path: href,
+            data: buildQtiItem(
+              identifier,
+              `${pageTitle} · ${grain.position}`,
+              grain.type as QtiGrainType,
+              grain.content as QtiGrainContent,
+              image ? `../media/${image.path}` : undefined
+            ),
+          });
+          resources.push({ identifier, href, media: image ? [`media/${image.path}`] : [] });
+        });
+      })
+    )
+  );
+
+  return {
+    files: [
+      { path: 'imsmanifest.xml', data: itemManifest(coursePackage, resources) },
+      ...items,
+      ...[...usedMedia.values()].map(item => ({ path: `media/${item.path}`, data: media[item.url] })),
+    ],
+    items: items.length,
+    skipped,
+  };
+};
+
+export const createQtiZip = (
+  coursePackage: CoursePackage,
+  options: QtiExportOptions = {}
+): { zip: Uint8Array; items: number; skipped: ImportIssue[] } => {
+  const { files, ...report } = buildQtiPackage(coursePackage, options);
+  return { zip: createZip(files), ...report };
+};
+
+/** File name for a QTI package, e.g. `galego-basico.qti21.zip` */
+export const getQtiFileName = (coursePackage: CoursePackage): string => `${getCourseFileSlug(coursePackage)}.qti21.zip`;
+
+// Import
+
+export interface QtiItem {
+  /** File the item was read from */
+  source: string;
+  title: string;
+  type: QtiGrainType;
+  content: QtiGrainContent;
+}
+
+export interface QtiFile {
+  name: string;
+  text: string;
+}
+
+export interface QtiImport {
+  items: QtiItem[];
+  /** Files that are not items or have no grain equivalent, and why */
+  skipped: ImportIssue[];
+}
+
+/** Text of the item body with the interaction replaced by the [BLANK] placeholder */
+const textAround = (node: XmlNode, interaction: XmlElement, placeholder: string): string => {
+  if (typeof node === 'string') {
+    return node;
+  }
+  if (node === interaction) {
+    return placeholder;
+  }
+  return node.children.map(child => textAround(child, interaction, placeholder)).join('');
+};
+
+const findInteractions = (element: XmlElement): XmlElement[] =>
+  childElements(element).flatMap(child => (localName(child).endsWith('Interaction') ? [child] : findInteractions(child)));
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Read one item file. Returns the item, or why it cannot become a grain;
+ * neither for the package manifest.
+ */
+export const parseQtiItem = (text: string, source: string): { item: QtiItem | null; issue: ImportIssue | null } => {
+  const fail = (message: string) => ({ item: null, issue: { path: source, message } });
+
+  let root: XmlElement;
+  try {
+    root = parseXml(text);
+  } catch {
+    return fail('O ficheiro não é XML válido.');
+  }
+
+  if (localName(root) === 'manifest') {
+    return { item: null, issue: null };
+  }
+  if (localName(root) !== 'assessmentItem') {
+    return fail('O ficheiro não é um item QTI 2.1 (assessmentItem).');
+  }
+
+  const title = root.attributes.title?.trim() ? root.attributes.title.trim() : source;
+  const path = title === source ? source : `${source} (${title})`;
+  const failItem = (message: string) => ({ item: null, issue: { path, message } });
+
+  const body = findElement(root, 'itemBody');
+  const interactions = body ? findInteractions(body) : [];
+  if (!body || interactions.length === 0) {
+    return failItem('O item não tem nenhuma interação.');
+  }
+  if (interactions.length > 1) {
+    return failItem(`O item tem ${interactions.length} interações; os grãos só têm uma.`);
+  }
+
+  const [interaction] = interactions;
+  const kind = localName(interaction);
+  if (kind !== 'choiceInteraction' && kind !== 'inlineChoiceInteraction') {
+    return failItem(`A interação ${kind} não tem equivalente nos grãos.`);
+  }
+
+  const declaration = findElements(root, 'responseDeclaration').find(
+    element => element.attributes.identifier === interaction.attributes.responseIdentifier
+  );
+  const cardinality = declaration?.attributes.cardinality;
+  if (cardinality !== 'single' && (cardinality !== 'multiple' || kind !== 'choiceInteraction')) {
+    return failItem('Só são suportados itens de uma resposta, ou de várias com choiceInteraction.');
+  }
+  const correctResponse = declaration ? findElement(declaration, 'correctResponse') : null;
+  const correctIds = correctResponse ? findElements(correctResponse, 'value').map(textContent).filter(Boolean) : [];
+  if (cardinality === 'single' && ((interaction.attributes.maxChoices ?? '1') !== '1' || correctIds.length > 1)) {
+    return failItem('Só são suportados itens com uma única resposta.');
+  }
+  if (correctIds.length === 0) {
+    return failItem('O item não indica a resposta correta.');
+  }
+  if (correctIds.length > 1 + CHOICE_MAX_EXTRA_CORRECT) {
+    return failItem(`O item tem ${correctIds.length} respostas certas; os grãos têm até ${1 + CHOICE_MAX_EXTRA_CORRECT}.`);
+  }
+
+  const choices = childElements(interaction, kind === 'choiceInteraction' ? 'simpleChoice' : 'inlineChoice');
+  if (choices.some(choice => childElements(choice).some(child => ['img', 'object', 'audio', 'video'].includes(localName(child))))) {
+    return failItem('As opções com imagem ou som não são suportadas.');
+  }
+  if (choices.length < MIN_CHOICES || choices.length > CHOICE_MAX_OPTIONS) {
+    return failItem(
+      `O item tem ${choices.length} opções; os grãos têm de ${MIN_CHOICES} a ${CHOICE_MAX_OPTIONS} (as certas e 1 a ${CHOICE_MAX_DISTRACTORS} erradas).`
+    );
+  }
+  const missing = correctIds.find(id => !choices.some(choice => choice.attributes.identifier === id));
+  if (missing) {
+    return failItem(`A resposta correta (${missing}) não é uma das opções.`);
+  }
+  const correct = choices.filter(choice => correctIds.includes(choice.attributes.identifier));
+  if (correct.length === choices.length) {
+    return failItem('O item não tem opções erradas.');
+  }
+  if (choices.some(choice => !textContent(choice))) {
+    return failItem('O item tem opções vazias.');
+  }
+
+  const [correctAnswer, ...extraCorrectAnswers] = correct.map(textContent);
+  const falseAlternatives = choices.filter(choice => !correct.includes(choice)).map(textContent);
+  const extra = extraCorrectAnswers.length > 0 ? { extraCorrectAnswers } : {};
+
+  if (kind === 'inlineChoiceInteraction') {
+    const phrase = collapse(textAround(body, interaction, BLANK_PLACEHOLDER));
+    return { item: { source, title, type: 'textToComplete', content: { phrase, correctAnswer, falseAlternatives, ...extra } }, issue: null };
+  }
+
+  const image = findElement(body, 'img');
+  if (image?.attributes.src) {
+    return {
+      item: { source, title, type: 'textToGuess', content: { imageUrl: image.attributes.src, correctAnswer, falseAlternatives, ...extra } },
+      issue: null,
+    };
+  }
+
+  const prompt = findElement(interaction, 'prompt');
+  const question = prompt ? textContent(prompt) : collapse(textAround(body, interaction, ''));
+  if (!question) {
+    return failItem('O item não tem enunciado.');
+  }
+  return { item: { source, title, type: 'testQuestion', content: { question, correctAnswer, falseAlternatives, ...extra } }, issue: null };
+};
+
+/**
+ * Read item files (the manifest of a package, if picked, is ignored)
+ */
+export const parseQtiFiles = (files: QtiFile[]): QtiImport => {
+  const items: QtiItem[] = [];
+  const skipped: ImportIssue[] = [];
+
+  files.forEach(file => {
+    const { item, issue } = parseQtiItem(file.text, file.name);
+    if (item) {
+      items.push(item);
+    }
+    if (issue) {
+      skipped.push(issue);
+    }
+  });
+
+  return { items, skipped };
+};
+
+export const QTI_IMPORT_TITLE = 'Itens QTI';
+
+const isRemote = (url: string) => /^[a-z][a-z0-9+.-]*:/i.test(url);
+
+/**
+ * Course package holding the items as grains of Custom pages (up to 15 per
+ * page), in one module and lesson named `title`. Relative image paths are
+ * listed as media to upload, matched to the picked files by name.
+ */
+export const buildQtiCoursePackage = (
+  items: QtiItem[],
+  title: string = QTI_IMPORT_TITLE,
+  importedAt: string = new Date().toISOString()
+): CoursePackage => {
+  const pages: PageSnapshot[] = [];
+  for (let start = 0; start < items.length; start += GRAINS_PER_PAGE) {
+    const chunk = items.slice(start, start + GRAINS_PER_PAGE);
+    pages.push({
+      id: `qti-page-${pages.length + 1}`,
+      position: pages.length + 1,
+      title: '',
+      content: null,
+      media_url: null,
+      type: 'Custom',
+      grain_pattern: chunk.map(item => item.type),
+      grains: chunk.map((item, index) => ({
+        id: `qti-grain-${start + index + 1}`,
+        position: index + 1,
+        type: item.type,
+        content: item.content,
+      })),
+    });
+  }
+
+  const images = [
+    ...new Set(
+      items
+        .filter(item => item.type === 'textToGuess')
+        .map(item => (item.content as TextToGuessContent).imageUrl)
+        .filter(url => !isRemote(url))
+    ),
+  ];
+
+  return {
+    format: COURSE_PACKAGE_FORMAT,
+    version: COURSE_PACKAGE_VERSION,
+    exported_at: importedAt,
+    course: { id: 'qti', title, description: null, cover_image_url: null },
+    modules: [
+      { id: 'qti-module', position: 1, title, lessons: [{ id: 'qti-lesson', position: 1, title, content: null, pages }] },
+    ],
+    media: images.map(url => ({ path: url.replace(/^(\.\.?\/)+/, ''), url, file: url })),
+  };
+};
@@ -0,0 +1,448 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { ApiError, CourseSnapshot, Database } from '../types';
+import { formatGrainContentErrors, normalizeGrain, validateGrainContent } from './grainValidation';
+
+type Tables = Database['public']['Tables'];
+type TableName = keyof Tables;
+type Row<T extends TableName> = Tables[T]['Row'];
+type Insert<T extends TableName> = Tables[T]['Insert'];
+type Update<T extends TableName> = Tables[T]['Update'];
+
+export type CourseRow = Row<'courses'>;
+export type ModuleRow = Row<'modules'>;
+export type LessonRow = Row<'lessons'>;
+export type PageRow = Row<'pages'>;
+export type GrainRow = Row<'grains'>;
+export type GrainInsert = Insert<'grains'>;
+export type PageTemplateRow = Row<'page_templates'>;
+export type PageTemplateVersionRow = Row<'page_template_versions'>;
+export type CourseReleaseRow = Row<'course_releases'>;
+
+/** Release listed without its snapshot */
+export type CourseReleaseSummary = Omit<CourseReleaseRow, 'snapshot'>;
+
+/** Release written by publish_course_release / rollback_course_release */
+export interface PublishedRelease {
+  release_id: string;
+  version: number;
+}
+
+/** Template row with every version embedded */
+export type PageTemplateWithVersions = PageTemplateRow & { versions: PageTemplateVersionRow[] };
+
+/** Values written by the save_page_template function */
+export interface PageTemplateVersionInput {
+  name: string;
+  description: string | null;
+  grainPattern: string[];
+  slotHints: (string | null)[];
+}
+
+/**
+ * Uniform result returned by every repository operation.
+ * Mirrors the `{ data, error }` shape of supabase-js so call sites stay familiar.
+ */
+export interface RepositoryResult<T> {
+  data: T | null;
+  error: ApiError | null;
+}
+
+type RawError = {
+  message?: string;
+  code?: string;
+  status?: number;
+  statusCode?: number;
+  details?: unknown;
+} | null | undefined;
+
+/**
+ * Normalize a PostgREST / network error into an ApiError
+ */
+export const toApiError = (error: RawError): ApiError => ({
+  message: error?.message ?? 'Ocorreu um erro inesperado',
+  code: error?.code,
+  statusCode: error?.status ?? error?.statusCode,
+  details: error?.details ?? error,
+});
+
+const DELETE_BATCH_SIZE = 100;
+
+const ok = <T>(data: T): RepositoryResult<T> => ({ data, error: null });
+const fail = <T>(error: RawError): RepositoryResult<T> => ({ data: null, error: toApiError(error) });
+
+/**
+ * Generic CRUD operations shared by every table
+ */
+abstract class TableRepository<T extends TableName> {
+  protected abstract readonly table: T;
+
+  constructor(protected readonly client: SupabaseClient = supabase) {}
+
+  async get(id: string): Promise<RepositoryResult<Row<T>>> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    return error ? fail(error) : ok(data as Row<T>);
+  }
+
+  async create(values: Insert<T>): Promise<RepositoryResult<Row<T>>> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .insert(values)
+      .select()
+      .single();
+
+    return error ? fail(error) : ok(data as Row<T>);
+  }
+
+  async createMany(values: Insert<T>[]): Promise<RepositoryResult<Row<T>[]>> {
+    if (values.length === 0) {
+      return ok([]);
+    }
+
+    const { data, error } = await this.client
+      .from(this.table)
+      .insert(values)
+      .select();
+
+    return error ? fail(error) : ok((data ?? []) as Row<T>[]);
+  }
+
+  async update(id: string, values: Update<T>): Promise<RepositoryResult<Row<T>>> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    return error ? fail(error) : ok(data as Row<T>);
+  }
+
+  async delete(id: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client
+      .from(this.table)
+      .delete()
+      .eq('id', id);
+
+    return error ? fail(error) : ok(null);
+  }
+
+  async deleteMany(ids: string[]): Promise<RepositoryResult<null>> {
+    return this.deleteWhereIn('id', ids);
+  }
+
+  /**
+   * Delete rows whose `column` matches any of `values`, in batches small
+   * enough to keep the request URL short
+   */
+  protected async deleteWhereIn(column: string, values: string[]): Promise<RepositoryResult<null>> {
+    for (let start = 0; start < values.length; start += DELETE_BATCH_SIZE) {
+      const { error } = await this.client
+        .from(this.table)
+        .delete()
+        .in(column, values.slice(start, start + DELETE_BATCH_SIZE));
+
+      if (error) {
+        return fail(error);
+      }
+    }
+    return ok(null);
+  }
+}
+
+/**
+ * Operations for tables that belong to a parent and are ordered by `position`
+ */
+abstract class PositionedRepository<T extends 'modules' | 'lessons' | 'pages' | 'grains'> extends TableRepository<T> {
+  protected abstract readonly parentColumn: string;
+
+  async list(parentId: string): Promise<RepositoryResult<Row<T>[]>> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq(this.parentColumn, parentId)
+      .order('position', { ascending: true });
+
+    return error ? fail(error) : ok((data ?? []) as Row<T>[]);
+  }
+
+  /**
+   * Position to use for a new item appended at the end of the parent
+   */
+  async nextPosition(parentId: string): Promise<RepositoryResult<number>> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('position')
+      .eq(this.parentColumn, parentId)
+      .order('position', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      return fail(error);
+    }
+    return ok(data && data.length > 0 ? data[0].position + 1 : 1);
+  }
+
+  /**
+   * Assign positions 1..n following the order of `orderedIds`.
+   * `orderedIds` must contain every sibling: positions are moved to negative
+   * values first so unique (parent, position) constraints never collide.
+   */
+  async reorder(parentId: string, orderedIds: string[]): Promise<RepositoryResult<null>> {
+    const assign = async (positionFor: (index: number) => number) => {
+      const results = await Promise.all(
+        orderedIds.map((id, index) =>
+          this.client
+            .from(this.table)
+            .update({ position: positionFor(index) })
+            .eq('id', id)
+            .eq(this.parentColumn, parentId)
+        )
+      );
+      return results.find(result => result.error)?.error ?? null;
+    };
+
+    const stagingError = await assign(index => -(index + 1));
+    if (stagingError) {
+      return fail(stagingError);
+    }
+
+    const finalError = await assign(index => index + 1);
+    return finalError ? fail(finalError) : ok(null);
+  }
+
+  async deleteByParent(parentId: string): Promise<RepositoryResult<null>> {
+    const { error } = await this.client
+      .from(this.table)
+      .delete()
+      .eq(this.parentColumn, parentId);
+
+    return error ? fail(error) : ok(null);
+  }
+
+  async deleteByParents(parentIds: string[]): Promise<RepositoryResult<null>> {
+    return this.deleteWhereIn(this.parentColumn, parentIds);
+  }
+}
+
+export class CourseRepository extends TableRepository<'courses'> {
+  protected readonly table = 'courses' as const;
+
+  async list(creatorId?: string): Promise<RepositoryResult<CourseRow[]>> {
+    let query = this.client.from(this.table).select('*');
+    if (creatorId) {
+      query = query.eq('creator_id', creatorId);
+    }
+
+    const { data, error } = await query.order('updated_at', { ascending: false });
+    return error ? fail(error) : ok((data ?? []) as CourseRow[]);
+  }
+
+  /**
+   * Publish a course the publish gate blocked (admins only): creates the
+   * release and records who overrode the gate, why and the blocking report.
+   */
+  async publishWithOverride(
+    courseId: string,
+    reason: string,
+    report: unknown,
+    snapshot: CourseSnapshot
+  ): Promise<RepositoryResult<PublishedRelease & { override_id: string }>> {
+    const { data, error } = await this.client.rpc('override_publish_course', {
+      p_course_id: courseId,
+      p_reason: reason,
+      p_report: report,
+      p_snapshot: snapshot,
+    });
+
+    return error ? fail(error) : ok(data as PublishedRelease & { override_id: string });
+  }
+}
+
+export class ModuleRepository extends PositionedRepository<'modules'> {
+  protected readonly table = 'modules' as const;
+  protected readonly parentColumn = 'course_id';
+}
+
+export class LessonRepository extends PositionedRepository<'lessons'> {
+  protected readonly table = 'lessons' as const;
+  protected readonly parentColumn = 'module_id';
+}
+
+export class PageRepository extends PositionedRepository<'pages'> {
+  protected readonly table = 'pages' as const;
+  protected readonly parentColumn = 'lesson_id';
+}
+
+/**
+ * Grain content is normalized when read and validated before it is written,
+ * so screens never see legacy shapes and malformed JSON never reaches the table.
+ */
+export class GrainRepository extends PositionedRepository<'grains'> {
+  protected readonly table = 'grains' as const;
+  protected readonly parentColumn = 'page_id';
+
+  async get(id: string): Promise<RepositoryResult<GrainRow>> {
+    const result = await super.get(id);
+    return result.data ? ok(normalizeGrain(result.data)) : result;
+  }
+
+  async list(pageId: string): Promise<RepositoryResult<GrainRow[]>> {
+    const result = await super.list(pageId);
+    return result.data ? ok(result.data.map(normalizeGrain)) : result;
+  }
+
+  async create(values: GrainInsert): Promise<RepositoryResult<GrainRow>> {
+    return this.invalidContent<GrainRow>([values]) ?? super.create(values);
+  }
+
+  async createMany(values: GrainInsert[]): Promise<RepositoryResult<GrainRow[]>> {
+    return this.invalidContent<GrainRow[]>(values) ?? super.createMany(values);
+  }
+
+  /**
+   * Content is only validated when the type is part of the update
+   */
+  async update(id: string, values: Update<'grains'>): Promise<RepositoryResult<GrainRow>> {
+    const { type, content } = values;
+    const invalid = type && content !== undefined ? this.invalidContent<GrainRow>([{ type, content }]) : null;
+    return invalid ?? super.update(id, values);
+  }
+
+  private invalidContent<T>(grains: Pick<GrainInsert, 'type' | 'content'>[]): RepositoryResult<T> | null {
+    for (const grain of grains) {
+      const { errors } = validateGrainContent(grain.type, grain.content);
+      if (errors.length > 0) {
+        return fail({
+          message: `Conteúdo do grain inválido:\n${formatGrainContentErrors(errors)}`,
+          code: 'invalid_grain_content',
+          details: errors,
+        });
+      }
+    }
+    return null;
+  }
+}
+
+export class PageTemplateRepository extends TableRepository<'page_templates'> {
+  protected readonly table = 'page_templates' as const;
+
+  async list(includeArchived = false): Promise<RepositoryResult<PageTemplateWithVersions[]>> {
+    let query = this.client.from(this.table).select('*, versions:page_template_versions(*)');
+    if (!includeArchived) {
+      query = query.eq('archived', false);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+    return error ? fail(error) : ok((data ?? []) as PageTemplateWithVersions[]);
+  }
+
+  async getVersion(templateId: string, version: number): Promise<RepositoryResult<PageTemplateVersionRow>> {
+    const { data, error } = await this.client
+      .from('page_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('version', version)
+      .single();
+
+    return error ? fail(error) : ok(data as PageTemplateVersionRow);
+  }
+
+  /**
+   * Create a template (templateId null) or add a new version to it.
+   * Earlier versions are kept for the pages created from them.
+   */
+  async saveVersion(
+    templateId: string | null,
+    values: PageTemplateVersionInput
+  ): Promise<RepositoryResult<{ template_id: string; version: number }>> {
+    const { data, error } = await this.client.rpc('save_page_template', {
+      p_template_id: templateId,
+      p_name: values.name,
+      p_description: values.description,
+      p_grain_pattern: values.grainPattern,
+      p_slot_hints: values.slotHints,
+    });
+
+    return error ? fail(error) : ok(data as { template_id: string; version: number });
+  }
+}
+
+export class CourseReleaseRepository extends TableRepository<'course_releases'> {
+  protected readonly table = 'course_releases' as const;
+
+  /** Releases of a course, newest first, without their snapshots */
+  async list(courseId: string): Promise<RepositoryResult<CourseReleaseSummary[]>> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('id, course_id, version, notes, rolled_back_from, published_by, created_at')
+      .eq('course_id', courseId)
+      .order('version', { ascending: false });
+
+    return error ? fail(error) : ok((data ?? []) as CourseReleaseSummary[]);
+  }
+
+  /** Release learners currently see (null when the course was never published) */
+  async getLatest(courseId: string): Promise<RepositoryResult<CourseReleaseRow | null>> {
+    const { data, error } = await this.client
+      .from(this.table)
+      .select('*')
+      .eq('course_id', courseId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return error ? fail(error) : ok((data ?? null) as CourseReleaseRow | null);
+  }
+
+  /** Store `snapshot` as the next release and mark the course published */
+  async publish(courseId: string, snapshot: CourseSnapshot, notes: string | null = null): Promise<RepositoryResult<PublishedRelease>> {
+    const { data, error } = await this.client.rpc('publish_course_release', {
+      p_course_id: courseId,
+      p_snapshot: snapshot,
+      p_notes: notes,
+    });
+
+    return error ? fail(error) : ok(data as PublishedRelease);
+  }
+
+  /** Publish the snapshot of an earlier release again, as a new version */
+  async rollback(courseId: string, releaseId: string): Promise<RepositoryResult<PublishedRelease>> {
+    const { data, error } = await this.client.rpc('rollback_course_release', {
+      p_course_id: courseId,
+      p_release_id: releaseId,
+    });
+
+    return error ? fail(error) : ok(data as PublishedRelease);
+  }
+}
+
+export interface Repositories {
+  courses: CourseRepository;
+  modules: ModuleRepository;
+  lessons: LessonRepository;
+  pages: PageRepository;
+  grains: GrainRepository;
+  pageTemplates: PageTemplateRepository;
+  courseReleases: CourseReleaseRepository;
+}
+
+/**
+ * Build a set of repositories bound to the given client (tests pass a fake one)
+ */
+export const createRepositories = (client: SupabaseClient = supabase): Repositories => ({
+  courses: new CourseRepository(client),
+  modules: new ModuleRepository(client),
+  lessons: new LessonRepository(client),
+  pages: new PageRepository(client),
+  grains: new GrainRepository(client),
+  pageTemplates: new PageTemplateRepository(client),
+  courseReleases: new CourseReleaseRepository(client),
+});
+
+export const repositories = createRepositories();
@@ -0,0 +1,196 @@
+import { CoursePackage, PageSnapshot } from '../types';
+import { getCourseFileSlug } from './courseExport';
+import { SCORM_PLAYER_CSS, SCORM_PLAYER_JS } from './scormPlayer';
+import { escapeXml } from './xml';
+import { createZip, ZipEntry } from './zip';
+
+/**
+ * SCORM export for LMSs such as Moodle. Every page becomes a SCO played by
+ * the bundled player (scormPlayer), organized in imsmanifest.xml as
+ * module › lesson › page items. Modules and lessons without pages are left out.
+ */
+
+export type ScormVersion = '1.2' | '2004';
+
+export interface ScormExportOptions {
+  version: ScormVersion;
+  /** Percentage of correct grains needed to pass a page */
+  masteryScore?: number;
+  /** Media bytes by URL (see downloadPackageMedia); these are bundled, the others stay remote */
+  media?: Record<string, Uint8Array>;
+}
+
+export const DEFAULT_MASTERY_SCORE = 80;
+
+const SHARED_FILES = ['shared/course.js', 'shared/player.js', 'shared/player.css'];
+
+const label = (title: string, fallback: string) => title.trim() || fallback;
+
+const scoPath = (page: PageSnapshot) => `sco/${page.id}.html`;
+
+const withPages = (coursePackage: CoursePackage) =>
+  coursePackage.modules
+    .map(module => ({ ...module, lessons: module.lessons.filter(lesson => lesson.pages.length > 0) }))
+    .filter(module => module.lessons.length > 0);
+
+const MANIFEST_HEADERS: Record<ScormVersion, string> = {
+  '1.2': `xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd"`,
+  '2004': `xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd"`,
+};
+
+/** How an item states the score needed to pass */
+const masteryXml = (version: ScormVersion, pageId: string, masteryScore: number, indent: string) =>
+  version === '1.2'
+    ? `${indent}<adlcp:masteryscore>${masteryScore}</adlcp:masteryscore>\n`
+    : `${indent}<imsss:sequencing>
+${indent}  <imsss:objectives>
+${indent}    <imsss:primaryObjective objectiveID="obj-${pageId}" satisfiedByMeasure="true">
+${indent}      <imsss:minNormalizedMeasure>${masteryScore / 100}</imsss:minNormalizedMeasure>
+${indent}    </imsss:primaryObjective>
+${indent}  </imsss:objectives>
+${indent}</imsss:sequencing>\n`;
+
+/**
+ * imsmanifest.xml: one organization (the course) with module › lesson › page
+ * items, one SCO resource per page and a shared asset resource
+ */
+export const buildScormManifest = (
+  coursePackage: CoursePackage,
+  version: ScormVersion,
+  masteryScore: number = DEFAULT_MASTERY_SCORE,
+  assetFiles: string[] = SHARED_FILES
+): string => {
+  const modules = withPages(coursePackage);
+  const scormType = version === '1.2' ? 'adlcp:scormtype' : 'adlcp:scormType';
+  const schemaVersion = version === '1.2' ? '1.2' : '2004 4th Edition';
+
+  const items = modules
+    .map(
+      module => `      <item identifier="item-${module.id}">
+        <title>${escapeXml(label(module.title, `Módulo ${module.position}`))}</title>
+${module.lessons
+  .map(
+    lesson => `        <item identifier="item-${lesson.id}">
+          <title>${escapeXml(label(lesson.title, `Lição ${lesson.position}`))}</title>
+${lesson.pages
+  .map(
+    page => `          <item identifier="item-${page.id}" identifierref="res-${page.id}">
+            <title>${escapeXml(label(page.title, `Página ${page.position}`))}</title>
+${masteryXml(version, page.id, masteryScore, '            ')}          </item>`
+  )
+  .join('\n')}
+        </item>`
+  )
+  .join('\n')}
+      </item>`
+    )
+    .join('\n');
+
+  const scos = modules
+    .flatMap(module => module.lessons.flatMap(lesson => lesson.pages))
+    .map(
+      page => `    <resource identifier="res-${page.id}" type="webcontent" ${scormType}="sco" href="${scoPath(page)}">
+      <file href="${scoPath(page)}"/>
+      <dependency identifierref="res-shared"/>
+    </resource>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="galeguia-${coursePackage.course.id}" version="1"
+  ${MANIFEST_HEADERS[version]}>
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>${schemaVersion}</schemaversion>
+  </metadata>
+  <organizations default="org-${coursePackage.course.id}">
+    <organization identifier="org-${coursePackage.course.id}">
+      <title>${escapeXml(coursePackage.course.title)}</title>
+${items}
+    </organization>
+  </organizations>
+  <resources>
+${scos}
+    <resource identifier="res-shared" type="webcontent" ${scormType}="asset">
+${assetFiles.map(file => `      <file href="${escapeXml(file)}"/>`).join('\n')}
+    </resource>
+  </resources>
+</manifest>
+`;
+};
+
+const scoHtml = (page: PageSnapshot) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeXml(label(page.title, `Página ${page.position}`))}</title>
+  <link rel="stylesheet" href="../shared/player.css">
+</head>
+<body>
+  <main id="player"></main>
+  <script>window.GALEGUIA_PAGE_ID = ${JSON.stringify(page.id)};</script>
+  <script src="../shared/course.js"></script>
+  <script src="../shared/player.js"></script>
+</body>
+</html>
+`;
+
+/**
+ * Every file of the SCORM package. Bundled media are stored under `media/`
+ * and the content is rewritten to point at them.
+ */
+export const buildScormPackage = (
+  coursePackage: CoursePackage,
+  { version, masteryScore = DEFAULT_MASTERY_SCORE, media = {} }: ScormExportOptions
+): ZipEntry[] => {
+  const bundled = coursePackage.media.filter(item => media[item.url]);
+  const pages = withPages(coursePackage).flatMap(module =>
+    module.lessons.flatMap(lesson =>
+      lesson.pages.map(page => ({ ...page, title: label(page.title, label(lesson.title, `Página ${page.position}`)) }))
+    )
+  );
+
+  // Paths are relative to the SCO pages in sco/
+  let courseData = JSON.stringify({
+    version,
+    masteryScore,
+    pages: Object.fromEntries(pages.map(page => [page.id, { title: page.title, grains: page.grains }])),
+  });
+  bundled.forEach(item => {
+    courseData = courseData.split(item.url).join(`../media/${item.path}`);
+  });
+
+  const mediaEntries = bundled.map(item => ({ path: `media/${item.path}`, data: media[item.url] }));
+
+  return [
+    {
+      path: 'imsmanifest.xml',
+      data: buildScormManifest(coursePackage, version, masteryScore, [
+        ...SHARED_FILES,
+        ...mediaEntries.map(entry => entry.path),
+      ]),
+    },
+    { path: 'shared/course.js', data: `window.GALEGUIA_SCORM = ${courseData};\n` },
+    { path: 'shared/player.js', data: SCORM_PLAYER_JS },
+    { path: 'shared/player.css', data: SCORM_PLAYER_CSS },
+    ...pages.map(page => ({ path: scoPath(page), data: scoHtml(page) })),
+    ...mediaEntries,
+  ];
+};
+
+export const createScormZip = (coursePackage: CoursePackage, options: ScormExportOptions): Uint8Array =>
+  createZip(buildScormPackage(coursePackage, options));
+
+/** File name for a SCORM package, e.g. `galego-basico.scorm12.zip` */
+export const getScormFileName = (coursePackage: CoursePackage, version: ScormVersion): string =>
+  `${getCourseFileSlug(coursePackage)}.scorm${version.replace('.', '')}.zip`;
@@ -0,0 +1,662 @@
+/**
+ * Standalone player shipped inside SCORM packages (see scormExport). It plays
+ * the grains of one page the way PageTestScreen does, one grain at a time, and
+ * reports the score and completion to the LMS through the SCORM 1.2 (`API`)
+ * or SCORM 2004 (`API_1484_11`) runtime. Plain ES5, no dependencies, so it
+ * runs in whatever browser the LMS serves it to.
+ *
+ * Scoring: every grain is worth one point. Choice grains score when the first
+ * answer is right, or, with several right options, when exactly those are
+ * checked; pair grains score when every pair is matched without a
+ * wrong attempt; word ordering and dictation grains score when the checked
+ * answer is right; cloze and true/false grains score the share of blanks or
+ * statements answered right.
+ */
+
+export const SCORM_PLAYER_JS = `(function () {
+  'use strict';
+
+  var data = window.GALEGUIA_SCORM;
+  var page = data.pages[window.GALEGUIA_PAGE_ID];
+  var is2004 = data.version === '2004';
+
+  function findApi(start, name) {
+    var win = start;
+    for (var depth = 0; win && depth < 20; depth++) {
+      if (win[name]) {
+        return win[name];
+      }
+      if (!win.parent || win.parent === win) {
+        break;
+      }
+      win = win.parent;
+    }
+    return null;
+  }
+
+  var api = findApi(window, is2004 ? 'API_1484_11' : 'API') ||
+    (window.opener ? findApi(window.opener, is2004 ? 'API_1484_11' : 'API') : null);
+  var terminated = false;
+
+  function call(method12, method2004, args) {
+    if (!api) {
+      return '';
+    }
+    return api[is2004 ? method2004 : method12].apply(api, args);
+  }
+
+  function setValue(key12, key2004, value) {
+    call('LMSSetValue', 'SetValue', [is2004 ? key2004 : key12, String(value)]);
+  }
+
+  function start() {
+    call('LMSInitialize', 'Initialize', ['']);
+    if (is2004) {
+      setValue('', 'cmi.completion_status', 'incomplete');
+    } else if (call('LMSGetValue', 'GetValue', ['cmi.core.lesson_status']) === 'not attempted') {
+      setValue('cmi.core.lesson_status', '', 'incomplete');
+    }
+    call('LMSCommit', 'Commit', ['']);
+  }
+
+  function report(correct, total) {
+    var raw = total > 0 ? Math.round((correct / total) * 100) : 100;
+    var passed = raw >= data.masteryScore;
+    setValue('cmi.core.score.raw', 'cmi.score.raw', raw);
+    setValue('cmi.core.score.min', 'cmi.score.min', 0);
+    setValue('cmi.core.score.max', 'cmi.score.max', 100);
+    if (is2004) {
+      setValue('', 'cmi.score.scaled', raw / 100);
+      setValue('', 'cmi.completion_status', 'completed');
+      setValue('', 'cmi.success_status', passed ? 'passed' : 'failed');
+    } else {
+      setValue('cmi.core.lesson_status', '', passed ? 'passed' : 'failed');
+    }
+    call('LMSCommit', 'Commit', ['']);
+    return raw;
+  }
+
+  function terminate() {
+    if (!terminated) {
+      terminated = true;
+      call('LMSFinish', 'Terminate', ['']);
+    }
+  }
+
+  function shuffle(items) {
+    var copy = items.slice();
+    for (var i = copy.length - 1; i > 0; i--) {
+      var j = Math.floor(Math.random() * (i + 1));
+      var item = copy[i];
+      copy[i] = copy[j];
+      copy[j] = item;
+    }
+    return copy;
+  }
+
+  function el(tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) {
+      node.className = className;
+    }
+    if (text !== undefined) {
+      node.textContent = text;
+    }
+    return node;
+  }
+
+  function image(url) {
+    var node = el('img', 'image');
+    node.src = url;
+    node.alt = '';
+    return node;
+  }
+
+  var root = document.getElementById('player');
+  var index = 0;
+  var score = 0;
+
+  // Points: whether the grain was right, or the share of it that was
+  function next(points) {
+    score += typeof points === 'number' ? points : points ? 1 : 0;
+    var button = el('button', 'next', index < page.grains.length - 1 ? 'Seguinte' : 'Terminar');
+    button.onclick = function () {
+      index++;
+      render();
+    };
+    root.appendChild(button);
+  }
+
+  // With several right options the learner toggles them and checks them together
+  function choices(title, prompt, correct, wrong, renderOption) {
+    var multiple = correct.length > 1;
+    root.appendChild(el('h2', 'grain-title', title));
+    if (prompt) {
+      root.appendChild(prompt);
+    }
+    var list = el('div', 'options');
+    var buttons = [];
+    shuffle(correct.concat(wrong || [])).forEach(function (option) {
+      var button = el('button', 'option');
+      renderOption(button, option);
+      button.onclick = function () {
+        if (multiple) {
+          button.className = button.className === 'option' ? 'option selected' : 'option';
+          return;
+        }
+        buttons.forEach(function (entry) {
+          entry.button.disabled = true;
+        });
+        var right = correct.indexOf(option) !== -1;
+        button.className += right ? ' correct' : ' incorrect';
+        next(right);
+      };
+      buttons.push({ button: button, option: option });
+      list.appendChild(button);
+    });
+    root.appendChild(list);
+    if (!multiple) {
+      return;
+    }
+
+    root.appendChild(el('p', 'prompt', 'Escolha todas as respostas certas.'));
+    var check = el('button', 'next', 'Verificar');
+    check.onclick = function () {
+      var allRight = true;
+      buttons.forEach(function (entry) {
+        var picked = entry.button.className === 'option selected';
+        var right = correct.indexOf(entry.option) !== -1;
+        if (picked !== right) {
+          allRight = false;
+        }
+        entry.button.disabled = true;
+        entry.button.className = right ? 'option correct' : picked ? 'option incorrect' : 'option';
+      });
+      root.removeChild(check);
+      next(allRight);
+    };
+    root.appendChild(check);
+  }
+
+  function textOption(button, option) {
+    button.textContent = option;
+  }
+
+  function pairs(grain) {
+    var isImage = grain.type === 'pairsOfImage';
+    var remaining = grain.content.pairs.length;
+    var mistakes = 0;
+    var selected = null;
+
+    root.appendChild(el('h2', 'grain-title', 'Associe os pares:'));
+    var columns = el('div', 'pairs');
+    var left = el('div', 'column');
+    var right = el('div', 'column');
+
+    function item(column, side, pairIndex, content, asImage) {
+      var button = el('button', 'option');
+      if (asImage) {
+        button.appendChild(image(content));
+      } else {
+        button.textContent = content;
+      }
+      button.onclick = function () {
+        if (!selected || selected.side === side) {
+          if (selected) {
+            selected.button.className = 'option';
+          }
+          selected = { side: side, index: pairIndex, button: button };
+          button.className = 'option selected';
+          return;
+        }
+        if (selected.index === pairIndex) {
+          selected.button.className = 'option correct';
+          button.className = 'option correct';
+          selected.button.disabled = true;
+          button.disabled = true;
+          remaining--;
+          if (remaining === 0) {
+            next(mistakes === 0);
+          }
+        } else {
+          mistakes++;
+          selected.button.className = 'option';
+        }
+        selected = null;
+      };
+      column.appendChild(button);
+    }
+
+    shuffle(grain.content.pairs.map(function (pair, pairIndex) {
+      return { pair: pair, index: pairIndex };
+    })).forEach(function (entry) {
+      item(left, 'left', entry.index, isImage ? entry.pair.imageUrl : entry.pair.left, isImage);
+    });
+    shuffle(grain.content.pairs.map(function (pair, pairIndex) {
+      return { pair: pair, index: pairIndex };
+    })).forEach(function (entry) {
+      item(right, 'right', entry.index, isImage ? entry.pair.text : entry.pair.right, false);
+    });
+
+    columns.appendChild(left);
+    columns.appendChild(right);
+    root.appendChild(columns);
+  }
+
+  function normalizeWords(sentence) {
+    return sentence.toLowerCase().replace(/[.,;:!?\u00a1\u00bf"\u00ab\u00bb\u201c\u201d()\u2026]/g, ' ')
+      .split(/\\s+/).filter(Boolean).join(' ');
+  }
+
+  function orderWords(content) {
+    root.appendChild(el('h2', 'grain-title', 'Ordene as palavras:'));
+    var answer = el('div', 'tiles answer');
+    var bank = el('div', 'tiles');
+    var words = content.sentence.split(/\\s+/).concat(content.distractors).filter(Boolean);
+    var check = el('button', 'next', 'Verificar');
+
+    shuffle(words).forEach(function (word) {
+      var tile = el('button', 'option', word);
+      tile.onclick = function () {
+        (tile.parentNode === bank ? answer : bank).appendChild(tile);
+      };
+      bank.appendChild(tile);
+    });
+
+    check.onclick = function () {
+      var placed = [];
+      for (var i = 0; i < answer.childNodes.length; i++) {
+        placed.push(answer.childNodes[i].textContent);
+      }
+      var response = normalizeWords(placed.join(' '));
+      var correct = response !== '' && [content.sentence].concat(content.acceptedOrders).some(function (sentence) {
+        return normalizeWords(sentence) === response;
+      });
+      [answer, bank].forEach(function (row) {
+        for (var j = 0; j < row.childNodes.length; j++) {
+          row.childNodes[j].disabled = true;
+        }
+      });
+      answer.className += correct ? ' correct' : ' incorrect';
+      root.removeChild(check);
+      if (!correct) {
+        root.appendChild(el('p', 'prompt', content.sentence));
+      }
+      next(correct);
+    };
+
+    root.appendChild(answer);
+    root.appendChild(bank);
+    root.appendChild(check);
+  }
+
+  function normalizeDictation(value, content) {
+    var result = value.normalize ? value.normalize('NFC') : value;
+    if (content.ignoreCase) {
+      result = result.toLowerCase();
+    }
+    if (content.ignorePunctuation) {
+      result = result.replace(/[.,;:!?\u00a1\u00bf"\u00ab\u00bb\u201c\u201d()\u2026]/g, ' ');
+    }
+    if (content.ignoreAccents && result.normalize) {
+      result = result.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+    }
+    return result.replace(/^\\s+|\\s+$/g, '').replace(/\\s+/g, ' ');
+  }
+
+  function levenshtein(a, b) {
+    var previous = [];
+    for (var j = 0; j <= b.length; j++) {
+      previous.push(j);
+    }
+    for (var i = 0; i < a.length; i++) {
+      var current = [i + 1];
+      for (var k = 0; k < b.length; k++) {
+        current.push(Math.min(previous[k + 1] + 1, current[k] + 1, previous[k] + (a.charAt(i) === b.charAt(k) ? 0 : 1)));
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  function dictation(content) {
+    root.appendChild(el('h2', 'grain-title', 'Escute e escreva o que ouviu:'));
+    var audio = el('audio');
+    audio.src = content.audioUrl;
+    audio.controls = true;
+    root.appendChild(audio);
+    var input = el('input', 'answer-input');
+    input.type = 'text';
+    input.autocomplete = 'off';
+    root.appendChild(input);
+    var check = el('button', 'next', 'Verificar');
+
+    check.onclick = function () {
+      var answer = normalizeDictation(input.value, content);
+      var correct = answer !== '' && [content.correctAnswer].concat(content.acceptedSpellings).some(function (spelling) {
+        return spelling && levenshtein(answer, normalizeDictation(spelling, content)) <= content.maxDistance;
+      });
+      input.disabled = true;
+      input.className += correct ? ' correct' : ' incorrect';
+      root.removeChild(check);
+      if (!correct) {
+        root.appendChild(el('p', 'prompt', content.correctAnswer));
+      }
+      next(correct);
+    };
+    root.appendChild(check);
+  }
+
+  function cloze(content) {
+    root.appendChild(el('h2', 'grain-title', 'Preencha as lacunas:'));
+    var passage = el('p', 'prompt cloze');
+    var fields = [];
+    var marker = /\\[BLANK:(\\d+)\\]/g;
+    var last = 0;
+    var match;
+    var tolerance = { ignoreCase: content.mode === 'typing' };
+
+    while ((match = marker.exec(content.passage)) !== null) {
+      passage.appendChild(document.createTextNode(content.passage.slice(last, match.index)));
+      var blank = content.blanks[Number(match[1]) - 1] || { answers: [], options: [] };
+      var field;
+      if (content.mode === 'dropdown') {
+        field = el('select', 'answer-input blank');
+        field.appendChild(el('option', null, '(' + match[1] + ')'));
+        [blank.answers[0] || ''].concat(blank.options).filter(function (option, position, all) {
+          return option && all.indexOf(option) === position;
+        }).sort().forEach(function (option) {
+          field.appendChild(el('option', null, option));
+        });
+      } else {
+        field = el('input', 'answer-input blank');
+        field.type = 'text';
+        field.autocomplete = 'off';
+        field.placeholder = '(' + match[1] + ')';
+      }
+      fields.push({ node: field, blank: blank });
+      passage.appendChild(field);
+      last = match.index + match[0].length;
+    }
+    passage.appendChild(document.createTextNode(content.passage.slice(last)));
+    root.appendChild(passage);
+    var check = el('button', 'next', 'Verificar');
+
+    check.onclick = function () {
+      var right = 0;
+      var solution = [];
+      fields.forEach(function (entry, position) {
+        // The first option of a dropdown is the blank's number, not an answer
+        var value = content.mode === 'dropdown' && entry.node.selectedIndex === 0 ? '' : entry.node.value;
+        var answer = normalizeDictation(value, tolerance);
+        var correct = answer !== '' && entry.blank.answers.some(function (candidate) {
+          return candidate && normalizeDictation(candidate, tolerance) === answer;
+        });
+        if (correct) {
+          right++;
+        }
+        entry.node.disabled = true;
+        entry.node.className += correct ? ' correct' : ' incorrect';
+        solution.push('(' + (position + 1) + ') ' + (entry.blank.answers[0] || ''));
+      });
+      root.removeChild(check);
+      if (right < fields.length) {
+        root.appendChild(el('p', 'prompt', solution.join(' · ')));
+      }
+      next(fields.length > 0 ? right / fields.length : 0);
+    };
+    root.appendChild(check);
+  }
+
+  // One statement at a time; each verdict shows the right one and its explanation
+  function trueFalse(content) {
+    var statements = content.statements || [];
+    var position = 0;
+    var right = 0;
+    var box = el('div');
+    root.appendChild(box);
+
+    function statement() {
+      var item = statements[position];
+      box.innerHTML = '';
+      box.appendChild(el('h2', 'grain-title', 'Verdadeiro ou falso? (' + (position + 1) + ' / ' + statements.length + ')'));
+      box.appendChild(el('p', 'prompt', item.text));
+      var list = el('div', 'options');
+      var buttons = [];
+      [true, false].forEach(function (verdict) {
+        var button = el('button', 'option', verdict ? 'Verdadeiro' : 'Falso');
+        button.onclick = function () {
+          if (verdict === item.isTrue) {
+            right++;
+          }
+          buttons.forEach(function (other, slot) {
+            other.disabled = true;
+            if ((slot === 0) === item.isTrue) {
+              other.className += ' correct';
+            } else if (other === button) {
+              other.className += ' incorrect';
+            }
+          });
+          if (item.explanation) {
+            box.appendChild(el('p', 'prompt', item.explanation));
+          }
+          if (position < statements.length - 1) {
+            var following = el('button', 'next', 'Próxima afirmação');
+            following.onclick = function () {
+              position++;
+              statement();
+            };
+            box.appendChild(following);
+          } else {
+            next(right / statements.length);
+          }
+        };
+        buttons.push(button);
+        list.appendChild(button);
+      });
+      box.appendChild(list);
+    }
+
+    if (statements.length === 0) {
+      return next(false);
+    }
+    statement();
+  }
+
+  function filled(values) {
+    return (values || []).filter(function (value) {
+      return typeof value === 'string' && value.trim() !== '';
+    });
+  }
+
+  function renderGrain(grain) {
+    var content = grain.content;
+    var answers = [content.correctAnswer].concat(filled(content.extraCorrectAnswers));
+    switch (grain.type) {
+      case 'textToComplete':
+        return choices('Complete a frase:', el('p', 'prompt', content.phrase.replace('[BLANK]', '_____')),
+          answers, filled(content.falseAlternatives), textOption);
+      case 'testQuestion':
+        return choices('Pergunta:', el('p', 'prompt', content.question),
+          answers, filled(content.falseAlternatives), textOption);
+      case 'textToGuess':
+        return choices('O que vê na imagem?', image(content.imageUrl),
+          answers, filled(content.falseAlternatives), textOption);
+      case 'imagesToGuess':
+        return choices('Qual imagem representa: ' + content.correctWord + '?', null,
+          [content.correctImageUrl].concat(filled(content.extraCorrectImageUrls)), filled(content.falseImageUrls), function (button, url) {
+            button.appendChild(image(url));
+          });
+      case 'audioToGuess':
+        return choices('Qual áudio corresponde a: ' + content.correctWord + '?', null,
+          [content.correctAudioUrl].concat(filled(content.extraCorrectAudioUrls)), filled(content.falseAudioUrls), function (button, url) {
+            var audio = el('audio');
+            audio.src = url;
+            audio.controls = true;
+            audio.onclick = function (event) {
+              event.stopPropagation();
+            };
+            button.appendChild(audio);
+          });
+      case 'pairsOfText':
+      case 'pairsOfImage':
+        return pairs(grain);
+      case 'orderWords':
+        return orderWords(content);
+      case 'audioToType':
+        return dictation(content);
+      case 'cloze':
+        return cloze(content);
+      case 'trueFalse':
+        return trueFalse(content);
+      default:
+        root.appendChild(el('p', 'prompt', 'Tipo de grão não suportado: ' + grain.type));
+        return next(false);
+    }
+  }
+
+  function render() {
+    root.innerHTML = '';
+    var header = el('header', 'header');
+    header.appendChild(el('h1', 'page-title', page.title));
+    if (index < page.grains.length) {
+      header.appendChild(el('span', 'progress', (index + 1) + ' / ' + page.grains.length));
+    }
+    root.appendChild(header);
+
+    if (index < page.grains.length) {
+      renderGrain(page.grains[index]);
+      return;
+    }
+
+    var percentage = report(score, page.grains.length);
+    root.appendChild(el('h2', 'grain-title', 'Página concluída!'));
+    root.appendChild(el('p', 'prompt', 'Pontuação: ' + Math.round(score * 100) / 100 + '/' + page.grains.length + ' (' + percentage + '%)'));
+  }
+
+  start();
+  window.addEventListener('pagehide', terminate);
+  window.addEventListener('beforeunload', terminate);
+  render();
+})();
+`;
+
+export const SCORM_PLAYER_CSS = `body {
+  margin: 0;
+  font-family: -apple-system, "Segoe UI", Roboto, sans-serif;
+  background: #f8fafc;
+  color: #0f172a;
+}
+#player {
+  max-width: 760px;
+  margin: 0 auto;
+  padding: 24px 16px;
+}
+.header {
+  display: flex;
+  justify-content: space-between;
+  align-items: baseline;
+  gap: 12px;
+}
+.page-title {
+  font-size: 20px;
+}
+.progress {
+  color: #64748b;
+}
+.grain-title {
+  font-size: 18px;
+}
+.prompt {
+  font-size: 18px;
+}
+.image {
+  max-width: 100%;
+  max-height: 240px;
+  border-radius: 8px;
+}
+.options,
+.column {
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  flex: 1;
+}
+.pairs {
+  display: flex;
+  gap: 16px;
+}
+.option,
+.next {
+  padding: 12px 16px;
+  font-size: 16px;
+  border: 1px solid #cbd5e1;
+  border-radius: 8px;
+  background: #fff;
+  cursor: pointer;
+  text-align: left;
+}
+.option.selected {
+  border-color: #2563eb;
+}
+.option.correct {
+  border-color: #16a34a;
+  background: #dcfce7;
+}
+.option.incorrect {
+  border-color: #dc2626;
+  background: #fee2e2;
+}
+.tiles {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  margin-bottom: 16px;
+}
+.tiles.answer {
+  min-height: 48px;
+  padding: 8px;
+  border: 1px dashed #cbd5e1;
+  border-radius: 8px;
+}
+.tiles.answer.correct {
+  border-color: #16a34a;
+}
+.tiles.answer.incorrect {
+  border-color: #dc2626;
+}
+.answer-input {
+  display: block;
+  width: 100%;
+  box-sizing: border-box;
+  margin-top: 12px;
+  padding: 12px 16px;
+  font-size: 16px;
+  border: 1px solid #cbd5e1;
+  border-radius: 8px;
+}
+.answer-input.correct {
+  border-color: #16a34a;
+  background: #dcfce7;
+}
+.answer-input.incorrect {
+  border-color: #dc2626;
+  background: #fee2e2;
+}
+.cloze {
+  line-height: 2.4;
+}
+.answer-input.blank {
+  display: inline-block;
+  width: auto;
+  min-width: 96px;
+  margin: 0 4px;
+  padding: 4px 8px;
+}
+.next {
+  margin-top: 16px;
+  background: #2563eb;
+  border-color: #2563eb;
+  color: #fff;
+}
+`;
@@ -0,0 +1,80 @@
+import { TrueFalseContent, TrueFalseStatement } from '../types';
+
+/**
+ * True/false grains: a batch of 3-8 statements, each marked true or false,
+ * answered one after another. Every statement scores on its own; its
+ * explanation, when there is one, is shown once it is answered.
+ */
+
+/** Whether the learner's verdict on statement `index` is right */
+export const isTrueFalseAnswerCorrect = (content: TrueFalseContent, index: number, answer: boolean | undefined): boolean => {
+  const statement = content.statements[index];
+  return statement !== undefined && answer === statement.isTrue;
+};
+
+/** Right verdicts out of all the statements, for an answer per statement index */
+export const scoreTrueFalse = (
+  content: TrueFalseContent,
+  answers: (boolean | undefined)[]
+): { correct: number; total: number } => ({
+  correct: content.statements.filter((_, index) => isTrueFalseAnswerCorrect(content, index, answers[index])).length,
+  total: content.statements.length,
+});
+
+/** Authoring problems the schema cannot see: empty or repeated statements */
+export const getTrueFalseIssues = (content: TrueFalseContent): string[] => {
+  const issues: string[] = [];
+  const texts = content.statements.map(statement => statement.text.trim().toLowerCase());
+
+  texts.forEach((text, index) => {
+    if (!text) {
+      issues.push(`A afirmação ${index + 1} está vazia.`);
+    } else if (texts.indexOf(text) !== index) {
+      issues.push(`A afirmação ${index + 1} repete a afirmação ${texts.indexOf(text) + 1}.`);
+    }
+  });
+  return issues;
+};
+
+// Spreadsheet cells and Markdown list items: `true: statement => explanation`.
+// A statement holding `=>` (or starting with `"`) is written as a JSON string: `true: "a => b" => c`.
+
+const EXPLANATION_SEPARATOR = '=>';
+const VERDICTS: Record<string, boolean> = { true: true, false: false };
+const QUOTED = /^"(?:[^"\\]|\\.)*"/;
+
+const encodeStatementText = (text: string) =>
+  text.includes(EXPLANATION_SEPARATOR) || text.startsWith('"') ? JSON.stringify(text) : text;
+
+export const formatTrueFalseStatement = (statement: TrueFalseStatement): string => {
+  const text = `${statement.isTrue}: ${encodeStatementText(statement.text)}`;
+  return statement.explanation ? `${text} ${EXPLANATION_SEPARATOR} ${statement.explanation}` : text;
+};
+
+/** The statement text, quoted or up to the separator, and what follows it */
+const readStatementText = (source: string): { text: string; rest: string } => {
+  const quoted = QUOTED.exec(source);
+  const afterQuoted = quoted ? source.slice(quoted[0].length).trim() : '';
+  if (quoted && (!afterQuoted || afterQuoted.startsWith(EXPLANATION_SEPARATOR))) {
+    return { text: JSON.parse(quoted[0]) as string, rest: afterQuoted };
+  }
+  const separator = source.indexOf(EXPLANATION_SEPARATOR);
+  return separator === -1
+    ? { text: source.trim(), rest: '' }
+    : { text: source.slice(0, separator).trim(), rest: source.slice(separator) };
+};
+
+/** Null when the item does not start with `true:` or `false:` */
+export const parseTrueFalseStatement = (value: string): TrueFalseStatement | null => {
+  const colon = value.indexOf(':');
+  const verdict = colon === -1 ? undefined : VERDICTS[value.slice(0, colon).trim().toLowerCase()];
+  if (verdict === undefined) {
+    return null;
+  }
+  const { text, rest } = readStatementText(value.slice(colon + 1).trim());
+  return {
+    text,
+    isTrue: verdict,
+    explanation: rest.slice(EXPLANATION_SEPARATOR.length).trim(),
+  };
+};
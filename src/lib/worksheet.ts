@@ -0,0 +1,399 @@
+import { ClozeContent, GrainContent, GrainType, TrueFalseContent } from '../types';
+import { getClozeChoices, splitClozePassage } from './cloze';
+import { BLANK_PLACEHOLDER } from './courseHealth';
+import { escapeXml as escapeHtml } from './xml';
+
+/**
+ * Printable worksheets for offline classrooms: the grains of a lesson laid
+ * out as paper exercises, page by page, followed by an answer key on its own
+ * sheet. Choices are shuffled with the grain id as seed, so printing again
+ * gives the same sheet and the key always matches it. See WORKSHEETS.md.
+ */
+
+export interface WorksheetGrain {
+  id: string;
+  position: number;
+  type: GrainType;
+  content: GrainContent;
+}
+
+export interface WorksheetPage {
+  title: string;
+  position: number;
+  grains: WorksheetGrain[];
+}
+
+export interface WorksheetLesson {
+  title: string;
+  pages: WorksheetPage[];
+}
+
+export interface WorksheetExercise {
+  /** Number across the whole lesson, as printed */
+  number: number;
+  grainId: string;
+  instruction: string;
+  /** HTML of the exercise */
+  body: string;
+  /** HTML of the solution, for the answer key */
+  answer: string;
+}
+
+export interface WorksheetSection {
+  title: string;
+  exercises: WorksheetExercise[];
+}
+
+export interface WorksheetOptions {
+  /** Shown above the lesson title, e.g. the course */
+  subtitle?: string;
+  /** Append the answer key (default true) */
+  answerKey?: boolean;
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const texts = (value: unknown) => (Array.isArray(value) ? value.map(text).filter(Boolean) : []);
+
+/** Deterministic shuffle (FNV-1a seed, LCG steps) */
+const shuffle = <T>(items: T[], seed: string): T[] => {
+  let state = 2166136261;
+  for (let index = 0; index < seed.length; index++) {
+    state = Math.imul(state ^ seed.charCodeAt(index), 16777619) >>> 0;
+  }
+  const next = () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+
+  const result = [...items];
+  for (let index = result.length - 1; index > 0; index--) {
+    const other = Math.floor(next() * (index + 1));
+    [result[index], result[other]] = [result[other], result[index]];
+  }
+  return result;
+};
+
+const image = (url: string, className = 'image') => `<img class="${className}" src="${escapeHtml(url)}" alt="">`;
+
+const BLANK_LINE = '<span class="blank"></span>';
+
+interface Choice {
+  html: string;
+  correct: boolean;
+}
+
+/** Lettered options, and the key entry for the correct ones */
+const choices = (seed: string, correct: Choice['html'][], others: Choice['html'][], grid = false) => {
+  const options = shuffle<Choice>(
+    [...correct.map(html => ({ html, correct: true })), ...others.map(html => ({ html, correct: false }))],
+    seed
+  );
+  const items = options.map((option, index) => `<li><span class="letter">${LETTERS[index]})</span> ${option.html}</li>`);
+  const key = options.flatMap((option, index) =>
+    option.correct ? [grid ? LETTERS[index] : `${LETTERS[index]}) ${option.html}`] : []
+  );
+
+  return {
+    body: `<ol class="${grid ? 'choices grid' : 'choices'}">${items.join('')}</ol>`,
+    answer: key.join(', '),
+  };
+};
+
+/** Choice grains with extra correct answers ask for all of them */
+const ALL_THAT_APPLY = ' (escolha todas as certas)';
+
+/** Numbered left column, lettered and shuffled right column */
+const matching = (seed: string, pairs: { left: string; right: string }[]) => {
+  const right = shuffle(
+    pairs.map((pair, index) => ({ html: pair.right, index })),
+    seed
+  );
+  const rows = pairs.map(
+    (pair, index) =>
+      `<tr><td class="match-number">${index + 1}.</td><td>${pair.left}</td><td class="match-slot">___</td>` +
+      `<td class="match-letter">${LETTERS[index]})</td><td>${right[index].html}</td></tr>`
+  );
+
+  return {
+    body: `<table class="matching">${rows.join('')}</table>`,
+    answer: pairs.map((_, index) => `${index + 1} – ${LETTERS[right.findIndex(item => item.index === index)]}`).join(', '),
+  };
+};
+
+type ExerciseContent = Pick<WorksheetExercise, 'instruction' | 'body' | 'answer'>;
+
+const buildExercise = (grain: WorksheetGrain): ExerciseContent | null => {
+  const content = grain.content as unknown as Record<string, unknown>;
+  const pairs = Array.isArray(content.pairs) ? (content.pairs as Record<string, unknown>[]) : [];
+
+  switch (grain.type) {
+    case 'textToComplete': {
+      const phrase = text(content.phrase);
+      const answer = text(content.correctAnswer);
+      if (!phrase || !answer) {
+        return null;
+      }
+      const parts = phrase.split(BLANK_PLACEHOLDER).map(escapeHtml);
+      const sentence = parts.length > 1 ? parts.join(BLANK_LINE) : `${parts[0]} ${BLANK_LINE}`;
+      const answers = [answer, ...texts(content.extraCorrectAnswers)];
+      const bank = shuffle([...answers, ...texts(content.falseAlternatives)], grain.id).map(escapeHtml);
+      return {
+        instruction: 'Complete a frase:',
+        body: `<p class="sentence">${sentence}</p><p class="word-bank">${bank.join(' · ')}</p>`,
+        answer: answers.map(escapeHtml).join(' / '),
+      };
+    }
+    case 'testQuestion': {
+      const question = text(content.question);
+      const answer = text(content.correctAnswer);
+      if (!question || !answer) {
+        return null;
+      }
+      const extra = texts(content.extraCorrectAnswers);
+      const { body, answer: key } = choices(
+        grain.id,
+        [answer, ...extra].map(escapeHtml),
+        texts(content.falseAlternatives).map(escapeHtml)
+      );
+      return {
+        instruction: `Pergunta${extra.length > 0 ? ALL_THAT_APPLY : ''}:`,
+        body: `<p>${escapeHtml(question)}</p>${body}`,
+        answer: key,
+      };
+    }
+    case 'textToGuess': {
+      const imageUrl = text(content.imageUrl);
+      const answer = text(content.correctAnswer);
+      if (!imageUrl || !answer) {
+        return null;
+      }
+      const extra = texts(content.extraCorrectAnswers);
+      const { body, answer: key } = choices(
+        grain.id,
+        [answer, ...extra].map(escapeHtml),
+        texts(content.falseAlternatives).map(escapeHtml)
+      );
+      return {
+        instruction: `O que vê na imagem?${extra.length > 0 ? ALL_THAT_APPLY : ''}`,
+        body: `${image(imageUrl)}${body}`,
+        answer: key,
+      };
+    }
+    case 'imagesToGuess': {
+      const word = text(content.correctWord);
+      const imageUrl = text(content.correctImageUrl);
+      if (!word || !imageUrl) {
+        return null;
+      }
+      const extra = texts(content.extraCorrectImageUrls);
+      const { body, answer } = choices(
+        grain.id,
+        [imageUrl, ...extra].map(url => image(url, 'choice-image')),
+        texts(content.falseImageUrls).map(url => image(url, 'choice-image')),
+        true
+      );
+      return {
+        instruction: `Qual imagem representa: ${escapeHtml(word)}?${extra.length > 0 ? ALL_THAT_APPLY : ''}`,
+        body,
+        answer: `${answer}) ${escapeHtml(word)}`,
+      };
+    }
+    case 'audioToGuess': {
+      // Sound cannot be printed: the word is read out or the audio played in class
+      const word = text(content.correctWord);
+      if (!word) {
+        return null;
+      }
+      return {
+        instruction: 'Escute e escreva a palavra:',
+        body: `<p class="note">(a palavra é lida em voz alta ou o áudio é reproduzido)</p><p class="sentence">${BLANK_LINE}</p>`,
+        answer: escapeHtml(word),
+      };
+    }
+    case 'audioToType': {
+      const answer = text(content.correctAnswer);
+      if (!answer) {
+        return null;
+      }
+      return {
+        instruction: 'Ditado: escreva o que ouvir.',
+        body: `<p class="note">(o texto é lido em voz alta ou o áudio é reproduzido)</p><p class="sentence">${BLANK_LINE}${BLANK_LINE}${BLANK_LINE}</p>`,
+        answer: escapeHtml(answer),
+      };
+    }
+    case 'pairsOfText':
+    case 'pairsOfImage': {
+      const rows = pairs
+        .map(pair =>
+          grain.type === 'pairsOfText'
+            ? { left: escapeHtml(text(pair.left)), right: escapeHtml(text(pair.right)) }
+            : { left: text(pair.imageUrl) && image(text(pair.imageUrl), 'pair-image'), right: escapeHtml(text(pair.text)) }
+        )
+        .filter(pair => pair.left && pair.right);
+      if (rows.length === 0) {
+        return null;
+      }
+      return { instruction: 'Associe os pares:', ...matching(grain.id, rows) };
+    }
+    case 'orderWords': {
+      const sentence = text(content.sentence);
+      if (!sentence) {
+        return null;
+      }
+      const tiles = shuffle([...sentence.split(/\s+/), ...texts(content.distractors)], grain.id).map(escapeHtml);
+      return {
+        instruction: 'Ordene as palavras:',
+        body: `<p class="word-bank">${tiles.join(' · ')}</p><p class="sentence">${BLANK_LINE}${BLANK_LINE}${BLANK_LINE}</p>`,
+        answer: escapeHtml(sentence),
+      };
+    }
+    case 'cloze': {
+      const cloze = grain.content as ClozeContent;
+      const segments = splitClozePassage(text(cloze.passage));
+      const numbers = segments.flatMap(segment => (segment.kind === 'blank' ? [segment.number] : []));
+      if (numbers.length === 0) {
+        return null;
+      }
+      const passage = segments
+        .map(segment => (segment.kind === 'text' ? escapeHtml(segment.text) : `(${segment.number}) ${BLANK_LINE}`))
+        .join('');
+      // Dropdown blanks print their options next to the passage
+      const banks =
+        cloze.mode === 'dropdown'
+          ? numbers
+              .filter(number => cloze.blanks[number - 1])
+              .map(
+                number =>
+                  `<p class="word-bank">(${number}) ${shuffle(getClozeChoices(cloze.blanks[number - 1]), `${grain.id}-${number}`)
+                    .map(escapeHtml)
+                    .join(' · ')}</p>`
+              )
+          : [];
+      return {
+        instruction: 'Preencha as lacunas:',
+        body: `<p class="sentence">${passage}</p>${banks.join('')}`,
+        answer: numbers.map(number => `(${number}) ${escapeHtml(text(cloze.blanks[number - 1]?.answers[0]))}`).join(' · '),
+      };
+    }
+    case 'trueFalse': {
+      const statements = ((grain.content as TrueFalseContent).statements ?? []).filter(statement => text(statement.text));
+      if (statements.length === 0) {
+        return null;
+      }
+      return {
+        instruction: 'Marque V (verdadeiro) ou F (falso):',
+        body: `<ol class="choices">${statements
+          .map(statement => `<li><span class="letter">V / F</span> ${escapeHtml(text(statement.text))}</li>`)
+          .join('')}</ol>`,
+        answer: statements.map((statement, index) => `${index + 1} ${statement.isTrue ? 'V' : 'F'}`).join(' · '),
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * The exercises of a lesson, one section per page in page order. Grains
+ * that are missing what the exercise needs are left out.
+ */
+export const buildWorksheet = (lesson: WorksheetLesson): WorksheetSection[] => {
+  let number = 0;
+
+  return [...lesson.pages]
+    .sort((a, b) => a.position - b.position)
+    .map(page => ({
+      title: page.title.trim() || `Página ${page.position}`,
+      exercises: [...page.grains]
+        .sort((a, b) => a.position - b.position)
+        .flatMap(grain => {
+          const exercise = buildExercise(grain);
+          return exercise ? [{ number: ++number, grainId: grain.id, ...exercise }] : [];
+        }),
+    }))
+    .filter(section => section.exercises.length > 0);
+};
+
+const STYLES = `
+  @page { size: A4; margin: 16mm; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 12pt; color: #111; margin: 0 auto; max-width: 180mm; }
+  header { border-bottom: 1px solid #999; margin-bottom: 6mm; padding-bottom: 2mm; }
+  header .subtitle { font-size: 10pt; color: #555; margin: 0; }
+  header h1 { font-size: 18pt; margin: 1mm 0 3mm; }
+  header .student { font-size: 11pt; }
+  h2 { font-size: 13pt; margin: 6mm 0 3mm; border-bottom: 1px solid #ddd; }
+  .exercise { break-inside: avoid; margin-bottom: 5mm; }
+  .instruction { font-weight: bold; margin: 0 0 1.5mm; }
+  .blank { display: inline-block; min-width: 35mm; border-bottom: 1px solid #111; margin: 0 1mm; }
+  .word-bank { font-size: 10pt; color: #444; }
+  .note { font-size: 10pt; font-style: italic; color: #555; margin: 0; }
+  .choices { list-style: none; padding-left: 4mm; margin: 1mm 0; }
+  .choices li { margin: 1mm 0; }
+  .choices.grid { display: flex; flex-wrap: wrap; gap: 4mm; }
+  .letter { font-weight: bold; }
+  .image { display: block; max-width: 70mm; max-height: 45mm; margin: 1mm 0; }
+  .choice-image { max-width: 35mm; max-height: 30mm; vertical-align: top; }
+  .pair-image { max-width: 30mm; max-height: 22mm; }
+  .matching { border-collapse: collapse; margin-left: 4mm; }
+  .matching td { padding: 1.5mm 2mm; vertical-align: middle; }
+  .match-slot { padding-right: 10mm; }
+  .answer-key { break-before: page; }
+  .answer-key ol { padding-left: 8mm; }
+`;
+
+/** A standalone HTML document, ready to print or save as PDF from the browser */
+export const buildWorksheetHtml = (lesson: WorksheetLesson, { subtitle, answerKey = true }: WorksheetOptions = {}): string => {
+  const sections = buildWorksheet(lesson);
+  const title = escapeHtml(lesson.title.trim() || 'Lição');
+
+  const exercises = sections
+    .map(
+      section =>
+        `<section><h2>${escapeHtml(section.title)}</h2>\n` +
+        section.exercises
+          .map(
+            exercise =>
+              `<div class="exercise"><p class="instruction">${exercise.number}. ${exercise.instruction}</p>${exercise.body}</div>`
+          )
+          .join('\n') +
+        '</section>'
+    )
+    .join('\n');
+
+  const key = answerKey
+    ? `<section class="answer-key"><h2>Soluções — ${title}</h2><ol>${sections
+        .flatMap(section => section.exercises)
+        .map(exercise => `<li value="${exercise.number}">${exercise.answer}</li>`)
+        .join('')}</ol></section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="pt">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>` : ''}<h1>${title}</h1>
+<p class="student">Nome: ${BLANK_LINE} Data: ${BLANK_LINE}</p></header>
+${sections.length > 0 ? exercises : '<p>Esta lição ainda não tem exercícios.</p>'}
+${key}
+</body>
+</html>
+`;
+};
+
+/** File name for a worksheet, e.g. `as-cores-ficha.html` */
+export const getWorksheetFileName = (title: string): string => {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'licao'}-ficha.html`;
+};
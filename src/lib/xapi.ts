@@ -0,0 +1,332 @@
+/**
+ * xAPI (Tin Can) statements for the page player. The player records what the
+ * learner does (attempted a page, answered a grain, completed a page with a
+ * score) through a page tracker; statements go into a queue persisted in
+ * storage and are sent to the LRS whenever it can be reached, so nothing is
+ * lost while offline. `MemoryLrs` stands in for a real LRS in tests.
+ */
+
+export const XAPI_VERSION = '1.0.3';
+
+export const XAPI_VERBS = {
+  attempted: { id: 'http://adlnet.gov/expapi/verbs/attempted', display: { 'en-US': 'attempted' } },
+  answered: { id: 'http://adlnet.gov/expapi/verbs/answered', display: { 'en-US': 'answered' } },
+  completed: { id: 'http://adlnet.gov/expapi/verbs/completed', display: { 'en-US': 'completed' } },
+} as const;
+
+export type XapiVerbName = keyof typeof XAPI_VERBS;
+
+const ACTIVITY_TYPES = {
+  page: 'http://adlnet.gov/expapi/activities/lesson',
+  grain: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+};
+
+export interface XapiActor {
+  objectType: 'Agent';
+  name?: string;
+  mbox?: string;
+  account?: { homePage: string; name: string };
+}
+
+export interface XapiActivity {
+  objectType: 'Activity';
+  id: string;
+  definition: {
+    type: string;
+    name: Record<string, string>;
+    interactionType?: 'choice' | 'matching' | 'sequencing' | 'fill-in';
+    correctResponsesPattern?: string[];
+  };
+}
+
+export interface XapiResult {
+  response?: string;
+  success?: boolean;
+  completion?: boolean;
+  score?: { raw: number; min: number; max: number; scaled: number };
+}
+
+export interface XapiStatement {
+  id: string;
+  actor: XapiActor;
+  verb: (typeof XAPI_VERBS)[XapiVerbName];
+  object: XapiActivity;
+  result?: XapiResult;
+  context: {
+    registration: string;
+    contextActivities?: { parent: { objectType: 'Activity'; id: string }[] };
+  };
+  timestamp: string;
+}
+
+export interface XapiConfig {
+  /** LRS base URL; statements are posted to `<endpoint>/statements` */
+  endpoint: string;
+  /** Authorization header value, e.g. `Basic <base64 key:secret>` */
+  auth?: string;
+  /** Prefix of the activity ids (pages and grains) */
+  activityBase: string;
+}
+
+export const DEFAULT_ACTIVITY_BASE = 'https://galeguia.app/xapi';
+
+/**
+ * LRS settings from the environment, or null when no LRS is configured
+ */
+export const getXapiConfig = (env: Record<string, string | undefined> = process.env): XapiConfig | null => {
+  const endpoint = env.EXPO_PUBLIC_XAPI_ENDPOINT?.trim();
+  if (!endpoint) {
+    return null;
+  }
+  const auth = env.EXPO_PUBLIC_XAPI_AUTH?.trim();
+  const activityBase = env.EXPO_PUBLIC_XAPI_ACTIVITY_BASE?.trim();
+  return {
+    endpoint: endpoint.replace(/\/+$/, ''),
+    auth: auth ? auth : undefined,
+    activityBase: activityBase ? activityBase.replace(/\/+$/, '') : DEFAULT_ACTIVITY_BASE,
+  };
+};
+
+/** RFC 4122 version 4 id, as statement ids and registrations must be UUIDs */
+export const createStatementId = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+export interface Lrs {
+  /** Store the statements; rejects when the LRS cannot be reached or refuses them */
+  sendStatements(statements: XapiStatement[]): Promise<void>;
+}
+
+/**
+ * A real LRS, over the xAPI statements resource
+ */
+export class HttpLrs implements Lrs {
+  constructor(
+    private readonly config: XapiConfig,
+    private readonly fetcher: typeof fetch = fetch
+  ) {}
+
+  async sendStatements(statements: XapiStatement[]): Promise<void> {
+    const response = await this.fetcher(`${this.config.endpoint}/statements`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Experience-API-Version': XAPI_VERSION,
+        ...(this.config.auth ? { Authorization: this.config.auth } : {}),
+      },
+      body: JSON.stringify(statements),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LRS rejected ${statements.length} statement(s): HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Local stand-in LRS: keeps statements in memory and can be switched offline
+ */
+export class MemoryLrs implements Lrs {
+  statements: XapiStatement[] = [];
+  online = true;
+
+  async sendStatements(statements: XapiStatement[]): Promise<void> {
+    if (!this.online) {
+      throw new Error('LRS unreachable');
+    }
+    const known = new Set(this.statements.map(statement => statement.id));
+    this.statements.push(...statements.filter(statement => !known.has(statement.id)));
+  }
+
+  /** Stored statements, optionally filtered by verb and activity id */
+  query({ verb, activityId }: { verb?: XapiVerbName; activityId?: string } = {}): XapiStatement[] {
+    return this.statements.filter(
+      statement =>
+        (!verb || statement.verb.id === XAPI_VERBS[verb].id) && (!activityId || statement.object.id === activityId)
+    );
+  }
+}
+
+/** Async key-value storage (AsyncStorage in the app) */
+export interface XapiStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export const createMemoryStorage = (): XapiStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+export const XAPI_QUEUE_KEY = 'galeguia.xapi.queue';
+
+/** Statements sent per request */
+const XAPI_BATCH_SIZE = 50;
+
+/**
+ * Offline buffer: statements are persisted first and removed only once the LRS accepted them
+ */
+export class StatementQueue {
+  /** Storage updates run one after the other */
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly lrs: Lrs,
+    private readonly storage: XapiStorage,
+    private readonly key: string = XAPI_QUEUE_KEY
+  ) {}
+
+  /** Buffered statements; a buffer that cannot be read counts as empty */
+  async pending(): Promise<XapiStatement[]> {
+    const stored = await this.storage.getItem(this.key);
+    if (!stored) {
+      return [];
+    }
+    try {
+      const statements: unknown = JSON.parse(stored);
+      return Array.isArray(statements) ? (statements as XapiStatement[]) : [];
+    } catch (error) {
+      console.warn('xAPI: unreadable statement buffer discarded:', error);
+      return [];
+    }
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.chain.then(task, task);
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  /** Buffer the statements, then try to send everything buffered. Never rejects: tracking must not break the player */
+  async enqueue(statements: XapiStatement[]): Promise<void> {
+    try {
+      await this.serialize(async () =>
+        this.storage.setItem(this.key, JSON.stringify([...(await this.pending()), ...statements]))
+      );
+    } catch (error) {
+      console.warn(`xAPI: ${statements.length} statement(s) could not be buffered:`, error);
+      return;
+    }
+    this.flush().catch(error => console.warn('xAPI: buffered statements could not be sent:', error));
+  }
+
+  /**
+   * Send the buffered statements; whatever cannot be sent stays buffered.
+   * Resolves with the number of statements sent and never rejects.
+   */
+  flush(): Promise<number> {
+    return this.serialize(() => this.sendPending());
+  }
+
+  private async sendPending(): Promise<number> {
+    let pending: XapiStatement[] = [];
+    let sent = 0;
+
+    try {
+      pending = await this.pending();
+      while (pending.length > 0) {
+        const batch = pending.slice(0, XAPI_BATCH_SIZE);
+        await this.lrs.sendStatements(batch);
+        sent += batch.length;
+        pending = pending.slice(batch.length);
+        await this.storage.setItem(this.key, JSON.stringify(pending));
+      }
+    } catch (error) {
+      console.warn(`xAPI: ${pending.length} statement(s) kept for later:`, error);
+    }
+    return sent;
+  }
+}
+
+export interface TrackedPage {
+  id: string;
+  title: string;
+}
+
+export interface TrackedGrain {
+  id: string;
+  type: string;
+}
+
+export interface PageTracker {
+  registration: string;
+  attempted(): Promise<void>;
+  answered(grain: TrackedGrain, response: string, success: boolean, correctResponse?: string): Promise<void>;
+  completed(correct: number, total: number): Promise<void>;
+}
+
+const INTERACTION_TYPES: Record<string, 'choice' | 'matching' | 'sequencing' | 'fill-in'> = {
+  pairsOfText: 'matching',
+  pairsOfImage: 'matching',
+  orderWords: 'sequencing',
+  audioToType: 'fill-in',
+  cloze: 'fill-in',
+  trueFalse: 'fill-in',
+};
+
+/**
+ * Statements for one run of the player on a page, grouped by a registration id
+ */
+export const createPageTracker = (
+  queue: Pick<StatementQueue, 'enqueue'>,
+  actor: XapiActor,
+  page: TrackedPage,
+  activityBase: string = DEFAULT_ACTIVITY_BASE,
+  now: () => Date = () => new Date()
+): PageTracker => {
+  const registration = createStatementId();
+  const pageActivity: XapiActivity = {
+    objectType: 'Activity',
+    id: `${activityBase}/pages/${page.id}`,
+    definition: { type: ACTIVITY_TYPES.page, name: { 'pt-PT': page.title } },
+  };
+
+  const emit = (verb: XapiVerbName, object: XapiActivity, result?: XapiResult, parent = false) =>
+    queue.enqueue([
+      {
+        id: createStatementId(),
+        actor,
+        verb: XAPI_VERBS[verb],
+        object,
+        ...(result ? { result } : {}),
+        context: {
+          registration,
+          ...(parent ? { contextActivities: { parent: [{ objectType: 'Activity' as const, id: pageActivity.id }] } } : {}),
+        },
+        timestamp: now().toISOString(),
+      },
+    ]);
+
+  return {
+    registration,
+    attempted: () => emit('attempted', pageActivity),
+    answered: (grain, response, success, correctResponse) =>
+      emit(
+        'answered',
+        {
+          objectType: 'Activity',
+          id: `${activityBase}/grains/${grain.id}`,
+          definition: {
+            type: ACTIVITY_TYPES.grain,
+            name: { 'pt-PT': `${page.title} · ${grain.type}` },
+            interactionType: INTERACTION_TYPES[grain.type] ?? 'choice',
+            ...(correctResponse !== undefined ? { correctResponsesPattern: [correctResponse] } : {}),
+          },
+        },
+        { response, success },
+        true
+      ),
+    completed: (correct, total) =>
+      emit('completed', pageActivity, {
+        completion: true,
+        score: { raw: correct, min: 0, max: total, scaled: total > 0 ? correct / total : 0 },
+      }),
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Minimal XML reader and writer helpers for the interchange formats (QTI).
+ * React Native has no DOMParser, so documents are read into a plain element
+ * tree. Namespaces are not resolved: use `localName` to match element names.
+ * DTDs and their entities are ignored.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const decodeXmlEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+
+const OPEN_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const skipTo = (source: string, from: number, terminator: string) => {
+  const end = source.indexOf(terminator, from);
+  if (end === -1) {
+    throw new Error(`Unterminated markup at offset ${from}`);
+  }
+  return end + terminator.length;
+};
+
+/**
+ * Parse a document and return its root element. Throws on malformed markup.
+ */
+export const parseXml = (source: string): XmlElement => {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack = [document];
+  let index = 0;
+
+  const appendText = (text: string) => {
+    if (text) {
+      stack[stack.length - 1].children.push(text);
+    }
+  };
+
+  while (index < source.length) {
+    const open = source.indexOf('<', index);
+    if (open === -1) {
+      appendText(decodeXmlEntities(source.slice(index)));
+      break;
+    }
+    appendText(decodeXmlEntities(source.slice(index, open)));
+
+    if (source.startsWith('<!--', open)) {
+      index = skipTo(source, open, '-->');
+    } else if (source.startsWith('<![CDATA[', open)) {
+      index = skipTo(source, open, ']]>');
+      appendText(source.slice(open + 9, index - 3));
+    } else if (source.startsWith('<?', open)) {
+      index = skipTo(source, open, '?>');
+    } else if (source.startsWith('<!', open)) {
+      index = skipTo(source, open, '>');
+    } else if (source.startsWith('</', open)) {
+      index = skipTo(source, open, '>');
+      const name = source.slice(open + 2, index - 1).trim();
+      const current = stack.pop();
+      if (!current || current === document || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}> at offset ${open}`);
+      }
+    } else {
+      OPEN_TAG.lastIndex = open;
+      const match = OPEN_TAG.exec(source);
+      if (!match) {
+        throw new Error(`Malformed tag at offset ${open}`);
+      }
+
+      const attributes: Record<string, string> = {};
+      ATTRIBUTE.lastIndex = 0;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = ATTRIBUTE.exec(match[2]))) {
+        attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3]);
+      }
+      const element: XmlElement = { name: match[1], attributes, children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!match[3]) {
+        stack.push(element);
+      }
+      index = open + match[0].length;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  const root = document.children.find(isXmlElement);
+  if (!root) {
+    throw new Error('The document has no root element');
+  }
+  return root;
+};
+
+export const isXmlElement = (node: XmlNode): node is XmlElement => typeof node !== 'string';
+
+/** Element name without its namespace prefix */
+export const localName = (element: XmlElement): string => element.name.slice(element.name.indexOf(':') + 1);
+
+export const childElements = (element: XmlElement, name?: string): XmlElement[] =>
+  element.children.filter(isXmlElement).filter(child => !name || localName(child) === name);
+
+/** Every descendant element with this local name, in document order */
+export const findElements = (element: XmlElement, name: string): XmlElement[] =>
+  childElements(element).flatMap(child => [...(localName(child) === name ? [child] : []), ...findElements(child, name)]);
+
+export const findElement = (element: XmlElement, name: string): XmlElement | null => findElements(element, name)[0] ?? null;
+
+const rawText = (node: XmlNode): string => (typeof node === 'string' ? node : node.children.map(rawText).join(''));
+
+/** Text of an element and its descendants, with whitespace collapsed */
+export const textContent = (node: XmlNode): string => rawText(node).replace(/\s+/g, ' ').trim();
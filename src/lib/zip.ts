@@ -0,0 +1,112 @@
+/**
+ * Minimal ZIP writer (stored entries, no compression) for the export
+ * packages. Good enough for the few megabytes a course weighs, and readable
+ * by every LMS and unzip tool.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  path: string;
+  data: string | Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index++) {
+    crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Fixed DOS timestamp (1980-01-01), so the same content always gives the same archive */
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+/** General purpose flag: file names are UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+const encoder = new TextEncoder();
+
+const header = (size: number, write: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+/**
+ * Build a ZIP archive from the given entries, in order
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = header(30, view => {
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, UTF8_FLAG, true);
+      view.setUint16(8, 0, true);
+      view.setUint16(10, DOS_TIME, true);
+      view.setUint16(12, DOS_DATE, true);
+      view.setUint32(14, crc, true);
+      view.setUint32(18, data.length, true);
+      view.setUint32(22, data.length, true);
+      view.setUint16(26, name.length, true);
+      view.setUint16(28, 0, true);
+    });
+
+    central.push(
+      header(46, view => {
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(4, 20, true);
+        view.setUint16(6, 20, true);
+        view.setUint16(8, UTF8_FLAG, true);
+        view.setUint16(10, 0, true);
+        view.setUint16(12, DOS_TIME, true);
+        view.setUint16(14, DOS_DATE, true);
+        view.setUint32(16, crc, true);
+        view.setUint32(20, data.length, true);
+        view.setUint32(24, data.length, true);
+        view.setUint16(28, name.length, true);
+        view.setUint32(42, offset, true);
+      }),
+      name
+    );
+
+    chunks.push(local, name, data);
+    offset += local.length + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+  const end = header(22, view => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, entries.length, true);
+    view.setUint16(10, entries.length, true);
+    view.setUint32(12, centralSize, true);
+    view.setUint32(16, offset, true);
+  });
+
+  const archive = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  [...chunks, ...central, end].forEach(chunk => {
+    archive.set(chunk, position);
+    position += chunk.length;
+  });
+  return archive;
+};
@@ -15,6 +15,9 @@ import {
 import * as ImagePicker from 'expo-image-picker';
 import { MediaTypeOptions } from 'expo-image-picker';
 import { supabase } from '../lib/supabase';
+import { CourseService } from '../lib/courseService';
+import { repositories } from '../lib/repositories';
+import { PublishGate, PublishReport } from '../lib/publishGate';
 import { useAuth } from '../contexts/AuthContext';
 import { useFocusEffect } from '@react-navigation/native';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -66,6 +69,8 @@ export default function CourseEditScreen({ route, navigation }: any) {
   const [isSaving, setIsSaving] = useState(false);
   const [modules, setModules] = useState<Module[]>([]);
   const [imageLoadError, setImageLoadError] = useState<string | null>(null);
+  const [publishReport, setPublishReport] = useState<PublishReport | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
   
   // Course structure state
   const [showStructureForm, setShowStructureForm] = useState(false);
@@ -90,17 +95,13 @@ export default function CourseEditScreen({ route, navigation }: any) {
   const fetchCourseData = async () => {
     try {
       setIsLoading(true);
-      const { data, error } = await supabase
-        .from('courses')
-        .select('*')
-        .eq('id', courseId)
-        .single();
+      const { data, error } = await repositories.courses.get(courseId);
 
       if (error) throw error;
 
       if (data) {
         setTitle(data.title);
-        setDescription(data.description || '');
+        setDescription(data.description ?? '');
         setCoverImageUrl(data.cover_image_url);
         setImageLoadError(null);
         setPublished(data.published);
@@ -113,7 +114,7 @@ export default function CourseEditScreen({ route, navigation }: any) {
             pagesPerLesson: data.pages_per_lesson,
           });
         }
-        setStructureCreated(data.structure_created || false);
+        setStructureCreated(data.structure_created ?? false);
         
         await fetchModules();
       }
@@ -128,11 +129,7 @@ export default function CourseEditScreen({ route, navigation }: any) {
   const fetchModules = async () => {
     if (!courseId) return;
     try {
-      const { data, error } = await supabase
-        .from('modules')
-        .select('id, course_id, title, position')
-        .eq('course_id', courseId)
-        .order('position', { ascending: true });
+      const { data, error } = await repositories.modules.list(courseId);
 
       if (error) throw error;
       if (data) setModules(data);
@@ -214,44 +211,31 @@ export default function CourseEditScreen({ route, navigation }: any) {
         title: title.trim(),
         description: description.trim() || null,
         cover_image_url: coverImageUrl,
-        updated_at: new Date().toISOString(),
       };
 
       if (isNewCourse) {
-        // For new courses, include structure data
-        const newCourseData = {
-          ...courseData,
-          creator_id: userId,
-          published: false,
-          created_at: new Date().toISOString(),
-          modules_count: courseStructure.modulesCount,
-          lessons_per_module: courseStructure.lessonsPerModule,
-          pages_per_lesson: courseStructure.pagesPerLesson,
-          structure_created: false,
-        };
+        if (!userId) {
+          Alert.alert('Erro', 'Erro de autenticação.');
+          return;
+        }
 
-        const { data: insertedCourse, error } = await supabase
-          .from('courses')
-          .insert(newCourseData)
-          .select()
-          .single();
+        // Creates the course with all modules, lessons, pages and grains (or nothing on failure)
+        await CourseService.createWithStructure({
+          title: courseData.title,
+          description: courseData.description,
+          coverImageUrl: courseData.cover_image_url,
+          creatorId: userId,
+          structure: courseStructure,
+        });
+        setStructureCreated(true);
 
-        if (error) throw error;
-        
-        // Create the course structure
-        if (insertedCourse) {
-          await createCourseStructure(insertedCourse.id);
-        }
-        
         Alert.alert('Sucesso', 'Curso criado com sucesso');
         navigation.navigate('CourseList');
       } else {
-        const { error } = await supabase
-          .from('courses')
-          .update(courseData)
-          .eq('id', courseId);
+        const { error } = await repositories.courses.update(courseId, courseData);
 
         if (error) throw error;
+        CourseService.invalidateCourseTree(courseId);
         Alert.alert('Sucesso', 'Curso atualizado com sucesso');
         navigation.navigate('CourseList');
       }
@@ -274,15 +258,32 @@ export default function CourseEditScreen({ route, navigation }: any) {
 
     try {
       setIsSaving(true);
-      const newPublishState = !published;
-      const { error } = await supabase
-        .from('courses')
-        .update({ published: newPublishState, updated_at: new Date().toISOString() })
-        .eq('id', courseId);
 
-      if (error) throw error;
-      setPublished(newPublishState);
-      Alert.alert('Sucesso', `Curso ${newPublishState ? 'publicado' : 'despublicado'} com sucesso`);
+      // Unpublishing is never blocked
+      if (published) {
+        const { error } = await repositories.courses.update(courseId, { published: false });
+        if (error) {
+          throw error;
+        }
+        CourseService.invalidateCourseTree(courseId);
+        setPublished(false);
+        Alert.alert('Sucesso', 'Curso despublicado com sucesso');
+        return;
+      }
+
+      const outcome = await PublishGate.publish(courseId);
+      if (outcome.status === 'blocked') {
+        setPublishReport(outcome.report);
+        Alert.alert(
+          'Publicação bloqueada',
+          `O curso tem ${outcome.report.blocking.length} problema(s) por resolver. Consulte o relatório de publicação.`
+        );
+        return;
+      }
+
+      setPublishReport(null);
+      setPublished(true);
+      Alert.alert('Sucesso', `Curso publicado com sucesso (versão ${outcome.release.version})`);
     } catch (error) {
       Alert.alert('Erro', 'Falha ao atualizar estado de publicação');
     } finally {
@@ -290,101 +291,45 @@ export default function CourseEditScreen({ route, navigation }: any) {
     }
   };
 
-  const createModule = () => {
-    if (isNewCourse) {
-      Alert.alert('Aviso', 'Guarde o curso antes de criar módulos');
+  const overridePublish = async () => {
+    if (profile?.role !== 'admin') {
+      Alert.alert('Permissão negada', 'Apenas administradores podem publicar cursos com problemas');
+      return;
+    }
+    if (!overrideReason.trim()) {
+      Alert.alert('Aviso', 'Indique o motivo para publicar o curso com problemas');
       return;
     }
-    navigation.navigate('ModuleEdit', { courseId, moduleId: null });
-  };
 
-  const createCourseStructure = async (courseId: string) => {
     try {
-      // Create modules
-      const modules = [];
-      for (let moduleIndex = 1; moduleIndex <= courseStructure.modulesCount; moduleIndex++) {
-        const { data: moduleData, error: moduleError } = await supabase
-          .from('modules')
-          .insert({
-            course_id: courseId,
-            title: `Módulo ${moduleIndex}`,
-            position: moduleIndex,
-          })
-          .select()
-          .single();
-
-        if (moduleError) throw moduleError;
-        modules.push(moduleData);
-
-        // Create lessons for each module
-        const lessons = [];
-        for (let lessonIndex = 1; lessonIndex <= courseStructure.lessonsPerModule; lessonIndex++) {
-          const { data: lessonData, error: lessonError } = await supabase
-            .from('lessons')
-            .insert({
-              module_id: moduleData.id,
-              title: `Lição ${lessonIndex}`,
-              position: lessonIndex,
-            })
-            .select()
-            .single();
-
-          if (lessonError) throw lessonError;
-          lessons.push(lessonData);
-
-          // Create pages for each lesson
-          for (let pageIndex = 1; pageIndex <= courseStructure.pagesPerLesson; pageIndex++) {
-            const { data: pageData, error: pageError } = await supabase
-              .from('pages')
-              .insert({
-                lesson_id: lessonData.id,
-                title: `Página ${pageIndex}`,
-                position: pageIndex,
-                type: 'Introduction', // Default type
-              })
-              .select()
-              .single();
-
-            if (pageError) throw pageError;
-
-            // Create 15 grains for each page
-            const grains = [];
-            for (let grainIndex = 1; grainIndex <= 15; grainIndex++) {
-              grains.push({
-                page_id: pageData.id,
-                position: grainIndex,
-                type: 'textToComplete', // Default grain type
-                content: {
-                  text: '',
-                  options: [],
-                  correctAnswer: '',
-                },
-              });
-            }
-
-            const { error: grainsError } = await supabase
-              .from('grains')
-              .insert(grains);
-
-            if (grainsError) throw grainsError;
-          }
-        }
+      setIsSaving(true);
+      const outcome = await PublishGate.publish(courseId, { override: { reason: overrideReason } });
+      if (outcome.status === 'blocked') {
+        return;
       }
 
-      // Mark structure as created
-      const { error: updateError } = await supabase
-        .from('courses')
-        .update({ structure_created: true })
-        .eq('id', courseId);
-
-      if (updateError) throw updateError;
-      
-      setStructureCreated(true);
+      setPublishReport(null);
+      setOverrideReason('');
+      setPublished(true);
+      Alert.alert(
+        'Sucesso',
+        outcome.status === 'overridden'
+          ? `Curso publicado (versão ${outcome.release.version}). A publicação com problemas ficou registada.`
+          : `Curso publicado com sucesso (versão ${outcome.release.version})`
+      );
     } catch (error) {
-      console.error('Erro ao criar estrutura do curso:', error);
-      Alert.alert('Erro', 'Falha ao criar estrutura do curso');
-      throw error;
+      Alert.alert('Erro', 'Falha ao publicar o curso com problemas');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const createModule = () => {
+    if (isNewCourse) {
+      Alert.alert('Aviso', 'Guarde o curso antes de criar módulos');
+      return;
     }
+    navigation.navigate('ModuleEdit', { courseId, moduleId: null });
   };
 
   const editModule = (moduleId: string) => {
@@ -699,7 +644,65 @@ export default function CourseEditScreen({ route, navigation }: any) {
                   size="lg"
                 />
               )}
+
+              {!isNewCourse && (
+                <Button
+                  title="Versões Publicadas"
+                  onPress={() => navigation.navigate('CourseReleases', { courseId })}
+                  variant="ghost"
+                  icon="history"
+                  size="lg"
+                />
+              )}
             </View>
+
+            {publishReport && !published && (
+              <View style={styles.publishReport}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Relatório de publicação</Text>
+                  <Badge text={`${publishReport.blocking.length} problemas`} variant="error" />
+                </View>
+
+                {publishReport.steps.map(step => (
+                  <View key={step.id} style={styles.publishStep}>
+                    <View style={styles.publishStepHeader}>
+                      <MaterialIcons
+                        name={step.passed ? 'check-circle' : 'cancel'}
+                        size={18}
+                        color={step.passed ? COLORS.success : COLORS.error}
+                      />
+                      <Text style={styles.publishStepLabel}>{step.label}</Text>
+                    </View>
+                    {step.issues.slice(0, 5).map(issue => (
+                      <Text key={issue.id} style={styles.publishIssue}>• {issue.message}</Text>
+                    ))}
+                    {step.issues.length > 5 && (
+                      <Text style={styles.publishIssue}>… e mais {step.issues.length - 5}</Text>
+                    )}
+                  </View>
+                ))}
+
+                {profile?.role === 'admin' && (
+                  <View style={styles.publishOverride}>
+                    <Input
+                      label="Motivo para publicar mesmo assim"
+                      placeholder="Ex.: correções de media agendadas para amanhã"
+                      value={overrideReason}
+                      onChangeText={setOverrideReason}
+                      multiline
+                      numberOfLines={2}
+                    />
+                    <Button
+                      title="Publicar com problemas"
+                      onPress={overridePublish}
+                      variant="error"
+                      icon="gpp-maybe"
+                      disabled={isSaving || !overrideReason.trim()}
+                    />
+                  </View>
+                )}
+              </View>
+            )}
           </Card>
         )}
       </ScrollView>
@@ -756,6 +759,31 @@ const styles = StyleSheet.create({
     gap: SPACING.md,
     marginTop: SPACING.lg,
   },
+  publishReport: {
+    marginTop: SPACING.lg,
+    gap: SPACING.md,
+  },
+  publishStep: {
+    gap: SPACING.xs,
+  },
+  publishStepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  publishStepLabel: {
+    fontSize: TYPOGRAPHY.fontSize.base,
+    fontWeight: TYPOGRAPHY.fontWeight.semibold,
+    color: COLORS.gray900,
+  },
+  publishIssue: {
+    fontSize: TYPOGRAPHY.fontSize.sm,
+    color: COLORS.gray600,
+    marginLeft: SPACING.lg,
+  },
+  publishOverride: {
+    gap: SPACING.sm,
+  },
   imageSection: {
     gap: SPACING.md,
   },
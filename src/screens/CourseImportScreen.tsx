@@ -0,0 +1,448 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { NavigationProp, useNavigation, useRoute } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { supabase } from '../lib/supabase';
+import { CourseService } from '../lib/courseService';
+import {
+  CourseImportPlan,
+  ImportActionKind,
+  ImportIssue,
+  ImportMediaFiles,
+  importCoursePackage,
+  matchMediaFiles,
+  parseCoursePackage,
+  planCourseImport,
+} from '../lib/courseImport';
+import { buildQtiCoursePackage, parseQtiFiles } from '../lib/qti';
+import { buildMarkdownCoursePackage, MarkdownLesson, parseLessonMarkdown } from '../lib/lessonMarkdown';
+import { CoursePackage, CoursePackageMedia, CourseTree, RootStackParamList } from '../types';
+import { COLORS, TYPOGRAPHY, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
+import { useAuth } from '../contexts/AuthContext';
+
+const ACTION_STYLES: Record<ImportActionKind, { icon: keyof typeof MaterialIcons.glyphMap; color: string; label: string }> = {
+  create: { icon: 'add-circle-outline', color: COLORS.success, label: 'Criar' },
+  merge: { icon: 'call-merge', color: COLORS.primary, label: 'Juntar a' },
+  replace: { icon: 'swap-horiz', color: COLORS.warning, label: 'Substituir' },
+};
+
+/**
+ * Import a course package: pick the package file (and its bundled media),
+ * preview what will be created or replaced, then import it as a new course
+ * or into the course given in the route. QTI 2.1 item files or Markdown
+ * lessons (and their media) can be picked instead of a package.
+ */
+const CourseImportScreen: React.FC = () => {
+  const route = useRoute();
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const { courseId } = (route.params ?? {}) as { courseId?: string };
+  const { session } = useAuth();
+  const userId = session?.user?.id ?? null;
+
+  const [target, setTarget] = useState<CourseTree | null>(null);
+  const [mergeIntoTarget, setMergeIntoTarget] = useState(Boolean(courseId));
+  const [coursePackage, setCoursePackage] = useState<CoursePackage | null>(null);
+  const [parseErrors, setParseErrors] = useState<ImportIssue[]>([]);
+  /** QTI items left out, or null when a package was picked */
+  const [qtiSkipped, setQtiSkipped] = useState<ImportIssue[] | null>(null);
+  /** Whether the package was built from Markdown lessons */
+  const [fromMarkdown, setFromMarkdown] = useState(false);
+  const [mediaFiles, setMediaFiles] = useState<Record<string, string>>({});
+  /** Bundled media whose file name is shared with another folder, left unmatched */
+  const [ambiguousMedia, setAmbiguousMedia] = useState<CoursePackageMedia[]>([]);
+  const [isPicking, setIsPicking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (!courseId) {
+      return;
+    }
+    CourseService.loadCourseTree(courseId)
+      .then(setTarget)
+      .catch(error => {
+        console.error('Error loading import target:', error);
+        Alert.alert('Erro', 'Não foi possível carregar o curso de destino.');
+      });
+  }, [courseId]);
+
+  const plan: CourseImportPlan | null = coursePackage
+    ? planCourseImport(coursePackage, {
+        target: mergeIntoTarget && target ? target : undefined,
+        mediaFiles: Object.keys(mediaFiles),
+      })
+    : null;
+
+  const handlePickFiles = async () => {
+    setIsPicking(true);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ multiple: true, copyToCacheDirectory: true });
+      if (result.canceled) {
+        return;
+      }
+
+      const packageAsset = result.assets.find(asset => asset.name.endsWith('.json'));
+      const qtiAssets = result.assets.filter(asset => asset.name.toLowerCase().endsWith('.xml'));
+      const markdownAssets = result.assets.filter(asset => asset.name.toLowerCase().endsWith('.md'));
+      let picked: CoursePackage | null;
+      setFromMarkdown(false);
+
+      if (packageAsset) {
+        const parsed = parseCoursePackage(await (await fetch(packageAsset.uri)).text());
+        picked = parsed.coursePackage;
+        setParseErrors(parsed.errors);
+        setQtiSkipped(null);
+      } else if (qtiAssets.length > 0) {
+        const files = await Promise.all(
+          qtiAssets.map(async asset => ({ name: asset.name, text: await (await fetch(asset.uri)).text() }))
+        );
+        const { items, skipped } = parseQtiFiles(files);
+        picked = items.length > 0 ? buildQtiCoursePackage(items) : null;
+        setParseErrors(items.length > 0 ? [] : [{ path: 'QTI', message: 'Nenhum dos ficheiros tem itens importáveis.' }]);
+        setQtiSkipped(skipped);
+      } else if (markdownAssets.length > 0) {
+        const lessons: MarkdownLesson[] = [];
+        const errors: ImportIssue[] = [];
+        for (const asset of markdownAssets) {
+          const parsed = parseLessonMarkdown(await (await fetch(asset.uri)).text());
+          if (parsed.lesson) {
+            lessons.push(parsed.lesson);
+          }
+          parsed.errors.forEach(issue => errors.push({ path: `${asset.name}, linha ${issue.line}`, message: issue.message }));
+        }
+        // A lesson with errors is not imported, so none are until they are fixed
+        picked = errors.length === 0 ? buildMarkdownCoursePackage(lessons) : null;
+        setParseErrors(errors);
+        setQtiSkipped(null);
+        setFromMarkdown(true);
+      } else {
+        Alert.alert(
+          'Ficheiro em falta',
+          'Selecione o ficheiro .json do pacote (e, opcionalmente, a sua media), itens QTI 2.1 (.xml) ou lições em Markdown (.md).'
+        );
+        return;
+      }
+      setCoursePackage(picked);
+
+      // Bundled media are matched to the manifest by file name
+      const assetsByName = new Map(result.assets.map(asset => [asset.name, asset.uri]));
+      const { matched, ambiguous } = matchMediaFiles(picked?.media ?? [], [...assetsByName.keys()]);
+      const found: Record<string, string> = {};
+      Object.entries(matched).forEach(([file, name]) => {
+        found[file] = assetsByName.get(name) as string;
+      });
+      setMediaFiles(found);
+      setAmbiguousMedia(ambiguous);
+    } catch (error) {
+      console.error('Error reading course package:', error);
+      Alert.alert('Erro', 'Não foi possível ler os ficheiros selecionados.');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan || !userId) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const files: ImportMediaFiles = {};
+      for (const media of plan.media.upload) {
+        const file = media.file as string;
+        files[file] = await (await fetch(mediaFiles[file])).blob();
+      }
+
+      const result = await importCoursePackage(supabase, plan, userId, files);
+      CourseService.invalidateCourseTree(result.courseId);
+
+      Alert.alert(
+        'Sucesso',
+        `Importados ${result.counts.modules} módulos, ${result.counts.lessons} lições, ${result.counts.pages} páginas e ${result.counts.grains} grãos.`
+      );
+      navigation.navigate('CourseBuilder', { courseId: result.courseId, refresh: true });
+    } catch (error) {
+      console.error('Error importing course package:', error);
+      Alert.alert('Erro', 'Não foi possível importar o curso. Nenhuma alteração foi guardada.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderIssues = (issues: ImportIssue[]) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: COLORS.danger }]}>
+        {issues.length} erro(s) de validação — a importação está bloqueada
+      </Text>
+      {issues.map((issue, index) => (
+        <View key={`${issue.path}:${index}`} style={styles.row}>
+          <MaterialIcons name="error-outline" size={16} color={COLORS.danger} />
+          <View style={styles.rowBody}>
+            <Text style={styles.rowLabel}>{issue.path}</Text>
+            <Text style={styles.rowDetail}>{issue.message}</Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderSkipped = (issues: ImportIssue[]) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: COLORS.warning }]}>
+        {issues.length} ficheiro(s) QTI não importado(s)
+      </Text>
+      {issues.map((issue, index) => (
+        <View key={`${issue.path}:${index}`} style={styles.row}>
+          <MaterialIcons name="warning-amber" size={16} color={COLORS.warning} />
+          <View style={styles.rowBody}>
+            <Text style={styles.rowLabel}>{issue.path}</Text>
+            <Text style={styles.rowDetail}>{issue.message}</Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderPreview = (preview: CourseImportPlan) => (
+    <>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Pré-visualização</Text>
+        <Text style={styles.rowDetail}>
+          Serão criados {preview.counts.modules} módulos, {preview.counts.lessons} lições, {preview.counts.pages} páginas e{' '}
+          {preview.counts.grains} grãos.
+        </Text>
+        {preview.actions.map((action, index) => (
+          <View key={`${action.level}:${index}`} style={styles.row}>
+            <MaterialIcons name={ACTION_STYLES[action.kind].icon} size={16} color={ACTION_STYLES[action.kind].color} />
+            <Text style={styles.rowLabel}>
+              {ACTION_STYLES[action.kind].label} {action.level === 'course' ? 'curso' : action.level === 'module' ? 'módulo' : 'lição'}:{' '}
+              {action.label}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Media</Text>
+        <Text style={styles.rowDetail}>{preview.media.upload.length} ficheiro(s) a carregar para o curso.</Text>
+        {preview.media.kept.length > 0 && (
+          <Text style={styles.rowDetail}>
+            {preview.media.kept.length} ficheiro(s) não incluídos: o conteúdo continua a apontar para o endereço original.
+          </Text>
+        )}
+        {ambiguousMedia.map(media => (
+          <View key={media.path} style={styles.row}>
+            <MaterialIcons name="warning-amber" size={16} color={COLORS.warning} />
+            <View style={styles.rowBody}>
+              <Text style={styles.rowLabel}>{media.file}</Text>
+              <Text style={styles.rowDetail}>
+                Outro ficheiro da media tem o mesmo nome noutra pasta; este não foi carregado e mantém o endereço original.
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+
+      {preview.errors.length > 0 && renderIssues(preview.errors)}
+    </>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.panel}>
+        <View style={styles.panelHead}>
+          <Text style={styles.panelTitle}>Pacote de curso</Text>
+          <TouchableOpacity style={[styles.btn, isPicking && styles.btnDisabled]} onPress={handlePickFiles} disabled={isPicking}>
+            <MaterialIcons name="folder-open" size={16} color={COLORS.primary} />
+            <Text style={styles.btnText}>{isPicking ? 'A ler…' : 'Escolher ficheiros'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {courseId && (
+          <View style={styles.modes}>
+            <TouchableOpacity
+              style={[styles.mode, !mergeIntoTarget && styles.modeActive]}
+              onPress={() => setMergeIntoTarget(false)}
+            >
+              <Text style={styles.modeText}>Novo curso</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.mode, mergeIntoTarget && styles.modeActive]}
+              onPress={() => setMergeIntoTarget(true)}
+            >
+              <Text style={styles.modeText}>Juntar a “{target?.title ?? '…'}”</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {!coursePackage && parseErrors.length === 0 && (
+          <Text style={styles.emptyText}>
+            Selecione o ficheiro .galeguia.json exportado e, se existir, os ficheiros da pasta media — ou itens QTI 2.1
+            (.xml) ou lições em Markdown (.md), e a sua media.
+          </Text>
+        )}
+        {parseErrors.length > 0 && !coursePackage && renderIssues(parseErrors)}
+        {coursePackage && (
+          <Text style={styles.packageInfo}>
+            {qtiSkipped
+              ? `${coursePackage.course.title} · itens QTI 2.1`
+              : fromMarkdown
+              ? `${coursePackage.course.title} · lições em Markdown`
+              : `${coursePackage.course.title} · exportado em ${new Date(coursePackage.exported_at).toLocaleString('pt-PT')}`}
+          </Text>
+        )}
+        {qtiSkipped && qtiSkipped.length > 0 && renderSkipped(qtiSkipped)}
+        {plan && renderPreview(plan)}
+      </View>
+
+      {plan && (
+        <TouchableOpacity
+          style={[styles.btnPrimary, (plan.errors.length > 0 || isImporting || (mergeIntoTarget && !target)) && styles.btnDisabled]}
+          onPress={handleImport}
+          disabled={plan.errors.length > 0 || isImporting || (mergeIntoTarget && !target)}
+        >
+          {isImporting ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.btnPrimaryText}>Importar</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.bg,
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  panel: {
+    backgroundColor: COLORS.bg2,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.xl,
+    ...SHADOWS.sm,
+    overflow: 'hidden',
+  },
+  panelHead: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.line,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  panelTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  emptyText: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.muted,
+    textAlign: 'center',
+    padding: 16,
+  },
+  packageInfo: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    paddingHorizontal: 12,
+    paddingTop: 12,
+  },
+  modes: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 12,
+  },
+  mode: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  modeActive: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary + '10',
+  },
+  modeText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  section: {
+    padding: 12,
+    gap: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.line,
+  },
+  rowBody: {
+    flex: 1,
+    gap: 2,
+  },
+  rowLabel: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: COLORS.muted,
+  },
+  btn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  btnDisabled: {
+    opacity: 0.6,
+  },
+  btnText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.primary,
+  },
+  btnPrimary: {
+    alignSelf: 'flex-end',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.primary,
+  },
+  btnPrimaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
+
+export default CourseImportScreen;
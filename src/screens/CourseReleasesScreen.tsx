@@ -0,0 +1,384 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Alert,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import { useRoute } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { CourseReleaseSummary, repositories } from '../lib/repositories';
+import { diffCourseSnapshots, ReleaseChangeKind, ReleaseDiff } from '../lib/courseReleases';
+import { COLORS, TYPOGRAPHY, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
+import { useAuth } from '../contexts/AuthContext';
+
+const CHANGE_STYLES: Record<ReleaseChangeKind, { icon: keyof typeof MaterialIcons.glyphMap; color: string; label: string }> = {
+  added: { icon: 'add-circle-outline', color: COLORS.success, label: 'Adicionado' },
+  removed: { icon: 'remove-circle-outline', color: COLORS.danger, label: 'Removido' },
+  changed: { icon: 'edit', color: COLORS.primary, label: 'Alterado' },
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString('pt-PT');
+
+/**
+ * Published releases of a course: what changed in each one compared to the
+ * previous release, and rollback to an earlier release (admins only).
+ */
+const CourseReleasesScreen: React.FC = () => {
+  const route = useRoute();
+  const { courseId } = route.params as { courseId: string };
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+
+  const [releases, setReleases] = useState<CourseReleaseSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<ReleaseDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingDiff, setIsLoadingDiff] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const loadReleases = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await repositories.courseReleases.list(courseId);
+
+      if (error) {
+        throw error;
+      }
+      setReleases(data ?? []);
+      setSelectedId(current => current ?? data?.[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading course releases:', error);
+      Alert.alert('Erro', 'Não foi possível carregar as versões publicadas.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    loadReleases();
+  }, [loadReleases]);
+
+  // Diff of the selected release against the one published before it
+  useEffect(() => {
+    const index = releases.findIndex(release => release.id === selectedId);
+    if (index === -1) {
+      setDiff(null);
+      return;
+    }
+
+    const previous = releases[index + 1];
+    let cancelled = false;
+
+    const loadDiff = async () => {
+      setIsLoadingDiff(true);
+      try {
+        const [selected, before] = await Promise.all([
+          repositories.courseReleases.get(releases[index].id),
+          previous ? repositories.courseReleases.get(previous.id) : Promise.resolve(null),
+        ]);
+
+        if (!selected.data) {
+          throw selected.error;
+        }
+        if (before && !before.data) {
+          throw before.error;
+        }
+        if (!cancelled) {
+          setDiff(diffCourseSnapshots(before?.data?.snapshot ?? null, selected.data.snapshot));
+        }
+      } catch (error) {
+        console.error('Error comparing course releases:', error);
+        if (!cancelled) {
+          setDiff(null);
+          Alert.alert('Erro', 'Não foi possível comparar as versões.');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoadingDiff(false);
+        }
+      }
+    };
+
+    loadDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [releases, selectedId]);
+
+  const handleRollback = (release: CourseReleaseSummary) => {
+    Alert.alert(
+      'Repor versão',
+      `A versão ${release.version} volta a ser a versão vista pelos alunos, publicada como uma nova versão. O rascunho não é alterado.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Repor',
+          style: 'destructive',
+          onPress: async () => {
+            setIsRollingBack(true);
+            const { data, error } = await repositories.courseReleases.rollback(courseId, release.id);
+            setIsRollingBack(false);
+
+            if (!data) {
+              console.error('Error rolling back course release:', error);
+              Alert.alert('Erro', 'Não foi possível repor a versão.');
+              return;
+            }
+            setSelectedId(data.release_id);
+            await loadReleases();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderReleaseList = () => (
+    <View style={styles.panel}>
+      <View style={styles.panelHead}>
+        <Text style={styles.panelTitle}>Versões publicadas</Text>
+      </View>
+      <ScrollView style={styles.list}>
+        {releases.length === 0 && (
+          <Text style={styles.emptyText}>O curso ainda não foi publicado.</Text>
+        )}
+        {releases.map((release, index) => (
+          <TouchableOpacity
+            key={release.id}
+            style={[styles.releaseCard, release.id === selectedId && styles.releaseCardSelected]}
+            onPress={() => setSelectedId(release.id)}
+          >
+            <View style={styles.releaseHeader}>
+              <Text style={styles.releaseVersion}>Versão {release.version}</Text>
+              {index === 0 && <Text style={styles.liveBadge}>Em produção</Text>}
+            </View>
+            <Text style={styles.releaseMeta}>{formatDate(release.created_at)}</Text>
+            {release.notes && <Text style={styles.releaseNotes}>{release.notes}</Text>}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
+  const renderDiff = () => {
+    const index = releases.findIndex(release => release.id === selectedId);
+    const release = releases[index];
+
+    if (!release) {
+      return (
+        <View style={styles.panel}>
+          <Text style={styles.emptyText}>Selecione uma versão.</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.panel}>
+        <View style={styles.panelHead}>
+          <Text style={styles.panelTitle}>
+            {releases[index + 1]
+              ? `Alterações desde a versão ${releases[index + 1].version}`
+              : 'Conteúdo da primeira versão'}
+          </Text>
+          {isAdmin && index > 0 && (
+            <TouchableOpacity
+              style={[styles.btn, isRollingBack && styles.btnDisabled]}
+              onPress={() => handleRollback(release)}
+              disabled={isRollingBack}
+            >
+              <MaterialIcons name="history" size={16} color={COLORS.primary} />
+              <Text style={styles.btnText}>{isRollingBack ? 'A repor…' : 'Repor esta versão'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isLoadingDiff || !diff ? (
+          <ActivityIndicator style={styles.loader} color={COLORS.primary} />
+        ) : (
+          <ScrollView style={styles.list}>
+            <View style={styles.counts}>
+              {(Object.keys(CHANGE_STYLES) as ReleaseChangeKind[]).map(kind => (
+                <Text key={kind} style={[styles.countText, { color: CHANGE_STYLES[kind].color }]}>
+                  {diff.counts[kind]} {CHANGE_STYLES[kind].label.toLowerCase()}(s)
+                </Text>
+              ))}
+            </View>
+            {diff.changes.length === 0 && (
+              <Text style={styles.emptyText}>Sem alterações em relação à versão anterior.</Text>
+            )}
+            {diff.changes.map(change => (
+              <View key={`${change.kind}:${change.id}`} style={styles.change}>
+                <MaterialIcons name={CHANGE_STYLES[change.kind].icon} size={16} color={CHANGE_STYLES[change.kind].color} />
+                <View style={styles.changeBody}>
+                  <Text style={styles.changeLabel}>{change.label}</Text>
+                  {change.fields.length > 0 && (
+                    <Text style={styles.changeFields}>{change.fields.join(', ')}</Text>
+                  )}
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  const { width } = Dimensions.get('window');
+  const isLargeScreen = width >= 1200;
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.content, !isLargeScreen && styles.contentSmall]}>
+      {renderReleaseList()}
+      {renderDiff()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 16,
+    padding: 16,
+    backgroundColor: COLORS.bg,
+  },
+  contentSmall: {
+    flexDirection: 'column',
+  },
+  panel: {
+    backgroundColor: COLORS.bg2,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.xl,
+    ...SHADOWS.sm,
+    overflow: 'hidden',
+    flex: 1,
+  },
+  panelHead: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.line,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  panelTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  list: {
+    padding: 12,
+  },
+  loader: {
+    padding: 24,
+  },
+  emptyText: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.muted,
+    textAlign: 'center',
+    padding: 16,
+  },
+  releaseCard: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.bg2,
+    marginBottom: 8,
+    gap: 4,
+  },
+  releaseCardSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary + '10',
+  },
+  releaseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  releaseVersion: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  liveBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: COLORS.success,
+  },
+  releaseMeta: {
+    fontSize: 12,
+    color: COLORS.muted,
+  },
+  releaseNotes: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  btn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  btnDisabled: {
+    opacity: 0.6,
+  },
+  btnText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: COLORS.primary,
+  },
+  counts: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  change: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.line,
+  },
+  changeBody: {
+    flex: 1,
+    gap: 2,
+  },
+  changeLabel: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  changeFields: {
+    fontSize: 12,
+    color: COLORS.muted,
+  },
+});
+
+export default CourseReleasesScreen;
@@ -23,42 +23,70 @@ import {
   Alert,
   Platform,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import * as ImagePicker from 'expo-image-picker';
 import { Audio } from 'expo-av';
 import { supabase } from '../lib/supabase';
+import { CourseService } from '../lib/courseService';
+import { repositories } from '../lib/repositories';
+import { getAllowedGrainTypes, getPageTypeDefinition, isGrainTypeAllowed } from '../lib/pageTypes';
+import { ALL_GRAIN_TYPES, getGrainTypeLabel } from '../lib/grainTypes';
+import {
+  AUDIO_TO_TYPE_MAX_DISTANCE,
+  AUDIO_TO_TYPE_MAX_SPELLINGS,
+  CHOICE_MAX_DISTRACTORS,
+  CHOICE_MAX_EXTRA_CORRECT,
+  CLOZE_MAX_BLANK_ITEMS,
+  CLOZE_MAX_BLANKS,
+  formatGrainContentErrors,
+  ORDER_WORDS_MAX_ACCEPTED_ORDERS,
+  ORDER_WORDS_MAX_DISTRACTORS,
+  TRUE_FALSE_MAX_STATEMENTS,
+  TRUE_FALSE_MIN_STATEMENTS,
+  validateGrainContent,
+} from '../lib/grainValidation';
+import { getOrderWordsIssues, splitOrderWords } from '../lib/orderWords';
+import { clozeMarker, getClozeIssues, splitClozePassage } from '../lib/cloze';
+import { getChoiceIssues } from '../lib/choices';
+import { getTrueFalseIssues } from '../lib/trueFalse';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
 import { Card, Button, Input, Badge, IconButton, EmptyState } from '../components/UIComponents';
 
 // Define grain types and their content structures
-export type GrainType = 'textToComplete' | 'testQuestion' | 'imagesToGuess' | 'textToGuess' | 'audioToGuess' | 'pairsOfText' | 'pairsOfImage';
+export type GrainType = 'textToComplete' | 'testQuestion' | 'imagesToGuess' | 'textToGuess' | 'audioToGuess' | 'pairsOfText' | 'pairsOfImage' | 'orderWords' | 'audioToType' | 'cloze' | 'trueFalse';
 
 export interface GrainContent {
   textToComplete: {
     phrase: string; // 100-200 characters with placeholders like [BLANK]
     correctAnswer: string;
-    falseAlternatives: [string, string, string];
+    falseAlternatives: string[]; // 1-7 wrong options
+    extraCorrectAnswers: string[]; // other right options (select all that apply)
   };
   testQuestion: {
     question: string;
     correctAnswer: string;
-    falseAlternatives: [string, string, string];
+    falseAlternatives: string[]; // 1-7 wrong options
+    extraCorrectAnswers: string[]; // other right options (select all that apply)
   };
   imagesToGuess: {
     correctImageUrl: string;
-    falseImageUrls: [string, string, string];
+    falseImageUrls: string[]; // 1-7 wrong images
     correctWord: string;
+    extraCorrectImageUrls: string[]; // other right images (select all that apply)
   };
   textToGuess: {
     imageUrl: string; // 1 image to show
     correctAnswer: string; // correct word to choose
-    falseAlternatives: [string, string, string]; // 3 wrong words
+    falseAlternatives: string[]; // 1-7 wrong words
+    extraCorrectAnswers: string[]; // other right words (select all that apply)
   };
   audioToGuess: {
     correctWord: string; // word to display
     correctAudioUrl: string; // correct audio for the word
-    falseAudioUrls: [string, string, string]; // 3 wrong audio files
+    falseAudioUrls: string[]; // 1-7 wrong audio files
+    extraCorrectAudioUrls: string[]; // other right audio files (select all that apply)
   };
   pairsOfText: {
     pairs: Array<{ left: string; right: string }>; // 4-6 pairs to match
@@ -66,8 +94,57 @@ export interface GrainContent {
   pairsOfImage: {
     pairs: Array<{ imageUrl: string; text: string }>; // 4-6 pairs to match
   };
+  orderWords: {
+    sentence: string; // sentence to build from word tiles
+    distractors: string[]; // 0-6 extra words
+    acceptedOrders: string[]; // 0-5 other correct orders
+  };
+  audioToType: {
+    audioUrl: string; // clip to transcribe
+    correctAnswer: string;
+    acceptedSpellings: string[]; // 0-5 other correct spellings
+    ignoreCase: boolean;
+    ignorePunctuation: boolean;
+    ignoreAccents: boolean;
+    maxDistance: number; // typos allowed (0-3)
+  };
+  cloze: {
+    passage: string; // text with [BLANK:n] markers
+    mode: 'typing' | 'dropdown';
+    blanks: Array<{ answers: string[]; options: string[] }>; // blank n is blanks[n - 1]
+  };
+  trueFalse: {
+    statements: Array<{ text: string; isTrue: boolean; explanation: string }>; // 3-8 statements
+  };
 }
 
+/** Dictation tolerance options shown as switches */
+const TOLERANCE_SWITCHES: { key: 'ignoreCase' | 'ignorePunctuation' | 'ignoreAccents'; label: string }[] = [
+  { key: 'ignoreCase', label: 'Ignorar maiúsculas e minúsculas' },
+  { key: 'ignorePunctuation', label: 'Ignorar pontuação' },
+  { key: 'ignoreAccents', label: 'Aceitar sem acentos (cafe = café)' },
+];
+
+type TextChoiceContent = { falseAlternatives: string[]; extraCorrectAnswers: string[] };
+
+/** Grains saved without extra correct answers edit them as an empty list */
+const withExtraCorrectAnswers = <T extends { extraCorrectAnswers?: string[] }>(content: T) => ({
+  ...content,
+  extraCorrectAnswers: content.extraCorrectAnswers ?? [],
+});
+
+const filledItems = (values: string[]) => values.map(value => value.trim()).filter(Boolean);
+
+/** Empty option rows are left out, and the extra correct answers when there are none */
+const textChoiceToSave = <T extends TextChoiceContent>({ extraCorrectAnswers, ...content }: T) => {
+  const extra = filledItems(extraCorrectAnswers);
+  return {
+    ...content,
+    falseAlternatives: filledItems(content.falseAlternatives),
+    ...(extra.length > 0 ? { extraCorrectAnswers: extra } : {}),
+  };
+};
+
 type RootStackParamList = {
   PageEdit: { lessonId: string; pageId?: string | null; refresh?: boolean };
   GrainEdit: { 
@@ -101,48 +178,82 @@ const GrainEditScreen = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
+  const [pageInfo, setPageInfo] = useState<{ type: string; grain_pattern: string[] | null } | null>(null);
+
+  // Rules come from the page type registry; the route params only cover the time before the page loads
+  const enforcementPageType = pageInfo?.type ?? pageType ?? 'text';
+  const pageTypeLabel = getPageTypeDefinition(enforcementPageType).label;
+  const allowedGrainTypes = getAllowedGrainTypes(enforcementPageType, position, pageInfo?.grain_pattern);
+  const requiredGrainType = allowedGrainTypes.length === 1 ? allowedGrainTypes[0] : null;
+  const allowedGrainTypesLabel = allowedGrainTypes.map(getGrainTypeLabel).join(' ou ');
+
   // Show warning if grain type is enforced
-  const isGrainTypeEnforced = expectedGrainType && pageType && pageType !== 'text';
-  const canChangeGrainType = !isGrainTypeEnforced;
+  const isGrainTypeEnforced = allowedGrainTypes.length < ALL_GRAIN_TYPES.length;
+  const canChangeGrainType = requiredGrainType === null;
+
+  useEffect(() => {
+    const loadPageInfo = async () => {
+      if (!pageId) {
+        return;
+      }
+      const { data } = await repositories.pages.get(pageId);
+      if (data) {
+        setPageInfo({ type: data.type, grain_pattern: data.grain_pattern });
+      }
+    };
+    loadPageInfo();
+  }, [pageId]);
+
+  // New grains start with the type their position requires
+  useEffect(() => {
+    if (!grainId && requiredGrainType && grainType !== requiredGrainType) {
+      setGrainType(requiredGrainType);
+    }
+  }, [grainId, requiredGrainType, grainType]);
 
   // Debug log for enforcement
   useEffect(() => {
     if (isGrainTypeEnforced) {
-      console.log(`🔒 Grain type enforcement active: Position ${position} must be "${expectedGrainType}" for page type "${pageType}"`);
+      console.log(`🔒 Grain type enforcement active: Position ${position} must be "${allowedGrainTypesLabel}" for page type "${enforcementPageType}"`);
     } else {
-      console.log(`🔓 Grain type enforcement disabled: Position ${position}, page type "${pageType}"`);
+      console.log(`🔓 Grain type enforcement disabled: Position ${position}, page type "${enforcementPageType}"`);
     }
-  }, [isGrainTypeEnforced, position, expectedGrainType, pageType]);
+  }, [isGrainTypeEnforced, position, enforcementPageType, allowedGrainTypesLabel]);
 
   // Content states for different grain types
   const [textToCompleteContent, setTextToCompleteContent] = useState({
     phrase: '',
     correctAnswer: '',
-    falseAlternatives: ['', '', ''] as [string, string, string],
+    falseAlternatives: ['', '', ''],
+    extraCorrectAnswers: [] as string[],
   });
 
   const [testQuestionContent, setTestQuestionContent] = useState({
     question: '',
     correctAnswer: '',
-    falseAlternatives: ['', '', ''] as [string, string, string],
+    falseAlternatives: ['', '', ''],
+    extraCorrectAnswers: [] as string[],
   });
 
   const [imagesToGuessContent, setImagesToGuessContent] = useState({
     correctImageUrl: '',
-    falseImageUrls: ['', '', ''] as [string, string, string],
+    falseImageUrls: ['', '', ''],
+    extraCorrectImageUrls: [] as string[],
     correctWord: '',
   });
 
   const [textToGuessContent, setTextToGuessContent] = useState({
     imageUrl: '',
     correctAnswer: '',
-    falseAlternatives: ['', '', ''] as [string, string, string],
+    falseAlternatives: ['', '', ''],
+    extraCorrectAnswers: [] as string[],
   });
 
   const [audioToGuessContent, setAudioToGuessContent] = useState({
     correctWord: '',
     correctAudioUrl: '',
-    falseAudioUrls: ['', '', ''] as [string, string, string],
+    falseAudioUrls: ['', '', ''],
+    extraCorrectAudioUrls: [] as string[],
   });
 
   const [pairsOfTextContent, setPairsOfTextContent] = useState({
@@ -163,6 +274,32 @@ const GrainEditScreen = () => {
     ],
   });
 
+  const [orderWordsContent, setOrderWordsContent] = useState<GrainContent['orderWords']>({
+    sentence: '',
+    distractors: [],
+    acceptedOrders: [],
+  });
+
+  const [audioToTypeContent, setAudioToTypeContent] = useState<GrainContent['audioToType']>({
+    audioUrl: '',
+    correctAnswer: '',
+    acceptedSpellings: [],
+    ignoreCase: true,
+    ignorePunctuation: true,
+    ignoreAccents: false,
+    maxDistance: 0,
+  });
+
+  const [clozeContent, setClozeContent] = useState<GrainContent['cloze']>({
+    passage: '',
+    mode: 'typing',
+    blanks: [],
+  });
+
+  const [trueFalseContent, setTrueFalseContent] = useState<GrainContent['trueFalse']>({
+    statements: Array.from({ length: TRUE_FALSE_MIN_STATEMENTS }, () => ({ text: '', isTrue: true, explanation: '' })),
+  });
+
   useEffect(() => {
     if (grainId) {
       loadGrainData();
@@ -173,20 +310,13 @@ const GrainEditScreen = () => {
 
   const fetchNextGrainPosition = async () => {
     try {
-      const { data, error } = await supabase
-        .from('grains')
-        .select('position')
-        .eq('page_id', pageId)
-        .order('position', { ascending: false })
-        .limit(1);
-
-      if (error && error.code !== 'PGRST116') {
+      const { data, error } = await repositories.grains.nextPosition(pageId);
+
+      if (error) {
         console.error('Error fetching next grain position:', error);
         setPosition(1);
-      } else if (data && data.length > 0) {
-        setPosition(data[0].position + 1);
       } else {
-        setPosition(1);
+        setPosition(data ?? 1);
       }
     } catch (error) {
       console.error('Error fetching next grain position:', error);
@@ -199,74 +329,49 @@ const GrainEditScreen = () => {
 
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('grains')
-        .select('*')
-        .eq('id', grainId)
-        .single();
+      const { data: grain, error } = await repositories.grains.get(grainId);
 
       if (error) throw error;
 
-      if (data) {
-        setGrainType(data.type);
-        setPosition(data.position);
-        
-        // Load content based on type with safety checks for backward compatibility
-        switch (data.type) {
+      if (grain) {
+        // The repository already brought legacy content to the current shape
+        const { content } = grain;
+        setGrainType(grain.type);
+        setPosition(grain.position);
+
+        switch (grain.type) {
           case 'textToComplete':
-            setTextToCompleteContent({
-              phrase: data.content?.phrase || '',
-              correctAnswer: data.content?.correctAnswer || data.content?.missingWord || '',
-              falseAlternatives: data.content?.falseAlternatives || ['', '', '']
-            });
+            setTextToCompleteContent(withExtraCorrectAnswers(content as GrainContent['textToComplete']));
             break;
           case 'testQuestion':
-            setTestQuestionContent({
-              question: data.content?.question || '',
-              correctAnswer: data.content?.correctAnswer || '',
-              falseAlternatives: data.content?.falseAlternatives || data.content?.options?.slice(1) || ['', '', '']
-            });
+            setTestQuestionContent(withExtraCorrectAnswers(content as GrainContent['testQuestion']));
             break;
           case 'imagesToGuess':
-            setImagesToGuessContent({
-              correctImageUrl: data.content?.correctImageUrl || data.content?.imageUrl || '',
-              falseImageUrls: data.content?.falseImageUrls || ['', '', ''],
-              correctWord: data.content?.correctWord || ''
-            });
+            setImagesToGuessContent({ extraCorrectImageUrls: [], ...(content as Partial<GrainContent['imagesToGuess']>) } as GrainContent['imagesToGuess']);
             break;
           case 'textToGuess':
-            setTextToGuessContent({
-              imageUrl: data.content?.imageUrl || '',
-              correctAnswer: data.content?.correctAnswer || '',
-              falseAlternatives: data.content?.falseAlternatives || ['', '', '']
-            });
+            setTextToGuessContent(withExtraCorrectAnswers(content as GrainContent['textToGuess']));
             break;
           case 'audioToGuess':
-            setAudioToGuessContent({
-              correctWord: data.content?.correctWord || '',
-              correctAudioUrl: data.content?.correctAudioUrl || '',
-              falseAudioUrls: data.content?.falseAudioUrls || ['', '', '']
-            });
+            setAudioToGuessContent({ extraCorrectAudioUrls: [], ...(content as Partial<GrainContent['audioToGuess']>) } as GrainContent['audioToGuess']);
             break;
           case 'pairsOfText':
-            setPairsOfTextContent({
-              pairs: data.content?.pairs || [
-                { left: '', right: '' },
-                { left: '', right: '' },
-                { left: '', right: '' },
-                { left: '', right: '' }
-              ]
-            });
+            setPairsOfTextContent(content as GrainContent['pairsOfText']);
             break;
           case 'pairsOfImage':
-            setPairsOfImageContent({
-              pairs: data.content?.pairs || [
-                { imageUrl: '', text: '' },
-                { imageUrl: '', text: '' },
-                { imageUrl: '', text: '' },
-                { imageUrl: '', text: '' }
-              ]
-            });
+            setPairsOfImageContent(content as GrainContent['pairsOfImage']);
+            break;
+          case 'orderWords':
+            setOrderWordsContent(content as GrainContent['orderWords']);
+            break;
+          case 'audioToType':
+            setAudioToTypeContent(content as GrainContent['audioToType']);
+            break;
+          case 'cloze':
+            setClozeContent(content as GrainContent['cloze']);
+            break;
+          case 'trueFalse':
+            setTrueFalseContent(content as GrainContent['trueFalse']);
             break;
         }
       }
@@ -382,6 +487,14 @@ const GrainEditScreen = () => {
   };
 
   const handleSave = async () => {
+    if (!isGrainTypeAllowed(enforcementPageType, position, grainType, pageInfo?.grain_pattern)) {
+      Alert.alert(
+        'Tipo Restrito',
+        `A posição ${position} de uma página do tipo "${pageTypeLabel}" deve ser: ${allowedGrainTypesLabel}.`
+      );
+      return;
+    }
+
     // Validation
     if (!validateContent()) {
       return;
@@ -393,30 +506,87 @@ const GrainEditScreen = () => {
       
       switch (grainType) {
         case 'textToComplete':
-          content = textToCompleteContent;
+          content = textChoiceToSave(textToCompleteContent);
           break;
         case 'testQuestion':
-          content = testQuestionContent;
+          content = textChoiceToSave(testQuestionContent);
           break;
-        case 'imagesToGuess':
-          content = imagesToGuessContent;
+        case 'imagesToGuess': {
+          const { extraCorrectImageUrls, ...images } = imagesToGuessContent;
+          const extra = filledItems(extraCorrectImageUrls);
+          content = {
+            ...images,
+            falseImageUrls: filledItems(images.falseImageUrls),
+            ...(extra.length > 0 ? { extraCorrectImageUrls: extra } : {}),
+          };
           break;
+        }
         case 'textToGuess':
-          content = textToGuessContent;
+          content = textChoiceToSave(textToGuessContent);
           break;
-        case 'audioToGuess':
-          content = audioToGuessContent;
+        case 'audioToGuess': {
+          const { extraCorrectAudioUrls, ...audios } = audioToGuessContent;
+          const extra = filledItems(extraCorrectAudioUrls);
+          content = {
+            ...audios,
+            falseAudioUrls: filledItems(audios.falseAudioUrls),
+            ...(extra.length > 0 ? { extraCorrectAudioUrls: extra } : {}),
+          };
           break;
+        }
         case 'pairsOfText':
           content = pairsOfTextContent;
           break;
         case 'pairsOfImage':
           content = pairsOfImageContent;
           break;
+        case 'orderWords':
+          // Empty rows of the lists are left out
+          content = {
+            sentence: orderWordsContent.sentence.trim(),
+            distractors: orderWordsContent.distractors.map(word => word.trim()).filter(Boolean),
+            acceptedOrders: orderWordsContent.acceptedOrders.map(order => order.trim()).filter(Boolean),
+          };
+          break;
+        case 'audioToType':
+          content = {
+            ...audioToTypeContent,
+            acceptedSpellings: audioToTypeContent.acceptedSpellings.map(spelling => spelling.trim()).filter(Boolean),
+          };
+          break;
+        case 'cloze':
+          content = {
+            ...clozeContent,
+            blanks: clozeContent.blanks.map(blank => ({
+              answers: blank.answers.map(answer => answer.trim()).filter(Boolean),
+              options: blank.options.map(option => option.trim()).filter(Boolean),
+            })),
+          };
+          break;
+        case 'trueFalse':
+          content = {
+            statements: trueFalseContent.statements.map(statement => ({
+              text: statement.text.trim(),
+              isTrue: statement.isTrue,
+              explanation: statement.explanation.trim(),
+            })),
+          };
+          break;
+      }
+
+      const choiceIssues = getChoiceIssues(grainType, content);
+      if (choiceIssues.length > 0) {
+        Alert.alert('Erro', choiceIssues.join('\n'));
+        return;
+      }
+
+      const { errors } = validateGrainContent(grainType, content);
+      if (errors.length > 0) {
+        Alert.alert('Conteúdo inválido', formatGrainContentErrors(errors));
+        return;
       }
 
       const grainData = {
-        page_id: pageId,
         position,
         type: grainType,
         content,
@@ -424,19 +594,13 @@ const GrainEditScreen = () => {
 
       let response;
       if (grainId) {
-        response = await supabase
-          .from('grains')
-          .update(grainData)
-          .eq('id', grainId)
-          .select();
+        response = await repositories.grains.update(grainId, grainData);
       } else {
-        response = await supabase
-          .from('grains')
-          .insert(grainData)
-          .select();
+        response = await repositories.grains.create({ ...grainData, page_id: pageId });
       }
 
       if (response.error) throw response.error;
+      CourseService.invalidateCourseTree();
 
       Alert.alert('Sucesso', grainId ? 'Grain atualizado com sucesso!' : 'Grain criado com sucesso!');
       navigation.goBack();
@@ -465,8 +629,8 @@ const GrainEditScreen = () => {
           Alert.alert('Erro', 'A resposta correta é obrigatória');
           return false;
         }
-        if (textToCompleteContent.falseAlternatives.some(alt => !alt.trim())) {
-          Alert.alert('Erro', 'Todas as três alternativas falsas são obrigatórias');
+        if (!textToCompleteContent.falseAlternatives.some(alt => alt.trim())) {
+          Alert.alert('Erro', 'Indique pelo menos uma alternativa falsa');
           return false;
         }
         break;
@@ -480,8 +644,8 @@ const GrainEditScreen = () => {
           Alert.alert('Erro', 'A resposta correta é obrigatória');
           return false;
         }
-        if (testQuestionContent.falseAlternatives.some(alt => !alt.trim())) {
-          Alert.alert('Erro', 'Todas as três alternativas falsas são obrigatórias');
+        if (!testQuestionContent.falseAlternatives.some(alt => alt.trim())) {
+          Alert.alert('Erro', 'Indique pelo menos uma alternativa falsa');
           return false;
         }
         break;
@@ -491,8 +655,8 @@ const GrainEditScreen = () => {
           Alert.alert('Erro', 'A imagem correta é obrigatória');
           return false;
         }
-        if (imagesToGuessContent.falseImageUrls.some(url => !url.trim())) {
-          Alert.alert('Erro', 'Todas as três imagens falsas são obrigatórias');
+        if (!imagesToGuessContent.falseImageUrls.some(url => url.trim())) {
+          Alert.alert('Erro', 'Indique pelo menos uma imagem falsa');
           return false;
         }
         if (!imagesToGuessContent.correctWord.trim()) {
@@ -510,8 +674,8 @@ const GrainEditScreen = () => {
           Alert.alert('Erro', 'A resposta correta é obrigatória');
           return false;
         }
-        if (textToGuessContent.falseAlternatives.some(alt => !alt.trim())) {
-          Alert.alert('Erro', 'Todas as três alternativas falsas são obrigatórias');
+        if (!textToGuessContent.falseAlternatives.some(alt => alt.trim())) {
+          Alert.alert('Erro', 'Indique pelo menos uma alternativa falsa');
           return false;
         }
         break;
@@ -525,8 +689,8 @@ const GrainEditScreen = () => {
           Alert.alert('Erro', 'O áudio correto é obrigatório');
           return false;
         }
-        if (audioToGuessContent.falseAudioUrls.some(url => !url.trim())) {
-          Alert.alert('Erro', 'Todos os três áudios falsos são obrigatórios');
+        if (!audioToGuessContent.falseAudioUrls.some(url => url.trim())) {
+          Alert.alert('Erro', 'Indique pelo menos um áudio falso');
           return false;
         }
         break;
@@ -544,6 +708,52 @@ const GrainEditScreen = () => {
           return false;
         }
         break;
+
+      case 'orderWords': {
+        if (!orderWordsContent.sentence.trim()) {
+          Alert.alert('Erro', 'A frase é obrigatória');
+          return false;
+        }
+        const issues = getOrderWordsIssues(orderWordsContent);
+        if (issues.length > 0) {
+          Alert.alert('Erro', issues.join('\n'));
+          return false;
+        }
+        break;
+      }
+
+      case 'audioToType':
+        if (!audioToTypeContent.audioUrl.trim()) {
+          Alert.alert('Erro', 'O áudio é obrigatório');
+          return false;
+        }
+        if (!audioToTypeContent.correctAnswer.trim()) {
+          Alert.alert('Erro', 'A transcrição é obrigatória');
+          return false;
+        }
+        break;
+
+      case 'cloze': {
+        if (!clozeContent.passage.trim()) {
+          Alert.alert('Erro', 'O texto é obrigatório');
+          return false;
+        }
+        const issues = getClozeIssues(clozeContent);
+        if (issues.length > 0) {
+          Alert.alert('Erro', issues.join('\n'));
+          return false;
+        }
+        break;
+      }
+
+      case 'trueFalse': {
+        const issues = getTrueFalseIssues(trueFalseContent);
+        if (issues.length > 0) {
+          Alert.alert('Erro', issues.join('\n'));
+          return false;
+        }
+        break;
+      }
     }
     return true;
   };
@@ -553,12 +763,10 @@ const GrainEditScreen = () => {
 
     const performDelete = async () => {
       try {
-        const { error } = await supabase
-          .from('grains')
-          .delete()
-          .eq('id', grainId);
+        const { error } = await repositories.grains.delete(grainId);
 
         if (error) throw error;
+        CourseService.invalidateCourseTree();
 
         Alert.alert('Sucesso', 'Grain eliminado com sucesso!');
         navigation.goBack();
@@ -592,8 +800,8 @@ const GrainEditScreen = () => {
       {isGrainTypeEnforced && (
         <View style={styles.enforcementWarning}>
           <Text style={styles.enforcementWarningText}>
-            ⚠️ O tipo de grain está definido pelo tipo de página ({pageType}). 
-            Posição {position} deve ser: {getGrainTypeLabel(expectedGrainType as string)}
+            ⚠️ O tipo de grain está definido pelo tipo de página ({pageTypeLabel}). 
+            Posição {position} deve ser: {allowedGrainTypesLabel}
           </Text>
         </View>
       )}
@@ -602,10 +810,10 @@ const GrainEditScreen = () => {
         <select
           value={grainType}
           onChange={(e) => {
-            if (isGrainTypeEnforced) {
+            if (!(allowedGrainTypes as string[]).includes(e.target.value)) {
               Alert.alert(
                 'Tipo Restrito',
-                `Este grain deve ser do tipo "${getGrainTypeLabel(expectedGrainType as string)}" conforme definido pelo tipo de página "${pageType}".`
+                `Este grain deve ser do tipo "${allowedGrainTypesLabel}" conforme definido pelo tipo de página "${pageTypeLabel}".`
               );
               return;
             }
@@ -613,9 +821,9 @@ const GrainEditScreen = () => {
           }}
           style={{
             ...styles.picker,
-            ...(isGrainTypeEnforced && styles.disabledPicker)
+            ...(!canChangeGrainType && styles.disabledPicker)
           }}
-          disabled={isGrainTypeEnforced ? true : false}
+          disabled={!canChangeGrainType}
         >
           <option value="textToComplete">Texto para Completar</option>
           <option value="testQuestion">Pergunta de Teste</option>
@@ -624,6 +832,10 @@ const GrainEditScreen = () => {
           <option value="audioToGuess">Áudio para Adivinhar</option>
           <option value="pairsOfText">Pares de Texto</option>
           <option value="pairsOfImage">Pares de Imagem</option>
+          <option value="orderWords">Ordenar Palavras</option>
+          <option value="audioToType">Ditado</option>
+          <option value="cloze">Texto com Lacunas</option>
+          <option value="trueFalse">Verdadeiro ou Falso</option>
         </select>
       ) : (
         <View style={styles.typeButtonsContainer}>
@@ -635,31 +847,35 @@ const GrainEditScreen = () => {
             { key: 'audioToGuess', label: 'Áudio para Adivinhar' },
             { key: 'pairsOfText', label: 'Pares de Texto' },
             { key: 'pairsOfImage', label: 'Pares de Imagem' },
+            { key: 'orderWords', label: 'Ordenar Palavras' },
+            { key: 'audioToType', label: 'Ditado' },
+            { key: 'cloze', label: 'Texto com Lacunas' },
+            { key: 'trueFalse', label: 'Verdadeiro ou Falso' },
           ].map((type) => (
             <TouchableOpacity
               key={type.key}
               style={[
                 styles.typeButton,
                 grainType === type.key && styles.selectedTypeButton,
-                isGrainTypeEnforced && type.key !== expectedGrainType && styles.disabledTypeButton,
+                !isAllowedType(type.key) && styles.disabledTypeButton,
               ].filter(Boolean)}
               onPress={() => {
-                if (isGrainTypeEnforced && type.key !== expectedGrainType) {
+                if (!isAllowedType(type.key)) {
                   Alert.alert(
                     'Tipo Restrito',
-                    `Este grain deve ser do tipo "${getGrainTypeLabel(expectedGrainType as string)}" conforme definido pelo tipo de página "${pageType}".`
+                    `Este grain deve ser do tipo "${allowedGrainTypesLabel}" conforme definido pelo tipo de página "${pageTypeLabel}".`
                   );
                   return;
                 }
                 setGrainType(type.key as GrainType);
               }}
-              disabled={isGrainTypeEnforced && type.key !== expectedGrainType ? true : false}
+              disabled={!isAllowedType(type.key)}
             >
               <Text
                 style={[
                   styles.typeButtonText,
                   grainType === type.key && styles.selectedTypeButtonText,
-                  isGrainTypeEnforced && type.key !== expectedGrainType && styles.disabledTypeButtonText,
+                  !isAllowedType(type.key) && styles.disabledTypeButtonText,
                 ].filter(Boolean)}
               >
                 {type.label}
@@ -671,19 +887,7 @@ const GrainEditScreen = () => {
     </View>
   );
 
-  // Helper function to get grain type label
-  const getGrainTypeLabel = (type: string) => {
-    const labels: { [key: string]: string } = {
-      textToComplete: 'Texto para Completar',
-      testQuestion: 'Pergunta de Teste',
-      imagesToGuess: 'Imagens para Adivinhar',
-      textToGuess: 'Texto para Adivinhar',
-      audioToGuess: 'Áudio para Adivinhar',
-      pairsOfText: 'Pares de Texto',
-      pairsOfImage: 'Pares de Imagem',
-    };
-    return labels[type] || type;
-  };
+  const isAllowedType = (type: string) => (allowedGrainTypes as string[]).includes(type);
 
   const renderTextToCompleteEditor = () => (
     <View style={styles.section}>
@@ -711,20 +915,7 @@ const GrainEditScreen = () => {
         placeholder="Ex: baleia"
       />
 
-      <Text style={styles.label}>Alternativas Falsas:</Text>
-      {textToCompleteContent.falseAlternatives.map((alt, index) => (
-        <TextInput
-          key={index}
-          style={styles.input}
-          value={alt}
-          onChangeText={(text) => {
-            const newAlts = [...textToCompleteContent.falseAlternatives];
-            newAlts[index] = text;
-            setTextToCompleteContent({...textToCompleteContent, falseAlternatives: newAlts as [string, string, string]});
-          }}
-          placeholder={`Alternativa falsa ${index + 1}`}
-        />
-      ))}
+      {renderTextChoiceLists(textToCompleteContent, setTextToCompleteContent)}
     </View>
   );
 
@@ -749,20 +940,7 @@ const GrainEditScreen = () => {
         placeholder="Resposta correta"
       />
 
-      <Text style={styles.label}>Alternativas Falsas:</Text>
-      {testQuestionContent.falseAlternatives.map((alt, index) => (
-        <TextInput
-          key={index}
-          style={styles.input}
-          value={alt}
-          onChangeText={(text) => {
-            const newAlts = [...testQuestionContent.falseAlternatives];
-            newAlts[index] = text;
-            setTestQuestionContent({...testQuestionContent, falseAlternatives: newAlts as [string, string, string]});
-          }}
-          placeholder={`Alternativa falsa ${index + 1}`}
-        />
-      ))}
+      {renderTextChoiceLists(testQuestionContent, setTestQuestionContent)}
     </View>
   );
 
@@ -788,22 +966,28 @@ const GrainEditScreen = () => {
         </Text>
       </TouchableOpacity>
 
-      <Text style={styles.label}>Imagens Falsas:</Text>
-      {imagesToGuessContent.falseImageUrls.map((url, index) => (
-        <TouchableOpacity
-          key={index}
-          style={styles.imageButton}
-          onPress={() => pickImage((newUrl) => {
-            const newUrls = [...imagesToGuessContent.falseImageUrls];
-            newUrls[index] = newUrl;
-            setImagesToGuessContent({...imagesToGuessContent, falseImageUrls: newUrls as [string, string, string]});
-          })}
-        >
-          <Text style={styles.imageButtonText}>
-            {url ? `Alterar Imagem Falsa ${index + 1}` : `Selecionar Imagem Falsa ${index + 1}`}
-          </Text>
-        </TouchableOpacity>
-      ))}
+      <Text style={styles.label}>Imagens Falsas (1 a {CHOICE_MAX_DISTRACTORS}):</Text>
+      {renderMediaList(
+        imagesToGuessContent.falseImageUrls,
+        (falseImageUrls) => setImagesToGuessContent({ ...imagesToGuessContent, falseImageUrls }),
+        CHOICE_MAX_DISTRACTORS,
+        'image',
+        'Imagem Falsa',
+        '+ Adicionar Imagem Falsa'
+      )}
+
+      <Text style={styles.label}>Outras Imagens Corretas (até {CHOICE_MAX_EXTRA_CORRECT}):</Text>
+      <Text style={styles.description}>
+        Com mais de uma imagem correta, o utilizador tem de escolher todas as certas.
+      </Text>
+      {renderMediaList(
+        imagesToGuessContent.extraCorrectImageUrls,
+        (extraCorrectImageUrls) => setImagesToGuessContent({ ...imagesToGuessContent, extraCorrectImageUrls }),
+        CHOICE_MAX_EXTRA_CORRECT,
+        'image',
+        'Outra Imagem Correta',
+        '+ Adicionar Imagem Correta'
+      )}
     </View>
   );
 
@@ -811,7 +995,7 @@ const GrainEditScreen = () => {
     <View style={styles.section}>
       <Text style={styles.sectionTitle}>Texto para Adivinhar</Text>
       <Text style={styles.description}>
-        Mostre 1 imagem e o usuário escolhe a palavra correta entre 4 opções.
+        Mostre 1 imagem e o usuário escolhe a palavra correta entre 2 a 8 opções.
       </Text>
       
       <Text style={styles.label}>Imagem:</Text>
@@ -832,20 +1016,7 @@ const GrainEditScreen = () => {
         placeholder="Ex: gato"
       />
 
-      <Text style={styles.label}>Alternativas Falsas:</Text>
-      {textToGuessContent.falseAlternatives.map((alt, index) => (
-        <TextInput
-          key={index}
-          style={styles.input}
-          value={alt}
-          onChangeText={(text) => {
-            const newAlts = [...textToGuessContent.falseAlternatives];
-            newAlts[index] = text;
-            setTextToGuessContent({...textToGuessContent, falseAlternatives: newAlts as [string, string, string]});
-          }}
-          placeholder={`Alternativa falsa ${index + 1}`}
-        />
-      ))}
+      {renderTextChoiceLists(textToGuessContent, setTextToGuessContent)}
     </View>
   );
 
@@ -949,6 +1120,161 @@ const GrainEditScreen = () => {
     </View>
   );
 
+  /** Wrong options and other right answers of the text choice grains */
+  const renderTextChoiceLists = <T extends TextChoiceContent>(content: T, setContent: (content: T) => void) => (
+    <>
+      <Text style={styles.label}>Alternativas Falsas (1 a {CHOICE_MAX_DISTRACTORS}):</Text>
+      {renderTextList(
+        content.falseAlternatives,
+        (falseAlternatives) => setContent({ ...content, falseAlternatives }),
+        CHOICE_MAX_DISTRACTORS,
+        'Alternativa falsa',
+        '+ Adicionar Alternativa Falsa'
+      )}
+
+      <Text style={styles.label}>Outras Respostas Corretas (até {CHOICE_MAX_EXTRA_CORRECT}):</Text>
+      <Text style={styles.description}>
+        Com mais de uma resposta correta, o utilizador tem de escolher todas as certas.
+      </Text>
+      {renderTextList(
+        content.extraCorrectAnswers,
+        (extraCorrectAnswers) => setContent({ ...content, extraCorrectAnswers }),
+        CHOICE_MAX_EXTRA_CORRECT,
+        'Outra resposta correta',
+        '+ Adicionar Resposta Correta'
+      )}
+    </>
+  );
+
+  /** Editable list of texts that may grow up to `max` items */
+  const renderTextList = (
+    values: string[],
+    onChange: (values: string[]) => void,
+    max: number,
+    placeholder: string,
+    addLabel: string
+  ) => (
+    <>
+      {values.map((value, index) => (
+        <View key={index} style={styles.listRow}>
+          <TextInput
+            style={[styles.input, styles.listInput]}
+            value={value}
+            onChangeText={(text) => onChange(values.map((item, itemIndex) => (itemIndex === index ? text : item)))}
+            placeholder={placeholder}
+          />
+          <TouchableOpacity
+            style={styles.removeItemButton}
+            onPress={() => onChange(values.filter((_, itemIndex) => itemIndex !== index))}
+          >
+            <Text style={styles.removeItemButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {values.length < max && (
+        <TouchableOpacity style={styles.addPairButton} onPress={() => onChange([...values, ''])}>
+          <Text style={styles.addPairButtonText}>{addLabel}</Text>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+
+  /** Picked images or audio files, up to `max`; audio rows can be played */
+  const renderMediaList = (
+    values: string[],
+    onChange: (values: string[]) => void,
+    max: number,
+    kind: 'image' | 'audio',
+    itemLabel: string,
+    addLabel: string
+  ) => (
+    <>
+      {values.map((url, index) => (
+        <View key={index} style={styles.listRow}>
+          <TouchableOpacity
+            style={[styles.imageButton, styles.listInput]}
+            onPress={() =>
+              (kind === 'image' ? pickImage : pickAudio)((newUrl) =>
+                onChange(values.map((item, itemIndex) => (itemIndex === index ? newUrl : item)))
+              )
+            }
+          >
+            <Text style={styles.imageButtonText}>
+              {url ? `Alterar ${itemLabel} ${index + 1}` : `Selecionar ${itemLabel} ${index + 1}`}
+            </Text>
+          </TouchableOpacity>
+          {kind === 'audio' && url ? (
+            <TouchableOpacity
+              style={[styles.playAudioButton, playingAudio === url && styles.playingAudioButton]}
+              onPress={() => playAudio(url)}
+            >
+              <Text style={styles.playAudioButtonText}>
+                {playingAudio === url ? 'Reproduzindo...' : '▶️ Ouvir'}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+          <TouchableOpacity
+            style={styles.removeItemButton}
+            onPress={() => onChange(values.filter((_, itemIndex) => itemIndex !== index))}
+          >
+            <Text style={styles.removeItemButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {values.length < max && (
+        <TouchableOpacity style={styles.addPairButton} onPress={() => onChange([...values, ''])}>
+          <Text style={styles.addPairButtonText}>{addLabel}</Text>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+
+  const renderOrderWordsEditor = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Ordenar Palavras</Text>
+      <Text style={styles.description}>
+        O utilizador constrói a frase tocando nas palavras pela ordem certa. As palavras da frase são baralhadas com os
+        distratores.
+      </Text>
+
+      <Text style={styles.label}>Frase:</Text>
+      <TextInput
+        style={styles.input}
+        value={orderWordsContent.sentence}
+        onChangeText={(text) => setOrderWordsContent({ ...orderWordsContent, sentence: text })}
+        placeholder="Ex.: Eu vivo en Santiago"
+      />
+      {orderWordsContent.sentence.trim() !== '' && (
+        <Text style={styles.description}>
+          Peças: {splitOrderWords(orderWordsContent.sentence).join(' · ')}
+        </Text>
+      )}
+
+      <Text style={styles.label}>Distratores (até {ORDER_WORDS_MAX_DISTRACTORS}):</Text>
+      {renderTextList(
+        orderWordsContent.distractors,
+        (distractors) => setOrderWordsContent({ ...orderWordsContent, distractors }),
+        ORDER_WORDS_MAX_DISTRACTORS,
+        'Palavra que não pertence à frase',
+        '+ Adicionar Distrator'
+      )}
+
+      <Text style={styles.label}>Outras ordens aceites (até {ORDER_WORDS_MAX_ACCEPTED_ORDERS}):</Text>
+      <Text style={styles.description}>
+        Frases com as mesmas palavras noutra ordem que também estão certas.
+      </Text>
+      {renderTextList(
+        orderWordsContent.acceptedOrders,
+        (acceptedOrders) => setOrderWordsContent({ ...orderWordsContent, acceptedOrders }),
+        ORDER_WORDS_MAX_ACCEPTED_ORDERS,
+        'Ex.: En Santiago vivo eu',
+        '+ Adicionar Ordem'
+      )}
+    </View>
+  );
+
   // Audio playback state
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
   const [soundObj, setSoundObj] = useState<Audio.Sound | null>(null);
@@ -988,7 +1314,7 @@ const GrainEditScreen = () => {
     <View style={styles.section}>
       <Text style={styles.sectionTitle}>Áudio para Adivinhar</Text>
       <Text style={styles.description}>
-        Mostre uma palavra e o usuário escolhe o áudio correto entre 4 opções.
+        Mostre uma palavra e o usuário escolhe o áudio correto entre 2 a 8 opções.
       </Text>
       
       <Text style={styles.label}>Palavra:</Text>
@@ -1022,34 +1348,297 @@ const GrainEditScreen = () => {
         ) : null}
       </View>
 
-      <Text style={styles.label}>Áudios Falsos:</Text>
-      {audioToGuessContent.falseAudioUrls.map((url, index) => (
-        <View key={index} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: SPACING.md }}>
+      <Text style={styles.label}>Áudios Falsos (1 a {CHOICE_MAX_DISTRACTORS}):</Text>
+      {renderMediaList(
+        audioToGuessContent.falseAudioUrls,
+        (falseAudioUrls) => setAudioToGuessContent({ ...audioToGuessContent, falseAudioUrls }),
+        CHOICE_MAX_DISTRACTORS,
+        'audio',
+        'Áudio Falso',
+        '+ Adicionar Áudio Falso'
+      )}
+
+      <Text style={styles.label}>Outros Áudios Corretos (até {CHOICE_MAX_EXTRA_CORRECT}):</Text>
+      <Text style={styles.description}>
+        Com mais de um áudio correto, o utilizador tem de escolher todos os certos.
+      </Text>
+      {renderMediaList(
+        audioToGuessContent.extraCorrectAudioUrls,
+        (extraCorrectAudioUrls) => setAudioToGuessContent({ ...audioToGuessContent, extraCorrectAudioUrls }),
+        CHOICE_MAX_EXTRA_CORRECT,
+        'audio',
+        'Outro Áudio Correto',
+        '+ Adicionar Áudio Correto'
+      )}
+    </View>
+  );
+
+  const renderAudioToTypeEditor = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Ditado</Text>
+      <Text style={styles.description}>
+        O utilizador ouve o áudio e escreve o que ouviu.
+      </Text>
+
+      <Text style={styles.label}>Áudio:</Text>
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: SPACING.md }}>
+        <TouchableOpacity
+          style={styles.imageButton}
+          onPress={() => pickAudio((url) => setAudioToTypeContent({ ...audioToTypeContent, audioUrl: url }))}
+        >
+          <Text style={styles.imageButtonText}>
+            {audioToTypeContent.audioUrl ? 'Alterar Áudio' : 'Selecionar Áudio'}
+          </Text>
+        </TouchableOpacity>
+        {audioToTypeContent.audioUrl ? (
           <TouchableOpacity
-            style={styles.imageButton}
-            onPress={() => pickAudio((newUrl) => {
-              const newUrls = [...audioToGuessContent.falseAudioUrls];
-              newUrls[index] = newUrl;
-              setAudioToGuessContent({...audioToGuessContent, falseAudioUrls: newUrls as [string, string, string]});
-            })}
+            style={[styles.playAudioButton, playingAudio === audioToTypeContent.audioUrl && styles.playingAudioButton]}
+            onPress={() => playAudio(audioToTypeContent.audioUrl)}
           >
-            <Text style={styles.imageButtonText}>
-              {url ? `Alterar Áudio Falso ${index + 1}` : `Selecionar Áudio Falso ${index + 1}`}
+            <Text style={styles.playAudioButtonText}>
+              {playingAudio === audioToTypeContent.audioUrl ? 'Reproduzindo...' : '▶️ Ouvir'}
             </Text>
           </TouchableOpacity>
-          {url ? (
+        ) : null}
+      </View>
+
+      <Text style={styles.label}>Transcrição:</Text>
+      <TextInput
+        style={styles.input}
+        value={audioToTypeContent.correctAnswer}
+        onChangeText={(text) => setAudioToTypeContent({ ...audioToTypeContent, correctAnswer: text })}
+        placeholder="Ex.: Bos días"
+      />
+
+      <Text style={styles.label}>Outras grafias aceites (até {AUDIO_TO_TYPE_MAX_SPELLINGS}):</Text>
+      {renderTextList(
+        audioToTypeContent.acceptedSpellings,
+        (acceptedSpellings) => setAudioToTypeContent({ ...audioToTypeContent, acceptedSpellings }),
+        AUDIO_TO_TYPE_MAX_SPELLINGS,
+        'Ex.: Boos días',
+        '+ Adicionar Grafia'
+      )}
+
+      <Text style={styles.label}>Tolerância:</Text>
+      {TOLERANCE_SWITCHES.map(({ key, label }) => (
+        <View key={key} style={styles.switchRow}>
+          <Text style={styles.switchLabel}>{label}</Text>
+          <Switch
+            value={audioToTypeContent[key]}
+            onValueChange={(value) => setAudioToTypeContent({ ...audioToTypeContent, [key]: value })}
+          />
+        </View>
+      ))}
+
+      <Text style={styles.label}>Erros de escrita permitidos (letras a mais, a menos ou trocadas):</Text>
+      <View style={styles.listRow}>
+        {Array.from({ length: AUDIO_TO_TYPE_MAX_DISTANCE + 1 }, (_, distance) => (
+          <TouchableOpacity
+            key={distance}
+            style={[styles.typeButton, audioToTypeContent.maxDistance === distance && styles.selectedTypeButton]}
+            onPress={() => setAudioToTypeContent({ ...audioToTypeContent, maxDistance: distance })}
+          >
+            <Text
+              style={[styles.typeButtonText, audioToTypeContent.maxDistance === distance && styles.selectedTypeButtonText]}
+            >
+              {distance}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  /** Append a marker for a new blank at the end of the passage */
+  const insertClozeBlank = () => {
+    const number = clozeContent.blanks.length + 1;
+    const passage = clozeContent.passage.trimEnd();
+    setClozeContent({
+      ...clozeContent,
+      passage: `${passage}${passage ? ' ' : ''}${clozeMarker(number)} `,
+      blanks: [...clozeContent.blanks, { answers: [''], options: [] }],
+    });
+  };
+
+  /** Drop the last blank and its marker (removing another would renumber the rest) */
+  const removeLastClozeBlank = () => {
+    const number = clozeContent.blanks.length;
+    setClozeContent({
+      ...clozeContent,
+      passage: clozeContent.passage.split(clozeMarker(number)).join('').replace(/ {2,}/g, ' '),
+      blanks: clozeContent.blanks.slice(0, -1),
+    });
+  };
+
+  const updateClozeBlank = (index: number, blank: GrainContent['cloze']['blanks'][number]) =>
+    setClozeContent({
+      ...clozeContent,
+      blanks: clozeContent.blanks.map((item, itemIndex) => (itemIndex === index ? blank : item)),
+    });
+
+  const renderClozeEditor = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Texto com Lacunas</Text>
+      <Text style={styles.description}>
+        Marque cada lacuna no texto com {clozeMarker(1)}, {clozeMarker(2)}… O utilizador preenche todas e cada lacuna
+        conta como uma resposta.
+      </Text>
+
+      <Text style={styles.label}>Texto:</Text>
+      <TextInput
+        style={[styles.input, styles.textArea]}
+        value={clozeContent.passage}
+        onChangeText={(text) => setClozeContent({ ...clozeContent, passage: text })}
+        placeholder={`Ex.: Eu ${clozeMarker(1)} en Santiago e ${clozeMarker(2)} galego.`}
+        multiline
+      />
+      {clozeContent.blanks.length < CLOZE_MAX_BLANKS && (
+        <TouchableOpacity style={[styles.addPairButton, styles.clozeInsertButton]} onPress={insertClozeBlank}>
+          <Text style={styles.addPairButtonText}>+ Inserir Lacuna</Text>
+        </TouchableOpacity>
+      )}
+
+      {clozeContent.passage.trim() !== '' && (
+        <View style={styles.clozePreview}>
+          <Text style={styles.clozePreviewText}>
+            {splitClozePassage(clozeContent.passage).map((segment, index) =>
+              segment.kind === 'text' ? (
+                <Text key={index}>{segment.text}</Text>
+              ) : (
+                <Text
+                  key={index}
+                  style={[styles.clozeBlank, !clozeContent.blanks[segment.number - 1] && styles.clozeBlankMissing]}
+                >
+                  {` ${segment.number}: ${clozeContent.blanks[segment.number - 1]?.answers[0] || '?'} `}
+                </Text>
+              )
+            )}
+          </Text>
+        </View>
+      )}
+
+      <Text style={styles.label}>Modo de resposta:</Text>
+      <View style={styles.listRow}>
+        {([
+          { key: 'typing', label: 'Escrever' },
+          { key: 'dropdown', label: 'Escolher da lista' },
+        ] as const).map(({ key, label }) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.typeButton, clozeContent.mode === key && styles.selectedTypeButton]}
+            onPress={() => setClozeContent({ ...clozeContent, mode: key })}
+          >
+            <Text style={[styles.typeButtonText, clozeContent.mode === key && styles.selectedTypeButtonText]}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {clozeContent.blanks.map((blank, index) => (
+        <View key={index} style={[styles.pairContainer, styles.clozeBlankContainer]}>
+          <Text style={styles.pairLabel}>Lacuna {index + 1}</Text>
+          <Text style={styles.label}>Respostas certas (a primeira é a solução):</Text>
+          {renderTextList(
+            blank.answers,
+            (answers) => updateClozeBlank(index, { ...blank, answers }),
+            CLOZE_MAX_BLANK_ITEMS,
+            'Ex.: vivo',
+            '+ Adicionar Resposta'
+          )}
+          {clozeContent.mode === 'dropdown' && (
+            <>
+              <Text style={styles.label}>Opções erradas:</Text>
+              {renderTextList(
+                blank.options,
+                (options) => updateClozeBlank(index, { ...blank, options }),
+                CLOZE_MAX_BLANK_ITEMS,
+                'Ex.: vives',
+                '+ Adicionar Opção'
+              )}
+            </>
+          )}
+          {index === clozeContent.blanks.length - 1 && (
+            <TouchableOpacity style={styles.removeItemButton} onPress={removeLastClozeBlank}>
+              <Text style={styles.removeItemButtonText}>Remover Lacuna</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+
+  const updateTrueFalseStatement = (index: number, statement: GrainContent['trueFalse']['statements'][number]) =>
+    setTrueFalseContent({
+      statements: trueFalseContent.statements.map((item, itemIndex) => (itemIndex === index ? statement : item)),
+    });
+
+  const renderTrueFalseEditor = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Verdadeiro ou Falso</Text>
+      <Text style={styles.description}>
+        O utilizador classifica cada afirmação como verdadeira ou falsa, uma de cada vez. Cada afirmação conta para a
+        pontuação e a explicação, se houver, aparece depois da resposta. De {TRUE_FALSE_MIN_STATEMENTS} a{' '}
+        {TRUE_FALSE_MAX_STATEMENTS} afirmações.
+      </Text>
+
+      {trueFalseContent.statements.map((statement, index) => (
+        <View key={index} style={styles.pairContainer}>
+          <Text style={styles.pairLabel}>Afirmação {index + 1}:</Text>
+          <TextInput
+            style={styles.input}
+            value={statement.text}
+            onChangeText={(text) => updateTrueFalseStatement(index, { ...statement, text })}
+            placeholder="Ex.: Santiago é a capital de Galiza."
+            multiline
+          />
+          <View style={styles.listRow}>
+            {([
+              { isTrue: true, label: 'Verdadeira' },
+              { isTrue: false, label: 'Falsa' },
+            ] as const).map(({ isTrue, label }) => (
+              <TouchableOpacity
+                key={label}
+                style={[styles.typeButton, statement.isTrue === isTrue && styles.selectedTypeButton]}
+                onPress={() => updateTrueFalseStatement(index, { ...statement, isTrue })}
+              >
+                <Text style={[styles.typeButtonText, statement.isTrue === isTrue && styles.selectedTypeButtonText]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={statement.explanation}
+            onChangeText={(explanation) => updateTrueFalseStatement(index, { ...statement, explanation })}
+            placeholder="Explicação (opcional)"
+          />
+          {trueFalseContent.statements.length > TRUE_FALSE_MIN_STATEMENTS && (
             <TouchableOpacity
-              style={[styles.playAudioButton, playingAudio === url && styles.playingAudioButton]}
-              onPress={() => playAudio(url)}
-              disabled={!url}
+              style={styles.removeItemButton}
+              onPress={() =>
+                setTrueFalseContent({
+                  statements: trueFalseContent.statements.filter((_, itemIndex) => itemIndex !== index),
+                })
+              }
             >
-              <Text style={styles.playAudioButtonText}>
-                {playingAudio === url ? 'Reproduzindo...' : '▶️ Ouvir'}
-              </Text>
+              <Text style={styles.removeItemButtonText}>Remover Afirmação</Text>
             </TouchableOpacity>
-          ) : null}
+          )}
         </View>
       ))}
+
+      {trueFalseContent.statements.length < TRUE_FALSE_MAX_STATEMENTS && (
+        <TouchableOpacity
+          style={styles.addPairButton}
+          onPress={() =>
+            setTrueFalseContent({
+              statements: [...trueFalseContent.statements, { text: '', isTrue: true, explanation: '' }],
+            })
+          }
+        >
+          <Text style={styles.addPairButtonText}>+ Adicionar Afirmação</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
@@ -1069,6 +1658,14 @@ const GrainEditScreen = () => {
         return renderPairsOfImageEditor();
       case 'audioToGuess':
         return renderAudioToGuessEditor();
+      case 'orderWords':
+        return renderOrderWordsEditor();
+      case 'audioToType':
+        return renderAudioToTypeEditor();
+      case 'cloze':
+        return renderClozeEditor();
+      case 'trueFalse':
+        return renderTrueFalseEditor();
       default:
         return null;
     }
@@ -1257,6 +1854,61 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontSize: TYPOGRAPHY.fontSize.sm,
   },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  listInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.sm,
+  },
+  switchLabel: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.textPrimary,
+    flex: 1,
+  },
+  clozeInsertButton: {
+    alignSelf: 'flex-start',
+    marginBottom: SPACING.md,
+  },
+  clozePreview: {
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+    backgroundColor: COLORS.gray50,
+    borderRadius: BORDER_RADIUS.base,
+  },
+  clozePreviewText: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.textPrimary,
+    lineHeight: 28,
+  },
+  clozeBlank: {
+    backgroundColor: COLORS.blue100,
+    color: COLORS.primaryDark,
+    fontWeight: '600',
+  },
+  clozeBlankMissing: {
+    backgroundColor: COLORS.warningLight,
+    color: COLORS.errorDark,
+  },
+  clozeBlankContainer: {
+    marginTop: SPACING.md,
+  },
+  removeItemButton: {
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  removeItemButtonText: {
+    color: COLORS.error,
+    fontSize: TYPOGRAPHY.fontSize.base,
+  },
   saveButton: {
     backgroundColor: COLORS.primary,
     paddingVertical: SPACING.lg,
@@ -11,6 +11,7 @@ import {
 import { MaterialIcons } from '@expo/vector-icons';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
 import { ValidatedInput } from '../components/ValidatedInput';
+import { getExpectedGrainType } from '../lib/pageTypes';
 
 interface GrainTypeConfig {
   id: string;
@@ -28,6 +29,8 @@ interface GrainTypeConfig {
     maxLength?: number;
     arrayType?: 'text' | 'image' | 'audio';
     arraySize?: number;
+    /** Required arrays: how many items must be filled (default: all of them) */
+    minItems?: number;
   }>;
 }
 
@@ -58,11 +61,20 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
       },
       {
         key: 'falseAlternatives',
-        label: 'Alternativas Erradas (3)',
+        label: 'Alternativas Erradas (1 a 7)',
         type: 'array',
         arrayType: 'text',
-        arraySize: 3,
+        arraySize: 7,
         required: true,
+        minItems: 1,
+      },
+      {
+        key: 'extraCorrectAnswers',
+        label: 'Outras Respostas Corretas (até 3, opcional)',
+        type: 'array',
+        arrayType: 'text',
+        arraySize: 3,
+        required: false,
       },
     ],
   },
@@ -70,7 +82,7 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
     id: 'testQuestion',
     name: 'Pergunta de Teste',
     icon: 'quiz',
-    description: 'Pergunta com 4 opções de resposta',
+    description: 'Pergunta com 2 a 8 opções de resposta',
     example: 'Qual é a capital de Portugal? A) Lisboa',
     color: COLORS.secondary,
     fields: [
@@ -92,11 +104,20 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
       },
       {
         key: 'falseAlternatives',
-        label: 'Alternativas Erradas (3)',
+        label: 'Alternativas Erradas (1 a 7)',
         type: 'array',
         arrayType: 'text',
-        arraySize: 3,
+        arraySize: 7,
         required: true,
+        minItems: 1,
+      },
+      {
+        key: 'extraCorrectAnswers',
+        label: 'Outras Respostas Corretas (até 3, opcional)',
+        type: 'array',
+        arrayType: 'text',
+        arraySize: 3,
+        required: false,
       },
     ],
   },
@@ -104,7 +125,7 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
     id: 'imagesToGuess',
     name: 'Adivinhar por Imagem',
     icon: 'image',
-    description: '4 imagens, escolher a que corresponde à palavra',
+    description: '2 a 8 imagens, escolher a que corresponde à palavra',
     example: 'Palavra: "cão" → mostrar 4 imagens',
     color: COLORS.success,
     fields: [
@@ -124,11 +145,20 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
       },
       {
         key: 'falseImageUrls',
-        label: 'Imagens Erradas (3)',
+        label: 'Imagens Erradas (1 a 7)',
         type: 'array',
         arrayType: 'image',
-        arraySize: 3,
+        arraySize: 7,
         required: true,
+        minItems: 1,
+      },
+      {
+        key: 'extraCorrectImageUrls',
+        label: 'Outras Imagens Corretas (até 3, opcional)',
+        type: 'array',
+        arrayType: 'image',
+        arraySize: 3,
+        required: false,
       },
     ],
   },
@@ -136,7 +166,7 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
     id: 'textToGuess',
     name: 'Adivinhar por Texto',
     icon: 'text-fields',
-    description: '1 imagem, escolher a palavra correta entre 4',
+    description: '1 imagem, escolher a palavra correta entre 2 a 8',
     example: 'Imagem de cão → escolher "cão" entre 4 palavras',
     color: COLORS.warning,
     fields: [
@@ -156,11 +186,20 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
       },
       {
         key: 'falseAlternatives',
-        label: 'Palavras Erradas (3)',
+        label: 'Palavras Erradas (1 a 7)',
         type: 'array',
         arrayType: 'text',
-        arraySize: 3,
+        arraySize: 7,
         required: true,
+        minItems: 1,
+      },
+      {
+        key: 'extraCorrectAnswers',
+        label: 'Outras Respostas Corretas (até 3, opcional)',
+        type: 'array',
+        arrayType: 'text',
+        arraySize: 3,
+        required: false,
       },
     ],
   },
@@ -168,7 +207,7 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
     id: 'audioToGuess',
     name: 'Adivinhar por Áudio',
     icon: 'volume-up',
-    description: '1 palavra, escolher o áudio correto entre 4',
+    description: '1 palavra, escolher o áudio correto entre 2 a 8',
     example: 'Palavra: "cão" → escolher áudio correto',
     color: COLORS.blue500,
     fields: [
@@ -188,11 +227,20 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
       },
       {
         key: 'falseAudioUrls',
-        label: 'Áudios Errados (3)',
+        label: 'Áudios Errados (1 a 7)',
         type: 'array',
         arrayType: 'audio',
-        arraySize: 3,
+        arraySize: 7,
         required: true,
+        minItems: 1,
+      },
+      {
+        key: 'extraCorrectAudioUrls',
+        label: 'Outros Áudios Corretos (até 3, opcional)',
+        type: 'array',
+        arrayType: 'audio',
+        arraySize: 3,
+        required: false,
       },
     ],
   },
@@ -232,6 +280,108 @@ const GRAIN_TYPES: GrainTypeConfig[] = [
       },
     ],
   },
+  {
+    id: 'orderWords',
+    name: 'Ordenar Palavras',
+    icon: 'sort',
+    description: 'Construir a frase tocando nas palavras pela ordem certa',
+    example: 'vivo · Santiago · Eu · en → "Eu vivo en Santiago"',
+    color: COLORS.primaryDark,
+    fields: [
+      {
+        key: 'sentence',
+        label: 'Frase',
+        type: 'text',
+        placeholder: 'Eu vivo en Santiago',
+        required: true,
+        maxLength: 200,
+      },
+      {
+        key: 'distractors',
+        label: 'Distratores (até 6, opcional)',
+        type: 'array',
+        arrayType: 'text',
+        arraySize: 6,
+        required: false,
+      },
+      {
+        key: 'acceptedOrders',
+        label: 'Outras Ordens Aceites (até 5, opcional)',
+        type: 'array',
+        arrayType: 'text',
+        arraySize: 5,
+        required: false,
+      },
+    ],
+  },
+  {
+    id: 'audioToType',
+    name: 'Ditado',
+    icon: 'hearing',
+    description: 'Ouvir um áudio e escrever o que se ouviu',
+    example: 'Áudio "bos días" → escrever "Bos días"',
+    color: COLORS.secondaryDark,
+    fields: [
+      {
+        key: 'audioUrl',
+        label: 'Áudio',
+        type: 'audio',
+        required: true,
+      },
+      {
+        key: 'correctAnswer',
+        label: 'Transcrição',
+        type: 'text',
+        placeholder: 'Bos días',
+        required: true,
+        maxLength: 200,
+      },
+      {
+        key: 'acceptedSpellings',
+        label: 'Outras Grafias Aceites (até 5, opcional)',
+        type: 'array',
+        arrayType: 'text',
+        arraySize: 5,
+        required: false,
+      },
+    ],
+  },
+  {
+    id: 'cloze',
+    name: 'Texto com Lacunas',
+    icon: 'short-text',
+    description: 'Texto com várias lacunas numeradas, cada uma com as suas respostas',
+    example: 'Eu [BLANK:1] en Santiago e [BLANK:2] galego. (vivo, falo)',
+    color: COLORS.primary,
+    fields: [
+      {
+        key: 'passage',
+        label: 'Texto (use [BLANK:1], [BLANK:2]… para as lacunas)',
+        type: 'text',
+        placeholder: 'Eu [BLANK:1] en Santiago e [BLANK:2] galego.',
+        required: true,
+        maxLength: 1000,
+      },
+    ],
+  },
+  {
+    id: 'trueFalse',
+    name: 'Verdadeiro ou Falso',
+    icon: 'rule',
+    description: 'Série de 3 a 8 afirmações, cada uma verdadeira ou falsa',
+    example: 'Santiago é a capital de Galiza. (verdadeiro)',
+    color: COLORS.secondary,
+    fields: [
+      {
+        key: 'statements',
+        label: 'Afirmações (comece cada uma por "true:" ou "false:")',
+        type: 'array',
+        arrayType: 'text',
+        arraySize: 3,
+        required: true,
+      },
+    ],
+  },
 ];
 
 const ImprovedGrainEditorScreen = ({ route, navigation }: any) => {
@@ -246,7 +396,7 @@ const ImprovedGrainEditorScreen = ({ route, navigation }: any) => {
   const [showTypeSelector, setShowTypeSelector] = useState(!expectedGrainType);
 
   const currentGrainConfig = GRAIN_TYPES.find(type => type.id === selectedGrainType);
-  const isTypeEnforced = !!expectedGrainType && pageType !== 'Custom';
+  const isTypeEnforced = !!pageType && getExpectedGrainType(pageType, position) !== null;
 
   useEffect(() => {
     if (grainId) {
@@ -502,7 +652,11 @@ const ImprovedGrainEditorScreen = ({ route, navigation }: any) => {
       .filter(field => {
         const value = grainContent[field.key];
         if (field.type === 'array') {
-          return !value || value.some((item: any) => !item || (typeof item === 'string' && !item.trim()));
+          const isEmpty = (item: unknown) => !item || (typeof item === 'string' && !item.trim());
+          if (field.minItems) {
+            return (value || []).filter((item: unknown) => !isEmpty(item)).length < field.minItems;
+          }
+          return !value || value.some(isEmpty);
         }
         return !value || (typeof value === 'string' && !value.trim());
       });
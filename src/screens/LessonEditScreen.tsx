@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, TextInput, Button, StyleSheet, ScrollView, Alert, ActivityIndicator, TouchableOpacity, Platform, FlatList } from 'react-native';
-import { supabase } from '../lib/supabase'; // Ensure this path is correct
+import { CourseService } from '../lib/courseService';
+import { repositories } from '../lib/repositories';
 import { useRoute, useNavigation, useIsFocused, NavigationProp } from '@react-navigation/native';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
 import { Card, Button as CustomButton, Input, Badge, IconButton, EmptyState } from '../components/UIComponents';
+import LessonWorksheetPanel from '../components/LessonWorksheetPanel';
+import LessonMarkdownPanel from '../components/LessonMarkdownPanel';
 
 // Define the types for route params and navigation
 type RootStackParamList = {
@@ -47,20 +50,11 @@ export default function LessonEditScreen() {
     if (!moduleId) return;
 
     try {
-      const { data, error } = await supabase
-        .from('lessons')
-        .select('position')
-        .eq('module_id', moduleId)
-        .order('position', { ascending: false })
-        .limit(1);
+      const { data, error } = await repositories.lessons.nextPosition(moduleId);
 
       if (error) throw error;
 
-      if (data && data.length > 0) {
-        setPosition(String(data[0].position + 1));
-      } else {
-        setPosition('1');
-      }
+      setPosition(String(data ?? 1));
     } catch (error) {
       console.error('Error fetching next lesson position:', error);
       setPosition('1'); // Default to 1 if error
@@ -75,17 +69,13 @@ export default function LessonEditScreen() {
 
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('lessons')
-        .select('*, modules(course_id)') // Ensure you select all necessary fields
-        .eq('id', lessonId)
-        .single();
+      const { data, error } = await repositories.lessons.get(lessonId);
 
       if (error) throw error;
 
       if (data) {
         setTitle(data.title || '');
-        setContent(data.content || '');
+        setContent(data.content ?? '');
         setPosition(String(data.position) || ''); // Convert to string for input
       } else {
         // If no data found for lessonId, perhaps it's a new lesson or an error
@@ -107,14 +97,10 @@ export default function LessonEditScreen() {
     if (!lessonId) return;
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('pages')
-        .select('id, title, position')
-        .eq('lesson_id', lessonId)
-        .order('position', { ascending: true });
+      const { data, error } = await repositories.pages.list(lessonId);
 
       if (error) throw error;
-      setPages(data || []);
+      setPages(data ?? []);
     } catch (error) {
       Alert.alert('Erro', 'Não foi possível carregar as páginas.');
       console.error('Error loading pages:', error);
@@ -160,8 +146,7 @@ export default function LessonEditScreen() {
 
     setIsLoading(true);
     try {
-      let lessonData: any = {
-        module_id: moduleId,
+      const lessonData = {
         title: title.trim(),
         content: content,
         position: currentPosition,
@@ -170,15 +155,16 @@ export default function LessonEditScreen() {
       let response;
       if (lessonId) {
         // Update existing lesson
-        response = await supabase.from('lessons').update(lessonData).eq('id', lessonId).select().single();
+        response = await repositories.lessons.update(lessonId, lessonData);
       } else {
         // Create new lesson
-        response = await supabase.from('lessons').insert(lessonData).select().single();
+        response = await repositories.lessons.create({ ...lessonData, module_id: moduleId });
       }
 
       const { data: savedLesson, error } = response;
 
       if (error) throw error;
+      CourseService.invalidateCourseTree(courseId);
 
       Alert.alert('Sucesso', `Lição ${lessonId ? 'atualizada' : 'criada'} com sucesso!`);
       navigation.navigate('ModuleEdit', { courseId: courseId, moduleId: moduleId, refresh: true }); // Pass courseId here
@@ -203,10 +189,7 @@ export default function LessonEditScreen() {
       setIsLoading(true);
       try {
         // First, delete all pages associated with this lesson
-        const { error: pagesError } = await supabase
-          .from('pages')
-          .delete()
-          .eq('lesson_id', lessonId);
+        const { error: pagesError } = await repositories.pages.deleteByParent(lessonId);
 
         if (pagesError) {
           console.error('Error deleting pages for lesson:', pagesError);
@@ -217,15 +200,13 @@ export default function LessonEditScreen() {
         }
 
         // Then, delete the lesson itself
-        const { error: lessonError } = await supabase
-          .from('lessons')
-          .delete()
-          .eq('id', lessonId);
+        const { error: lessonError } = await repositories.lessons.delete(lessonId);
 
         if (lessonError) {
           console.error('Error deleting lesson:', lessonError);
           Alert.alert('Erro', `Falha ao excluir lição: ${lessonError.message}`);
         } else {
+          CourseService.invalidateCourseTree(courseId);
           Alert.alert('Sucesso', 'Lição e suas páginas foram excluídas com sucesso!');
           navigation.navigate('ModuleEdit', { courseId: courseId, moduleId: moduleId, refresh: true });
         }
@@ -340,6 +321,13 @@ export default function LessonEditScreen() {
           </View>
         </View>
       )}
+
+      {lessonId && (
+        <View style={styles.worksheetSection}>
+          <LessonWorksheetPanel lessonId={lessonId} />
+          {courseId && <LessonMarkdownPanel courseId={courseId} lessonId={lessonId} />}
+        </View>
+      )}
     </ScrollView>
   );
 }
@@ -391,6 +379,9 @@ const styles = StyleSheet.create({
     borderTopColor: COLORS.border,
     paddingTop: SPACING.lg,
   },
+  worksheetSection: {
+    marginTop: SPACING.lg,
+  },
   sectionTitle: {
     ...TYPOGRAPHY.h3,
     color: COLORS.text.primary,
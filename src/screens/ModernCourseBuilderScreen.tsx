@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
   View,
   Text,
@@ -12,48 +12,43 @@ import {
   Pressable,
   Platform,
 } from 'react-native';
-import { useNavigation, useRoute } from '@react-navigation/native';
+import { useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SHADOWS } from '../styles/designSystem';
 import { supabase } from '../lib/supabase';
+import { CourseService, DuplicationProgress, useCourseTree } from '../lib/courseService';
+import { repositories } from '../lib/repositories';
+import { CompletionSummary, evaluateGrainCompleteness, getNodeCompletion } from '../lib/grainCompleteness';
+import { CourseHealth, HealthIssue } from '../lib/courseHealth';
+import { LessonNode, ModuleNode, PageNode } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import { useSidebar } from '../contexts/SidebarContext';
 import ModernSidebar from '../components/ModernSidebar';
+import { ProgressBar } from '../components/UIComponents';
+import CourseHealthPanel from '../components/CourseHealthPanel';
+import CourseExportPanel from '../components/CourseExportPanel';
+
+type ModuleStructure = ModuleNode;
+type LessonStructure = LessonNode;
+type PageStructure = PageNode;
+
+const COMPLETION_LABELS: Record<CompletionSummary['status'], string> = {
+  complete: 'Completa',
+  partial: 'Parcial',
+  empty: 'Vazia',
+};
 
-interface CourseStructure {
-  id: string;
-  title: string;
-  description?: string;
-  cover_image_url?: string;
-  published: boolean;
-  creator_id?: string | null;
-  author_name?: string | null;
-  author_display_name?: string | null;
-  modules: ModuleStructure[];
-}
-
-interface ModuleStructure {
-  id: string;
-  title: string;
-  position: number;
-  lessons: LessonStructure[];
-}
-
-interface LessonStructure {
-  id: string;
-  title: string;
-  position: number;
-  pages: PageStructure[];
-}
-
-interface PageStructure {
-  id: string;
-  title: string;
-  position: number;
-  type: 'Introduction' | 'Booster' | 'Comparation' | 'Review' | 'Custom';
-  grains_count: number;
-  completion_status: 'empty' | 'partial' | 'complete';
-}
+const CompletionBar: React.FC<{ summary?: CompletionSummary; compact?: boolean }> = ({ summary, compact = false }) => (
+  <View style={compact ? styles.completionCompact : styles.completionRow}>
+    <ProgressBar
+      progress={summary?.percentage ?? 0}
+      color={summary?.status === 'complete' ? COLORS.success : COLORS.primary}
+      height={compact ? 3 : 6}
+      style={styles.completionBar}
+    />
+    {!compact && <Text style={styles.completionText}>{summary?.percentage ?? 0}%</Text>}
+  </View>
+);
 
 const ModernCourseBuilderScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -61,8 +56,13 @@ const ModernCourseBuilderScreen: React.FC = () => {
   const { session, profile } = useAuth();
   const { courseId } = route.params as { courseId: string };
   
-  const [courseStructure, setCourseStructure] = useState<CourseStructure | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const {
+    tree: courseStructure,
+    setTree: setCourseStructure,
+    isLoading,
+    error: loadError,
+    reload,
+  } = useCourseTree(courseId, { includeGrains: true });
   const [selectedModule, setSelectedModule] = useState<string | null>(null);
   const [selectedLesson, setSelectedLesson] = useState<string | null>(null);
   const [selectedPage, setSelectedPage] = useState<string | null>(null);
@@ -74,6 +74,9 @@ const ModernCourseBuilderScreen: React.FC = () => {
   const [deletingPageId, setDeletingPageId] = useState<string | null>(null);
   const [creatingModule, setCreatingModule] = useState(false);
   const [creatingLesson, setCreatingLesson] = useState(false);
+  const [duplicationProgress, setDuplicationProgress] = useState<DuplicationProgress | null>(null);
+  const [brokenMediaUrls, setBrokenMediaUrls] = useState<string[] | null>(null);
+  const [isCheckingMedia, setIsCheckingMedia] = useState(false);
 
   const userId = session?.user?.id ?? null;
   const userRole = profile?.role;
@@ -87,36 +90,18 @@ const ModernCourseBuilderScreen: React.FC = () => {
   }, [courseStructure, userId, userRole]);
 
   useEffect(() => {
-    fetchCourseStructure();
-  }, [courseId]);
-
-  const fetchCourseStructure = async () => {
-    try {
-      setIsLoading(true);
-      const { data, error } = await supabase
-        .from('courses')
-        .select(`
-          *,
-          modules (
-            *,
-            lessons (
-              *,
-              pages (*)
-            )
-          )
-        `)
-        .eq('id', courseId)
-        .single();
-
-      if (error) throw error;
-      setCourseStructure(data);
-    } catch (error) {
-      console.error('Error fetching course structure:', error);
+    if (loadError) {
+      console.error('Error fetching course structure:', loadError);
       Alert.alert('Erro', 'Não foi possível carregar a estrutura do curso');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [loadError]);
+
+  // Editors invalidate the shared tree when they save, so this only refetches when needed
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
 
   const confirmDestructiveAction = (
     title: string,
@@ -266,6 +251,58 @@ const ModernCourseBuilderScreen: React.FC = () => {
     }
   };
 
+  // Completion of every node of the tree, keyed by id
+  const completion = useMemo(() => {
+    const byId = new Map<string, CompletionSummary>();
+    if (!courseStructure) {
+      return byId;
+    }
+    byId.set(courseStructure.id, getNodeCompletion(courseStructure));
+    courseStructure.modules.forEach(module => {
+      byId.set(module.id, getNodeCompletion(module));
+      module.lessons.forEach(lesson => {
+        byId.set(lesson.id, getNodeCompletion(lesson));
+        lesson.pages.forEach(page => byId.set(page.id, getNodeCompletion(page)));
+      });
+    });
+    return byId;
+  }, [courseStructure]);
+
+  const healthReport = useMemo(
+    () => (courseStructure ? CourseHealth.analyze(courseStructure, { brokenMediaUrls: brokenMediaUrls ?? [] }) : null),
+    [courseStructure, brokenMediaUrls]
+  );
+
+  const handleCheckMedia = async () => {
+    if (!courseStructure) {
+      return;
+    }
+    try {
+      setIsCheckingMedia(true);
+      setBrokenMediaUrls(await CourseHealth.findBrokenMedia(courseStructure));
+    } catch (error) {
+      console.error('Error checking course media:', error);
+      Alert.alert('Erro', 'Não foi possível verificar os ficheiros de media');
+    } finally {
+      setIsCheckingMedia(false);
+    }
+  };
+
+  const handleHealthIssueSelect = ({ location }: HealthIssue) => {
+    if (location.grainId && location.pageId) {
+      (navigation as any).navigate('GrainEdit', { pageId: location.pageId, grainId: location.grainId });
+      return;
+    }
+    if (!location.moduleId) {
+      setEditMode('course');
+      return;
+    }
+    setSelectedModule(location.moduleId);
+    setSelectedLesson(location.lessonId ?? null);
+    setSelectedPage(location.pageId ?? null);
+    setEditMode(location.pageId ? 'page' : location.lessonId ? 'lesson' : 'module');
+  };
+
   const getModuleStats = (module: ModuleStructure) => {
     const totalLessons = module.lessons.length;
     const completedLessons = module.lessons.filter(lesson => 
@@ -317,6 +354,8 @@ const ModernCourseBuilderScreen: React.FC = () => {
   const handleNavigate = (route: string) => {
     if (route === 'CourseList') {
       (navigation as any).navigate('CourseList');
+    } else if (route === 'PageTemplates') {
+      (navigation as any).navigate('PageTemplates');
     }
   };
 
@@ -362,6 +401,42 @@ const ModernCourseBuilderScreen: React.FC = () => {
     );
   };
 
+  const handleDuplicateCourse = async () => {
+    if (!courseStructure || !userId) {
+      return;
+    }
+
+    try {
+      const { course, counts } = await CourseService.duplicateCourse(
+        courseStructure.id,
+        `${courseStructure.title} (cópia)`,
+        userId,
+        { copyMedia: true, onProgress: setDuplicationProgress }
+      );
+
+      Alert.alert(
+        'Sucesso',
+        `Curso duplicado: ${counts.modules} módulos, ${counts.lessons} lições, ${counts.pages} páginas e ${counts.grains} grãos.`
+      );
+      (navigation as any).push('CourseBuilder', { courseId: course.id });
+    } catch (error) {
+      console.error('Erro ao duplicar curso:', error);
+      Alert.alert('Erro', 'Não foi possível duplicar o curso. Nenhuma alteração foi guardada.');
+    } finally {
+      setDuplicationProgress(null);
+    }
+  };
+
+  const getDuplicationLabel = () => {
+    if (!duplicationProgress) {
+      return 'Duplicar';
+    }
+    if (duplicationProgress.stage === 'copyingMedia' && duplicationProgress.total > 0) {
+      return `A copiar ficheiros ${duplicationProgress.completed}/${duplicationProgress.total}`;
+    }
+    return 'A duplicar...';
+  };
+
   const handleCreateModule = async () => {
     if (!courseStructure) return;
 
@@ -375,22 +450,16 @@ const ModernCourseBuilderScreen: React.FC = () => {
       const nextPosition = courseStructure.modules.reduce((max, module) => Math.max(max, module.position ?? 0), 0) + 1;
       console.log('Creating module for course', courseStructure.id, 'next position', nextPosition);
 
-      const { data, error } = await supabase
-        .from('modules')
-        .insert({
-          course_id: courseStructure.id,
-          title: `Novo módulo ${nextPosition}`,
-          position: nextPosition,
-        })
-        .select('id, title, position')
-        .single();
+      const { data, error } = await repositories.modules.create({
+        course_id: courseStructure.id,
+        title: `Novo módulo ${nextPosition}`,
+        position: nextPosition,
+      });
 
-      if (error) throw error;
+      if (!data) throw error;
 
       const newModule: ModuleStructure = {
-        id: data.id,
-        title: data.title,
-        position: data.position ?? nextPosition,
+        ...data,
         lessons: [],
       };
 
@@ -438,22 +507,16 @@ const ModernCourseBuilderScreen: React.FC = () => {
       const nextPosition = moduleData.lessons.reduce((max, lesson) => Math.max(max, lesson.position ?? 0), 0) + 1;
       console.log('Creating lesson for module', selectedModule, 'next position', nextPosition);
 
-      const { data, error } = await supabase
-        .from('lessons')
-        .insert({
-          module_id: selectedModule,
-          title: `Nova lição ${nextPosition}`,
-          position: nextPosition,
-        })
-        .select('id, title, position')
-        .single();
+      const { data, error } = await repositories.lessons.create({
+        module_id: selectedModule,
+        title: `Nova lição ${nextPosition}`,
+        position: nextPosition,
+      });
 
-      if (error) throw error;
+      if (!data) throw error;
 
       const newLesson: LessonStructure = {
-        id: data.id,
-        title: data.title,
-        position: data.position ?? nextPosition,
+        ...data,
         pages: [],
       };
 
@@ -672,8 +735,20 @@ const ModernCourseBuilderScreen: React.FC = () => {
             <MaterialIcons name="arrow-back" size={16} color={COLORS.text} />
             <Text style={styles.btnText}>Voltar</Text>
           </TouchableOpacity>
-          <TouchableOpacity style={styles.btn}>
-            <Text style={styles.btnText}>Duplicar</Text>
+          <TouchableOpacity
+            style={styles.btn}
+            onPress={handleDuplicateCourse}
+            disabled={duplicationProgress !== null}
+          >
+            <Text style={styles.btnText}>{getDuplicationLabel()}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.btn, !canManageCourse && styles.btnDisabled]}
+            onPress={() => (navigation as any).navigate('CourseImport', { courseId })}
+            disabled={!canManageCourse}
+          >
+            <MaterialIcons name="file-upload" size={16} color={COLORS.text} />
+            <Text style={styles.btnText}>Importar</Text>
           </TouchableOpacity>
           <TouchableOpacity style={styles.btn}>
             <Text style={styles.btnText}>Mover para rascunho</Text>
@@ -763,6 +838,7 @@ const ModernCourseBuilderScreen: React.FC = () => {
                 )}
               </View>
             </TouchableOpacity>
+            <CompletionBar summary={completion.get(module.id)} compact />
 
             {selectedModule === module.id && (
               <View style={styles.subNodes}>
@@ -809,6 +885,7 @@ const ModernCourseBuilderScreen: React.FC = () => {
                         )}
                       </View>
                     </TouchableOpacity>
+                    <CompletionBar summary={completion.get(lesson.id)} compact />
 
                     {selectedLesson === lesson.id && (
                       <View style={styles.subSubNodes}>
@@ -1004,6 +1081,23 @@ const ModernCourseBuilderScreen: React.FC = () => {
                 </View>
               </View>
 
+              <View style={styles.field}>
+                <Text style={styles.label}>Conteúdo preenchido</Text>
+                <CompletionBar summary={courseStructure ? completion.get(courseStructure.id) : undefined} />
+              </View>
+
+              {healthReport && (
+                <CourseHealthPanel
+                  report={healthReport}
+                  onSelectIssue={handleHealthIssueSelect}
+                  onCheckMedia={handleCheckMedia}
+                  isCheckingMedia={isCheckingMedia}
+                  mediaChecked={brokenMediaUrls !== null}
+                />
+              )}
+
+              <CourseExportPanel courseId={courseId} />
+
               {/* Save Course Button */}
               <TouchableOpacity style={styles.btnPrimary} onPress={saveCourseChanges}>
                 <MaterialIcons name="save" size={16} color="white" />
@@ -1061,6 +1155,11 @@ const ModernCourseBuilderScreen: React.FC = () => {
                 </View>
               </View>
 
+              <View style={styles.field}>
+                <Text style={styles.label}>Conteúdo preenchido</Text>
+                <CompletionBar summary={completion.get(selectedModuleData.id)} />
+              </View>
+
               {/* Lessons List */}
               <View style={styles.block}>
                 <Text style={styles.blockTitle}>Lições neste Módulo</Text>
@@ -1115,6 +1214,11 @@ const ModernCourseBuilderScreen: React.FC = () => {
                 </View>
               </View>
 
+              <View style={styles.field}>
+                <Text style={styles.label}>Conteúdo preenchido</Text>
+                <CompletionBar summary={completion.get(selectedLessonData.id)} />
+              </View>
+
               {/* Pages in Lesson */}
               <View style={styles.block}>
                 <Text style={styles.blockTitle}>Páginas nesta Lição</Text>
@@ -1136,6 +1240,7 @@ const ModernCourseBuilderScreen: React.FC = () => {
                           {page.grains_count || 0} grãos
                         </Text>
                       </View>
+                      <CompletionBar summary={completion.get(page.id)} />
                     </View>
                     <MaterialIcons name="chevron-right" size={20} color={COLORS.muted} />
                   </TouchableOpacity>
@@ -1201,9 +1306,19 @@ const ModernCourseBuilderScreen: React.FC = () => {
                 </View>
                 <View style={styles.pageInfoItem}>
                   <Text style={styles.pageInfoLabel}>Status</Text>
-                  <Text style={styles.pageInfoValue}>{selectedPageData.completion_status}</Text>
+                  <Text style={styles.pageInfoValue}>{COMPLETION_LABELS[selectedPageData.completion_status]}</Text>
+                </View>
+                <View style={styles.pageInfoItem}>
+                  <Text style={styles.pageInfoLabel}>Campos em falta</Text>
+                  <Text style={styles.pageInfoValue}>
+                    {(selectedPageData.grains ?? []).reduce(
+                      (sum, grain) => sum + evaluateGrainCompleteness(grain).missing.length,
+                      0
+                    )}
+                  </Text>
                 </View>
               </View>
+              <CompletionBar summary={completion.get(selectedPageData.id)} />
             </>
           )}
         </ScrollView>
@@ -1486,6 +1601,26 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '700',
   },
+  completionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  completionCompact: {
+    paddingHorizontal: 12,
+    marginBottom: 4,
+  },
+  completionBar: {
+    flex: 1,
+  },
+  completionText: {
+    color: COLORS.muted,
+    fontSize: 12,
+    fontWeight: '600',
+    minWidth: 36,
+    textAlign: 'right',
+  },
   nodeHeader: {
     flex: 1,
     flexDirection: 'row',
@@ -13,6 +13,7 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../styles/designSystem';
 import { supabase } from '../lib/supabase';
+import { CourseService } from '../lib/courseService';
 import { useAuth } from '../contexts/AuthContext';
 import { useSidebar } from '../contexts/SidebarContext';
 import ModernSidebar from '../components/ModernSidebar';
@@ -87,6 +88,16 @@ const ModernCourseListScreen: React.FC = () => {
       });
       
       setCourses(coursesWithAuthorInfo);
+
+      // Completion is counted per course in the database and filled in once the list is on screen
+      CourseService.getCoursesCompletion(coursesWithAuthorInfo.map(course => course.id))
+        .then(completion => {
+          setCourses(current => current.map(course => ({
+            ...course,
+            progress: completion[course.id]?.percentage ?? course.progress,
+          })));
+        })
+        .catch(error => console.error('Error fetching course completion:', error));
     } catch (error) {
       console.error('Error fetching courses:', error);
       Alert.alert('Erro', 'Não foi possível carregar os cursos');
@@ -112,6 +123,10 @@ const ModernCourseListScreen: React.FC = () => {
     (navigation as any).navigate('CourseEdit', { courseId: null });
   };
 
+  const handleImportCourse = () => {
+    (navigation as any).navigate('CourseImport', {});
+  };
+
   const handleEditCourse = (courseId: string) => {
     (navigation as any).navigate('CourseBuilder', { courseId });
   };
@@ -261,7 +276,7 @@ const ModernCourseListScreen: React.FC = () => {
             {new Date(course.created_at).toLocaleDateString('pt-PT')}
           </Text>
           <Text style={styles.tableCell}>
-            {course.progress ? `${course.progress}%` : '—'}
+            {course.progress !== undefined ? `${course.progress}%` : '—'}
           </Text>
           <View style={styles.tableActions}>
             <TouchableOpacity
@@ -306,6 +321,7 @@ const ModernCourseListScreen: React.FC = () => {
       <View style={styles.main}>
         <ModernTopBar
           onNewCourse={handleNewCourse}
+          onImportCourse={handleImportCourse}
           onToggleView={setCurrentView}
           currentView={currentView}
           searchQuery={searchQuery}
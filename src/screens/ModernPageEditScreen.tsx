@@ -12,11 +12,24 @@ import {
 } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { supabase } from '../lib/supabase';
+import { CourseService } from '../lib/courseService';
+import { repositories } from '../lib/repositories';
+import {
+  getExpectedGrainType,
+  getGrainPattern,
+  GRAINS_PER_PAGE,
+  PAGE_TYPES,
+  SELECTABLE_PAGE_TYPES,
+} from '../lib/pageTypes';
+import { getGrainTypeLabel, GRAIN_TYPE_LABELS } from '../lib/grainTypes';
+import { PageTemplate, pageFieldsFromTemplate, toPageTemplate } from '../lib/pageTemplates';
+import { createEmptyGrainContent } from '../lib/grainContent';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
 import { useAuth } from '../contexts/AuthContext';
 import { useSidebar } from '../contexts/SidebarContext';
 import ModernSidebar from '../components/ModernSidebar';
+import GrainCsvPanel from '../components/GrainCsvPanel';
+import { GrainType, PageType } from '../types';
 
 // Types
 type PageEditScreenRouteParams = {
@@ -36,45 +49,6 @@ type Grain = {
   updated_at: string;
 };
 
-type PageType = 'Introduction' | 'Booster' | 'Comparation' | 'Review' | 'Custom';
-
-const PAGE_TYPE_PATTERNS: Record<Exclude<PageType, 'Custom'>, string[]> = {
-  Introduction: [
-    'imagesToGuess', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText',
-    'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText'
-  ],
-  Booster: [
-    'textToComplete', 'testQuestion', 'imagesToGuess', 'textToComplete', 'pairsOfImage', 'testQuestion', 'imagesToGuess',
-    'pairsOfText',
-    'testQuestion', 'textToComplete', 'imagesToGuess', 'pairsOfImage', 'testQuestion', 'textToComplete',
-    'pairsOfText'
-  ],
-  Comparation: [
-    'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess',
-    'pairsOfText',
-    'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess',
-    'pairsOfText'
-  ],
-  Review: [
-    'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText',
-    'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText'
-  ],
-};
-
-const GRAIN_TYPE_LABELS: Record<string, string> = {
-  textToComplete: 'Texto para Completar',
-  testQuestion: 'Pergunta de Teste',
-  imagesToGuess: 'Imagens para Adivinhar',
-  textToGuess: 'Texto para Adivinhar',
-  audioToGuess: 'Áudio para Adivinhar',
-  pairsOfText: 'Pares de Texto',
-  pairsOfImage: 'Pares de Imagem',
-};
-
 const ModernPageEditScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute();
@@ -86,6 +60,8 @@ const ModernPageEditScreen: React.FC = () => {
   const [position, setPosition] = useState(1);
   const [pageType, setPageType] = useState<PageType>('Introduction');
   const [customGrainTypes, setCustomGrainTypes] = useState<string[]>(new Array(15).fill('textToComplete'));
+  const [templates, setTemplates] = useState<PageTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<PageTemplate | null>(null);
   
   // Grains and loading states
   const [grains, setGrains] = useState<Grain[]>([]);
@@ -107,6 +83,7 @@ const ModernPageEditScreen: React.FC = () => {
         await loadPageData();
         await loadGrains();
       } else {
+        await loadTemplates();
         await setInitialPosition();
       }
     } finally {
@@ -115,31 +92,45 @@ const ModernPageEditScreen: React.FC = () => {
   };
 
   const setInitialPosition = async () => {
-    const { data, error } = await supabase
-      .from('pages')
-      .select('position')
-      .eq('lesson_id', lessonId)
-      .order('position', { ascending: false })
-      .limit(1)
-      .single();
-
-    if (error && error.code !== 'PGRST116') {
+    const { data, error } = await repositories.pages.nextPosition(lessonId);
+
+    if (error) {
       console.error('Error getting initial position:', error);
       setPosition(1);
-    } else if (data) {
-      setPosition(data.position + 1);
     } else {
-      setPosition(1);
+      setPosition(data ?? 1);
+    }
+  };
+
+  /**
+   * Load the templates offered for new pages. Archived templates are only kept
+   * to show the version an existing page was created from.
+   */
+  const loadTemplates = async (pageTemplate?: { id: string; version: number }) => {
+    const { data, error } = await repositories.pageTemplates.list(true);
+
+    if (error) {
+      console.error('Error loading page templates:', error);
+      return;
+    }
+
+    const rows = data ?? [];
+    setTemplates(
+      rows
+        .filter(row => !row.archived)
+        .map(row => toPageTemplate(row))
+        .filter((template): template is PageTemplate => template !== null)
+    );
+
+    if (pageTemplate) {
+      const row = rows.find(candidate => candidate.id === pageTemplate.id);
+      setSelectedTemplate(row ? toPageTemplate(row, pageTemplate.version) : null);
     }
   };
 
   const loadPageData = async () => {
     if (!pageId) return;
-    const { data, error } = await supabase
-      .from('pages')
-      .select('*')
-      .eq('id', pageId)
-      .single();
+    const { data, error } = await repositories.pages.get(pageId);
 
     if (error) {
       Alert.alert('Erro', 'Erro ao carregar os dados da página.');
@@ -153,6 +144,12 @@ const ModernPageEditScreen: React.FC = () => {
       } else {
         setCustomGrainTypes(new Array(15).fill('textToComplete'));
       }
+
+      await loadTemplates(
+        data.template_id && data.template_version
+          ? { id: data.template_id, version: data.template_version }
+          : undefined
+      );
     }
   };
 
@@ -160,14 +157,10 @@ const ModernPageEditScreen: React.FC = () => {
     if (!pageId) return;
     setIsLoadingGrains(true);
     try {
-      const { data, error } = await supabase
-        .from('grains')
-        .select('*')
-        .eq('page_id', pageId)
-        .order('position', { ascending: true });
+      const { data, error } = await repositories.grains.list(pageId);
 
       if (error) throw error;
-      setGrains(data || []);
+      setGrains(data ?? []);
     } catch (error) {
       console.error('Error loading grains:', error);
       Alert.alert('Erro', 'Não foi possível carregar os grains.');
@@ -189,46 +182,43 @@ const ModernPageEditScreen: React.FC = () => {
         lesson_id: lessonId,
         position: position,
         type: pageType,
-        grain_pattern: pageType === 'Custom' ? customGrainTypes : PAGE_TYPE_PATTERNS[pageType] || [],
+        grain_pattern: getGrainPattern(pageType, customGrainTypes as GrainType[]),
+        template_id: null,
+        template_version: null,
+        ...(selectedTemplate ? pageFieldsFromTemplate(selectedTemplate) : {}),
       };
 
       let savedPageId = pageId;
 
       if (pageId) {
         // Update existing page
-        const { error } = await supabase
-          .from('pages')
-          .update(pageData)
-          .eq('id', pageId);
+        const { error } = await repositories.pages.update(pageId, pageData);
 
         if (error) throw error;
       } else {
         // Create new page
-        const { data, error } = await supabase
-          .from('pages')
-          .insert([pageData])
-          .select()
-          .single();
+        const { data, error } = await repositories.pages.create(pageData);
 
-        if (error) throw error;
+        if (!data) {
+          throw error ?? new Error('Página não criada');
+        }
         savedPageId = data.id;
 
         // Create grains based on the pattern
-        const grainPattern = pageType === 'Custom' ? customGrainTypes : PAGE_TYPE_PATTERNS[pageType] || [];
+        const grainPattern = pageData.grain_pattern as GrainType[];
         const grainInserts = grainPattern.map((grainType, index) => ({
-          page_id: savedPageId,
+          page_id: data.id,
           position: index + 1,
           type: grainType,
-          content: getDefaultGrainContent(grainType),
+          content: createEmptyGrainContent(grainType),
         }));
 
-        const { error: grainsError } = await supabase
-          .from('grains')
-          .insert(grainInserts);
+        const { error: grainsError } = await repositories.grains.createMany(grainInserts);
 
         if (grainsError) throw grainsError;
       }
 
+      CourseService.invalidateCourseTree(courseId);
       Alert.alert('Sucesso', 'Página guardada com sucesso!');
       if (!pageId) {
         // Navigate to edit the newly created page
@@ -248,37 +238,17 @@ const ModernPageEditScreen: React.FC = () => {
     }
   };
 
-  const getDefaultGrainContent = (grainType: string) => {
-    switch (grainType) {
-      case 'textToComplete':
-        return { text: '', blanks: [] };
-      case 'testQuestion':
-        return { question: '', options: [], correct: 0 };
-      case 'imagesToGuess':
-        return { images: [], correct: 0 };
-      case 'textToGuess':
-        return { text: '', options: [], correct: 0 };
-      case 'audioToGuess':
-        return { audio_url: '', options: [], correct: 0 };
-      case 'pairsOfText':
-        return { pairs: [] };
-      case 'pairsOfImage':
-        return { pairs: [] };
-      default:
-        return {};
-    }
-  };
-
   const handleNavigateToGrainEdit = (grainId: string) => {
     (navigation as any).navigate('GrainEdit', { grainId, pageId });
   };
 
   const handleCreateGrain = (position: number) => {
-    const grainType = pageType === 'Custom' ? customGrainTypes[position - 1] : PAGE_TYPE_PATTERNS[pageType]?.[position - 1];
+    const expectedGrainType = getExpectedGrainType(pageType, position, customGrainTypes);
     (navigation as any).navigate('GrainEdit', { 
       pageId, 
       position, 
-      grainType,
+      expectedGrainType,
+      pageType,
       lessonId,
       courseId 
     });
@@ -289,6 +259,8 @@ const ModernPageEditScreen: React.FC = () => {
       (navigation as any).navigate('CourseList');
     } else if (route === 'CourseBuilder') {
       (navigation as any).navigate('CourseBuilder', { courseId });
+    } else if (route === 'PageTemplates') {
+      (navigation as any).navigate('PageTemplates');
     }
   };
 
@@ -301,18 +273,26 @@ const ModernPageEditScreen: React.FC = () => {
   const handlePageTypeChange = (newPageType: PageType) => {
     console.log('Changing page type from', pageType, 'to', newPageType);
     setPageType(newPageType);
+    setSelectedTemplate(null);
     
     // Update grain types based on new page type
-    if (newPageType !== 'Custom' && PAGE_TYPE_PATTERNS[newPageType]) {
-      setCustomGrainTypes([...PAGE_TYPE_PATTERNS[newPageType]]);
+    if (PAGE_TYPES[newPageType].slots) {
+      setCustomGrainTypes(getGrainPattern(newPageType));
     } else if (newPageType === 'Custom') {
-      setCustomGrainTypes(new Array(15).fill('textToComplete'));
+      setCustomGrainTypes(new Array(GRAINS_PER_PAGE).fill('textToComplete'));
     }
     
     // Close any expanded grain selectors
     setExpandedGrainSelector(null);
   };
 
+  const handleTemplateChange = (template: PageTemplate) => {
+    setPageType('Custom');
+    setSelectedTemplate(template);
+    setCustomGrainTypes(template.grainPattern);
+    setExpandedGrainSelector(null);
+  };
+
   const handleBackToCourse = () => {
     (navigation as any).navigate('CourseBuilder', { courseId });
   };
@@ -355,6 +335,10 @@ const ModernPageEditScreen: React.FC = () => {
     </View>
   );
 
+  const structureLength = selectedTemplate
+    ? selectedTemplate.grainPattern.length
+    : PAGE_TYPES[pageType].grainCount;
+
   const renderEditorPanel = () => (
     <View style={styles.panel}>
       <ScrollView style={styles.editor}>
@@ -385,51 +369,82 @@ const ModernPageEditScreen: React.FC = () => {
         <View style={styles.field}>
           <Text style={styles.label}>Tipo de Página</Text>
           <View style={styles.radioGroup}>
-            {(['Introduction', 'Booster', 'Comparation', 'Review', 'Custom'] as PageType[]).map((type) => (
-              <TouchableOpacity
-                key={type}
-                style={styles.radioOption}
-                onPress={() => handlePageTypeChange(type)}
-              >
-                <View style={[styles.radioButton, pageType === type && styles.radioButtonSelected]}>
-                  {pageType === type && <View style={styles.radioButtonInner} />}
-                </View>
-                <Text style={[styles.radioLabel, pageType === type && styles.radioLabelSelected]}>
-                  {type}
-                </Text>
-              </TouchableOpacity>
-            ))}
+            {SELECTABLE_PAGE_TYPES.map((type) => {
+              const isSelected = !selectedTemplate && pageType === type;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={styles.radioOption}
+                  onPress={() => handlePageTypeChange(type)}
+                >
+                  <View style={[styles.radioButton, isSelected && styles.radioButtonSelected]}>
+                    {isSelected && <View style={styles.radioButtonInner} />}
+                  </View>
+                  <Text style={[styles.radioLabel, isSelected && styles.radioLabelSelected]}>
+                    {PAGE_TYPES[type].label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            {templates.length > 0 && (
+              <Text style={styles.label}>Modelos</Text>
+            )}
+            {templates.map((template) => {
+              const isSelected = selectedTemplate?.id === template.id;
+              return (
+                <TouchableOpacity
+                  key={template.id}
+                  style={styles.radioOption}
+                  onPress={() => handleTemplateChange(template)}
+                >
+                  <View style={[styles.radioButton, isSelected && styles.radioButtonSelected]}>
+                    {isSelected && <View style={styles.radioButtonInner} />}
+                  </View>
+                  <Text style={[styles.radioLabel, isSelected && styles.radioLabelSelected]}>
+                    {template.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
+          {selectedTemplate && selectedTemplate.version !== templates.find(template => template.id === selectedTemplate.id)?.version && (
+            <Text style={styles.structureDescription}>
+              Esta página foi criada a partir da versão {selectedTemplate.version} do modelo "{selectedTemplate.name}".
+            </Text>
+          )}
         </View>
 
         {/* Page Structure */}
         <View style={styles.pageStructureSection}>
-          <Text style={styles.blockTitle}>Estrutura da Página (15 Grains)</Text>
+          <Text style={styles.blockTitle}>Estrutura da Página ({structureLength} Grains)</Text>
           <Text style={styles.structureDescription}>
-            {pageType === 'Custom' 
-              ? 'Configure o tipo de grain para cada uma das 15 posições (clique para editar):'
-              : `Estrutura automática para páginas do tipo "${pageType}":`
+            {selectedTemplate
+              ? selectedTemplate.description ?? `Estrutura definida pelo modelo "${selectedTemplate.name}":`
+              : pageType === 'Custom'
+                ? `Configure o tipo de grain para cada uma das ${structureLength} posições (clique para editar):`
+                : `Estrutura automática para páginas do tipo "${PAGE_TYPES[pageType].label}":`
             }
           </Text>
           
-          {Array.from({ length: 15 }, (_, index) => {
+          {Array.from({ length: structureLength }, (_, index) => {
             const position = index + 1;
             const grainType = pageType === 'Custom' 
               ? customGrainTypes[index] 
-              : PAGE_TYPE_PATTERNS[pageType]?.[index] || 'textToComplete';
+              : getExpectedGrainType(pageType, position) ?? 'textToComplete';
+            const slotHint = selectedTemplate?.slotHints[index];
             
             return (
               <View key={position} style={styles.grainStructureRow}>
                 <Text style={styles.grainPositionLabel}>{position}.</Text>
                 <View style={styles.grainTypeSelectorContainer}>
-                  {pageType === 'Custom' ? (
+                  {pageType === 'Custom' && !selectedTemplate ? (
                     <View style={styles.grainCustomSelector}>
                       <TouchableOpacity 
                         style={[styles.grainTypeSelector, styles.grainTypeSelectorEditable]}
                         onPress={() => setExpandedGrainSelector(expandedGrainSelector === index ? null : index)}
                       >
                         <Text style={styles.grainTypeSelectorText}>
-                          {GRAIN_TYPE_LABELS[grainType] || grainType}
+                          {getGrainTypeLabel(grainType)}
                         </Text>
                         <MaterialIcons 
                           name={expandedGrainSelector === index ? "expand-less" : "expand-more"} 
@@ -463,11 +478,12 @@ const ModernPageEditScreen: React.FC = () => {
                   ) : (
                     <View style={[styles.grainTypeSelector, styles.grainTypeSelectorReadonly]}>
                       <Text style={[styles.grainTypeSelectorText, styles.grainTypeSelectorTextReadonly]}>
-                        {GRAIN_TYPE_LABELS[grainType] || grainType}
+                        {getGrainTypeLabel(grainType)}
                       </Text>
                       <MaterialIcons name="lock" size={12} color={COLORS.muted} />
                     </View>
                   )}
+                  {slotHint ? <Text style={styles.structureDescription}>{slotHint}</Text> : null}
                 </View>
               </View>
             );
@@ -537,7 +553,7 @@ const ModernPageEditScreen: React.FC = () => {
             >
               <View style={styles.grainCardContent}>
                 <Text style={styles.grainCardType}>
-                  {grain.position}. {GRAIN_TYPE_LABELS[grain.type] || grain.type}
+                  {grain.position}. {getGrainTypeLabel(grain.type)}
                 </Text>
                 <Text style={styles.grainCardDescription} numberOfLines={2}>
                   {getGrainDescription(grain)}
@@ -553,6 +569,12 @@ const ModernPageEditScreen: React.FC = () => {
           ))
         )}
       </ScrollView>
+
+      {pageId && (
+        <View style={styles.csvSection}>
+          <GrainCsvPanel lessonId={lessonId} pageId={pageId} onImported={loadGrains} />
+        </View>
+      )}
     </View>
   );
 
@@ -874,6 +896,9 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: COLORS.accent,
   },
+  csvSection: {
+    paddingHorizontal: 12,
+  },
   grainsList: {
     padding: 12,
   },
@@ -10,7 +10,8 @@ import {
   Alert,
   Platform,
 } from 'react-native';
-import { supabase } from '../lib/supabase';
+import { CourseService } from '../lib/courseService';
+import { repositories } from '../lib/repositories';
 import { useIsFocused } from '@react-navigation/native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
@@ -65,11 +66,7 @@ export default function ModuleEditScreen({ route, navigation }: any) {
   const fetchModuleData = async () => {
     try {
       setIsLoading(true);
-      const { data, error } = await supabase
-        .from('modules')
-        .select('title, position')
-        .eq('id', moduleId)
-        .single();
+      const { data, error } = await repositories.modules.get(moduleId);
 
       if (error) throw error;
 
@@ -87,17 +84,11 @@ export default function ModuleEditScreen({ route, navigation }: any) {
 
   const getNextPositionNumber = async () => {
     try {
-      const { data, error } = await supabase
-        .from('modules')
-        .select('position')
-        .eq('course_id', courseId)
-        .order('position', { ascending: false })
-        .limit(1);
+      const { data, error } = await repositories.modules.nextPosition(courseId);
 
       if (error) throw error;
 
-      const nextPosition = data && data.length > 0 ? data[0].position + 1 : 1;
-      setPosition(nextPosition);
+      setPosition(data ?? 1);
     } catch (error) {
       console.error('Erro ao obter próximo número de posição:', error);
       setPosition(1);
@@ -107,11 +98,7 @@ export default function ModuleEditScreen({ route, navigation }: any) {
   const fetchLessons = async () => {
     if (!moduleId) return;
     try {
-      const { data, error } = await supabase
-        .from('lessons')
-        .select('id, module_id, title, position') // Selecionar 'position'
-        .eq('module_id', moduleId)
-        .order('position', { ascending: true }); // Ordenar por 'position'
+      const { data, error } = await repositories.lessons.list(moduleId);
 
       if (error) throw error;
 
@@ -120,7 +107,7 @@ export default function ModuleEditScreen({ route, navigation }: any) {
       }
     } catch (error) {
       console.error('Erro ao buscar lições:', error);
-      const displayError = error instanceof Error ? error.message : 'Falha ao carregar as lições';
+      const displayError = (error as { message?: string })?.message ?? 'Falha ao carregar as lições';
       Alert.alert('Erro', displayError);
     }
   };
@@ -137,21 +124,16 @@ export default function ModuleEditScreen({ route, navigation }: any) {
       const moduleData = {
         title: title.trim(),
         position,
-        updated_at: new Date().toISOString(),
       };
 
       if (isNewModule) {
-        const { data, error } = await supabase
-          .from('modules')
-          .insert({
-            ...moduleData,
-            course_id: courseId,
-            created_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
+        const { error } = await repositories.modules.create({
+          ...moduleData,
+          course_id: courseId,
+        });
 
         if (error) throw error;
+        CourseService.invalidateCourseTree(courseId);
 
         Alert.alert('Sucesso', 'Módulo criado com sucesso');
         navigation.navigate('CourseEdit', {
@@ -159,12 +141,10 @@ export default function ModuleEditScreen({ route, navigation }: any) {
           refresh: true
         });
       } else {
-        const { error } = await supabase
-          .from('modules')
-          .update(moduleData)
-          .eq('id', moduleId);
+        const { error } = await repositories.modules.update(moduleId, moduleData);
 
         if (error) throw error;
+        CourseService.invalidateCourseTree(courseId);
 
         Alert.alert('Sucesso', 'Módulo atualizado com sucesso');
         navigation.navigate('CourseEdit', {
@@ -193,10 +173,7 @@ export default function ModuleEditScreen({ route, navigation }: any) {
       try {
         // First, delete all pages associated with lessons of this module (if necessary and not handled by CASCADE)
         // Then, delete all lessons associated with this module
-        const { data: lessonsToDelete, error: lessonsError } = await supabase
-          .from('lessons')
-          .select('id')
-          .eq('module_id', moduleId);
+        const { data: lessonsToDelete, error: lessonsError } = await repositories.lessons.list(moduleId);
 
         if (lessonsError) {
           console.error('Error fetching lessons for deletion:', lessonsError);
@@ -208,20 +185,14 @@ export default function ModuleEditScreen({ route, navigation }: any) {
         if (lessonsToDelete && lessonsToDelete.length > 0) {
           for (const lesson of lessonsToDelete) {
             // Delete pages for each lesson
-            const { error: pagesDeleteError } = await supabase
-              .from('pages')
-              .delete()
-              .eq('lesson_id', lesson.id);
+            const { error: pagesDeleteError } = await repositories.pages.deleteByParent(lesson.id);
             if (pagesDeleteError) {
               console.error(`Error deleting pages for lesson ${lesson.id}:`, pagesDeleteError);
               // Decide if you want to stop or continue
             }
           }
           // Now delete the lessons
-          const { error: lessonsDeleteError } = await supabase
-            .from('lessons')
-            .delete()
-            .eq('module_id', moduleId);
+          const { error: lessonsDeleteError } = await repositories.lessons.deleteByParent(moduleId);
 
           if (lessonsDeleteError) {
             console.error('Error deleting lessons:', lessonsDeleteError);
@@ -232,15 +203,13 @@ export default function ModuleEditScreen({ route, navigation }: any) {
         }
 
         // Finally, delete the module itself
-        const { error: moduleDeleteError } = await supabase
-          .from('modules')
-          .delete()
-          .eq('id', moduleId);
+        const { error: moduleDeleteError } = await repositories.modules.delete(moduleId);
 
         if (moduleDeleteError) {
           console.error('Error deleting module:', moduleDeleteError);
           Alert.alert('Erro', `Falha ao excluir módulo: ${moduleDeleteError.message}`);
         } else {
+          CourseService.invalidateCourseTree(courseId);
           Alert.alert('Sucesso', 'Módulo e suas lições foram excluídos com sucesso');
           navigation.navigate('CourseEdit', {
             courseId,
@@ -3,6 +3,11 @@ import { View, Text, TextInput, TouchableOpacity, Alert, StyleSheet, ScrollView,
 import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import * as ImagePicker from 'expo-image-picker';
 import { supabase } from '../lib/supabase';
+import { CourseService } from '../lib/courseService';
+import { repositories } from '../lib/repositories';
+import { getExpectedGrainType as getExpectedGrainTypeForPage, getGrainPattern, PAGE_TYPE_PATTERNS } from '../lib/pageTypes';
+import { createEmptyGrainContent } from '../lib/grainContent';
+import { GrainType } from '../types';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
 import { Card, Button, Input, Badge, IconButton, EmptyState } from '../components/UIComponents';
 
@@ -24,36 +29,9 @@ type Grain = {
   updated_at: string;
 };
 
-// Define page types and their grain patterns
+// Define page types
 type PageType = 'Introduction' | 'Booster' | 'Comparation' | 'Review' | 'Custom' | 'text';
 
-const PAGE_TYPE_PATTERNS: Record<Exclude<PageType, 'Custom' | 'text'>, string[]> = {
-  Introduction: [
-    'imagesToGuess', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText',
-    'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText'
-  ],
-  Booster: [
-    'textToComplete', 'testQuestion', 'imagesToGuess', 'textToComplete', 'pairsOfImage', 'testQuestion', 'imagesToGuess',
-    'pairsOfText',
-    'testQuestion', 'textToComplete', 'imagesToGuess', 'pairsOfImage', 'testQuestion', 'textToComplete',
-    'pairsOfText'
-  ],
-  Comparation: [
-    'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess',
-    'pairsOfText',
-    'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess', 'textToGuess', 'imagesToGuess',
-    'pairsOfText'
-  ],
-  Review: [
-    'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText',
-    'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete', 'textToComplete',
-    'pairsOfText'
-  ]
-};
-
 const EditPageScreen = () => {
   const navigation = useNavigation<any>(); // Use any for now to fix navigation typing
   const route = useRoute<RouteProp<{ params: PageEditScreenRouteParams }, 'params'>>();
@@ -87,39 +65,27 @@ const EditPageScreen = () => {
   );
 
   const fetchNextPagePosition = async (currentLessonId: string) => {
-    const { data, error } = await supabase
-      .from('pages')
-      .select('position')
-      .eq('lesson_id', currentLessonId)
-      .order('position', { ascending: false })
-      .limit(1)
-      .single();
+    const { data, error } = await repositories.pages.nextPosition(currentLessonId);
 
-    if (error && error.code !== 'PGRST116') { // PGRST116: "Searched item was not found"
+    if (error) {
       console.error('Error fetching next page position:', error);
       Alert.alert('Erro', 'Não foi possível determinar a próxima posição para a página.');
       setPosition(1); // Default to 1 on error
-    } else if (data) {
-      setPosition(data.position + 1);
     } else {
-      setPosition(1); // First page in the lesson
+      setPosition(data ?? 1);
     }
   };
 
   const loadPageData = async () => {
     if (!pageId) return;
-    const { data, error } = await supabase
-      .from('pages')
-      .select('*')
-      .eq('id', pageId)
-      .single();
+    const { data, error } = await repositories.pages.get(pageId);
 
     if (error) {
       Alert.alert('Erro', 'Erro ao carregar os dados da página.');
     } else if (data) {
       setTitle(data.title || '');
-      setContent(data.content || '');
-      setMediaUrl(data.media_url || '');
+      setContent(data.content ?? '');
+      setMediaUrl(data.media_url ?? '');
       setPosition(data.position || 0);
       setPageType((data.type as PageType) || 'Introduction');
       
@@ -137,14 +103,10 @@ const EditPageScreen = () => {
     if (!pageId) return;
     setIsLoadingGrains(true);
     try {
-      const { data, error } = await supabase
-        .from('grains')
-        .select('*')
-        .eq('page_id', pageId)
-        .order('position', { ascending: true });
+      const { data, error } = await repositories.grains.list(pageId);
 
       if (error) throw error;
-      setGrains(data || []);
+      setGrains(data ?? []);
     } catch (error) {
       console.error('Error loading grains:', error);
       Alert.alert('Erro', 'Não foi possível carregar os grains.');
@@ -156,26 +118,24 @@ const EditPageScreen = () => {
   const createGrainsForPageType = async (pageId: string, pageType: PageType) => {
     if (pageType === 'Custom') return; // Don't auto-create for custom pages
 
-    const pattern = PAGE_TYPE_PATTERNS[pageType as keyof typeof PAGE_TYPE_PATTERNS];
-    if (!pattern) {
+    const pattern = getGrainPattern(pageType);
+    if (pattern.length === 0) {
       console.warn(`No pattern found for page type: ${pageType}`);
       return; // Don't create grains for unsupported types
     }
 
-    const grainPromises = pattern.map((grainType, index) => {
-      const defaultContent = getDefaultContentForGrainType(grainType);
-      return supabase
-        .from('grains')
-        .insert({
-          page_id: pageId,
-          position: index + 1,
-          type: grainType,
-          content: defaultContent
-        });
-    });
+    const grainInserts = pattern.map((grainType, index) => ({
+      page_id: pageId,
+      position: index + 1,
+      type: grainType,
+      content: createEmptyGrainContent(grainType),
+    }));
 
     try {
-      await Promise.all(grainPromises);
+      const { error } = await repositories.grains.createMany(grainInserts);
+      if (error) {
+        throw error;
+      }
       await loadGrains(); // Reload grains to show the new ones
     } catch (error) {
       console.error('Error creating grains for page type:', error);
@@ -183,98 +143,25 @@ const EditPageScreen = () => {
     }
   };
 
-  const getDefaultContentForGrainType = (grainType: string) => {
-    switch (grainType) {
-      case 'textToComplete':
-        return { 
-          phrase: '', 
-          correctAnswer: '', 
-          falseAlternatives: ['', '', ''] 
-        };
-      case 'testQuestion':
-        return { 
-          question: '', 
-          correctAnswer: '', 
-          falseAlternatives: ['', '', ''] 
-        };
-      case 'imagesToGuess':
-        return { 
-          correctImageUrl: '', 
-          falseImageUrls: ['', '', ''], 
-          correctWord: '' 
-        };
-      case 'textToGuess':
-        return { 
-          imageUrl: '', 
-          correctAnswer: '', 
-          falseAlternatives: ['', '', ''] 
-        };
-      case 'audioToGuess':
-        return { 
-          correctWord: '', 
-          correctAudioUrl: '', 
-          falseAudioUrls: ['', '', ''] 
-        };
-      case 'pairsOfText':
-        return { 
-          pairs: [
-            { left: '', right: '' },
-            { left: '', right: '' },
-            { left: '', right: '' },
-            { left: '', right: '' }
-          ] 
-        };
-      case 'pairsOfImage':
-        return { 
-          pairs: [
-            { imageUrl: '', text: '' },
-            { imageUrl: '', text: '' },
-            { imageUrl: '', text: '' },
-            { imageUrl: '', text: '' }
-          ] 
-        };
-      default:
-        return {};
-    }
-  };
-
   // Helper function to get expected grain type based on position and page type
   const getExpectedGrainType = (position: number, pageType: PageType): string => {
-    if (pageType === 'Custom') {
-      // For custom pages, use the customGrainTypes array
-      return customGrainTypes[position - 1] || 'textToComplete';
-    }
-
-    if (pageType === 'text') {
-      // Legacy text pages - allow any grain type
-      return 'textToComplete'; // Default fallback
-    }
-
-    // For predefined page types, use the pattern
-    const pattern = PAGE_TYPE_PATTERNS[pageType as keyof typeof PAGE_TYPE_PATTERNS];
-    if (!pattern) {
-      console.warn(`No pattern found for page type: ${pageType}`);
-      return 'textToComplete'; // Default fallback
-    }
-
-    return pattern[position - 1] || 'textToComplete';
+    // Legacy text pages accept any grain type, so fall back to the default one
+    return getExpectedGrainTypeForPage(pageType, position, customGrainTypes) ?? 'textToComplete';
   };
 
   const createCustomGrains = async (pageId: string) => {
-    const grainPromises = customGrainTypes.map((grainType, index) => {
-      const defaultContent = getDefaultContentForGrainType(grainType);
-      return supabase
-        .from('grains')
-        .insert({
-          page_id: pageId,
-          position: index + 1,
-          type: grainType,
-          content: defaultContent
-        });
-    });
+    const grainInserts = customGrainTypes.map((grainType, index) => ({
+      page_id: pageId,
+      position: index + 1,
+      type: grainType as GrainType,
+      content: createEmptyGrainContent(grainType as GrainType),
+    }));
 
     try {
-      await Promise.all(grainPromises);
+      const { error } = await repositories.grains.createMany(grainInserts);
+      if (error) {
+        throw error;
+      }
       await loadGrains(); // Reload grains to show the new ones
     } catch (error) {
       console.error('Error creating custom grains:', error);
@@ -363,17 +250,17 @@ const EditPageScreen = () => {
     let response;
     if (pageId) {
       // Update existing page
-      response = await supabase.from('pages').update(payload).eq('id', pageId).select();
+      response = await repositories.pages.update(pageId, payload);
     } else {
       // Create new page
-      response = await supabase.from('pages').insert(payload).select();
+      response = await repositories.pages.create(payload);
     }
 
     if (response.error) {
       console.error('Error saving page:', response.error);
       Alert.alert('Erro', `Erro ao guardar a página: ${response.error.message}`);
     } else {
-      const savedPage = response.data?.[0];
+      const savedPage = response.data;
       if (savedPage && !pageId) {
         // New page created, create grains based on page type
         if (pageType === 'Custom') {
@@ -382,6 +269,7 @@ const EditPageScreen = () => {
           await createGrainsForPageType(savedPage.id, pageType);
         }
       }
+      CourseService.invalidateCourseTree();
       Alert.alert('Sucesso', pageId ? 'Página atualizada com sucesso!' : 'Página criada com sucesso!');
       navigation.goBack(); // Or navigate to the lesson detail screen
     }
@@ -397,12 +285,11 @@ const EditPageScreen = () => {
 
     const performDelete = async () => {
       console.log("performDelete called. Attempting to delete page with ID:", pageId);
-      const { data, error } = await supabase.from('pages').delete().eq('id', pageId);
-      console.log('Supabase delete response - data:', data); 
-      console.log('Supabase delete response - error:', error); 
+      const { error } = await repositories.pages.delete(pageId);
       if (error) {
         Alert.alert('Erro', `Erro ao eliminar a página: ${error.message}`);
       } else {
+        CourseService.invalidateCourseTree();
         Alert.alert('Sucesso', 'Página eliminada com sucesso!');
         navigation.goBack();
       }
@@ -469,12 +356,10 @@ const EditPageScreen = () => {
     const confirmMessage = 'Tens a certeza de que queres eliminar este grain?';
     const performDelete = async () => {
       try {
-        const { error } = await supabase
-          .from('grains')
-          .delete()
-          .eq('id', grainId);
+        const { error } = await repositories.grains.delete(grainId);
 
         if (error) throw error;
+        CourseService.invalidateCourseTree();
         Alert.alert('Sucesso', 'Grain eliminado com sucesso');
         loadGrains(); // Reload grains
       } catch (error) {
@@ -536,6 +421,10 @@ const EditPageScreen = () => {
       audioToGuess: 'Áudio para Adivinhar',
       pairsOfText: 'Pares de Texto',
       pairsOfImage: 'Pares de Imagem',
+      orderWords: 'Ordenar Palavras',
+      audioToType: 'Ditado',
+      cloze: 'Texto com Lacunas',
+      trueFalse: 'Verdadeiro ou Falso',
     };
     return labels[type] || type;
   };
@@ -549,6 +438,10 @@ const EditPageScreen = () => {
       { value: 'audioToGuess', label: 'Áudio para Adivinhar' },
       { value: 'pairsOfText', label: 'Pares de Texto' },
       { value: 'pairsOfImage', label: 'Pares de Imagem' },
+      { value: 'orderWords', label: 'Ordenar Palavras' },
+      { value: 'audioToType', label: 'Ditado' },
+      { value: 'cloze', label: 'Texto com Lacunas' },
+      { value: 'trueFalse', label: 'Verdadeiro ou Falso' },
     ];
 
     const buttons = grainTypes.map(type => ({
@@ -588,6 +481,14 @@ const EditPageScreen = () => {
           return `${content.pairs?.length || 0} pares de texto`;
         case 'pairsOfImage':
           return `${content.pairs?.length || 0} pares de imagem`;
+        case 'orderWords':
+          return content.sentence || 'Sem frase';
+        case 'audioToType':
+          return content.correctAnswer || 'Sem transcrição';
+        case 'cloze':
+          return content.passage || 'Sem texto';
+        case 'trueFalse':
+          return `${content.statements?.length || 0} afirmações`;
         default:
           return 'Conteúdo não definido';
       }
@@ -676,6 +577,10 @@ const EditPageScreen = () => {
                     <option value="audioToGuess">Áudio para Adivinhar</option>
                     <option value="pairsOfText">Pares de Texto</option>
                     <option value="pairsOfImage">Pares de Imagem</option>
+                    <option value="orderWords">Ordenar Palavras</option>
+                    <option value="audioToType">Ditado</option>
+                    <option value="cloze">Texto com Lacunas</option>
+                    <option value="trueFalse">Verdadeiro ou Falso</option>
                   </select>
                 ) : (
                   <TouchableOpacity
@@ -0,0 +1,578 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { repositories } from '../lib/repositories';
+import {
+  draftFromPageTemplate,
+  emptyPageTemplateDraft,
+  MAX_TEMPLATE_SLOTS,
+  PageTemplate,
+  PageTemplateDraft,
+  toPageTemplate,
+  validatePageTemplateDraft,
+} from '../lib/pageTemplates';
+import { getGrainTypeLabel, GRAIN_TYPE_LABELS } from '../lib/grainTypes';
+import { COLORS, TYPOGRAPHY, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
+import { useAuth } from '../contexts/AuthContext';
+import ModernSidebar from '../components/ModernSidebar';
+import { GrainType } from '../types';
+
+/**
+ * Admin screen to create and edit page templates.
+ * Saving always writes a new template version; pages keep the version they were created from.
+ */
+const PageTemplatesScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+
+  const [templates, setTemplates] = useState<PageTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PageTemplateDraft>(emptyPageTemplateDraft());
+  const [expandedSlot, setExpandedSlot] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await repositories.pageTemplates.list();
+
+      if (error) {
+        throw error;
+      }
+      setTemplates((data ?? []).map(row => toPageTemplate(row)).filter((template): template is PageTemplate => template !== null));
+    } catch (error) {
+      console.error('Error loading page templates:', error);
+      Alert.alert('Erro', 'Não foi possível carregar os modelos de página.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectTemplate = (template: PageTemplate | null) => {
+    setSelectedTemplateId(template?.id ?? null);
+    setDraft(template ? draftFromPageTemplate(template) : emptyPageTemplateDraft());
+    setExpandedSlot(null);
+  };
+
+  const updateSlot = (index: number, grainType: GrainType) => {
+    const grainPattern = [...draft.grainPattern];
+    grainPattern[index] = grainType;
+    setDraft({ ...draft, grainPattern });
+  };
+
+  const updateHint = (index: number, hint: string) => {
+    const slotHints = [...draft.slotHints];
+    slotHints[index] = hint;
+    setDraft({ ...draft, slotHints });
+  };
+
+  const addSlot = () => {
+    if (draft.grainPattern.length >= MAX_TEMPLATE_SLOTS) {
+      return;
+    }
+    setDraft({
+      ...draft,
+      grainPattern: [...draft.grainPattern, 'textToComplete'],
+      slotHints: [...draft.slotHints, ''],
+    });
+  };
+
+  const removeSlot = (index: number) => {
+    setDraft({
+      ...draft,
+      grainPattern: draft.grainPattern.filter((_, slot) => slot !== index),
+      slotHints: draft.slotHints.filter((_, slot) => slot !== index),
+    });
+    setExpandedSlot(null);
+  };
+
+  const handleSave = async () => {
+    const errors = validatePageTemplateDraft(draft);
+    if (errors.length > 0) {
+      Alert.alert('Erro', errors.join('\n'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await repositories.pageTemplates.saveVersion(selectedTemplateId, {
+        name: draft.name.trim(),
+        description: draft.description.trim() || null,
+        grainPattern: draft.grainPattern,
+        slotHints: draft.grainPattern.map((_, index) => draft.slotHints[index]?.trim() || null),
+      });
+
+      if (!data) {
+        throw error;
+      }
+      setSelectedTemplateId(data.template_id);
+      await loadTemplates();
+      Alert.alert('Sucesso', `Modelo guardado (versão ${data.version}).`);
+    } catch (error) {
+      console.error('Error saving page template:', error);
+      Alert.alert('Erro', 'Não foi possível guardar o modelo.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleArchive = () => {
+    if (!selectedTemplateId) {
+      return;
+    }
+
+    Alert.alert(
+      'Arquivar modelo',
+      'O modelo deixa de ser oferecido para novas páginas. As páginas existentes não são alteradas.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Arquivar',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await repositories.pageTemplates.update(selectedTemplateId, { archived: true });
+            if (error) {
+              Alert.alert('Erro', 'Não foi possível arquivar o modelo.');
+              return;
+            }
+            handleSelectTemplate(null);
+            await loadTemplates();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleNavigate = (route: string) => {
+    if (route !== 'PageTemplates') {
+      navigation.navigate(route as never);
+    }
+  };
+
+  const renderTemplateList = () => (
+    <View style={styles.panel}>
+      <View style={styles.panelHead}>
+        <Text style={styles.panelTitle}>Modelos ({templates.length})</Text>
+        <TouchableOpacity style={styles.btnSecondary} onPress={() => handleSelectTemplate(null)}>
+          <MaterialIcons name="add" size={16} color={COLORS.accent} />
+          <Text style={styles.btnSecondaryText}>Novo Modelo</Text>
+        </TouchableOpacity>
+      </View>
+      <ScrollView style={styles.list}>
+        {templates.length === 0 && (
+          <Text style={styles.emptyText}>Ainda não existem modelos de página.</Text>
+        )}
+        {templates.map(template => (
+          <TouchableOpacity
+            key={template.id}
+            style={[styles.templateCard, template.id === selectedTemplateId && styles.templateCardSelected]}
+            onPress={() => handleSelectTemplate(template)}
+          >
+            <Text style={styles.templateName}>{template.name}</Text>
+            <Text style={styles.templateMeta}>
+              {template.grainPattern.length} grains · versão {template.version}
+            </Text>
+            {template.description ? (
+              <Text style={styles.templateDescription} numberOfLines={2}>{template.description}</Text>
+            ) : null}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
+  const renderSlot = (grainType: GrainType, index: number) => (
+    <View key={index} style={styles.slotRow}>
+      <Text style={styles.slotPosition}>{index + 1}.</Text>
+      <View style={styles.slotBody}>
+        <TouchableOpacity
+          style={styles.select}
+          onPress={() => setExpandedSlot(expandedSlot === index ? null : index)}
+        >
+          <Text style={styles.selectText}>{getGrainTypeLabel(grainType)}</Text>
+          <MaterialIcons name={expandedSlot === index ? 'expand-less' : 'expand-more'} size={16} color={COLORS.primary} />
+        </TouchableOpacity>
+        {expandedSlot === index && (
+          <View style={styles.optionGroup}>
+            {Object.entries(GRAIN_TYPE_LABELS).map(([type, label]) => (
+              <TouchableOpacity
+                key={type}
+                style={styles.option}
+                onPress={() => {
+                  updateSlot(index, type as GrainType);
+                  setExpandedSlot(null);
+                }}
+              >
+                <Text style={[styles.optionText, grainType === type && styles.optionTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TextInput
+          style={styles.input}
+          value={draft.slotHints[index] ?? ''}
+          onChangeText={text => updateHint(index, text)}
+          placeholder="Dica para o editor (opcional)"
+        />
+      </View>
+      <TouchableOpacity
+        style={styles.removeButton}
+        onPress={() => removeSlot(index)}
+        disabled={draft.grainPattern.length <= 1}
+      >
+        <MaterialIcons name="close" size={16} color="white" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEditor = () => (
+    <View style={styles.panel}>
+      <View style={styles.panelHead}>
+        <Text style={styles.panelTitle}>
+          {selectedTemplateId ? 'Editar Modelo' : 'Novo Modelo'}
+        </Text>
+        <View style={styles.toolbar}>
+          {selectedTemplateId && (
+            <TouchableOpacity style={styles.btnDanger} onPress={handleArchive}>
+              <MaterialIcons name="archive" size={16} color="white" />
+              <Text style={styles.btnDangerText}>Arquivar</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.btnPrimary, isSaving && styles.btnDisabled]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <MaterialIcons name="save" size={16} color="white" />
+            )}
+            <Text style={styles.btnPrimaryText}>{isSaving ? 'Guardando...' : 'Guardar'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      <ScrollView style={styles.editor}>
+        <View style={styles.field}>
+          <Text style={styles.label}>Nome</Text>
+          <TextInput
+            style={styles.input}
+            value={draft.name}
+            onChangeText={name => setDraft({ ...draft, name })}
+            placeholder="Ex: Vocabulário com áudio"
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>Descrição</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={draft.description}
+            onChangeText={description => setDraft({ ...draft, description })}
+            placeholder="Quando usar este modelo"
+            multiline
+          />
+        </View>
+        <Text style={styles.blockTitle}>
+          Sequência de Grains ({draft.grainPattern.length}/{MAX_TEMPLATE_SLOTS})
+        </Text>
+        {draft.grainPattern.map(renderSlot)}
+        <TouchableOpacity
+          style={[styles.btnSecondary, draft.grainPattern.length >= MAX_TEMPLATE_SLOTS && styles.btnDisabled]}
+          onPress={addSlot}
+          disabled={draft.grainPattern.length >= MAX_TEMPLATE_SLOTS}
+        >
+          <MaterialIcons name="add" size={16} color={COLORS.accent} />
+          <Text style={styles.btnSecondaryText}>Adicionar Posição</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+
+  const { width } = Dimensions.get('window');
+  const isLargeScreen = width >= 1200;
+
+  return (
+    <View style={styles.app}>
+      <ModernSidebar currentRoute="PageTemplates" onNavigate={handleNavigate} />
+
+      <View style={styles.main}>
+        <View style={styles.topbar}>
+          <Text style={styles.pageTitle}>Modelos de Página</Text>
+        </View>
+
+        <View style={styles.content}>
+          {!isAdmin ? (
+            <Text style={styles.emptyText}>Apenas administradores podem gerir modelos de página.</Text>
+          ) : isLoading ? (
+            <ActivityIndicator size="large" color={COLORS.primary} />
+          ) : (
+            <View style={[styles.builder, !isLargeScreen && styles.builderSmall]}>
+              {renderTemplateList()}
+              {renderEditor()}
+            </View>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  app: {
+    flex: 1,
+    flexDirection: 'row',
+    minHeight: '100vh' as any,
+  },
+  main: {
+    flex: 1,
+    flexDirection: 'column',
+  },
+  topbar: {
+    backgroundColor: COLORS.bg,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.line,
+    padding: 12,
+    paddingHorizontal: 16,
+  },
+  pageTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  content: {
+    flex: 1,
+    backgroundColor: COLORS.bg,
+    padding: 16,
+  },
+  builder: {
+    flexDirection: 'row',
+    gap: 16,
+    flex: 1,
+  },
+  builderSmall: {
+    flexDirection: 'column',
+  },
+  panel: {
+    backgroundColor: COLORS.bg2,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.xl,
+    ...SHADOWS.sm,
+    overflow: 'hidden',
+    flex: 1,
+  },
+  panelHead: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.line,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  panelTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  list: {
+    padding: 12,
+  },
+  emptyText: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.muted,
+    textAlign: 'center',
+    padding: 16,
+  },
+  templateCard: {
+    padding: 12,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.bg2,
+    marginBottom: 8,
+    gap: 4,
+  },
+  templateCardSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary + '10',
+  },
+  templateName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  templateMeta: {
+    fontSize: 12,
+    color: COLORS.primary,
+  },
+  templateDescription: {
+    fontSize: 12,
+    color: COLORS.muted,
+  },
+  editor: {
+    padding: 16,
+    flex: 1,
+  },
+  field: {
+    marginBottom: 16,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    color: COLORS.muted,
+    fontWeight: '500',
+  },
+  input: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    backgroundColor: COLORS.bg2,
+    color: COLORS.text,
+    borderRadius: BORDER_RADIUS.lg,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 14,
+  },
+  multiline: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  blockTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 12,
+  },
+  slotPosition: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: COLORS.text,
+    minWidth: 24,
+    paddingTop: 10,
+  },
+  slotBody: {
+    flex: 1,
+    gap: 6,
+  },
+  select: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderColor: COLORS.line,
+    backgroundColor: COLORS.bg2,
+    borderRadius: BORDER_RADIUS.lg,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  selectText: {
+    fontSize: 14,
+    color: COLORS.text,
+  },
+  optionGroup: {
+    padding: 8,
+    backgroundColor: COLORS.bg,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.line,
+  },
+  option: {
+    paddingVertical: 6,
+  },
+  optionText: {
+    fontSize: 12,
+    color: COLORS.text,
+  },
+  optionTextSelected: {
+    color: COLORS.primary,
+    fontWeight: '500',
+  },
+  removeButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: COLORS.danger,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  btnSecondary: {
+    borderWidth: 1,
+    borderColor: COLORS.accent,
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: BORDER_RADIUS.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+  },
+  btnSecondaryText: {
+    color: COLORS.accent,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  btnPrimary: {
+    backgroundColor: COLORS.primary,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: BORDER_RADIUS.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    ...SHADOWS.sm,
+  },
+  btnPrimaryText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  btnDanger: {
+    backgroundColor: COLORS.danger,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: BORDER_RADIUS.md,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    ...SHADOWS.sm,
+  },
+  btnDangerText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  btnDisabled: {
+    opacity: 0.6,
+  },
+});
+
+export default PageTemplatesScreen;
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   StyleSheet,
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   ScrollView,
   Alert,
@@ -10,15 +11,27 @@ import {
   Image,
   Platform,
   Dimensions,
+  PanResponder,
 } from 'react-native';
 import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { Audio } from 'expo-av';
-import { supabase } from '../lib/supabase';
+import { repositories, PageRow } from '../lib/repositories';
+import { getPageTypeDefinition, validatePageGrains } from '../lib/pageTypes';
+import { getChoiceOptions, isChoiceSelectionCorrect, isMultipleAnswer } from '../lib/choices';
+import { getOrderWordsTiles, isOrderWordsCorrect } from '../lib/orderWords';
+import { checkDictation, DictationResult } from '../lib/dictation';
+import { getClozeBlankNumbers, getClozeChoices, isClozeBlankCorrect, scoreCloze, splitClozePassage } from '../lib/cloze';
+import { isTrueFalseAnswerCorrect, scoreTrueFalse } from '../lib/trueFalse';
 import { COLORS, TYPOGRAPHY, SPACING, SHADOWS, BORDER_RADIUS } from '../styles/designSystem';
 import { Card, Button, Badge, IconButton } from '../components/UIComponents';
+import { useXapiTracker } from '../hooks/useXapiTracker';
+import { PairsOfImageContent, PairsOfTextContent } from '../types';
 
 // Types
-type GrainType = 'textToComplete' | 'testQuestion' | 'imagesToGuess' | 'textToGuess' | 'audioToGuess' | 'pairsOfText' | 'pairsOfImage';
+type GrainType = 'textToComplete' | 'testQuestion' | 'imagesToGuess' | 'textToGuess' | 'audioToGuess' | 'pairsOfText' | 'pairsOfImage' | 'orderWords' | 'audioToType' | 'cloze' | 'trueFalse';
+
+/** Horizontal distance a true/false statement has to be swiped to count as an answer */
+const SWIPE_DISTANCE = 80;
 
 interface PairItem {
   id: string;
@@ -27,6 +40,11 @@ interface PairItem {
   isImage: boolean;
 }
 
+type Pair = PairsOfTextContent['pairs'][number] | PairsOfImageContent['pairs'][number];
+
+/** Both sides of a text or image pair */
+const pairSides = (pair: Pair): [string, string] => ('left' in pair ? [pair.left, pair.right] : [pair.imageUrl, pair.text]);
+
 interface Grain {
   id: string;
   position: number;
@@ -50,9 +68,11 @@ const PageTestScreen = () => {
   const { pageId, pageTitle } = route.params || {};
 
   const [grains, setGrains] = useState<Grain[]>([]);
+  const [page, setPage] = useState<PageRow | null>(null);
   const [currentGrainIndex, setCurrentGrainIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
   const [showResult, setShowResult] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
   const [score, setScore] = useState(0);
@@ -60,7 +80,65 @@ const PageTestScreen = () => {
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [matchedPairs, setMatchedPairs] = useState<string[]>([]);
   const [selectedPairItem, setSelectedPairItem] = useState<string | null>(null);
+  const [pairMistakes, setPairMistakes] = useState(0);
+  const [placedTiles, setPlacedTiles] = useState<string[]>([]);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [dictationResult, setDictationResult] = useState<DictationResult | null>(null);
+  const [clozeResponses, setClozeResponses] = useState<Record<number, string>>({});
+  const [activeBlank, setActiveBlank] = useState<number | null>(null);
+  const [trueFalseIndex, setTrueFalseIndex] = useState(0);
+  const [trueFalseAnswers, setTrueFalseAnswers] = useState<boolean[]>([]);
   const [screenDimensions, setScreenDimensions] = useState(Dimensions.get('window'));
+  const completionReported = useRef(false);
+
+  const trackedPage = useMemo(
+    () => (page ? { id: page.id, title: pageTitle ? pageTitle : page.title || 'Página' } : null),
+    [page, pageTitle]
+  );
+  const tracker = useXapiTracker(trackedPage);
+
+  // Word tiles of the current orderWords grain, shuffled once per grain
+  const orderWordsTiles = useMemo(() => {
+    const grain = grains[currentGrainIndex];
+    return grain?.type === 'orderWords' ? getOrderWordsTiles(grain.content).sort(() => Math.random() - 0.5) : [];
+  }, [grains, currentGrainIndex]);
+
+  // Options of the current choice grain, shuffled once per grain
+  const currentChoice = useMemo(() => {
+    const grain = grains[currentGrainIndex];
+    const options = grain ? getChoiceOptions(grain.type, grain.content) : null;
+    return options
+      ? { ...options, shuffled: [...options.correct, ...options.distractors].sort(() => Math.random() - 0.5) }
+      : null;
+  }, [grains, currentGrainIndex]);
+  const multipleAnswer = currentChoice !== null && isMultipleAnswer(currentChoice);
+
+  // Swiping a statement right answers true, left answers false
+  const trueFalseSwipe = useRef<(verdict: boolean) => void>(() => undefined);
+  const trueFalseResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) > 20 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+        onPanResponderRelease: (_, gesture) => {
+          if (Math.abs(gesture.dx) >= SWIPE_DISTANCE) {
+            trueFalseSwipe.current(gesture.dx > 0);
+          }
+        },
+      }),
+    []
+  );
+
+  useEffect(() => {
+    completionReported.current = false;
+    tracker?.attempted();
+  }, [tracker]);
+
+  const reportCompletion = () => {
+    if (!completionReported.current) {
+      completionReported.current = true;
+      tracker?.completed(score, totalAnswered);
+    }
+  };
 
   useEffect(() => {
     const subscription = Dimensions.addEventListener('change', ({ window }) => {
@@ -82,14 +160,14 @@ const PageTestScreen = () => {
   const loadGrains = async () => {
     try {
       setIsLoading(true);
-      const { data, error } = await supabase
-        .from('grains')
-        .select('*')
-        .eq('page_id', pageId)
-        .order('position', { ascending: true });
-
-      if (error) throw error;
-      setGrains(data || []);
+      const [grainsResult, pageResult] = await Promise.all([
+        repositories.grains.list(pageId),
+        repositories.pages.get(pageId),
+      ]);
+
+      if (grainsResult.error) throw grainsResult.error;
+      setGrains(grainsResult.data ?? []);
+      setPage(pageResult.data);
     } catch (error) {
       console.error('Error loading grains:', error);
       Alert.alert('Erro', 'Falha ao carregar grains da página');
@@ -114,24 +192,13 @@ const PageTestScreen = () => {
 
   const handleAnswer = (answer: string) => {
     const currentGrain = grains[currentGrainIndex];
-    if (!currentGrain) return;
-
-    let correct = false;
-    
-    switch (currentGrain.type) {
-      case 'textToComplete':
-      case 'testQuestion':
-      case 'textToGuess':
-        correct = answer === currentGrain.content.correctAnswer;
-        break;
-      case 'imagesToGuess':
-        correct = answer === currentGrain.content.correctImageUrl;
-        break;
-      case 'audioToGuess':
-        correct = answer === currentGrain.content.correctAudioUrl;
-        break;
+    if (!currentGrain || !currentChoice) {
+      return;
     }
 
+    const correct = isChoiceSelectionCorrect(currentChoice, [answer]);
+    tracker?.answered(currentGrain, answer, correct, currentChoice.correct[0]);
+
     setSelectedAnswer(answer);
     setIsCorrect(correct);
     setShowResult(true);
@@ -142,6 +209,60 @@ const PageTestScreen = () => {
     }
   };
 
+  /** Select-all-that-apply: options are toggled, then checked together */
+  const toggleOption = (option: string) => {
+    setSelectedOptions(prev => (prev.includes(option) ? prev.filter(item => item !== option) : [...prev, option]));
+  };
+
+  const handleChoiceCheck = () => {
+    const currentGrain = grains[currentGrainIndex];
+    if (!currentGrain || !currentChoice) {
+      return;
+    }
+
+    const correct = isChoiceSelectionCorrect(currentChoice, selectedOptions);
+    tracker?.answered(currentGrain, selectedOptions.join('[,]'), correct, currentChoice.correct.join('[,]'));
+
+    setIsCorrect(correct);
+    setShowResult(true);
+    setTotalAnswered(prev => prev + 1);
+
+    if (correct) {
+      setScore(prev => prev + 1);
+    }
+  };
+
+  const pressOption = (option: string) => (multipleAnswer ? toggleOption(option) : handleAnswer(option));
+
+  /** Picked options while choosing; once checked, the right ones and the wrong picks */
+  const optionStyle = (option: string) => {
+    if (!multipleAnswer) {
+      return selectedAnswer === option && (isCorrect ? styles.correctOption : styles.incorrectOption);
+    }
+    if (!showResult) {
+      return selectedOptions.includes(option) && styles.selectedPairItem;
+    }
+    if (currentChoice?.correct.includes(option)) {
+      return styles.correctOption;
+    }
+    return selectedOptions.includes(option) && styles.incorrectOption;
+  };
+
+  const renderChoiceCheck = () =>
+    multipleAnswer &&
+    !showResult && (
+      <>
+        <Text style={styles.choiceHint}>Escolha todas as respostas certas.</Text>
+        <TouchableOpacity
+          style={[styles.nextButton, selectedOptions.length === 0 && styles.disabledButton]}
+          onPress={handleChoiceCheck}
+          disabled={selectedOptions.length === 0}
+        >
+          <Text style={styles.nextButtonText}>Verificar</Text>
+        </TouchableOpacity>
+      </>
+    );
+
   const handlePairMatch = (item: string) => {
     const currentGrain = grains[currentGrainIndex];
     if (!currentGrain || currentGrain.type !== 'pairsOfText' && currentGrain.type !== 'pairsOfImage') return;
@@ -151,52 +272,144 @@ const PageTestScreen = () => {
       return;
     }
 
-    // Check if it's a valid pair
-    const pairs = currentGrain.content.pairs;
-    let isValidPair = false;
-    
-    for (const pair of pairs) {
-      if (currentGrain.type === 'pairsOfText') {
-        if ((pair.left === selectedPairItem && pair.right === item) ||
-            (pair.right === selectedPairItem && pair.left === item)) {
-          isValidPair = true;
-          break;
-        }
-      } else {
-        if ((pair.imageUrl === selectedPairItem && pair.text === item) ||
-            (pair.text === selectedPairItem && pair.imageUrl === item)) {
-          isValidPair = true;
-          break;
-        }
+    const pairs: Pair[] = currentGrain.content.pairs;
+    const isValidPair = pairs.some(pair => {
+      const [left, right] = pairSides(pair);
+      return (left === selectedPairItem && right === item) || (right === selectedPairItem && left === item);
+    });
+    setSelectedPairItem(null);
+
+    if (!isValidPair) {
+      setPairMistakes(prev => prev + 1);
+      return;
+    }
+    setMatchedPairs(prev => [...prev, selectedPairItem, item]);
+
+    // The grain is one answer, right when every pair is matched without a wrong attempt (as in the SCORM player)
+    if (matchedPairs.length + 2 >= pairs.length * 2) {
+      const correct = pairMistakes === 0;
+      setShowResult(true);
+      setIsCorrect(correct);
+      setTotalAnswered(prev => prev + 1);
+      if (correct) {
+        setScore(prev => prev + 1);
       }
+
+      const response = pairs.map(pair => pairSides(pair).join('[.]')).join('[,]');
+      tracker?.answered(currentGrain, response, correct, response);
     }
+  };
 
-    if (isValidPair) {
-      setMatchedPairs(prev => [...prev, selectedPairItem, item]);
+  const handleOrderWordsCheck = () => {
+    const currentGrain = grains[currentGrainIndex];
+    if (!currentGrain || currentGrain.type !== 'orderWords') {
+      return;
+    }
+
+    const words = placedTiles.map(id => orderWordsTiles.find(tile => tile.id === id)?.word ?? '');
+    const correct = isOrderWordsCorrect(currentGrain.content, words);
+    tracker?.answered(currentGrain, words.join('[,]'), correct, currentGrain.content.sentence.split(/\s+/).join('[,]'));
+
+    setIsCorrect(correct);
+    setShowResult(true);
+    setTotalAnswered(prev => prev + 1);
+
+    if (correct) {
       setScore(prev => prev + 1);
     }
+  };
 
-    setSelectedPairItem(null);
+  const handleDictationCheck = () => {
+    const currentGrain = grains[currentGrainIndex];
+    if (!currentGrain || currentGrain.type !== 'audioToType') {
+      return;
+    }
 
-    // Check if all pairs are matched
-    if (matchedPairs.length + 2 >= pairs.length * 2) {
-      setShowResult(true);
-      setIsCorrect(true);
-      setTotalAnswered(prev => prev + 1);
+    const result = checkDictation(currentGrain.content, typedAnswer);
+    tracker?.answered(currentGrain, typedAnswer, result.correct, currentGrain.content.correctAnswer);
+
+    setDictationResult(result);
+    setIsCorrect(result.correct);
+    setShowResult(true);
+    setTotalAnswered(prev => prev + 1);
+
+    if (result.correct) {
+      setScore(prev => prev + 1);
+    }
+  };
+
+  const handleClozeCheck = () => {
+    const currentGrain = grains[currentGrainIndex];
+    if (!currentGrain || currentGrain.type !== 'cloze') {
+      return;
+    }
+
+    // Every blank counts as one answer
+    const { correct, total } = scoreCloze(currentGrain.content, clozeResponses);
+    const numbers = getClozeBlankNumbers(currentGrain.content.passage);
+    tracker?.answered(
+      currentGrain,
+      numbers.map(number => clozeResponses[number] ?? '').join('[,]'),
+      correct === total,
+      numbers.map(number => currentGrain.content.blanks[number - 1]?.answers[0] ?? '').join('[,]')
+    );
+
+    setActiveBlank(null);
+    setIsCorrect(correct === total);
+    setShowResult(true);
+    setTotalAnswered(prev => prev + total);
+    setScore(prev => prev + correct);
+  };
+
+  const answerTrueFalse = (verdict: boolean) => {
+    const currentGrain = grains[currentGrainIndex];
+    if (!currentGrain || currentGrain.type !== 'trueFalse' || trueFalseAnswers.length > trueFalseIndex) {
+      return;
+    }
+
+    const answers = [...trueFalseAnswers, verdict];
+    setTrueFalseAnswers(answers);
+    if (answers.length < currentGrain.content.statements.length) {
+      return;
     }
+
+    // Every statement counts as one answer
+    const { correct, total } = scoreTrueFalse(currentGrain.content, answers);
+    tracker?.answered(
+      currentGrain,
+      answers.map(String).join('[,]'),
+      correct === total,
+      currentGrain.content.statements.map((statement: { isTrue: boolean }) => String(statement.isTrue)).join('[,]')
+    );
+
+    setIsCorrect(correct === total);
+    setShowResult(true);
+    setTotalAnswered(prev => prev + total);
+    setScore(prev => prev + correct);
   };
+  trueFalseSwipe.current = answerTrueFalse;
 
   const nextGrain = () => {
     setSelectedAnswer(null);
+    setSelectedOptions([]);
     setShowResult(false);
     setIsCorrect(false);
     setMatchedPairs([]);
     setSelectedPairItem(null);
+    setPairMistakes(0);
+    setPlacedTiles([]);
+    setTypedAnswer('');
+    setDictationResult(null);
+    setClozeResponses({});
+    setActiveBlank(null);
+    setTrueFalseIndex(0);
+    setTrueFalseAnswers([]);
     
     if (currentGrainIndex < grains.length - 1) {
       setCurrentGrainIndex(prev => prev + 1);
     } else {
       // Completed all grains
+      reportCompletion();
       Alert.alert(
         'Teste Concluído!',
         `Pontuação: ${score}/${totalAnswered}\nPercentagem: ${Math.round((score / totalAnswered) * 100)}%`,
@@ -216,6 +429,7 @@ const PageTestScreen = () => {
         { 
           text: 'Finalizar', 
           onPress: () => {
+            reportCompletion();
             Alert.alert(
               'Teste Finalizado!',
               `Pontuação: ${score}/${totalAnswered}\nPercentagem: ${totalAnswered > 0 ? Math.round((score / totalAnswered) * 100) : 0}%`,
@@ -230,8 +444,8 @@ const PageTestScreen = () => {
   };
 
   const renderTextToCompleteGrain = (grain: Grain) => {
-    const { phrase, correctAnswer, falseAlternatives } = grain.content;
-    const options = [correctAnswer, ...falseAlternatives].sort(() => Math.random() - 0.5);
+    const { phrase } = grain.content;
+    const options = currentChoice?.shuffled ?? [];
     
     return (
       <View style={styles.grainContainer}>
@@ -244,24 +458,22 @@ const PageTestScreen = () => {
           {options.map((option, index) => (
             <TouchableOpacity
               key={index}
-              style={[
-                styles.optionButton,
-                selectedAnswer === option && (isCorrect ? styles.correctOption : styles.incorrectOption)
-              ]}
-              onPress={() => handleAnswer(option)}
+              style={[styles.optionButton, optionStyle(option)]}
+              onPress={() => pressOption(option)}
               disabled={showResult}
             >
               <Text style={styles.optionText}>{option}</Text>
             </TouchableOpacity>
           ))}
         </View>
+        {renderChoiceCheck()}
       </View>
     );
   };
 
   const renderTestQuestionGrain = (grain: Grain) => {
-    const { question, correctAnswer, falseAlternatives } = grain.content;
-    const options = [correctAnswer, ...falseAlternatives].sort(() => Math.random() - 0.5);
+    const { question } = grain.content;
+    const options = currentChoice?.shuffled ?? [];
     
     return (
       <View style={styles.grainContainer}>
@@ -272,24 +484,22 @@ const PageTestScreen = () => {
           {options.map((option, index) => (
             <TouchableOpacity
               key={index}
-              style={[
-                styles.optionButton,
-                selectedAnswer === option && (isCorrect ? styles.correctOption : styles.incorrectOption)
-              ]}
-              onPress={() => handleAnswer(option)}
+              style={[styles.optionButton, optionStyle(option)]}
+              onPress={() => pressOption(option)}
               disabled={showResult}
             >
               <Text style={styles.optionText}>{option}</Text>
             </TouchableOpacity>
           ))}
         </View>
+        {renderChoiceCheck()}
       </View>
     );
   };
 
   const renderImagesToGuessGrain = (grain: Grain) => {
-    const { correctImageUrl, falseImageUrls, correctWord } = grain.content;
-    const images = [correctImageUrl, ...falseImageUrls].sort(() => Math.random() - 0.5);
+    const { correctWord } = grain.content;
+    const images = currentChoice?.shuffled ?? [];
     const isLandscape = screenDimensions.width > screenDimensions.height;
     const isTablet = screenDimensions.width > 768;
     
@@ -307,22 +517,23 @@ const PageTestScreen = () => {
               style={[
                 styles.imageOption,
                 isLandscape && isTablet ? styles.imageOptionLandscape : styles.imageOptionPortrait,
-                selectedAnswer === imageUrl && (isCorrect ? styles.correctOption : styles.incorrectOption)
+                optionStyle(imageUrl)
               ]}
-              onPress={() => handleAnswer(imageUrl)}
+              onPress={() => pressOption(imageUrl)}
               disabled={showResult}
             >
               <Image source={{ uri: imageUrl }} style={styles.optionImage} />
             </TouchableOpacity>
           ))}
         </View>
+        {renderChoiceCheck()}
       </View>
     );
   };
 
   const renderTextToGuessGrain = (grain: Grain) => {
-    const { imageUrl, correctAnswer, falseAlternatives } = grain.content;
-    const options = [correctAnswer, ...falseAlternatives].sort(() => Math.random() - 0.5);
+    const { imageUrl } = grain.content;
+    const options = currentChoice?.shuffled ?? [];
     
     return (
       <View style={styles.grainContainer}>
@@ -334,24 +545,22 @@ const PageTestScreen = () => {
           {options.map((option, index) => (
             <TouchableOpacity
               key={index}
-              style={[
-                styles.optionButton,
-                selectedAnswer === option && (isCorrect ? styles.correctOption : styles.incorrectOption)
-              ]}
-              onPress={() => handleAnswer(option)}
+              style={[styles.optionButton, optionStyle(option)]}
+              onPress={() => pressOption(option)}
               disabled={showResult}
             >
               <Text style={styles.optionText}>{option}</Text>
             </TouchableOpacity>
           ))}
         </View>
+        {renderChoiceCheck()}
       </View>
     );
   };
 
   const renderAudioToGuessGrain = (grain: Grain) => {
-    const { correctWord, correctAudioUrl, falseAudioUrls } = grain.content;
-    const audioOptions = [correctAudioUrl, ...falseAudioUrls].sort(() => Math.random() - 0.5);
+    const { correctWord } = grain.content;
+    const audioOptions = currentChoice?.shuffled ?? [];
 
     return (
       <View style={styles.grainContainer}>
@@ -371,9 +580,9 @@ const PageTestScreen = () => {
               <TouchableOpacity
                 style={[
                   styles.audioOptionButton,
-                  selectedAnswer === audioUrl && (isCorrect ? styles.correctOption : styles.incorrectOption)
+                  optionStyle(audioUrl)
                 ]}
-                onPress={() => handleAnswer(audioUrl)}
+                onPress={() => pressOption(audioUrl)}
                 disabled={showResult}
                 accessibilityLabel={`Selecionar áudio ${index + 1}`}
               >
@@ -382,6 +591,7 @@ const PageTestScreen = () => {
             </View>
           ))}
         </View>
+        {renderChoiceCheck()}
       </View>
     );
   };
@@ -465,6 +675,231 @@ const PageTestScreen = () => {
     );
   };
 
+  const renderOrderWordsGrain = () => {
+    const tilesById = new Map(orderWordsTiles.map(tile => [tile.id, tile]));
+
+    return (
+      <View style={styles.grainContainer}>
+        <Text style={styles.grainTitle}>Ordene as palavras:</Text>
+
+        {/* Placed tiles: tap one to send it back */}
+        <View style={[styles.tilesRow, styles.answerLine]}>
+          {placedTiles.length === 0 && <Text style={styles.answerHint}>Toque nas palavras pela ordem certa</Text>}
+          {placedTiles.map(id => (
+            <TouchableOpacity
+              key={id}
+              style={[styles.tile, showResult && (isCorrect ? styles.correctOption : styles.incorrectOption)]}
+              onPress={() => setPlacedTiles(prev => prev.filter(placed => placed !== id))}
+              disabled={showResult}
+            >
+              <Text style={styles.tileText}>{tilesById.get(id)?.word}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.tilesRow}>
+          {orderWordsTiles
+            .filter(tile => !placedTiles.includes(tile.id))
+            .map(tile => (
+              <TouchableOpacity
+                key={tile.id}
+                style={styles.tile}
+                onPress={() => setPlacedTiles(prev => [...prev, tile.id])}
+                disabled={showResult}
+              >
+                <Text style={styles.tileText}>{tile.word}</Text>
+              </TouchableOpacity>
+            ))}
+        </View>
+
+        {!showResult && (
+          <TouchableOpacity
+            style={[styles.nextButton, placedTiles.length === 0 && styles.disabledButton]}
+            onPress={handleOrderWordsCheck}
+            disabled={placedTiles.length === 0}
+          >
+            <Text style={styles.nextButtonText}>Verificar</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderAudioToTypeGrain = (grain: Grain) => {
+    const { audioUrl } = grain.content;
+
+    return (
+      <View style={styles.grainContainer}>
+        <Text style={styles.grainTitle}>Escute e escreva o que ouviu:</Text>
+
+        <TouchableOpacity
+          style={styles.audioPlayButton}
+          onPress={() => playAudio(audioUrl)}
+          accessibilityLabel="Reproduzir áudio"
+        >
+          <Text style={styles.audioPlayButtonText}>▶️</Text>
+        </TouchableOpacity>
+
+        <TextInput
+          style={[styles.dictationInput, showResult && (isCorrect ? styles.correctOption : styles.incorrectOption)]}
+          value={typedAnswer}
+          onChangeText={setTypedAnswer}
+          onSubmitEditing={() => typedAnswer.trim() && !showResult && handleDictationCheck()}
+          editable={!showResult}
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="Escreva aqui"
+        />
+
+        {!showResult && (
+          <TouchableOpacity
+            style={[styles.nextButton, !typedAnswer.trim() && styles.disabledButton]}
+            onPress={handleDictationCheck}
+            disabled={!typedAnswer.trim()}
+          >
+            <Text style={styles.nextButtonText}>Verificar</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderClozeGrain = (grain: Grain) => {
+    const numbers = getClozeBlankNumbers(grain.content.passage);
+    const isDropdown = grain.content.mode === 'dropdown';
+    const blankStyle = (number: number) =>
+      showResult &&
+      (isClozeBlankCorrect(grain.content, number, clozeResponses[number] ?? '') ? styles.correctOption : styles.incorrectOption);
+
+    return (
+      <View style={styles.grainContainer}>
+        <Text style={styles.grainTitle}>Preencha as lacunas:</Text>
+
+        <View style={styles.clozePassage}>
+          {splitClozePassage(grain.content.passage).map((segment, index) => {
+            if (segment.kind === 'text') {
+              // Word by word, so the passage wraps around the blanks
+              return segment.text
+                .split(/(\s+)/)
+                .filter(Boolean)
+                .map((word, wordIndex) => (
+                  <Text key={`${index}-${wordIndex}`} style={styles.clozeText}>
+                    {word}
+                  </Text>
+                ));
+            }
+            const { number } = segment;
+            return isDropdown ? (
+              <TouchableOpacity
+                key={index}
+                style={[styles.clozeBlank, activeBlank === number && styles.selectedPairItem, blankStyle(number)]}
+                onPress={() => setActiveBlank(activeBlank === number ? null : number)}
+                disabled={showResult}
+              >
+                <Text style={styles.clozeText}>{clozeResponses[number] || `(${number}) ▾`}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TextInput
+                key={index}
+                style={[styles.clozeBlank, styles.clozeInput, blankStyle(number)]}
+                value={clozeResponses[number] ?? ''}
+                onChangeText={(text) => setClozeResponses(prev => ({ ...prev, [number]: text }))}
+                editable={!showResult}
+                autoCapitalize="none"
+                autoCorrect={false}
+                placeholder={`(${number})`}
+              />
+            );
+          })}
+        </View>
+
+        {isDropdown && activeBlank !== null && grain.content.blanks[activeBlank - 1] && (
+          <View style={styles.tilesRow}>
+            {getClozeChoices(grain.content.blanks[activeBlank - 1]).map((choice: string) => (
+              <TouchableOpacity
+                key={choice}
+                style={[styles.tile, clozeResponses[activeBlank] === choice && styles.selectedPairItem]}
+                onPress={() => {
+                  setClozeResponses(prev => ({ ...prev, [activeBlank]: choice }));
+                  setActiveBlank(null);
+                }}
+              >
+                <Text style={styles.tileText}>{choice}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {!showResult && (
+          <TouchableOpacity
+            style={[styles.nextButton, numbers.some(number => !clozeResponses[number]?.trim()) && styles.disabledButton]}
+            onPress={handleClozeCheck}
+            disabled={numbers.some(number => !clozeResponses[number]?.trim())}
+          >
+            <Text style={styles.nextButtonText}>Verificar</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderTrueFalseGrain = (grain: Grain) => {
+    const { statements } = grain.content;
+    const statement = statements[trueFalseIndex];
+    const answer: boolean | undefined = trueFalseAnswers[trueFalseIndex];
+    const answered = answer !== undefined;
+    const correct = isTrueFalseAnswerCorrect(grain.content, trueFalseIndex, answer);
+    const verdictStyle = (verdict: boolean) =>
+      answered &&
+      (verdict === statement?.isTrue ? styles.correctOption : verdict === answer && styles.incorrectOption);
+
+    return (
+      <View style={styles.grainContainer}>
+        <Text style={styles.grainTitle}>Verdadeiro ou falso?</Text>
+        <Text style={styles.choiceHint}>
+          Afirmação {trueFalseIndex + 1} de {statements.length}. Deslize para a direita (verdadeiro) ou para a esquerda
+          (falso).
+        </Text>
+
+        <View
+          style={[styles.trueFalseCard, answered && (correct ? styles.correctOption : styles.incorrectOption)]}
+          {...(answered ? {} : trueFalseResponder.panHandlers)}
+        >
+          <Text style={styles.question}>{statement?.text}</Text>
+        </View>
+
+        <View style={styles.trueFalseButtons}>
+          {([
+            { verdict: false, label: '👈 Falso' },
+            { verdict: true, label: 'Verdadeiro 👉' },
+          ] as const).map(({ verdict, label }) => (
+            <TouchableOpacity
+              key={label}
+              style={[styles.optionButton, styles.trueFalseButton, verdictStyle(verdict)]}
+              onPress={() => answerTrueFalse(verdict)}
+              disabled={answered}
+            >
+              <Text style={styles.optionText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {answered && statement && (
+          <Text style={styles.correctAnswerText}>
+            {correct ? '✅ Certo!' : `❌ A afirmação é ${statement.isTrue ? 'verdadeira' : 'falsa'}.`}
+            {statement.explanation ? `\n${statement.explanation}` : ''}
+          </Text>
+        )}
+
+        {answered && trueFalseIndex < statements.length - 1 && (
+          <TouchableOpacity style={styles.nextButton} onPress={() => setTrueFalseIndex(prev => prev + 1)}>
+            <Text style={styles.nextButtonText}>Próxima Afirmação</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
   const renderCurrentGrain = () => {
     const currentGrain = grains[currentGrainIndex];
     if (!currentGrain) return null;
@@ -483,6 +918,14 @@ const PageTestScreen = () => {
       case 'pairsOfText':
       case 'pairsOfImage':
         return renderPairsGrain(currentGrain);
+      case 'orderWords':
+        return renderOrderWordsGrain();
+      case 'audioToType':
+        return renderAudioToTypeGrain(currentGrain);
+      case 'cloze':
+        return renderClozeGrain(currentGrain);
+      case 'trueFalse':
+        return renderTrueFalseGrain(currentGrain);
       default:
         return <Text>Tipo de grain não suportado: {currentGrain.type}</Text>;
     }
@@ -508,11 +951,28 @@ const PageTestScreen = () => {
     );
   }
 
+  const structureIssues = page ? validatePageGrains(page.type, grains, page.grain_pattern) : [];
+
   return (
     <ScrollView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.pageTitle}>{pageTitle || 'Teste da Página'}</Text>
+        {page && (
+          <Text style={styles.pageTypeText}>{getPageTypeDefinition(page.type).label}</Text>
+        )}
+        {structureIssues.length > 0 && (
+          <View style={styles.structureWarning}>
+            <Text style={styles.structureWarningText}>
+              ⚠️ Esta página não segue o padrão do seu tipo:
+            </Text>
+            {structureIssues.map(issue => (
+              <Text key={`${issue.position}-${issue.message}`} style={styles.structureWarningText}>
+                • {issue.message}
+              </Text>
+            ))}
+          </View>
+        )}
         <View style={styles.progressContainer}>
           <Text style={styles.progressText}>
             Grain {currentGrainIndex + 1} de {grains.length}
@@ -532,15 +992,48 @@ const PageTestScreen = () => {
           <Text style={styles.resultText}>
             {isCorrect ? '✅ Correto!' : '❌ Incorreto!'}
           </Text>
-          {!isCorrect && grains[currentGrainIndex] && (
+          {!isCorrect && grains[currentGrainIndex] && grains[currentGrainIndex].type === 'cloze' && (
             <Text style={styles.correctAnswerText}>
-              Resposta correta: {
-                grains[currentGrainIndex].type === 'imagesToGuess' 
-                  ? grains[currentGrainIndex].content.correctWord
-                  : grains[currentGrainIndex].content.correctAnswer
-              }
+              Lacunas certas: {scoreCloze(grains[currentGrainIndex].content, clozeResponses).correct} de{' '}
+              {getClozeBlankNumbers(grains[currentGrainIndex].content.passage).length}
+              {'\n'}Respostas corretas:{' '}
+              {getClozeBlankNumbers(grains[currentGrainIndex].content.passage)
+                .map(number => `(${number}) ${grains[currentGrainIndex].content.blanks[number - 1]?.answers[0] ?? ''}`)
+                .join(' · ')}
             </Text>
           )}
+          {!isCorrect && grains[currentGrainIndex] && grains[currentGrainIndex].type === 'trueFalse' && (
+            <Text style={styles.correctAnswerText}>
+              Afirmações certas: {scoreTrueFalse(grains[currentGrainIndex].content, trueFalseAnswers).correct} de{' '}
+              {grains[currentGrainIndex].content.statements.length}
+            </Text>
+          )}
+          {!isCorrect &&
+            grains[currentGrainIndex] &&
+            (grains[currentGrainIndex].type === 'pairsOfText' || grains[currentGrainIndex].type === 'pairsOfImage') && (
+              <Text style={styles.correctAnswerText}>Tentativas erradas: {pairMistakes}</Text>
+            )}
+          {!isCorrect &&
+            grains[currentGrainIndex] &&
+            grains[currentGrainIndex].type !== 'cloze' &&
+            grains[currentGrainIndex].type !== 'trueFalse' &&
+            grains[currentGrainIndex].type !== 'pairsOfText' &&
+            grains[currentGrainIndex].type !== 'pairsOfImage' && (
+              <Text style={styles.correctAnswerText}>
+                {multipleAnswer ? 'Respostas corretas' : 'Resposta correta'}: {
+                  grains[currentGrainIndex].type === 'imagesToGuess' || grains[currentGrainIndex].type === 'audioToGuess'
+                    ? grains[currentGrainIndex].content.correctWord
+                    : grains[currentGrainIndex].type === 'orderWords'
+                      ? grains[currentGrainIndex].content.sentence
+                      : multipleAnswer
+                        ? currentChoice?.correct.join(', ')
+                        : grains[currentGrainIndex].content.correctAnswer
+                }
+              </Text>
+            )}
+          {isCorrect && dictationResult && !dictationResult.exact && (
+            <Text style={styles.correctAnswerText}>Aceite. Escreve-se: {dictationResult.expected}</Text>
+          )}
         </View>
       )}
 
@@ -616,6 +1109,22 @@ const styles = StyleSheet.create({
     marginBottom: SPACING.sm,
     textAlign: 'center',
   },
+  pageTypeText: {
+    ...TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.sm,
+  },
+  structureWarning: {
+    backgroundColor: COLORS.warningLight,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  structureWarningText: {
+    ...TYPOGRAPHY.caption,
+    color: COLORS.textPrimary,
+  },
   progressContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -668,6 +1177,12 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontSize: Math.max(TYPOGRAPHY.fontSize.base, 16),
   },
+  choiceHint: {
+    ...TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
   optionsContainer: {
     gap: SPACING.md,
     maxWidth: 600,
@@ -857,6 +1372,99 @@ const styles = StyleSheet.create({
     alignSelf: 'center',
     width: '100%',
   },
+  dictationInput: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.textPrimary,
+    backgroundColor: COLORS.white,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.base,
+    paddingVertical: SPACING.md,
+    paddingHorizontal: SPACING.base,
+    marginVertical: SPACING.base,
+    minHeight: 48, // Better touch target
+  },
+  tilesRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+    marginBottom: SPACING.base,
+  },
+  answerLine: {
+    minHeight: 56,
+    paddingBottom: SPACING.sm,
+    borderBottomWidth: 2,
+    borderBottomColor: COLORS.border,
+    alignItems: 'center',
+  },
+  answerHint: {
+    ...TYPOGRAPHY.bodySmall,
+    color: COLORS.textSecondary,
+  },
+  tile: {
+    backgroundColor: COLORS.gray50,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    borderRadius: BORDER_RADIUS.base,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    minHeight: 44, // Better touch target
+    justifyContent: 'center',
+  },
+  tileText: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.textPrimary,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  clozePassage: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    rowGap: SPACING.sm,
+    marginBottom: SPACING.base,
+  },
+  clozeText: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.textPrimary,
+  },
+  clozeBlank: {
+    minWidth: 72,
+    minHeight: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.sm,
+    marginHorizontal: SPACING.xs,
+    backgroundColor: COLORS.blue50,
+    borderBottomWidth: 2,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.sm,
+  },
+  clozeInput: {
+    ...TYPOGRAPHY.body,
+    color: COLORS.textPrimary,
+    textAlign: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  trueFalseCard: {
+    minHeight: 120,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+    marginVertical: SPACING.base,
+    backgroundColor: COLORS.blue50,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.lg,
+  },
+  trueFalseButtons: {
+    flexDirection: 'row',
+    gap: SPACING.md,
+    marginBottom: SPACING.base,
+  },
+  trueFalseButton: {
+    flex: 1,
+  },
   nextButton: {
     backgroundColor: COLORS.primary,
     paddingVertical: SPACING.lg,
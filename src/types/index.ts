@@ -34,6 +34,10 @@ export interface Database {
           cover_image_url: string | null;
           creator_id: string;
           published: boolean;
+          modules_count?: number | null;
+          lessons_per_module?: number | null;
+          pages_per_lesson?: number | null;
+          structure_created?: boolean | null;
           created_at: string;
           updated_at: string;
         };
@@ -44,6 +48,10 @@ export interface Database {
           cover_image_url?: string | null;
           creator_id: string;
           published?: boolean;
+          modules_count?: number | null;
+          lessons_per_module?: number | null;
+          pages_per_lesson?: number | null;
+          structure_created?: boolean | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -52,6 +60,10 @@ export interface Database {
           description?: string | null;
           cover_image_url?: string | null;
           published?: boolean;
+          modules_count?: number | null;
+          lessons_per_module?: number | null;
+          pages_per_lesson?: number | null;
+          structure_created?: boolean | null;
           updated_at?: string;
         };
       };
@@ -114,6 +126,8 @@ export interface Database {
           position: number;
           type: PageType;
           grain_pattern: string[] | null;
+          template_id?: string | null;
+          template_version?: number | null;
           created_at: string;
           updated_at: string;
         };
@@ -126,6 +140,8 @@ export interface Database {
           position: number;
           type: PageType;
           grain_pattern?: string[] | null;
+          template_id?: string | null;
+          template_version?: number | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -136,9 +152,91 @@ export interface Database {
           position?: number;
           type?: PageType;
           grain_pattern?: string[] | null;
+          template_id?: string | null;
+          template_version?: number | null;
           updated_at?: string;
         };
       };
+      page_templates: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          current_version: number;
+          archived: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          current_version?: number;
+          archived?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          archived?: boolean;
+          updated_at?: string;
+        };
+      };
+      page_template_versions: {
+        Row: {
+          id: string;
+          template_id: string;
+          version: number;
+          grain_pattern: GrainType[];
+          slot_hints: (string | null)[] | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          template_id: string;
+          version: number;
+          grain_pattern: GrainType[];
+          slot_hints?: (string | null)[] | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        // Versions are immutable
+        Update: Record<string, never>;
+      };
+      course_publish_overrides: {
+        Row: {
+          id: string;
+          course_id: string;
+          overridden_by: string | null;
+          reason: string;
+          report: unknown;
+          release_id: string | null;
+          created_at: string;
+        };
+        // Written by the override_publish_course function only
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+      };
+      course_releases: {
+        Row: {
+          id: string;
+          course_id: string;
+          version: number;
+          snapshot: CourseSnapshot;
+          notes: string | null;
+          /** Release whose snapshot was restored, for rollbacks */
+          rolled_back_from: string | null;
+          published_by: string | null;
+          created_at: string;
+        };
+        // Releases are immutable and written by publish_course_release / rollback_course_release
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+      };
       grains: {
         Row: {
           id: string;
@@ -185,37 +283,56 @@ export type GrainType =
   | 'textToGuess'
   | 'audioToGuess'
   | 'pairsOfText'
-  | 'pairsOfImage';
+  | 'pairsOfImage'
+  | 'orderWords'
+  | 'audioToType'
+  | 'cloze'
+  | 'trueFalse';
 
 // Grain content types
 export interface TextToCompleteContent {
   phrase: string;
   correctAnswer: string;
-  falseAlternatives: [string, string, string];
+  /** 1-7 distractors */
+  falseAlternatives: string[];
+  /** Other right options, making the grain select-all-that-apply */
+  extraCorrectAnswers?: string[];
 }
 
 export interface TestQuestionContent {
   question: string;
   correctAnswer: string;
-  falseAlternatives: [string, string, string];
+  /** 1-7 distractors */
+  falseAlternatives: string[];
+  /** Other right options, making the grain select-all-that-apply */
+  extraCorrectAnswers?: string[];
 }
 
 export interface ImagesToGuessContent {
   correctImageUrl: string;
-  falseImageUrls: [string, string, string];
+  /** 1-7 distractors */
+  falseImageUrls: string[];
   correctWord: string;
+  /** Other right images, making the grain select-all-that-apply */
+  extraCorrectImageUrls?: string[];
 }
 
 export interface TextToGuessContent {
   imageUrl: string;
   correctAnswer: string;
-  falseAlternatives: [string, string, string];
+  /** 1-7 distractors */
+  falseAlternatives: string[];
+  /** Other right options, making the grain select-all-that-apply */
+  extraCorrectAnswers?: string[];
 }
 
 export interface AudioToGuessContent {
   correctWord: string;
   correctAudioUrl: string;
-  falseAudioUrls: [string, string, string];
+  /** 1-7 distractors */
+  falseAudioUrls: string[];
+  /** Other right audio files, making the grain select-all-that-apply */
+  extraCorrectAudioUrls?: string[];
 }
 
 export interface PairsOfTextContent {
@@ -226,6 +343,58 @@ export interface PairsOfImageContent {
   pairs: Array<{ imageUrl: string; text: string }>;
 }
 
+export interface OrderWordsContent {
+  /** Target sentence; its words are the tiles to put in order */
+  sentence: string;
+  /** Extra tiles that belong in no answer */
+  distractors: string[];
+  /** Other correct orders of the same words */
+  acceptedOrders: string[];
+}
+
+export interface AudioToTypeContent {
+  /** Clip the learner listens to */
+  audioUrl: string;
+  /** What the clip says, as it should be typed */
+  correctAnswer: string;
+  /** Other spellings that also count as correct */
+  acceptedSpellings: string[];
+  /** Tolerance applied when comparing the typed answer */
+  ignoreCase: boolean;
+  ignorePunctuation: boolean;
+  /** Accept the answer typed without accents (`cafe` for `café`) */
+  ignoreAccents: boolean;
+  /** Typos allowed: most single-character edits (Levenshtein distance) */
+  maxDistance: number;
+}
+
+export interface ClozeBlank {
+  /** Accepted answers; the first one is shown as the solution */
+  answers: string[];
+  /** Wrong options offered with the first answer in dropdown mode */
+  options: string[];
+}
+
+export interface ClozeContent {
+  /** Text with `[BLANK:1]`, `[BLANK:2]`... markers, numbered after `blanks` */
+  passage: string;
+  /** Free typing, or a list of options per blank */
+  mode: 'typing' | 'dropdown';
+  blanks: ClozeBlank[];
+}
+
+export interface TrueFalseStatement {
+  text: string;
+  isTrue: boolean;
+  /** Shown once the statement is answered; empty when there is none */
+  explanation: string;
+}
+
+export interface TrueFalseContent {
+  /** 3-8 statements, answered one after another */
+  statements: TrueFalseStatement[];
+}
+
 export type GrainContent = 
   | TextToCompleteContent
   | TestQuestionContent
@@ -233,12 +402,18 @@ export type GrainContent =
   | TextToGuessContent
   | AudioToGuessContent
   | PairsOfTextContent
-  | PairsOfImageContent;
+  | PairsOfImageContent
+  | OrderWordsContent
+  | AudioToTypeContent
+  | ClozeContent
+  | TrueFalseContent;
 
-// Navigation types
+// Navigation types (the routes of the stack navigator in App.tsx)
 export type RootStackParamList = {
   CourseList: undefined;
+  ModernCourseList: undefined; // New modern design
   CourseEdit: { courseId: string | null; refresh?: boolean };
+  CourseBuilder: { courseId: string; refresh?: boolean }; // New improved course builder
   ModuleEdit: { courseId: string; moduleId: string | null; refresh?: boolean };
   LessonEdit: { moduleId: string; lessonId: string | null; refresh?: boolean };
   PageEdit: { lessonId: string; pageId?: string | null; refresh?: boolean };
@@ -250,8 +425,12 @@ export type RootStackParamList = {
     pageType?: PageType;
     refresh?: boolean 
   };
-  PageTest: { pageId: string; pageTitle?: string };
+  ImprovedGrainEdit: { pageId: string; grainId?: string | null; position?: number; expectedGrainType?: string; pageType?: string; refresh?: boolean }; // New improved grain editor
+  PageTest: { pageId: string; pageTitle?: string }; // "Provar Página"
   ProfileEdit: undefined;
+  PageTemplates: undefined; // Admin-only page template editor
+  CourseReleases: { courseId: string }; // Published versions, diff and rollback
+  CourseImport: { courseId?: string }; // Import a course package, as a new course or into courseId
 };
 
 // Auth types
@@ -282,6 +461,95 @@ export interface CourseCompletion {
   grains: { current: number; total: number; percentage: number };
 }
 
+// Course tree types (whole course loaded in a single request)
+type TableRow<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Row'];
+
+export type CompletionStatus = 'empty' | 'partial' | 'complete';
+
+export interface PageNode extends TableRow<'pages'> {
+  grains_count: number;
+  completion_status: CompletionStatus;
+  grains?: TableRow<'grains'>[];
+}
+
+export interface LessonNode extends TableRow<'lessons'> {
+  pages: PageNode[];
+}
+
+export interface ModuleNode extends TableRow<'modules'> {
+  lessons: LessonNode[];
+}
+
+export interface CourseTree extends TableRow<'courses'> {
+  modules: ModuleNode[];
+}
+
+// Published course snapshots (course_releases.snapshot), read by the learner app
+
+export interface GrainSnapshot {
+  id: string;
+  position: number;
+  type: GrainType;
+  content: GrainContent;
+}
+
+export interface PageSnapshot {
+  id: string;
+  position: number;
+  title: string;
+  content: string | null;
+  media_url: string | null;
+  type: PageType;
+  grain_pattern: string[] | null;
+  grains: GrainSnapshot[];
+}
+
+export interface LessonSnapshot {
+  id: string;
+  position: number;
+  title: string;
+  content: string | null;
+  pages: PageSnapshot[];
+}
+
+export interface ModuleSnapshot {
+  id: string;
+  position: number;
+  title: string;
+  lessons: LessonSnapshot[];
+}
+
+export interface CourseSnapshot {
+  /** Version of this shape, bumped on breaking changes */
+  format: number;
+  course: {
+    id: string;
+    title: string;
+    description: string | null;
+    cover_image_url: string | null;
+  };
+  modules: ModuleSnapshot[];
+}
+
+// Portable course packages (see COURSE_PACKAGE_FORMAT.md)
+
+export interface CoursePackageMedia {
+  /** Path inside the course-content bucket */
+  path: string;
+  /** Public URL at export time, as referenced in the content */
+  url: string;
+  /** File next to the package (`media/<path>`), when the media were bundled */
+  file?: string;
+}
+
+export interface CoursePackage extends Omit<CourseSnapshot, 'format'> {
+  format: 'galeguia-course';
+  /** Version of the package shape, bumped on breaking changes */
+  version: number;
+  exported_at: string;
+  media: CoursePackageMedia[];
+}
+
 // UI Component types
 export interface ButtonProps {
   title: string;